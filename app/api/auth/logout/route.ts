@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminSupabase, createRouteSupabase } from "@/lib/supabase-server";
+import { getBearerToken } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = getBearerToken(request.headers.get("authorization"));
+
+    // Token clients have no cookies to clear, so revoke the session behind the token
+    const { error } = token
+      ? await createAdminSupabase().auth.admin.signOut(token, "local")
+      : await createRouteSupabase().auth.signOut();
+
+    if (error) {
+      console.error("Logout error:", error);
+      return NextResponse.json(
+        { error: "Failed to log out" },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRouteSupabase } from "@/lib/supabase-server";
+import { sessionResponse } from "@/lib/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const refreshToken =
+      typeof body?.refreshToken === "string" ? body.refreshToken : undefined;
+
+    const supabase = createRouteSupabase();
+
+    // Without a refresh token in the body, the session cookie is refreshed instead
+    const { data, error } = await supabase.auth.refreshSession(
+      refreshToken ? { refresh_token: refreshToken } : undefined,
+    );
+
+    if (error || !data.session) {
+      return NextResponse.json(
+        { error: "Session expired. Please log in again." },
+        { status: 401 },
+      );
+    }
+
+    return NextResponse.json(await sessionResponse(supabase, data.session), {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Refresh error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRouteSupabase } from "@/lib/supabase-server";
+import { sessionResponse, toApiUser } from "@/lib/auth";
+import { validateRegisterForm } from "@/lib/validation";
+import { PendingConfirmationResponse } from "@/types";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = validateRegisterForm(body);
+
+    if (!validation.isValid || !validation.cleanedData) {
+      return NextResponse.json(
+        { error: Object.values(validation.errors)[0], errors: validation.errors },
+        { status: 400 },
+      );
+    }
+
+    const { email, username, password } = validation.cleanedData;
+    const supabase = createRouteSupabase();
+
+    // Profiles are created by a trigger that fails the whole sign-up on a duplicate username
+    const { data: existingProfile } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("username", username)
+      .maybeSingle();
+
+    if (existingProfile) {
+      return NextResponse.json(
+        { error: "Username is already taken", errors: { username: "Username is already taken" } },
+        { status: 409 },
+      );
+    }
+
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { username },
+      },
+    });
+
+    // With email confirmation on, Supabase hides existing accounts behind a user with no identities
+    if (
+      error?.code === "user_already_exists" ||
+      (data.user && data.user.identities?.length === 0)
+    ) {
+      return NextResponse.json(
+        { error: "An account with this email already exists", errors: { email: "An account with this email already exists" } },
+        { status: 409 },
+      );
+    }
+
+    if (error || !data.user) {
+      return NextResponse.json(
+        { error: error?.message || "Registration failed" },
+        { status: 400 },
+      );
+    }
+
+    if (!data.session) {
+      const pending: PendingConfirmationResponse = {
+        user: toApiUser(data.user, username),
+        confirmationRequired: true,
+      };
+      return NextResponse.json(pending, { status: 202 });
+    }
+
+    return NextResponse.json(await sessionResponse(supabase, data.session), {
+      status: 201,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Registration error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getBearerToken } from "@/lib/auth";
+import { runScheduledJobs } from "@/lib/jobs";
+
+// Both sides are hashed first, so timingSafeEqual gets buffers of equal length
+// and the comparison gives away neither the secret's contents nor its length
+const sha256 = (value: string) => createHash("sha256").update(value).digest();
+
+// Opens and closes scheduled polls and sends due webhook deliveries.
+// Meant to be called every minute by a scheduler holding CRON_SECRET.
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const token = getBearerToken(req.headers.get("authorization"));
+
+  if (!secret || !token || !timingSafeEqual(sha256(token), sha256(secret))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const jobs = await runScheduledJobs();
+  const failed = jobs.some((job) => !job.ok);
+
+  return NextResponse.json({ jobs }, { status: failed ? 500 : 200 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, revokeApiKey } from "@/lib/database";
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    const revoked = await revokeApiKey(params.id, user.id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "API key not found or already revoked" }, { status: 404 });
+    }
+
+    return NextResponse.json({ key: revoked });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while revoking the API key." }, { status: 500 });
+  }
+}
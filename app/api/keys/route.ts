@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, createApiKey, getApiKeys } from "@/lib/database";
+import { validateCreateApiKeyForm } from "@/lib/validation";
+
+export async function GET() {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    const keys = await getApiKeys(user.id);
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching API keys." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateCreateApiKeyForm(body);
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const created = await createApiKey(user.id, validation.cleanedData);
+    return NextResponse.json(created, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "KEY_LIMIT") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while creating the API key." }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { createServerSupabase } from "@/lib/supabase-server";
+import { AnalyticsBucket } from "@/types/database";
+import { DatabaseError, getPollAnalytics } from "@/lib/database";
+import { ANALYTICS_BUCKETS, defaultRangeStart } from "@/lib/analytics";
+import { NextRequest, NextResponse } from "next/server";
+
+const parseDate = (value: string | null): Date | null | undefined => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const bucket = (searchParams.get("bucket") || "day") as AnalyticsBucket;
+  const from = parseDate(searchParams.get("from"));
+  const to = parseDate(searchParams.get("to"));
+
+  if (!ANALYTICS_BUCKETS.includes(bucket)) {
+    return NextResponse.json({ error: `Bucket must be one of: ${ANALYTICS_BUCKETS.join(", ")}` }, { status: 400 });
+  }
+
+  if (from === undefined || to === undefined) {
+    return NextResponse.json({ error: "From and to must be valid dates" }, { status: 400 });
+  }
+
+  if (from && to && from > to) {
+    return NextResponse.json({ error: "From must be before to" }, { status: 400 });
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, creator_id")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== user.id) {
+    return NextResponse.json({ error: "Only the poll creator can view analytics" }, { status: 403 });
+  }
+
+  try {
+    const analytics = await getPollAnalytics(poll.id, {
+      bucket,
+      from: from ?? defaultRangeStart(bucket, to ?? undefined),
+      to,
+    });
+
+    return NextResponse.json(analytics, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error fetching poll analytics:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching analytics." }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, deletePollComment, editPollComment } from "@/lib/database";
+import { validateEditPollCommentForm } from "@/lib/validation";
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; commentId: string } },
+) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateEditPollCommentForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  try {
+    // RLS only lets authors edit, so other callers see a missing comment
+    const comment = await editPollComment(params.commentId, params.id, validation.cleanedData);
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ comment });
+  } catch (error) {
+    console.error("Error editing comment:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while editing the comment." }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; commentId: string } },
+) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const { data: comment } = await supabase
+    .from("poll_comments")
+    .select("id")
+    .eq("id", params.commentId)
+    .eq("poll_id", params.id)
+    .maybeSingle();
+
+  if (!comment) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+
+  try {
+    await deletePollComment(params.commentId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+      }
+      if (error.code === "42501") {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while deleting the comment." }, { status: 500 });
+  }
+}
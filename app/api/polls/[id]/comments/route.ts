@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, createPollComment, getPollComments } from "@/lib/database";
+import { validateCreatePollCommentForm } from "@/lib/validation";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // RLS hides the comments of polls the caller cannot view
+    const comments = await getPollComments(params.id);
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching comments." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to join the discussion." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateCreatePollCommentForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, status")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.status === "draft") {
+    return NextResponse.json({ error: "Comments open once the poll is published" }, { status: 400 });
+  }
+
+  try {
+    const comment = await createPollComment(params.id, user.id, validation.cleanedData);
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    console.error("Error posting comment:", error);
+    if (error instanceof DatabaseError) {
+      // RLS rejections here mean the parent comment is gone or belongs elsewhere
+      if (error.code === "42501") {
+        return NextResponse.json({ error: "The comment you are replying to is no longer available" }, { status: 400 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while posting the comment." }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { createServerSupabase } from "@/lib/supabase-server";
+import { ExportDataset, ExportFormat, VoteExportRow } from "@/types/database";
+import { DatabaseError, getPollResults, streamPollVotes } from "@/lib/database";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  createExportStream,
+  toVoteExportRows,
+} from "@/lib/export";
+import { generateSlug } from "@/lib/utils";
+import { NextRequest, NextResponse } from "next/server";
+
+// Keys voter identities; falls back to the service key so exports never use an empty secret
+const VOTER_KEY_SECRET =
+  process.env.EXPORT_VOTER_KEY_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const format = (searchParams.get("format") || "csv") as ExportFormat;
+  const dataset = (searchParams.get("dataset") || "votes") as ExportDataset;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  if (dataset !== "results" && dataset !== "votes") {
+    return NextResponse.json({ error: "Dataset must be results or votes" }, { status: 400 });
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, title, creator_id, options:poll_options(id, text)")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  // Same rule as the "Poll creators can view their poll analytics" policy
+  if (poll.creator_id !== user.id) {
+    return NextResponse.json({ error: "Only the poll creator can export this poll" }, { status: 403 });
+  }
+
+  const pollId = poll.id;
+
+  try {
+    const results = await getPollResults(pollId);
+    const optionTexts = Object.fromEntries(
+      (poll.options || []).map((option: { id: string; text: string }) => [option.id, option.text]),
+    );
+
+    async function* votePages(): AsyncGenerator<VoteExportRow[]> {
+      for await (const votes of streamPollVotes(pollId)) {
+        yield toVoteExportRows(pollId, votes, optionTexts, VOTER_KEY_SECRET);
+      }
+    }
+
+    const stream = createExportStream(format, dataset, results, votePages());
+    const suffix = format === "csv" ? `-${dataset}` : "";
+    const filename = `${generateSlug(poll.title) || "poll"}${suffix}.${format}`;
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting poll:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while exporting the poll." }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { createServerSupabase } from "@/lib/supabase-server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { DatabaseError, processWebhookDeliveries } from "@/lib/database";
+import { MAX_IMPORTED_BALLOTS, validateBallotCsvImportForm } from "@/lib/validation";
+import { parseBallotCsv, summariseBallotCsvImport } from "@/lib/ballot-import";
+import { hashVoteImportRequest, importVotes, voteErrorStatus } from "@/lib/votes";
+
+// Imports paper ballots from a CSV. Without commit the ballots are only checked,
+// so the creator can preview what the import would add to the results.
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateBallotCsvImportForm(body);
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const { csv, commit = false } = validation.cleanedData;
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, poll_type, creator_id, options:poll_options(id, text, order_index)")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== user.id) {
+    return NextResponse.json({ error: "Only the poll creator can import ballots" }, { status: 403 });
+  }
+
+  const ballotPoll = {
+    poll_type: poll.poll_type,
+    options: [...(poll.options || [])].sort(
+      (a: { order_index: number }, b: { order_index: number }) => a.order_index - b.order_index,
+    ),
+  };
+
+  // Ballots without a ballot_id column are numbered per import, so separate batches
+  // that happen to read the same never clash, in this poll or another
+  const fileKey = (await hashVoteImportRequest(`${poll.id}:${crypto.randomUUID()}:${csv}`)).slice(0, 12);
+  const parsed = parseBallotCsv(csv, ballotPoll, fileKey);
+  const rows = parsed.ballots.length + parsed.failures.length;
+
+  if (rows === 0) {
+    return NextResponse.json({ error: "The CSV has no ballots below its header row" }, { status: 400 });
+  }
+
+  if (rows > MAX_IMPORTED_BALLOTS) {
+    return NextResponse.json(
+      { error: `An import can have at most ${MAX_IMPORTED_BALLOTS} ballots` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result =
+      parsed.ballots.length > 0
+        ? await importVotes(poll.id, user.id, parsed.ballots, { dryRun: !commit })
+        : { processed: 0, failed: 0, failures: [] };
+
+    if (commit && result.processed > 0) {
+      after(() => processWebhookDeliveries().catch((error) => console.error("Error delivering webhooks:", error)));
+    }
+
+    return NextResponse.json(summariseBallotCsvImport(parsed, result, ballotPoll, commit));
+  } catch (error) {
+    console.error("Error importing ballots:", error);
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: error.message }, { status: voteErrorStatus(error) });
+    }
+
+    return NextResponse.json({ error: "An unexpected error occurred while importing ballots." }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, revokePollInvite } from "@/lib/database";
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; inviteId: string } },
+) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    // RLS only lets the creator revoke, so other callers see a missing invite
+    const revoked = await revokePollInvite(params.inviteId, params.id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Invite link not found or already revoked" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking invite:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while revoking the invite link." }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, createPollInvite, getPollInvites } from "@/lib/database";
+import { validateCreatePollInviteForm } from "@/lib/validation";
+
+// Invite links are managed by the poll's creator, and only for private polls
+async function checkInvitablePoll(
+  supabase: ReturnType<typeof createServerSupabase>,
+  pollId: string,
+  userId: string,
+): Promise<NextResponse | null> {
+  const { data: poll, error } = await supabase
+    .from("polls")
+    .select("id, creator_id, is_public")
+    .eq("id", pollId)
+    .single();
+
+  if (error || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== userId) {
+    return NextResponse.json({ error: "Only the poll creator can manage its invite links" }, { status: 403 });
+  }
+
+  if (poll.is_public) {
+    return NextResponse.json(
+      { error: "Public polls can be shared with their normal link; invite links are for private polls" },
+      { status: 400 },
+    );
+  }
+
+  return null;
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const pollError = await checkInvitablePoll(supabase, params.id, user.id);
+  if (pollError) return pollError;
+
+  try {
+    const invites = await getPollInvites(params.id);
+    return NextResponse.json({ invites });
+  } catch (error) {
+    console.error("Error fetching invites:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching invite links." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateCreatePollInviteForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const pollError = await checkInvitablePoll(supabase, params.id, user.id);
+  if (pollError) return pollError;
+
+  try {
+    const created = await createPollInvite(params.id, user.id, validation.cleanedData);
+    return NextResponse.json(created, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error creating invite:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "INVITE_LIMIT") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while creating the invite link." }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, processWebhookDeliveries, publishPoll } from "@/lib/database";
+import { NextRequest, NextResponse, after } from "next/server";
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  // Drafts are only visible to their creator, so anyone else gets a 404
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, creator_id, status, expires_at")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== user.id) {
+    return NextResponse.json({ error: "Only the poll creator can publish this poll" }, { status: 403 });
+  }
+
+  if (poll.status !== "draft") {
+    return NextResponse.json({ error: "Poll is already published" }, { status: 409 });
+  }
+
+  if (poll.expires_at && new Date(poll.expires_at) <= new Date()) {
+    return NextResponse.json(
+      { error: "Set an expiration date in the future before publishing" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const publishedPoll = await publishPoll(params.id);
+    // Send the poll.created events queued by publishing once the response is out
+    after(() => processWebhookDeliveries().catch((error) => console.error("Error delivering webhooks:", error)));
+    return NextResponse.json({ success: true, poll: publishedPoll });
+  } catch (error) {
+    console.error("Error publishing poll:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while publishing the poll." }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, getFlaggedBallots, reviewQuarantinedVotes } from "@/lib/database";
+import { validateReviewQuarantinedVotesForm } from "@/lib/validation";
+
+// Lists the poll's ballots flagged by the fraud checks, for its creator to review
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    const ballots = await getFlaggedBallots(params.id);
+    return NextResponse.json({ ballots });
+  } catch (error) {
+    console.error("Error fetching flagged ballots:", error);
+    if (error instanceof DatabaseError) {
+      // Raised for unknown polls and for users who did not create the poll
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching flagged ballots." }, { status: 500 });
+  }
+}
+
+// Accepts or rejects held votes; accepted ones start counting towards the results
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateReviewQuarantinedVotesForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const { vote_ids, status } = validation.cleanedData;
+
+  try {
+    const reviewed = await reviewQuarantinedVotes(params.id, vote_ids, status === "accepted");
+    return NextResponse.json({ reviewed });
+  } catch (error) {
+    console.error("Error reviewing votes:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while reviewing votes." }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { createServerSupabase } from "@/lib/supabase-server";
+import { EditPollForm } from "@/types/database";
+import {
+  DatabaseError,
+  POLL_EDIT_CONFIRM_CODE,
+  POLL_EDIT_LOCKED_CODE,
+  editPoll,
+} from "@/lib/database";
+import { validateEditPollForm } from "@/lib/validation";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, creator_id")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== user.id) {
+    return NextResponse.json({ error: "Only the poll creator can edit this poll" }, { status: 403 });
+  }
+
+  const formData: EditPollForm | null = await req.json().catch(() => null);
+
+  if (!formData || typeof formData !== "object" || Array.isArray(formData)) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validation = validateEditPollForm(formData);
+
+  if (!validation.isValid) {
+    const firstError = Object.values(validation.errors)[0];
+    return NextResponse.json({ error: firstError }, { status: 400 });
+  }
+
+  try {
+    const updatedPoll = await editPoll(params.id, validation.cleanedData!);
+    return NextResponse.json({ success: true, poll: updatedPoll });
+  } catch (error) {
+    console.error("Error editing poll:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === POLL_EDIT_CONFIRM_CODE || error.code === POLL_EDIT_LOCKED_CODE) {
+        return NextResponse.json(
+          {
+            error: error.message.replace("Failed to edit poll: ", ""),
+            requiresConfirmation: error.code === POLL_EDIT_CONFIRM_CODE,
+          },
+          { status: 409 },
+        );
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while editing the poll." }, { status: 500 });
+  }
+}
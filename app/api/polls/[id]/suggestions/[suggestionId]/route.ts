@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, reviewOptionSuggestion } from "@/lib/database";
+import { validateReviewOptionSuggestionForm } from "@/lib/validation";
+import { castSuggestionVote } from "@/lib/votes";
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; suggestionId: string } },
+) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateReviewOptionSuggestionForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  // Creators can see every suggestion on their polls, so anyone else gets a 404
+  const { data: existing } = await supabase
+    .from("poll_option_suggestions")
+    .select("id")
+    .eq("id", params.suggestionId)
+    .eq("poll_id", params.id)
+    .maybeSingle();
+
+  if (!existing) {
+    return NextResponse.json({ error: "Suggestion not found" }, { status: 404 });
+  }
+
+  try {
+    const suggestion = await reviewOptionSuggestion(
+      params.suggestionId,
+      validation.cleanedData.status === "approved",
+    );
+
+    // The approval stands even if the suggester's vote is turned down
+    await castSuggestionVote(suggestion).catch((error) =>
+      console.error("Error casting suggestion vote:", error),
+    );
+
+    return NextResponse.json({ suggestion });
+  } catch (error) {
+    console.error("Error reviewing suggestion:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "P0002") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.code === "23505" || error.code === "23514") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while reviewing the suggestion." }, { status: 500 });
+  }
+}
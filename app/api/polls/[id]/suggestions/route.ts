@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import {
+  DatabaseError,
+  createOptionSuggestion,
+  getOptionSuggestions,
+} from "@/lib/database";
+import { getPollStatus } from "@/lib/vote-rules";
+import {
+  validateCreateOptionSuggestionForm,
+  validateOptionSuggestion,
+} from "@/lib/validation";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    // RLS gives creators every suggestion and everyone else their own
+    const suggestions = await getOptionSuggestions(params.id);
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error("Error fetching suggestions:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching suggestions." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to suggest an option." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateCreateOptionSuggestionForm(body ?? {});
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from("polls")
+    .select("id, allow_suggestions, status, opens_at, expires_at, poll_type, options:poll_options(text)")
+    .eq("id", params.id)
+    .single();
+
+  if (pollError || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (!poll.allow_suggestions) {
+    return NextResponse.json({ error: "This poll does not take suggestions" }, { status: 400 });
+  }
+
+  const status = getPollStatus(poll);
+  if (status === "draft" || status === "closed") {
+    return NextResponse.json({ error: "This poll is not taking suggestions" }, { status: 400 });
+  }
+
+  const fit = validateOptionSuggestion(
+    (poll.options || []).map((option: { text: string }) => option.text),
+    validation.cleanedData.text,
+  );
+
+  if (!fit.isValid) {
+    return NextResponse.json({ error: fit.error }, { status: 409 });
+  }
+
+  try {
+    const suggestion = await createOptionSuggestion(params.id, user.id, {
+      ...validation.cleanedData,
+      // Other ballots are cast whole, so a single pick cannot be added for the suggester
+      auto_vote: validation.cleanedData.auto_vote && poll.poll_type === "choice",
+    });
+    return NextResponse.json({ suggestion }, { status: 201 });
+  } catch (error) {
+    console.error("Error suggesting option:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "This option has already been suggested" }, { status: 409 });
+      }
+      if (error.code === "23514") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while suggesting the option." }, { status: 500 });
+  }
+}
@@ -1,22 +1,34 @@
 import { createServerSupabase } from "@/lib/supabase-server";
-import { VoteForm, Vote } from "@/types/database";
-import { DatabaseError } from "@/lib/database";
+import { VoteForm } from "@/types/database";
+import {
+  DatabaseError,
+  VOTER_NOT_ALLOWED_CODE,
+  getPollResults,
+  processWebhookDeliveries,
+} from "@/lib/database";
+import { castVote, voteErrorStatus } from "@/lib/votes";
+import { validateVoteForm } from "@/lib/validation";
+import { FINGERPRINT_HEADER } from "@/lib/invites";
+import {
+  ANONYMOUS_VOTER_COOKIE,
+  ANONYMOUS_VOTER_COOKIE_MAX_AGE,
+  createAnonymousVoterToken,
+  getClientIp,
+  getUserAgent,
+  verifyAnonymousVoterToken,
+} from "@/lib/anonymous-voters";
 import { Redis } from "ioredis";
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 
-// Redis client for caching and rate limiting
+// Redis client for rate limiting
 const redis = new Redis(process.env.REDIS_URL || "redis://localhost:6379");
 
 // Rate limiting constants
 const RATE_LIMIT_WINDOW = 60; // 1 minute
 const RATE_LIMIT_MAX_VOTES = 10; // Max votes per user per minute
 
-interface OptimizedVoteResult {
-  success: boolean;
-  votes?: Vote[];
-  error?: string;
-  rateLimited?: boolean;
-}
+// Signs guests' voter cookies; guests cannot vote without it
+const ANONYMOUS_VOTER_SECRET = process.env.ANONYMOUS_VOTER_SECRET;
 
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
   const supabase = createServerSupabase();
@@ -25,62 +37,95 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
     data: { user },
   } = await supabase.auth.getUser();
 
-  const fingerprint = req.headers.get("x-fingerprint") || undefined;
-
-  const voteData: VoteForm = await req.json();
+  // Guests are known by the voter id in their signed cookie, issued on their first vote
+  let voterId: string | null = null;
+  let newVoterToken: string | null = null;
+  if (!user) {
+    if (!ANONYMOUS_VOTER_SECRET) {
+      console.error("ANONYMOUS_VOTER_SECRET is not set; guest votes are turned away");
+      return NextResponse.json({ error: "Anonymous voting is not available" }, { status: 500 });
+    }
 
-  if (voteData.poll_id !== params.id) {
-    return NextResponse.json({ error: "Poll ID mismatch" }, { status: 400 });
+    voterId = await verifyAnonymousVoterToken(req.cookies.get(ANONYMOUS_VOTER_COOKIE)?.value, ANONYMOUS_VOTER_SECRET);
+    if (!voterId) {
+      ({ voterId, token: newVoterToken } = await createAnonymousVoterToken(ANONYMOUS_VOTER_SECRET));
+    }
   }
 
+  const ipAddress = getClientIp(req.headers);
+  const voter = {
+    userId: user?.id,
+    fingerprint: voterId || undefined,
+    ipAddress,
+    userAgent: getUserAgent(req.headers),
+    // Matches the vote to the voter's poll view for the fraud checks
+    viewerFingerprint: req.headers.get(FINGERPRINT_HEADER),
+  };
+
   const startTime = Date.now();
 
   try {
-    // 1. Rate Limiting Check
-    const rateLimitResult = await checkRateLimit(user?.id, fingerprint);
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json({ error: `Rate limit exceeded. Try again in ${rateLimitResult.retryAfter} seconds.`, rateLimited: true }, { status: 429 });
+    const validation = validateVoteForm(await req.json().catch(() => null));
+    if (!validation.isValid || !validation.cleanedData) {
+      return NextResponse.json(
+        { error: Object.values(validation.errors)[0], errors: validation.errors },
+        { status: 400 },
+      );
     }
 
-    // 2. Get cached poll data or fetch from DB
-    const poll = await getCachedPoll(voteData.poll_id);
-    if (!poll) {
-      return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+    const voteData: VoteForm = validation.cleanedData;
+    if (voteData.poll_id !== params.id) {
+      return NextResponse.json({ error: "Poll ID mismatch" }, { status: 400 });
     }
 
-    // 3. Validate poll state
-    const validationResult = validatePollForVoting(poll);
-    if (!validationResult.valid) {
-      return NextResponse.json({ error: validationResult.error }, { status: 400 });
+    // 1. Rate Limiting Check
+    // Guests can drop their cookie, so they are limited by address, or share
+    // the anonymous bucket where it is unknown
+    const rateLimitKey = user?.id || ipAddress;
+    const rateLimitResult = await checkRateLimit(rateLimitKey);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json({ error: `Rate limit exceeded. Try again in ${rateLimitResult.retryAfter} seconds.`, rateLimited: true }, { status: 429 });
     }
 
-    // 4. Check existing votes with optimistic approach
-    const existingVotes = await getExistingVotes(voteData.poll_id, user?.id, fingerprint);
-
-    if (!poll.allow_multiple_votes && existingVotes.length > 0) {
-      // Use atomic update instead of delete + insert
-      const result = await replaceExistingVote(voteData, user?.id, fingerprint, existingVotes[0]);
-      return NextResponse.json({ success: true, votes: result });
-    }
+    // 2. Check the vote against the poll's rules, score it for fraud and insert it.
+    // The poll is read as the voter, since the insert skips RLS.
+    const result = await castVote(voteData, voter);
 
-    // 5. Insert votes with batch processing
-    const result = await insertVotesWithRetry(voteData, user?.id, fingerprint);
+    // 3. Update rate limiting counter
+    await updateRateLimit(rateLimitKey);
 
-    // 6. Update rate limiting counter
-    await updateRateLimit(user?.id, fingerprint);
+    // 4. Send the webhook events queued by the new ballot once the response is out
+    after(() => processWebhookDeliveries().catch((error) => console.error("Error delivering webhooks:", error)));
 
-    // 7. Invalidate relevant caches asynchronously
-    invalidatePollCaches(voteData.poll_id).catch(console.error);
+    const results = await getPollResults(voteData.poll_id);
 
     console.log(`Vote processed in ${Date.now() - startTime}ms`);
 
-    return NextResponse.json({ success: true, votes: result });
+    const response = NextResponse.json({ success: true, votes: result, results });
+
+    // Only guests whose vote went through keep a new voter id
+    if (newVoterToken) {
+      response.cookies.set(ANONYMOUS_VOTER_COOKIE, newVoterToken, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: ANONYMOUS_VOTER_COOKIE_MAX_AGE,
+        path: "/",
+      });
+    }
+
+    return response;
 
   } catch (error) {
     console.error("Error in castVoteOptimized:", error);
 
+    // The allowlist may also have changed between castVote's check and the insert
+    if (error instanceof DatabaseError && error.code === VOTER_NOT_ALLOWED_CODE) {
+      return NextResponse.json({ error: voterNotAllowedError(!!user) }, { status: 403 });
+    }
+
     if (error instanceof DatabaseError) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
+      return NextResponse.json({ error: error.message }, { status: voteErrorStatus(error) });
     }
 
     return NextResponse.json({ error: "An unexpected error occurred while processing your vote." }, { status: 500 });
@@ -90,11 +135,8 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
 
 // Helper functions for optimization
 
-async function checkRateLimit(
-  userId?: string,
-  fingerprint?: string,
-): Promise<{ allowed: boolean; retryAfter?: number }> {
-  const identifier = userId || fingerprint || "anonymous";
+async function checkRateLimit(voterKey?: string | null): Promise<{ allowed: boolean; retryAfter?: number }> {
+  const identifier = voterKey || "anonymous";
   const key = `rate_limit:vote:${identifier}`;
 
   try {
@@ -113,8 +155,8 @@ async function checkRateLimit(
   }
 }
 
-async function updateRateLimit(userId?: string, fingerprint?: string): Promise<void> {
-  const identifier = userId || fingerprint || "anonymous";
+async function updateRateLimit(voterKey?: string | null): Promise<void> {
+  const identifier = voterKey || "anonymous";
   const key = `rate_limit:vote:${identifier}`;
 
   try {
@@ -127,162 +169,8 @@ async function updateRateLimit(userId?: string, fingerprint?: string): Promise<v
   }
 }
 
-async function getCachedPoll(pollId: string): Promise<any> {
-  const cacheKey = `poll:${pollId}`;
-
-  try {
-    const cached = await redis.get(cacheKey);
-    if (cached) {
-      return JSON.parse(cached);
-    }
-  } catch (error) {
-    console.error("Cache get failed:", error);
-  }
-
-  // Fetch from database
-  const supabase = createServerSupabase();
-  const { data: poll, error } = await supabase
-    .from("polls")
-    .select("id, allow_multiple_votes, expires_at, is_public")
-    .eq("id", pollId)
-    .single();
-
-  if (error) {
-    throw new DatabaseError(`Failed to fetch poll: ${error.message}`, error.code);
-  }
-
-  // Cache for 5 minutes
-  try {
-    await redis.setex(cacheKey, 300, JSON.stringify(poll));
-  } catch (error) {
-    console.error("Cache set failed:", error);
-  }
-
-  return poll;
-}
-
-function validatePollForVoting(poll: any): { valid: boolean; error?: string } {
-  if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-    return { valid: false, error: "Poll has expired" };
-  }
-
-  return { valid: true };
-}
-
-async function getExistingVotes(
-  pollId: string,
-  userId?: string,
-  fingerprint?: string,
-): Promise<Vote[]> {
-  const supabase = createServerSupabase();
-
-  let query = supabase
-    .from("votes")
-    .select("*")
-    .eq("poll_id", pollId);
-
-  if (userId) {
-    query = query.eq("user_id", userId);
-  } else if (fingerprint) {
-    query = query.eq("voter_fingerprint", fingerprint);
-  } else {
-    return [];
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    throw new DatabaseError(`Failed to fetch existing votes: ${error.message}`, error.code);
-  }
-
-  return data || [];
-}
-
-async function replaceExistingVote(
-  voteData: VoteForm,
-  userId?: string,
-  fingerprint?: string,
-  existingVote: Vote,
-): Promise<Vote[]> {
-  const supabase = createServerSupabase();
-
-  // Use atomic update with version checking
-  const newVoteData = {
-    option_id: voteData.option_ids[0], // Take first option for single vote
-    updated_at: new Date().toISOString(),
-  };
-
-  const { data, error } = await supabase
-    .from("votes")
-    .update(newVoteData)
-    .eq("id", existingVote.id)
-    .select();
-
-  if (error) {
-    throw new DatabaseError(`Failed to update vote: ${error.message}`, error.code);
-  }
-
-  return data || [];
-}
-
-async function insertVotesWithRetry(
-  voteData: VoteForm,
-  userId?: string,
-  fingerprint?: string,
-  maxRetries: number = 3,
-): Promise<Vote[]> {
-  const supabase = createServerSupabase();
-
-  const votesToInsert = voteData.option_ids.map((optionId) => ({
-    poll_id: voteData.poll_id,
-    option_id: optionId,
-    user_id: userId || null,
-    voter_fingerprint: fingerprint || null,
-    created_at: new Date().toISOString(),
-  }));
-
-  let lastError: any;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const { data, error } = await supabase
-        .from("votes")
-        .insert(votesToInsert)
-        .select();
-
-      if (error) {
-        throw new DatabaseError(`Failed to insert votes: ${error.message}`, error.code);
-      }
-
-      return data || [];
-
-    } catch (error) {
-      lastError = error;
-
-      if (attempt < maxRetries) {
-        // Exponential backoff
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  throw lastError;
+function voterNotAllowedError(isAuthenticated: boolean): string {
+  return isAuthenticated
+    ? "Only invited voters can vote on this poll, and your verified email address is not on the list"
+    : "Only invited voters can vote on this poll. Please log in with an invited email address.";
 }
-
-async function invalidatePollCaches(pollId: string): Promise<void> {
-  try {
-    const keys = [
-      `poll:${pollId}`,
-      `poll_results:${pollId}`,
-      `poll_stats:${pollId}`,
-    ];
-
-    await redis.del(...keys);
-  } catch (error) {
-    console.error("Cache invalidation failed:", error);
-  }
-}
\ No newline at end of file
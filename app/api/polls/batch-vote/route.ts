@@ -1,57 +1,105 @@
-
 import { createServerSupabase } from "@/lib/supabase-server";
-import { NextRequest, NextResponse } from "next/server";
-
-interface BatchVoteData {
-  pollId: string;
-  votes: Array<{
-    optionId: string;
-    userId?: string;
-    fingerprint?: string;
-  }>;
-}
+import { NextRequest, NextResponse, after } from "next/server";
+import { DatabaseError, processWebhookDeliveries } from "@/lib/database";
+import { API_KEY_SCOPES_HEADER, hasApiKeyScope } from "@/lib/api-keys";
+import { validateBatchVoteForm } from "@/lib/validation";
+import {
+  abandonVoteImport,
+  claimVoteImport,
+  completeVoteImport,
+  hashVoteImportRequest,
+  importVotes,
+  voteErrorStatus,
+} from "@/lib/votes";
 
+// Imports ballots collected outside the app, such as on paper. Only API keys
+// with the votes:import scope are accepted, and only for the key owner's polls.
 export async function POST(req: NextRequest) {
+  if (!hasApiKeyScope(req.headers.get(API_KEY_SCOPES_HEADER), "votes:import")) {
+    return NextResponse.json(
+      { error: 'Ballots can only be imported with an API key that has the "votes:import" scope' },
+      { status: 401 },
+    );
+  }
+
   const supabase = createServerSupabase();
-  const batchData: BatchVoteData = await req.json();
-  const errors: string[] = [];
-  let processed = 0;
-  let failed = 0;
 
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+
+  const idempotencyKey = req.headers.get("idempotency-key")?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > 255) {
+    return NextResponse.json({ error: "Idempotency-Key must be 255 characters or less" }, { status: 400 });
+  }
+
+  const rawBody = await req.text();
+  let body: unknown = null;
   try {
-    // Process in chunks of 100 to avoid overwhelming the database
-    const CHUNK_SIZE = 100;
-    const chunks = [];
+    body = JSON.parse(rawBody);
+  } catch {
+    // Reported by the validation below
+  }
 
-    for (let i = 0; i < batchData.votes.length; i += CHUNK_SIZE) {
-      chunks.push(batchData.votes.slice(i, i + CHUNK_SIZE));
-    }
+  const validation = validateBatchVoteForm(body);
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const { pollId, votes } = validation.cleanedData;
+  let importId: string | null = null;
 
-    for (const chunk of chunks) {
-      const votesToInsert = chunk.map((vote) => ({
-        poll_id: batchData.pollId,
-        option_id: vote.optionId,
-        user_id: vote.userId || null,
-        voter_fingerprint: vote.fingerprint || null,
-        created_at: new Date().toISOString(),
-      }));
-
-      const { data, error } = await supabase
-        .from("votes")
-        .insert(votesToInsert)
-        .select();
-
-      if (error) {
-        errors.push(`Batch error: ${error.message}`);
-        failed += chunk.length;
-      } else {
-        processed += data?.length || 0;
+  try {
+    // A retry with the same key gets the first run's result instead of a second import
+    if (idempotencyKey) {
+      const claim = await claimVoteImport(pollId, user.id, idempotencyKey, await hashVoteImportRequest(rawBody));
+
+      if (claim.status === "completed") {
+        return NextResponse.json(claim.result, { headers: { "Idempotent-Replayed": "true" } });
+      }
+      if (claim.status === "running") {
+        return NextResponse.json({ error: "An import with this Idempotency-Key is still running" }, { status: 409 });
+      }
+      if (claim.status === "mismatch") {
+        return NextResponse.json(
+          { error: "This Idempotency-Key was already used for a different import" },
+          { status: 422 },
+        );
       }
+      importId = claim.id;
     }
 
-    return NextResponse.json({ processed, failed, errors });
+    const result = await importVotes(pollId, user.id, votes);
 
+    if (importId) {
+      await completeVoteImport(importId, result);
+    }
+
+    if (result.processed > 0) {
+      after(() => processWebhookDeliveries().catch((error) => console.error("Error delivering webhooks:", error)));
+    }
+
+    return NextResponse.json(result);
   } catch (error) {
-    return NextResponse.json({ processed: 0, failed: batchData.votes.length, errors: [`Batch processing failed: ${error}`] }, { status: 500 });
+    console.error("Error importing votes:", error);
+
+    if (importId) {
+      await abandonVoteImport(importId).catch((abandonError) =>
+        console.error("Error abandoning vote import:", abandonError),
+      );
+    }
+
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: error.message }, { status: voteErrorStatus(error) });
+    }
+
+    return NextResponse.json({ error: "An unexpected error occurred while importing votes." }, { status: 500 });
   }
 }
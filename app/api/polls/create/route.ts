@@ -1,9 +1,9 @@
 
 import { createServerSupabase } from "@/lib/supabase-server";
 import { CreatePollForm, Poll } from "@/types/database";
-import { DatabaseError, createPoll } from "@/lib/database";
+import { DatabaseError, createPoll, processWebhookDeliveries } from "@/lib/database";
 import { validateCreatePollForm } from "@/lib/validation";
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 
 export async function POST(req: NextRequest) {
   const supabase = createServerSupabase();
@@ -28,6 +28,8 @@ export async function POST(req: NextRequest) {
 
   try {
     const newPoll = await createPoll(validatedData, user.id);
+    // Send the poll.created events queued with the poll once the response is out
+    after(() => processWebhookDeliveries().catch((error) => console.error("Error delivering webhooks:", error)));
     return NextResponse.json({ success: true, poll: newPoll }, { status: 201 });
   } catch (error) {
     console.error("Error in createPollAction:", error);
@@ -1,7 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { createServerSupabase } from "@/lib/supabase-server";
-import { createPoll, getPolls, DatabaseError } from "@/lib/database";
+import {
+  createPoll,
+  getPollsPage,
+  DatabaseError,
+  processWebhookDeliveries,
+} from "@/lib/database";
 import { CreatePollForm } from "@/types/database";
+import { pollTagSchema, validateCreatePollForm } from "@/lib/validation";
+import { isPollOrderField } from "@/lib/pagination";
 
 export async function GET(request: NextRequest) {
   const supabase = createServerSupabase();
@@ -10,72 +17,108 @@ export async function GET(request: NextRequest) {
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-    const search = searchParams.get("search") || undefined;
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "10") || 10, 1),
+      100,
+    );
+    // Opaque cursor from a previous response's nextCursor; replaces page
+    const cursor = searchParams.get("cursor") || undefined;
+    const search = searchParams.get("search")?.trim() || undefined;
     const userId = searchParams.get("userId") || undefined;
     const isPublic = searchParams.get("isPublic")
       ? searchParams.get("isPublic") === "true"
       : undefined;
-    const orderBy = (searchParams.get("orderBy") || "created_at") as
-      | "created_at"
-      | "updated_at"
-      | "title";
-    const orderDirection = (searchParams.get("orderDirection") || "desc") as
-      | "asc"
-      | "desc";
+    // RLS limits drafts to the caller's own polls
+    const includeDrafts = searchParams.get("includeDrafts") === "true";
+    const tagParam = searchParams.get("tag");
+    const orderBy = searchParams.get("orderBy") || "created_at";
+    const orderDirection = searchParams.get("orderDirection") || "desc";
+
+    if (!isPollOrderField(orderBy)) {
+      return NextResponse.json({ error: "Invalid orderBy" }, { status: 400 });
+    }
+
+    if (orderDirection !== "asc" && orderDirection !== "desc") {
+      return NextResponse.json(
+        { error: "Invalid orderDirection" },
+        { status: 400 },
+      );
+    }
 
+    const tagResult = tagParam ? pollTagSchema.safeParse(tagParam) : null;
+
+    if (tagResult && !tagResult.success) {
+      return NextResponse.json({ error: "Invalid tag" }, { status: 400 });
+    }
+
+    const tag = tagResult?.data;
     const offset = (page - 1) * limit;
 
-    // Get polls with pagination
-    const polls = await getPolls({
+    const { polls, nextCursor, total } = await getPollsPage({
       userId,
       isPublic,
+      includeDrafts,
+      tag,
       limit,
       offset,
+      cursor,
       search,
       orderBy,
       orderDirection,
     });
 
-    // Get total count for pagination
-    let countQuery = supabase
-      .from("polls")
-      .select("*", { count: "exact", head: true });
+    // Searches come with their total. Otherwise the total is only counted for
+    // the first request, so scrolling on does not repeat the count.
+    let count = total;
 
-    if (userId) {
-      countQuery = countQuery.eq("creator_id", userId);
-    }
+    if (count === undefined && !cursor) {
+      let countQuery = supabase
+        .from("polls")
+        .select(tag ? "id, poll_tags!inner(tag)" : "*", {
+          count: "exact",
+          head: true,
+        });
 
-    if (isPublic !== undefined) {
-      countQuery = countQuery.eq("is_public", isPublic);
-    }
+      if (tag) {
+        countQuery = countQuery.eq("poll_tags.tag", tag);
+      }
 
-    if (search) {
-      countQuery = countQuery.or(
-        `title.ilike.%${search}%,description.ilike.%${search}%`,
-      );
-    }
+      if (userId) {
+        countQuery = countQuery.eq("creator_id", userId);
+      }
 
-    const { count, error: countError } = await countQuery;
+      if (isPublic !== undefined) {
+        countQuery = countQuery.eq("is_public", isPublic);
+      }
 
-    if (countError) {
-      console.error("Error getting poll count:", countError);
-      return NextResponse.json(
-        { error: "Failed to get poll count" },
-        { status: 500 },
-      );
-    }
+      if (!includeDrafts) {
+        countQuery = countQuery.neq("status", "draft");
+      }
 
-    const totalPages = Math.ceil((count || 0) / limit);
+      const { count: pollCount, error: countError } = await countQuery;
+
+      if (countError) {
+        console.error("Error getting poll count:", countError);
+        return NextResponse.json(
+          { error: "Failed to get poll count" },
+          { status: 500 },
+        );
+      }
+
+      count = pollCount || 0;
+    }
 
     return NextResponse.json({
       data: polls,
       pagination: {
-        page,
+        ...(!cursor && { page }),
         limit,
-        total: count || 0,
-        totalPages,
-        hasMore: page < totalPages,
+        ...(count !== undefined && {
+          total: count,
+          totalPages: Math.ceil(count / limit),
+        }),
+        hasMore: nextCursor !== null,
+        nextCursor,
       },
     });
   } catch (error) {
@@ -109,74 +152,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body: CreatePollForm = await request.json();
+    const body = await request.json().catch(() => null);
 
-    // Validate request body
-    if (!body.title || !body.options || body.options.length < 2) {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
       return NextResponse.json(
-        { error: "Title and at least 2 options are required" },
+        { error: "Invalid request body" },
         { status: 400 },
       );
     }
 
-    if (body.title.length > 500) {
-      return NextResponse.json(
-        { error: "Title must be 500 characters or less" },
-        { status: 400 },
-      );
-    }
+    // Same checks as /api/polls/create; dates come back parsed from their ISO strings
+    const validation = validateCreatePollForm(body);
 
-    if (body.description && body.description.length > 2000) {
+    if (!validation.isValid) {
       return NextResponse.json(
-        { error: "Description must be 2000 characters or less" },
+        { error: Object.values(validation.errors)[0] },
         { status: 400 },
       );
     }
 
-    if (body.options.length > 10) {
-      return NextResponse.json(
-        { error: "Maximum 10 options allowed" },
-        { status: 400 },
-      );
-    }
-
-    // Validate option lengths
-    for (const option of body.options) {
-      if (!option.trim()) {
-        return NextResponse.json(
-          { error: "All options must have content" },
-          { status: 400 },
-        );
-      }
-      if (option.length > 1000) {
-        return NextResponse.json(
-          { error: "Option text must be 1000 characters or less" },
-          { status: 400 },
-        );
-      }
-    }
-
-    // Check for duplicate options
-    const uniqueOptions = [
-      ...new Set(body.options.map((opt) => opt.trim().toLowerCase())),
-    ];
-    if (uniqueOptions.length !== body.options.length) {
-      return NextResponse.json(
-        { error: "All options must be unique" },
-        { status: 400 },
-      );
-    }
-
-    // Validate expiration date
-    if (body.expires_at && new Date(body.expires_at) <= new Date()) {
-      return NextResponse.json(
-        { error: "Expiration date must be in the future" },
-        { status: 400 },
-      );
-    }
+    const pollData: CreatePollForm = validation.cleanedData;
 
     // Create the poll
-    const poll = await createPoll(body, user.id);
+    const poll = await createPoll(pollData, user.id);
+
+    // Send the poll.created events queued with the poll once the response is out
+    after(() =>
+      processWebhookDeliveries().catch((error) =>
+        console.error("Error delivering webhooks:", error),
+      ),
+    );
 
     return NextResponse.json(
       {
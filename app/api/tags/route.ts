@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DatabaseError, getPopularTags } from "@/lib/database";
+
+export async function GET(req: NextRequest) {
+  const limit = Math.min(
+    Math.max(parseInt(req.nextUrl.searchParams.get("limit") || "20") || 20, 1),
+    100,
+  );
+
+  try {
+    const tags = await getPopularTags(limit);
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Error fetching popular tags:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching tags." }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, getWebhookDeliveries } from "@/lib/database";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  try {
+    // RLS returns nothing for webhooks the caller does not own
+    const deliveries = await getWebhookDeliveries(params.id);
+    return NextResponse.json({ deliveries }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching deliveries." }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { DatabaseError, createWebhook, getWebhooks } from "@/lib/database";
+import { validateCreateWebhookForm } from "@/lib/validation";
+
+// Webhooks can only be attached to polls the caller created
+async function checkPollOwnership(
+  supabase: ReturnType<typeof createServerSupabase>,
+  pollId: string,
+  userId: string,
+): Promise<NextResponse | null> {
+  const { data: poll, error } = await supabase
+    .from("polls")
+    .select("id, creator_id")
+    .eq("id", pollId)
+    .single();
+
+  if (error || !poll) {
+    return NextResponse.json({ error: "Poll not found" }, { status: 404 });
+  }
+
+  if (poll.creator_id !== userId) {
+    return NextResponse.json({ error: "Only the poll creator can manage its webhooks" }, { status: 403 });
+  }
+
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const pollId = new URL(req.url).searchParams.get("poll_id");
+
+  if (pollId) {
+    const ownershipError = await checkPollOwnership(supabase, pollId, user.id);
+    if (ownershipError) return ownershipError;
+  }
+
+  try {
+    const webhooks = await getWebhooks(user.id, pollId);
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while fetching webhooks." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const supabase = createServerSupabase();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required. Please log in." }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const validation = validateCreateWebhookForm(body);
+
+  if (!validation.isValid || !validation.cleanedData) {
+    return NextResponse.json(
+      { error: Object.values(validation.errors)[0], errors: validation.errors },
+      { status: 400 },
+    );
+  }
+
+  const webhookData = validation.cleanedData;
+
+  if (webhookData.poll_id) {
+    const ownershipError = await checkPollOwnership(supabase, webhookData.poll_id, user.id);
+    if (ownershipError) return ownershipError;
+  }
+
+  try {
+    const created = await createWebhook(user.id, webhookData);
+    return NextResponse.json(created, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    if (error instanceof DatabaseError) {
+      if (error.code === "WEBHOOK_LIMIT") {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      return NextResponse.json({ error: `Database Error: ${error.message}` }, { status: 500 });
+    }
+    return NextResponse.json({ error: "An unexpected error occurred while creating the webhook." }, { status: 500 });
+  }
+}
@@ -1,7 +1,14 @@
 "use client";
 
 import Link from "next/link";
-import { Plus, TrendingUp, Users, Clock, LogOut } from "lucide-react";
+import {
+  BarChart3,
+  Plus,
+  TrendingUp,
+  Users,
+  Clock,
+  LogOut,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,6 +18,9 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { PollCard } from "@/components/polls/poll-card";
+import { PollExportMenu } from "@/components/polls/poll-export-menu";
+import { ApiKeyManager } from "@/components/auth/api-key-manager";
+import { WebhookManager } from "@/components/polls/webhook-manager";
 import { useAuth } from "@/contexts/auth-context";
 import { usePolls, useUserStats } from "@/hooks/use-polls";
 import { useRouter } from "next/navigation";
@@ -27,6 +37,7 @@ export default function DashboardPage() {
     refreshPolls,
   } = usePolls({
     userId: user?.id,
+    includeDrafts: true,
     limit: 6,
     autoFetch: !!user?.id,
   });
@@ -221,11 +232,18 @@ export default function DashboardPage() {
                 };
 
                 return (
-                  <PollCard
-                    key={poll.id}
-                    poll={convertedPoll}
-                    showResults={true}
-                  />
+                  <div key={poll.id} className="space-y-2">
+                    <PollCard poll={convertedPoll} showResults={true} />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/polls/${poll.id}/analytics`}>
+                          <BarChart3 className="h-4 w-4 mr-1" />
+                          Analytics
+                        </Link>
+                      </Button>
+                      <PollExportMenu pollId={poll.id} />
+                    </div>
+                  </div>
                 );
               })}
             </div>
@@ -316,6 +334,16 @@ export default function DashboardPage() {
             </Card>
           </div>
         </div>
+
+        {/* API Keys */}
+        <div className="mt-12">
+          <ApiKeyManager />
+        </div>
+
+        {/* Webhooks */}
+        <div className="mt-8">
+          <WebhookManager />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PollAnalyticsView } from "@/components/polls/poll-analytics";
+import { PollExportMenu } from "@/components/polls/poll-export-menu";
+import { useAuth } from "@/contexts/auth-context";
+import { ANALYTICS_BUCKETS } from "@/lib/analytics";
+import { AnalyticsBucket, PollAnalytics } from "@/types/database";
+
+interface PollAnalyticsPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const BUCKET_NAMES: Record<AnalyticsBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+};
+
+export default function PollAnalyticsPage({ params }: PollAnalyticsPageProps) {
+  const { id } = use(params);
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const [analytics, setAnalytics] = useState<PollAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/polls/${id}/analytics?bucket=${bucket}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load analytics");
+        }
+        setAnalytics(data);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load analytics"),
+      )
+      .finally(() => setLoading(false));
+  }, [id, bucket, user]);
+
+  if (!authLoading && !user) {
+    router.push(`/login?redirectTo=/polls/${id}/analytics`);
+    return null;
+  }
+
+  if (error && !analytics) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Analytics unavailable
+          </h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Button asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!analytics) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading analytics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <Link
+              href={`/polls/${id}`}
+              className="flex items-center text-sm text-muted-foreground hover:text-gray-900 mb-2"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to poll
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {analytics.poll.title}
+            </h1>
+          </div>
+          <div className="flex gap-2">
+            {ANALYTICS_BUCKETS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === bucket ? "default" : "outline"}
+                disabled={loading}
+                onClick={() => setBucket(option)}
+              >
+                {BUCKET_NAMES[option]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <PollAnalyticsView analytics={analytics} />
+        <PollExportMenu pollId={id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { BallotImport } from "@/components/polls/ballot-import";
+import { CreatePollForm } from "@/components/polls/create-poll-form";
+import { PollEditHistory } from "@/components/polls/poll-edit-history";
+import { PollInviteManager } from "@/components/polls/poll-invite-manager";
+import { VoteReview } from "@/components/polls/vote-review";
+import { WebhookManager } from "@/components/polls/webhook-manager";
+import { useAuth } from "@/contexts/auth-context";
+import { usePoll } from "@/hooks/use-polls";
+
+interface EditPollPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default function EditPollPage({ params }: EditPollPageProps) {
+  const { id } = use(params);
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { poll, results, error } = usePoll({ pollId: id, live: false });
+
+  if (authLoading || (!poll && !error)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    router.push(`/login?redirectTo=/polls/${id}/edit`);
+    return null;
+  }
+
+  if (!poll || poll.creator_id !== user.id) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Poll not found
+          </h1>
+          <p className="text-gray-600 mb-6">
+            This poll does not exist or you are not allowed to edit it.
+          </p>
+          <Button asChild>
+            <Link href="/polls">Browse Polls</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Removing an option deletes its votes, held ones included
+  const optionVoteCounts = results.reduce(
+    (acc, result) => {
+      acc[result.option_id] = Number(result.raw_vote_count);
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <CreatePollForm poll={poll} optionVoteCounts={optionVoteCounts} />
+        <PollEditHistory pollId={poll.id} />
+        {!poll.is_public && <PollInviteManager pollId={poll.id} />}
+        <VoteReview pollId={poll.id} options={poll.options || []} />
+        <BallotImport
+          pollId={poll.id}
+          pollType={poll.poll_type}
+          options={poll.options || []}
+        />
+        <WebhookManager pollId={poll.id} />
+      </div>
+    </div>
+  );
+}
@@ -1,105 +1,313 @@
 "use client";
 
-import { useState } from "react";
-import { notFound } from "next/navigation";
+import { use } from "react";
+import Link from "next/link";
+import { BarChart3, Clock, Pencil, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PollVoteForm } from "@/components/polls/poll-vote-form";
+import { PollResults } from "@/components/polls/poll-results";
+import { RankedVoteForm } from "@/components/polls/ranked-vote-form";
+import { RankedChoiceResults } from "@/components/polls/ranked-choice-results";
+import { ScoreVoteForm } from "@/components/polls/score-vote-form";
+import { PollDraftBanner } from "@/components/polls/poll-draft-banner";
+import { PollComments } from "@/components/polls/poll-comments";
+import { PollOptionSuggestions } from "@/components/polls/poll-option-suggestions";
+import { useAuth } from "@/contexts/auth-context";
+import { usePoll } from "@/hooks/use-polls";
+import { getPollStatus } from "@/lib/vote-rules";
+import { formatDate, formatDateTime } from "@/lib/utils";
 
 interface PollPageProps {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
+  searchParams: Promise<{
+    invite?: string | string[];
+  }>;
 }
 
-// Mock data for demonstration purposes
-const mockPolls = [
-  {
-    id: "poll-1",
-    question: "What is your favorite color?",
-    options: ["Red", "Blue", "Green", "Yellow"],
-  },
-  {
-    id: "poll-2",
-    question: "Best programming language?",
-    options: ["JavaScript", "Python", "TypeScript", "Rust"],
-  },
-  {
-    id: "poll-3",
-    question: "Favorite food?",
-    options: ["Pizza", "Tacos", "Sushi", "Pasta"],
-  },
-];
-
-export default function PollPage({ params }: PollPageProps) {
-  const { id } = params;
-
-  // Find the poll by id from mock data
-  const poll = mockPolls.find((p) => p.id === id);
-
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [hasVoted, setHasVoted] = useState(false);
+export default function PollPage({ params, searchParams }: PollPageProps) {
+  const { id } = use(params);
+  const { invite } = use(searchParams);
+  const { user } = useAuth();
+  const {
+    poll,
+    results,
+    rankedResult,
+    loading,
+    error,
+    userVotes,
+    canVote,
+    liveStatus,
+    inviteError,
+    fetchPoll,
+    vote,
+  } = usePoll({
+    pollId: id,
+    trackView: true,
+    invite: typeof invite === "string" ? invite : null,
+  });
+
+  if (!poll && !error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading poll...</p>
+        </div>
+      </div>
+    );
+  }
 
   if (!poll) {
-    notFound(); // Display a 404 page if poll is not found
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Poll not found
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {inviteError
+              ? `${inviteError}.`
+              : "This poll does not exist or you do not have access to it."}
+          </p>
+          <Button asChild>
+            <Link href="/polls">Browse Polls</Link>
+          </Button>
+        </div>
+      </div>
+    );
   }
 
-  const handleSubmit = (event: React.FormEvent) => {
-    event.preventDefault();
-    if (selectedOption) {
-      // In a real application, you would send this to the server
-      console.log(`User voted for: ${selectedOption} in poll ${id}`);
-      setHasVoted(true);
-    } else {
-      alert("Please select an option before voting.");
-    }
+  const status = getPollStatus(poll);
+  const hasVoted = userVotes.length > 0;
+  const isOpen = status === "active";
+  // Creators preview drafts with the ballot shown but disabled
+  const isDraft = status === "draft";
+  const showBallot = (isOpen && canVote) || isDraft;
+  const isRanked = poll.poll_type === "ranked";
+  const isScored = poll.poll_type === "score" || poll.poll_type === "rating";
+  const needsLogin = !user && !poll.allow_anonymous_votes;
+  // Nothing to show before a poll opens
+  const showResults =
+    status === "closed" || (isOpen && (hasVoted || !canVote));
+
+  const handleVote = async (
+    optionIds: string[],
+    scores?: Record<string, number>,
+  ) => {
+    await vote(optionIds, scores);
   };
 
   return (
-    <div className="container mx-auto p-4">
-      <h1 className="text-3xl font-bold mb-6 text-center">{poll.question}</h1>
-      {hasVoted ? (
-        <div className="bg-green-100 text-green-800 p-4 rounded-md text-center max-w-md mx-auto">
-          <p className="font-semibold text-lg">Thank you for voting!</p>
-          <p>
-            Your vote for &quot;{selectedOption}&quot; has been recorded (mock).
-          </p>
-        </div>
-      ) : (
-        <form
-          onSubmit={handleSubmit}
-          className="bg-white shadow-md rounded-lg p-6 max-w-md mx-auto"
-        >
-          <ul className="space-y-4 mb-6">
-            {poll.options.map((option, index) => (
-              <li
-                key={index}
-                className="flex items-center p-3 border border-gray-200 rounded-md text-lg cursor-pointer hover:bg-gray-50"
-              >
-                <input
-                  type="radio"
-                  id={`option-${index}`}
-                  name="pollOption"
-                  value={option}
-                  checked={selectedOption === option}
-                  onChange={(e) => setSelectedOption(e.target.value)}
-                  className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                />
-                <label
-                  htmlFor={`option-${index}`}
-                  className="flex-grow cursor-pointer"
-                >
-                  {option}
-                </label>
-              </li>
-            ))}
-          </ul>
-          <button
-            type="submit"
-            className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
-            disabled={!selectedOption}
-          >
-            Submit Vote
-          </button>
-        </form>
-      )}
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <CardTitle className="text-2xl font-bold">{poll.title}</CardTitle>
+              {status === "closed" && (
+                <div className="px-2 py-1 bg-red-100 text-red-800 rounded-md text-xs font-medium">
+                  Closed
+                </div>
+              )}
+              {status === "scheduled" && (
+                <div className="px-2 py-1 bg-blue-100 text-blue-800 rounded-md text-xs font-medium">
+                  Scheduled
+                </div>
+              )}
+              {status === "draft" && (
+                <div className="px-2 py-1 bg-gray-100 text-gray-800 rounded-md text-xs font-medium">
+                  Draft
+                </div>
+              )}
+              {user?.id === poll.creator_id && (
+                <>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/polls/${poll.id}/analytics`}>
+                      <BarChart3 className="h-4 w-4 mr-1" />
+                      Analytics
+                    </Link>
+                  </Button>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/polls/${poll.id}/edit`}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Link>
+                  </Button>
+                </>
+              )}
+            </div>
+            {poll.description && (
+              <CardDescription className="mt-2">
+                {poll.description}
+              </CardDescription>
+            )}
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground pt-2">
+              <span>by {poll.creator?.username || "Anonymous"}</span>
+              <span>{formatDate(poll.created_at)}</span>
+              {poll.opens_at && (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  {status === "scheduled" ? "Opens" : "Opened"}{" "}
+                  {formatDateTime(poll.opens_at)}
+                </span>
+              )}
+              {poll.expires_at && (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  {status === "closed" ? "Closed" : "Closes"}{" "}
+                  {formatDateTime(poll.expires_at)}
+                </span>
+              )}
+            </div>
+            {poll.tags && poll.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-2">
+                {poll.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-md text-xs"
+                  >
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {status === "closed" && (
+              <p className="text-sm text-muted-foreground">
+                This poll has closed and is no longer accepting votes.
+              </p>
+            )}
+
+            {status === "scheduled" && poll.opens_at && (
+              <p className="text-sm text-muted-foreground">
+                This poll opens for voting on {formatDateTime(poll.opens_at)}.
+              </p>
+            )}
+
+            {isDraft && (
+              <PollDraftBanner pollId={poll.id} onPublished={fetchPoll} />
+            )}
+
+            {isOpen && needsLogin && (
+              <div className="flex items-center justify-between p-3 text-sm bg-blue-50 border border-blue-200 rounded-md">
+                <span className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Sign in to vote on this poll.
+                </span>
+                <Button asChild size="sm">
+                  <Link href={`/login?redirectTo=/polls/${poll.id}`}>
+                    Sign In
+                  </Link>
+                </Button>
+              </div>
+            )}
+
+            {showBallot && isRanked && (
+              <RankedVoteForm
+                options={poll.options || []}
+                disabled={loading || isDraft}
+                onSubmit={handleVote}
+              />
+            )}
+
+            {showBallot && isScored && (
+              <ScoreVoteForm
+                options={poll.options || []}
+                pollType={poll.poll_type as "score" | "rating"}
+                disabled={loading || isDraft}
+                onSubmit={handleVote}
+              />
+            )}
+
+            {showBallot && !isRanked && !isScored && (
+              <PollVoteForm
+                options={poll.options || []}
+                allowMultiple={
+                  poll.allow_multiple_votes || poll.poll_type === "approval"
+                }
+                disabled={loading || isDraft}
+                onSubmit={handleVote}
+              />
+            )}
+
+            {hasVoted && (
+              <div className="p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md">
+                Thank you for voting!
+              </div>
+            )}
+
+            {showResults && (
+              <>
+                {isOpen && (
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span
+                      className={`h-2 w-2 rounded-full ${liveStatus === "live" ? "bg-green-500" : "bg-gray-400"}`}
+                    />
+                    {liveStatus === "live"
+                      ? "Live results"
+                      : "Results refresh every few seconds"}
+                  </p>
+                )}
+                {isRanked && rankedResult ? (
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        First preferences
+                      </p>
+                      <PollResults results={results} userVotes={userVotes} />
+                    </div>
+                    <RankedChoiceResults
+                      result={rankedResult}
+                      options={poll.options || []}
+                    />
+                  </div>
+                ) : (
+                  <PollResults
+                    results={results}
+                    userVotes={userVotes}
+                    pollType={poll.poll_type}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {poll.allow_suggestions && !isDraft && status !== "closed" && (
+          <PollOptionSuggestions
+            pollId={poll.id}
+            pollCreatorId={poll.creator_id}
+            pollType={poll.poll_type}
+            onApproved={fetchPoll}
+          />
+        )}
+
+        {!isDraft && (
+          <PollComments
+            pollId={poll.id}
+            pollCreatorId={poll.creator_id}
+            pollType={poll.poll_type}
+            options={poll.options || []}
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
-import { Search, Plus, Filter, TrendingUp } from "lucide-react";
+import { Search, Plus, Filter, TrendingUp, Tag, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -13,12 +13,26 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { PollCard } from "@/components/polls/poll-card";
-import { usePolls, useUserStats } from "@/hooks/use-polls";
+import { usePolls, usePopularTags, useUserStats } from "@/hooks/use-polls";
 import { useAuth } from "@/contexts/auth-context";
+import { getPollStatus } from "@/lib/vote-rules";
+
+// Tags on more polls are shown larger, relative to the most used tag
+const tagCloudSize = (count: number, maxCount: number) => {
+  const ratio = count / Math.max(maxCount, 1);
+  if (ratio > 0.75) return "text-xl";
+  if (ratio > 0.5) return "text-lg";
+  if (ratio > 0.25) return "text-base";
+  return "text-sm";
+};
 
 export default function PollsPage() {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
+  // The search sent to the server, which follows the box once typing pauses
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState<string | null>(null);
+  const { tags: popularTags } = usePopularTags();
   const [sortBy, setSortBy] = useState<
     "newest" | "oldest" | "most-votes" | "expiring-soon"
   >("newest");
@@ -27,16 +41,46 @@ export default function PollsPage() {
   const {
     polls: publicPolls,
     loading: pollsLoading,
+    loadingMore,
     error: pollsError,
+    hasMore,
     totalCount,
     fetchPolls,
+    loadMore,
     refreshPolls,
   } = usePolls({
     isPublic: true,
-    search: searchTerm,
+    tag: tag || undefined,
+    search,
     limit: 12,
   });
 
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Infinite scroll: load the next page as the end of the list comes into view.
+  // The observer is recreated after each page, so it fires again if the end is
+  // still visible.
+  const endOfList = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
+
+  useEffect(() => {
+    const element = endOfList.current;
+    if (!element || !hasMore || pollsLoading || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMoreRef.current();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, pollsLoading, loadingMore, publicPolls.length]);
+
   // Calculate stats from polls
   const stats = {
     totalPolls: totalCount,
@@ -44,14 +88,18 @@ export default function PollsPage() {
       (sum, poll) => sum + (poll.vote_count || 0),
       0,
     ),
-    activePolls: publicPolls.filter(
-      (poll) => !poll.expires_at || new Date(poll.expires_at) > new Date(),
-    ).length,
+    activePolls: publicPolls.filter((poll) => getPollStatus(poll) === "active")
+      .length,
   };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchPolls(1);
+    // A changed search refetches by itself; an unchanged one is fetched again
+    if (searchTerm.trim() === search) {
+      fetchPolls(1);
+    } else {
+      setSearch(searchTerm.trim());
+    }
   };
 
   const convertPollFormat = (poll: any) => ({
@@ -155,7 +203,8 @@ export default function PollsPage() {
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
-                placeholder="Search polls..."
+                type="search"
+                placeholder="Search titles, descriptions and options..."
                 className="pl-10"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
@@ -180,11 +229,49 @@ export default function PollsPage() {
           </form>
         </div>
 
+        {/* Tag Cloud */}
+        {(popularTags.length > 0 || tag) && (
+          <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-medium flex items-center gap-2">
+                <Tag className="h-4 w-4" />
+                Popular Tags
+              </h2>
+              {tag && (
+                <Button variant="ghost" size="sm" onClick={() => setTag(null)}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              {popularTags.map((popularTag) => (
+                <button
+                  key={popularTag.tag}
+                  type="button"
+                  onClick={() =>
+                    setTag(popularTag.tag === tag ? null : popularTag.tag)
+                  }
+                  title={`${popularTag.poll_count} ${popularTag.poll_count === 1 ? "poll" : "polls"}`}
+                  className={`${tagCloudSize(popularTag.poll_count, popularTags[0].poll_count)} ${
+                    popularTag.tag === tag
+                      ? "text-blue-700 font-semibold"
+                      : "text-gray-600 hover:text-blue-700"
+                  }`}
+                >
+                  #{popularTag.tag}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Polls Grid */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900">
-              All Polls ({pollsLoading ? "..." : totalCount})
+              {tag ? `#${tag}` : "All Polls"} (
+              {pollsLoading ? "..." : totalCount})
             </h2>
             {pollsError && (
               <Button onClick={refreshPolls} variant="outline" size="sm">
@@ -223,22 +310,37 @@ export default function PollsPage() {
                   key={poll.id}
                   poll={convertPollFormat(poll)}
                   showResults={false}
+                  onTagClick={setTag}
                 />
               ))}
             </div>
           )}
 
+          {!pollsLoading && hasMore && publicPolls.length > 0 && (
+            <div ref={endOfList} className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? "Loading..." : "Load more polls"}
+              </Button>
+            </div>
+          )}
+
           {!pollsLoading && publicPolls.length === 0 && !pollsError && (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <div className="text-center">
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                    {searchTerm ? "No polls found" : "No polls yet"}
+                    {search || tag ? "No polls found" : "No polls yet"}
                   </h3>
                   <p className="text-gray-600 mb-4">
-                    {searchTerm
-                      ? `No polls match "${searchTerm}". Try a different search term.`
-                      : "Be the first to create a poll for the community"}
+                    {search
+                      ? `No polls match "${search}". Try a different search term.`
+                      : tag
+                        ? `No polls are tagged #${tag} yet.`
+                        : "Be the first to create a poll for the community"}
                   </p>
                   <Button asChild>
                     <Link href="/polls/create">
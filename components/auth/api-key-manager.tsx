@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ApiKey, ApiKeyScope } from "@/types/database";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS } from "@/lib/api-keys";
+import { formatDate } from "@/lib/utils";
+
+const EXPIRY_OPTIONS = [
+  { label: "Never", days: null },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+];
+
+/**
+ * keyStatus describes whether an API key can still be used.
+ *
+ * Assumptions:
+ * - key comes from GET /api/keys.
+ *
+ * Edge Cases:
+ * - Revocation wins over expiry when both apply.
+ *
+ * Connections:
+ * - Used by ApiKeyManager to label and grey out dead keys.
+ */
+function keyStatus(key: ApiKey): "active" | "revoked" | "expired" {
+  if (key.revoked_at) return "revoked";
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return "expired";
+  return "active";
+}
+
+/**
+ * ApiKeyManager lets users create, list and revoke their personal API keys.
+ *
+ * Assumptions:
+ * - Rendered for a signed-in user; the /api/keys routes reject API keys themselves.
+ *
+ * Edge Cases:
+ * - A new key is shown once, right after creation, and cannot be shown again.
+ * - Revoking asks for confirmation because scripts using the key stop working.
+ *
+ * Connections:
+ * - Used on the dashboard.
+ * - Talks to GET/POST /api/keys and DELETE /api/keys/[id].
+ */
+export function ApiKeyManager() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["polls:read"]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchKeys = async () => {
+    const response = await fetch("/api/keys");
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to load API keys");
+      return;
+    }
+
+    setKeys(data.keys);
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope],
+    );
+  };
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNewKey(null);
+
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expires_at: expiryDays
+            ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000)
+            : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API key");
+      }
+
+      setNewKey(data.key);
+      setKeys((prev) => [data.apiKey, ...prev]);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeKey = async (key: ApiKey) => {
+    if (
+      !window.confirm(
+        `Revoke "${key.name}"? Anything using this key will stop working.`,
+      )
+    ) {
+      return;
+    }
+
+    const response = await fetch(`/api/keys/${key.id}`, { method: "DELETE" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to revoke API key");
+      return;
+    }
+
+    setKeys((prev) => prev.map((k) => (k.id === key.id ? data.key : k)));
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Use a key as &quot;Authorization: Bearer &lt;key&gt;&quot; to manage
+          polls from scripts and bots.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newKey && (
+          <div className="p-3 space-y-2 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-700">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={newKey} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={copyKey}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={createKey} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api_key_name">Key name</Label>
+            <Input
+              id="api_key_name"
+              placeholder="e.g. CI pipeline"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="flex flex-wrap gap-4">
+              {API_KEY_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id={`scope_${scope}`}
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    disabled={isLoading}
+                    className="rounded border-gray-300"
+                  />
+                  <Label htmlFor={`scope_${scope}`} className="text-sm font-normal">
+                    {API_KEY_SCOPE_LABELS[scope]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api_key_expiry">Expires</Label>
+            <select
+              id="api_key_expiry"
+              value={expiryDays ?? ""}
+              onChange={(e) =>
+                setExpiryDays(e.target.value ? Number(e.target.value) : null)
+              }
+              disabled={isLoading}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ""}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isLoading || !name.trim() || scopes.length === 0}
+          >
+            {isLoading ? "Creating..." : "Create API Key"}
+          </Button>
+        </form>
+
+        {keys.length > 0 && (
+          <ul className="divide-y border rounded-md">
+            {keys.map((key) => {
+              const status = keyStatus(key);
+              return (
+                <li
+                  key={key.id}
+                  className={`flex items-center justify-between gap-4 p-3 ${
+                    status === "active" ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {key.name}{" "}
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {key.key_prefix}…
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {key.scopes.map((s) => API_KEY_SCOPE_LABELS[s]).join(", ")}
+                      {" · "}
+                      {key.last_used_at
+                        ? `Last used ${formatDate(key.last_used_at)}`
+                        : "Never used"}
+                      {key.expires_at && ` · Expires ${formatDate(key.expires_at)}`}
+                      {status !== "active" && ` · ${status}`}
+                    </p>
+                  </div>
+                  {status === "active" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeKey(key)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
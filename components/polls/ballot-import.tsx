@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BallotCsvImportResult, PollOption, PollType } from "@/types/database";
+import { BALLOT_ID_COLUMN } from "@/lib/ballot-import";
+
+interface BallotImportProps {
+  pollId: string;
+  pollType: PollType;
+  options: Pick<PollOption, "id" | "text">[];
+}
+
+// A sample CSV for the poll, shown as the placeholder
+const exampleCsv = (pollType: PollType, options: string[]): string => {
+  const [first = "Option A", second = "Option B"] = options;
+  const quote = (text: string) =>
+    /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+  if (pollType === "score" || pollType === "rating") {
+    const max = pollType === "score" ? 10 : 5;
+    return `${BALLOT_ID_COLUMN},choice,choice\n101,${quote(`${first}=${max}`)},${quote(`${second}=${max - 1}`)}`;
+  }
+
+  if (pollType === "choice") {
+    return `${BALLOT_ID_COLUMN},choice\n101,${quote(first)}\n102,${quote(second)}`;
+  }
+
+  return `${BALLOT_ID_COLUMN},choice,choice\n101,${quote(first)},${quote(second)}\n102,${quote(second)}`;
+};
+
+/**
+ * BallotImport lets a poll's creator add paper ballots from a CSV to the results.
+ *
+ * Assumptions:
+ * - Rendered for the poll's creator; the import route rejects anyone else.
+ *
+ * Edge Cases:
+ * - Every import is previewed first, and the CSV cannot be committed once it
+ *   has changed since its preview.
+ * - Rows that fail are listed by CSV line and left out; the rest are imported.
+ * - Committing the same ballots again reports them as already imported.
+ *
+ * Connections:
+ * - Used on the poll edit page.
+ * - Talks to POST /api/polls/[id]/import.
+ */
+export function BallotImport({ pollId, pollType, options }: BallotImportProps) {
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<BallotCsvImportResult | null>(null);
+  const [imported, setImported] = useState<BallotCsvImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const changeCsv = (value: string) => {
+    setCsv(value);
+    setPreview(null);
+    setImported(null);
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    changeCsv(await file.text());
+  };
+
+  const submit = async (commit: boolean) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, commit }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import ballots");
+      }
+
+      if (commit) {
+        setImported(data);
+        setPreview(null);
+      } else {
+        setPreview(data);
+        setImported(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import ballots");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const shown = imported || preview;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="h-5 w-5" />
+          Import Paper Ballots
+        </CardTitle>
+        <CardDescription>
+          Add ballots collected in person to the results. Start the CSV with a
+          header row; put each ballot on its own row, with its number in a{" "}
+          <code>{BALLOT_ID_COLUMN}</code> column and one choice per column after
+          it
+          {pollType === "ranked" && ", most preferred first"}
+          {(pollType === "score" || pollType === "rating") &&
+            ', scored like "Option=5"'}
+          . Choices can be option texts or ids. Imported ballots are counted
+          separately from online votes, and only polls open to anonymous votes
+          without an allowlist can take them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="ballot_csv_file">CSV file</Label>
+          <input
+            id="ballot_csv_file"
+            type="file"
+            accept=".csv,text/csv"
+            className="block text-sm"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="ballot_csv">Ballots</Label>
+          <Textarea
+            id="ballot_csv"
+            rows={8}
+            className="font-mono text-xs"
+            placeholder={exampleCsv(
+              pollType,
+              options.map((option) => option.text),
+            )}
+            value={csv}
+            onChange={(e) => changeCsv(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => submit(false)}
+            disabled={isLoading || !csv.trim()}
+          >
+            {isLoading && !preview ? "Checking..." : "Preview"}
+          </Button>
+          {preview && (
+            <Button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={isLoading || preview.processed === 0}
+            >
+              {isLoading
+                ? "Importing..."
+                : `Import ${preview.processed} ${preview.processed === 1 ? "ballot" : "ballots"}`}
+            </Button>
+          )}
+        </div>
+
+        {shown && (
+          <div className="space-y-4">
+            <p
+              className={`p-3 text-sm rounded-md border ${
+                imported
+                  ? "text-green-700 bg-green-50 border-green-200"
+                  : "text-gray-700 bg-gray-50 border-gray-200"
+              }`}
+            >
+              {imported
+                ? `Imported ${imported.processed} of ${imported.ballots} ballots.`
+                : `${preview!.processed} of ${preview!.ballots} ballots are ready to import.`}
+              {shown.failed > 0 &&
+                ` ${shown.failed} ${shown.failed === 1 ? "row was" : "rows were"} left out.`}
+            </p>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-medium py-1">Option</th>
+                  <th className="font-medium py-1 text-right">
+                    {imported ? "Votes added" : "Votes to add"}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.tally.map((row) => (
+                  <tr key={row.option_id} className="border-t">
+                    <td className="py-1 pr-2">{row.option_text}</td>
+                    <td className="py-1 text-right">+{row.votes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {shown.failures.length > 0 && (
+              <ul className="max-h-60 overflow-y-auto space-y-1 text-sm text-red-600">
+                {shown.failures.map((failure) => (
+                  <li key={`${failure.row}-${failure.ballotId}`}>
+                    Line {failure.row}
+                    {failure.ballotId && ` (ballot ${failure.ballotId})`}:{" "}
+                    {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
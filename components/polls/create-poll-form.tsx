@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { Plus, X, Calendar } from "lucide-react";
+import { Plus, X, Calendar, ArrowUp, ArrowDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,44 +15,112 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 
-import { CreatePollForm as CreatePollFormType, Poll } from "@/types/database";
+import {
+  CreatePollForm as CreatePollFormType,
+  Poll,
+  PollWithDetails,
+} from "@/types/database";
+import {
+  MAX_POLL_TAGS,
+  parsePollTags,
+  parseVoterAllowlist,
+} from "@/lib/validation";
+import {
+  ANONYMOUS_DEDUPE_LABELS,
+  ANONYMOUS_DEDUPE_LEVELS,
+} from "@/lib/anonymous-voters";
 import { PollCreatedSuccess } from "./poll-created-success";
 
 interface CreatePollFormProps {
   onSuccess?: (pollId: string) => void;
+  // When set, the form edits this poll instead of creating a new one
+  poll?: PollWithDetails;
+  // Votes per option id of the edited poll
+  optionVoteCounts?: Record<string, number>;
 }
 
+// Formats a date in local time for a datetime-local input
+const toDateTimeLocal = (date?: Date | null): string =>
+  date
+    ? new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+        .toISOString()
+        .slice(0, 16)
+    : "";
+
 /**
- * CreatePollForm renders a form for creating a new poll.
+ * CreatePollForm renders a form for creating a new poll, or editing one.
  *
  * Assumptions:
  * - The parent component may provide an onSuccess callback.
  * - The user is authenticated if required by the API.
  * - The API endpoint /api/polls/create is available and returns a poll object on success.
+ * - In edit mode the user is the poll's creator; PATCH /api/polls/[id] enforces it.
  *
  * Edge Cases:
  * - Handles API/network errors and displays error messages.
  * - Prevents adding more than 10 options or removing below 2 options.
- * - Handles optional fields (description, expiration date).
+ * - Handles optional fields (description, opening and expiration dates).
+ * - In edit mode, removing an option with votes asks for confirmation, and the
+ *   poll type is locked once votes exist.
  *
  * Connections:
  * - Uses PollCreatedSuccess to display success state.
  * - Calls onSuccess or sets createdPoll state after successful creation.
  * - Interacts with Next.js router for navigation.
  */
-export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
+export function CreatePollForm({
+  onSuccess,
+  poll,
+  optionVoteCounts = {},
+}: CreatePollFormProps) {
   const router = useRouter();
+  const isEditing = !!poll;
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [createdPoll, setCreatedPoll] = useState<Poll | null>(null);
-  const [formData, setFormData] = useState<CreatePollFormType>({
-    title: "",
-    description: "",
-    options: ["", ""],
-    is_public: true,
-    allow_multiple_votes: false,
-    allow_anonymous_votes: true,
-  });
+  const [formData, setFormData] = useState<CreatePollFormType>(
+    poll
+      ? {
+          title: poll.title,
+          description: poll.description || "",
+          options: (poll.options || []).map((option) => option.text),
+          is_public: poll.is_public,
+          allow_multiple_votes: poll.allow_multiple_votes,
+          allow_anonymous_votes: poll.allow_anonymous_votes,
+          allow_suggestions: poll.allow_suggestions,
+          anonymous_dedupe: poll.anonymous_dedupe,
+          poll_type: poll.poll_type,
+          opens_at: poll.opens_at ? new Date(poll.opens_at) : null,
+          expires_at: poll.expires_at ? new Date(poll.expires_at) : null,
+        }
+      : {
+          title: "",
+          description: "",
+          options: ["", ""],
+          is_public: true,
+          allow_multiple_votes: false,
+          allow_anonymous_votes: true,
+          allow_suggestions: false,
+          anonymous_dedupe: "device",
+          poll_type: "choice",
+        },
+  );
+  // Allowed voters as typed, one email or @domain per line
+  const [allowlistText, setAllowlistText] = useState(
+    (poll?.voter_allowlist || []).join("\n"),
+  );
+  // Tags as typed, separated by commas
+  const [tagsText, setTagsText] = useState((poll?.tags || []).join(", "));
+  // Existing option ids, parallel to formData.options (undefined for new options)
+  const [optionIds, setOptionIds] = useState<(string | undefined)[]>(
+    (poll?.options || []).map((option) => option.id),
+  );
+
+  const votesFor = (index: number) => {
+    const id = optionIds[index];
+    return id ? optionVoteCounts[id] || 0 : 0;
+  };
+  const hasVotes = Object.values(optionVoteCounts).some((count) => count > 0);
 
   /**
    * handleInputChange updates formData state for text, checkbox, and datetime-local inputs.
@@ -68,7 +136,9 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
    * - Used as onChange handler for all form fields except poll options.
    */
   const handleInputChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >,
   ) => {
     const { name, value, type } = e.target;
 
@@ -135,6 +205,7 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
         ...prev,
         options: [...prev.options, ""],
       }));
+      setOptionIds((prev) => [...prev, undefined]);
     }
   };
 
@@ -146,17 +217,111 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
    *
    * Edge Cases:
    * - Does nothing if only 2 options remain.
+   * - Asks for confirmation before removing an option that has votes.
    *
    * Connections:
    * - Called when the user clicks the remove button for an option.
    */
   const removeOption = (index: number) => {
     if (formData.options.length > 2) {
+      const votes = votesFor(index);
+      if (
+        votes > 0 &&
+        !window.confirm(
+          `"${formData.options[index]}" has ${votes} ${votes === 1 ? "vote" : "votes"}. Removing it deletes those votes when you save. Continue?`,
+        )
+      ) {
+        return;
+      }
+
       const newOptions = formData.options.filter((_, i) => i !== index);
       setFormData((prev) => ({
         ...prev,
         options: newOptions,
       }));
+      setOptionIds((prev) => prev.filter((_, i) => i !== index));
+    }
+  };
+
+  /**
+   * moveOption swaps an option with its neighbour to reorder the poll.
+   *
+   * Assumptions:
+   * - Index is within the bounds of the options array.
+   *
+   * Edge Cases:
+   * - Does nothing when moving past either end of the list.
+   *
+   * Connections:
+   * - Called by the up/down buttons shown in edit mode.
+   */
+  const moveOption = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= formData.options.length) return;
+
+    const swap = <T,>(items: T[]) => {
+      const next = [...items];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    };
+
+    setFormData((prev) => ({ ...prev, options: swap(prev.options) }));
+    setOptionIds((prev) => swap(prev));
+  };
+
+  /**
+   * submitEdit sends the edited poll to PATCH /api/polls/[id].
+   *
+   * Assumptions:
+   * - Options are sent with their ids so existing votes stay attached.
+   *
+   * Edge Cases:
+   * - On a 409 that needs confirmation (votes would be lost), asks the user
+   *   and resubmits with confirm_vote_loss.
+   *
+   * Connections:
+   * - Called by handleSubmit in edit mode.
+   */
+  const submitEdit = async (editedPoll: PollWithDetails) => {
+    const send = (confirmVoteLoss: boolean) =>
+      fetch(`/api/polls/${editedPoll.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...formData,
+          description: formData.description || null,
+          options: formData.options.map((text, index) => ({
+            id: optionIds[index],
+            text,
+          })),
+          voter_allowlist: parseVoterAllowlist(allowlistText),
+          tags: parsePollTags(tagsText),
+          confirm_vote_loss: confirmVoteLoss,
+        }),
+      });
+
+    let response = await send(false);
+    let result = await response.json();
+
+    if (
+      response.status === 409 &&
+      result.requiresConfirmation &&
+      window.confirm(`${result.error}. Save anyway and delete those votes?`)
+    ) {
+      response = await send(true);
+      result = await response.json();
+    }
+
+    if (response.ok) {
+      if (onSuccess) {
+        onSuccess(editedPoll.id);
+      } else {
+        router.push(`/polls/${editedPoll.id}`);
+      }
+    } else {
+      setError(result.error || "Failed to update poll");
     }
   };
 
@@ -169,21 +334,31 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
    * Edge Cases:
    * - Handles network or server errors.
    * - Handles missing or invalid fields as reported by the API.
+   * - With asDraft the poll is saved as a draft and its preview is opened.
    *
    * Connections:
-   * - Called on form submit.
+   * - Called on form submit, and by the "Save as Draft" button.
    * - Calls onSuccess callback or sets createdPoll state on success.
+   * - Delegates to submitEdit in edit mode.
    */
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent, asDraft = false) => {
     e.preventDefault();
 
     setIsLoading(true);
     setError(null);
 
     try {
+      if (poll) {
+        await submitEdit(poll);
+        return;
+      }
+
       const pollData = {
         ...formData,
         description: formData.description || null,
+        voter_allowlist: parseVoterAllowlist(allowlistText),
+        tags: parsePollTags(tagsText),
+        is_draft: asDraft,
       };
 
       const response = await fetch("/api/polls/create", {
@@ -199,6 +374,8 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
       if (response.ok) {
         if (onSuccess) {
           onSuccess(result.poll.id);
+        } else if (asDraft) {
+          router.push(`/polls/${result.poll.id}`);
         } else {
           setCreatedPoll(result.poll);
         }
@@ -235,7 +412,12 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
       is_public: true,
       allow_multiple_votes: false,
       allow_anonymous_votes: true,
+      allow_suggestions: false,
+      anonymous_dedupe: "device",
+      poll_type: "choice",
     });
+    setAllowlistText("");
+    setTagsText("");
     setError(null);
   };
 
@@ -252,9 +434,13 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle className="text-2xl font-bold">Create New Poll</CardTitle>
+        <CardTitle className="text-2xl font-bold">
+          {isEditing ? "Edit Poll" : "Create New Poll"}
+        </CardTitle>
         <CardDescription>
-          Create a poll to gather opinions from your audience
+          {isEditing
+            ? "Update the question, options and settings of your poll"
+            : "Create a poll to gather opinions from your audience"}
         </CardDescription>
       </CardHeader>
 
@@ -302,6 +488,26 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
             </p>
           </div>
 
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (optional)</Label>
+            <Input
+              id="tags"
+              name="tags"
+              placeholder="sports, local-news"
+              value={tagsText}
+              onChange={(e) => {
+                setTagsText(e.target.value);
+                if (error) setError(null);
+              }}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_POLL_TAGS} tags, separated by commas, so people can
+              find your poll by topic.
+            </p>
+          </div>
+
           {/* Poll Options */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -331,7 +537,39 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
                       disabled={isLoading}
                       maxLength={1000}
                     />
+                    {votesFor(index) > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {votesFor(index)}{" "}
+                        {votesFor(index) === 1 ? "vote" : "votes"}
+                      </p>
+                    )}
                   </div>
+                  {isEditing && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => moveOption(index, -1)}
+                        disabled={isLoading || index === 0}
+                        aria-label={`Move option ${index + 1} up`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => moveOption(index, 1)}
+                        disabled={
+                          isLoading || index === formData.options.length - 1
+                        }
+                        aria-label={`Move option ${index + 1} down`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
                   {formData.options.length > 2 && (
                     <Button
                       type="button"
@@ -352,6 +590,49 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
             </p>
           </div>
 
+          {/* Poll Type */}
+          <div className="space-y-2">
+            <Label htmlFor="poll_type">Poll Type</Label>
+            <select
+              id="poll_type"
+              name="poll_type"
+              value={formData.poll_type}
+              onChange={handleInputChange}
+              disabled={isLoading || hasVotes}
+              className="w-full px-3 py-2 border border-input rounded-md text-sm bg-background"
+            >
+              <option value="choice">Choice (pick one or more)</option>
+              <option value="ranked">Ranked choice (instant runoff)</option>
+              <option value="approval">Approval (approve any number)</option>
+              <option value="score">Score (0-10 per option)</option>
+              <option value="rating">Star rating (1-5 per option)</option>
+            </select>
+            {hasVotes && (
+              <p className="text-xs text-muted-foreground">
+                The poll type cannot change once votes have been cast.
+              </p>
+            )}
+            {formData.poll_type === "ranked" && (
+              <p className="text-xs text-muted-foreground">
+                Voters order every option. The option with the fewest first
+                choices is eliminated each round until one has a majority.
+              </p>
+            )}
+            {formData.poll_type === "approval" && (
+              <p className="text-xs text-muted-foreground">
+                Voters approve every option they like. The option with the most
+                approvals wins.
+              </p>
+            )}
+            {(formData.poll_type === "score" ||
+              formData.poll_type === "rating") && (
+              <p className="text-xs text-muted-foreground">
+                Voters score every option. Results show the average, median and
+                distribution of scores.
+              </p>
+            )}
+          </div>
+
           {/* Poll Settings */}
           <div className="space-y-4">
             <Label className="text-base font-semibold">Poll Settings</Label>
@@ -372,44 +653,135 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
                 </Label>
               </div>
 
+              {(formData.poll_type || "choice") === "choice" && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="allow_multiple_votes"
+                    name="allow_multiple_votes"
+                    checked={formData.allow_multiple_votes}
+                    onChange={handleInputChange}
+                    disabled={isLoading}
+                    className="rounded border-gray-300"
+                  />
+                  <Label
+                    htmlFor="allow_multiple_votes"
+                    className="text-sm font-normal"
+                  >
+                    Allow multiple votes per person
+                  </Label>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
-                  id="allow_multiple_votes"
-                  name="allow_multiple_votes"
-                  checked={formData.allow_multiple_votes}
+                  id="allow_anonymous_votes"
+                  name="allow_anonymous_votes"
+                  checked={formData.allow_anonymous_votes}
                   onChange={handleInputChange}
                   disabled={isLoading}
                   className="rounded border-gray-300"
                 />
                 <Label
-                  htmlFor="allow_multiple_votes"
+                  htmlFor="allow_anonymous_votes"
                   className="text-sm font-normal"
                 >
-                  Allow multiple votes per person
+                  Allow anonymous (guest) voting
                 </Label>
               </div>
 
+              {formData.allow_anonymous_votes && (
+                <div className="space-y-1 pl-6">
+                  <Label
+                    htmlFor="anonymous_dedupe"
+                    className="text-sm font-normal"
+                  >
+                    Repeat guest votes
+                  </Label>
+                  <select
+                    id="anonymous_dedupe"
+                    name="anonymous_dedupe"
+                    value={formData.anonymous_dedupe}
+                    onChange={handleInputChange}
+                    disabled={isLoading}
+                    className="w-full px-3 py-2 border border-input rounded-md text-sm bg-background"
+                  >
+                    {ANONYMOUS_DEDUPE_LEVELS.map((level) => (
+                      <option key={level} value={level}>
+                        {ANONYMOUS_DEDUPE_LABELS[level]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Guests sharing a network, such as an office or school, may
+                    be turned away by the stricter checks.
+                  </p>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
-                  id="allow_anonymous_votes"
-                  name="allow_anonymous_votes"
-                  checked={formData.allow_anonymous_votes}
+                  id="allow_suggestions"
+                  name="allow_suggestions"
+                  checked={formData.allow_suggestions}
                   onChange={handleInputChange}
                   disabled={isLoading}
                   className="rounded border-gray-300"
                 />
                 <Label
-                  htmlFor="allow_anonymous_votes"
+                  htmlFor="allow_suggestions"
                   className="text-sm font-normal"
                 >
-                  Allow anonymous (guest) voting
+                  Let voters suggest options for you to approve
                 </Label>
               </div>
             </div>
           </div>
 
+          {/* Allowed Voters */}
+          <div className="space-y-2">
+            <Label htmlFor="voter_allowlist">Allowed Voters (optional)</Label>
+            <Textarea
+              id="voter_allowlist"
+              name="voter_allowlist"
+              placeholder={"alice@example.com\n@ourcompany.com"}
+              value={allowlistText}
+              onChange={(e) => {
+                setAllowlistText(e.target.value);
+                if (error) setError(null);
+              }}
+              disabled={isLoading}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              One email address or @domain per line. Only signed-in voters with
+              a matching verified email can vote; leave empty to let everyone
+              vote.
+            </p>
+          </div>
+
+          {/* Opening Date */}
+          <div className="space-y-2">
+            <Label htmlFor="opens_at">
+              <Calendar className="h-4 w-4 inline mr-1" />
+              Opening Date (optional)
+            </Label>
+            <Input
+              id="opens_at"
+              name="opens_at"
+              type="datetime-local"
+              value={toDateTimeLocal(formData.opens_at)}
+              onChange={handleInputChange}
+              disabled={isLoading}
+              min={isEditing ? undefined : new Date().toISOString().slice(0, 16)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to open the poll for voting right away
+            </p>
+          </div>
+
           {/* Expiration Date */}
           <div className="space-y-2">
             <Label htmlFor="expires_at">
@@ -420,19 +792,10 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
               id="expires_at"
               name="expires_at"
               type="datetime-local"
-              value={
-                formData.expires_at
-                  ? new Date(
-                      formData.expires_at.getTime() -
-                        formData.expires_at.getTimezoneOffset() * 60000,
-                    )
-                      .toISOString()
-                      .slice(0, 16)
-                  : ""
-              }
+              value={toDateTimeLocal(formData.expires_at)}
               onChange={handleInputChange}
               disabled={isLoading}
-              min={new Date().toISOString().slice(0, 16)}
+              min={isEditing ? undefined : new Date().toISOString().slice(0, 16)}
             />
             <p className="text-xs text-muted-foreground">
               Leave empty for a poll that never expires
@@ -450,8 +813,25 @@ export function CreatePollForm({ onSuccess }: CreatePollFormProps) {
             >
               Cancel
             </Button>
+            {!isEditing && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => handleSubmit(e, true)}
+                disabled={isLoading}
+                className="flex-1"
+              >
+                Save as Draft
+              </Button>
+            )}
             <Button type="submit" disabled={isLoading} className="flex-1">
-              {isLoading ? "Creating Poll..." : "Create Poll"}
+              {isEditing
+                ? isLoading
+                  ? "Saving..."
+                  : "Save Changes"
+                : isLoading
+                  ? "Creating Poll..."
+                  : "Create Poll"}
             </Button>
           </div>
         </CardContent>
@@ -0,0 +1,193 @@
+"use client";
+
+import { Eye, Share2, TrendingUp, Vote } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { PollResults } from "@/components/polls/poll-results";
+import { AnalyticsBucket, PollAnalytics } from "@/types/database";
+import { calculatePercentage } from "@/lib/utils";
+
+interface PollAnalyticsViewProps {
+  analytics: PollAnalytics;
+}
+
+interface ActivityChartProps {
+  title: string;
+  bucket: AnalyticsBucket;
+  series: PollAnalytics["votes_over_time"];
+}
+
+const BUCKET_LABELS: Record<AnalyticsBucket, Intl.DateTimeFormatOptions> = {
+  hour: { month: "short", day: "numeric", hour: "2-digit" },
+  day: { month: "short", day: "numeric" },
+  week: { month: "short", day: "numeric", year: "numeric" },
+};
+
+/**
+ * ActivityChart draws a time series as a column per bucket.
+ *
+ * Assumptions:
+ * - series is ordered by date and already includes empty buckets.
+ *
+ * Edge Cases:
+ * - Columns keep a sliver of height so empty buckets stay visible.
+ *
+ * Connections:
+ * - Used by PollAnalyticsView for votes and views over time.
+ */
+function ActivityChart({ title, bucket, series }: ActivityChartProps) {
+  const max = Math.max(1, ...series.map((point) => point.count));
+  const label = (date: string) =>
+    new Date(date).toLocaleString("en-US", BUCKET_LABELS[bucket]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        {series.length > 0 && (
+          <CardDescription>
+            {label(series[0].date)} – {label(series[series.length - 1].date)}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-px h-40">
+          {series.map((point) => (
+            <div
+              key={point.date}
+              title={`${label(point.date)}: ${point.count}`}
+              className="flex-1 bg-primary rounded-t-sm"
+              style={{ height: `${Math.max(2, (point.count / max) * 100)}%` }}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * PollAnalyticsView renders a poll's totals, activity charts and traffic sources.
+ *
+ * Assumptions:
+ * - analytics comes from GET /api/polls/[id]/analytics.
+ *
+ * Edge Cases:
+ * - Views without a referrer are grouped as "direct".
+ * - Sections with no data show an empty-state message.
+ *
+ * Connections:
+ * - Used on the poll analytics page.
+ */
+export function PollAnalyticsView({ analytics }: PollAnalyticsViewProps) {
+  const conversion = calculatePercentage(
+    analytics.total_votes,
+    analytics.total_views,
+  );
+  const stats = [
+    { label: "Votes", value: analytics.total_votes, icon: Vote },
+    { label: "Views", value: analytics.total_views, icon: Eye },
+    { label: "Shares", value: analytics.total_shares, icon: Share2 },
+    { label: "Vote rate", value: `${conversion}%`, icon: TrendingUp },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(({ label, value, icon: Icon }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <p className="text-2xl font-bold mt-1">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <ActivityChart
+          title="Votes over time"
+          bucket={analytics.bucket}
+          series={analytics.votes_over_time}
+        />
+        <ActivityChart
+          title="Views over time"
+          bucket={analytics.bucket}
+          series={analytics.views_over_time}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Top referrers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {analytics.top_referrers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No views yet.</p>
+            ) : (
+              analytics.top_referrers.map((referrer) => (
+                <div key={referrer.source} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{referrer.source}</span>
+                    <span className="text-muted-foreground">
+                      {referrer.count}
+                    </span>
+                  </div>
+                  <Progress
+                    value={calculatePercentage(
+                      referrer.count,
+                      analytics.total_views,
+                    )}
+                    className="h-2"
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Shares</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {analytics.shares_by_method.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This poll has not been shared yet.
+              </p>
+            ) : (
+              analytics.shares_by_method.map((share) => (
+                <div key={share.method} className="flex justify-between text-sm">
+                  <span className="capitalize">{share.method}</span>
+                  <span className="text-muted-foreground">{share.count}</span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Results</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PollResults
+            results={analytics.results}
+            pollType={analytics.poll.poll_type}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
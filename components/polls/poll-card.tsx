@@ -13,6 +13,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { PollWithDetails } from "@/types/database";
+import { SCORE_RANGES } from "@/lib/validation";
+import { splitHighlights } from "@/lib/search";
 import {
   formatDate,
   calculatePercentage,
@@ -24,14 +26,35 @@ interface PollCardProps {
   poll: PollWithDetails;
   showResults?: boolean;
   compact?: boolean;
+  // Makes the poll's tags clickable, for filtering a listing by tag
+  onTagClick?: (tag: string) => void;
+}
+
+// Renders a search highlight with its matches marked
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, i) =>
+        part.highlighted ? (
+          <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        ),
+      )}
+    </>
+  );
 }
 
 export function PollCard({
   poll,
   showResults = false,
   compact = false,
+  onTagClick,
 }: PollCardProps) {
   const totalVotes = poll._count?.votes || 0;
+  const isDraft = poll.status === "draft";
   const hasExpired = poll.expiresAt
     ? new Date(poll.expiresAt) < new Date()
     : false;
@@ -62,23 +85,41 @@ export function PollCard({
                 href={`/polls/${poll.id}`}
                 className="hover:text-primary transition-colors"
               >
-                {truncateText(poll.title, compact ? 60 : 80)}
+                {poll.search ? (
+                  <Highlighted text={poll.search.title_highlight} />
+                ) : (
+                  truncateText(poll.title, compact ? 60 : 80)
+                )}
               </Link>
             </CardTitle>
 
-            {poll.description && (
+            {poll.search?.snippet ? (
               <CardDescription
                 className={`mt-2 ${compact ? "text-xs" : "text-sm"} line-clamp-2`}
               >
-                {truncateText(poll.description, compact ? 100 : 150)}
+                <Highlighted text={poll.search.snippet} />
               </CardDescription>
+            ) : (
+              poll.description && (
+                <CardDescription
+                  className={`mt-2 ${compact ? "text-xs" : "text-sm"} line-clamp-2`}
+                >
+                  {truncateText(poll.description, compact ? 100 : 150)}
+                </CardDescription>
+              )
             )}
           </div>
 
-          {hasExpired && (
-            <div className="px-2 py-1 bg-red-100 text-red-800 rounded-md text-xs font-medium">
-              Expired
+          {isDraft ? (
+            <div className="px-2 py-1 bg-gray-100 text-gray-800 rounded-md text-xs font-medium">
+              Draft
             </div>
+          ) : (
+            hasExpired && (
+              <div className="px-2 py-1 bg-red-100 text-red-800 rounded-md text-xs font-medium">
+                Expired
+              </div>
+            )
           )}
         </div>
 
@@ -110,6 +151,30 @@ export function PollCard({
             </div>
           )}
         </div>
+
+        {poll.tags && poll.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {poll.tags.map((tag) =>
+              onTagClick ? (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => onTagClick(tag)}
+                  className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-md text-xs hover:bg-blue-100"
+                >
+                  #{tag}
+                </button>
+              ) : (
+                <span
+                  key={tag}
+                  className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-md text-xs"
+                >
+                  #{tag}
+                </span>
+              ),
+            )}
+          </div>
+        )}
       </CardHeader>
 
       {showResults && totalVotes > 0 && !compact && (
@@ -123,11 +188,23 @@ export function PollCard({
             </div>
 
             {poll.options
-              ?.sort((a, b) => (b.vote_count || 0) - (a.vote_count || 0))
+              ?.sort(
+                (a, b) =>
+                  (b.average_score ?? b.vote_count ?? 0) -
+                  (a.average_score ?? a.vote_count ?? 0),
+              )
               .slice(0, 3)
               .map((option) => {
                 const votes = option.vote_count || 0;
-                const percentage = calculatePercentage(votes, totalVotes);
+                const percentage =
+                  option.average_score != null
+                    ? calculatePercentage(
+                        option.average_score,
+                        poll.poll_type === "rating"
+                          ? SCORE_RANGES.rating.max
+                          : SCORE_RANGES.score.max,
+                      )
+                    : calculatePercentage(votes, totalVotes);
 
                 return (
                   <div key={option.id} className="space-y-2">
@@ -136,7 +213,9 @@ export function PollCard({
                         {truncateText(option.text, 30)}
                       </span>
                       <span className="text-muted-foreground whitespace-nowrap">
-                        {votes} ({percentage}%)
+                        {option.average_score != null
+                          ? `avg ${option.average_score}`
+                          : `${votes} (${percentage}%)`}
                       </span>
                     </div>
                     <Progress value={percentage} className="h-2" />
@@ -163,7 +242,7 @@ export function PollCard({
             </div>
 
             <div className="flex gap-2">
-              {!hasExpired && (
+              {!hasExpired && !isDraft && (
                 <Button asChild size="sm">
                   <Link href={`/polls/${poll.id}`}>Vote Now</Link>
                 </Button>
@@ -171,7 +250,11 @@ export function PollCard({
 
               <Button asChild variant="outline" size="sm">
                 <Link href={`/polls/${poll.id}`}>
-                  {showResults ? "View Details" : "View Results"}
+                  {isDraft
+                    ? "Preview"
+                    : showResults
+                      ? "View Details"
+                      : "View Results"}
                 </Link>
               </Button>
             </div>
@@ -0,0 +1,482 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PollComment, PollOption, PollType, Vote } from "@/types/database";
+import { useAuth } from "@/contexts/auth-context";
+import { generateFingerprint, getUserVote } from "@/lib/database";
+import {
+  FINGERPRINT_HEADER,
+  POLL_INVITE_HEADER,
+  storedInviteToken,
+} from "@/lib/invites";
+import { formatDateTime } from "@/lib/utils";
+
+interface PollCommentsProps {
+  pollId: string;
+  pollCreatorId: string;
+  pollType: PollType;
+  options: PollOption[];
+}
+
+// Replies deeper than this are shown at the same indentation
+const MAX_THREAD_DEPTH = 4;
+
+// What a commenter's ballot says, in a few words
+const voteSummary = (
+  votes: Vote[],
+  options: PollOption[],
+  pollType: PollType,
+): string | null => {
+  const optionText = (optionId: string) =>
+    options.find((option) => option.id === optionId)?.text;
+
+  if (votes.length === 0) return null;
+
+  if (pollType === "ranked") {
+    const first = [...votes].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))[0];
+    const text = optionText(first.option_id);
+    return text ? `ranked ${text} first` : null;
+  }
+
+  if (pollType === "score" || pollType === "rating") {
+    const top = [...votes].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))[0];
+    const text = optionText(top.option_id);
+    return text ? `scored ${text} highest` : null;
+  }
+
+  const texts = votes
+    .map((vote) => optionText(vote.option_id))
+    .filter((text): text is string => !!text);
+  return texts.length > 0 ? `voted for ${texts.join(", ")}` : null;
+};
+
+/**
+ * PollComments shows a poll's discussion as threads, with a form to join in.
+ *
+ * Assumptions:
+ * - Rendered below a published poll; signed-out visitors can read but not post.
+ *
+ * Edge Cases:
+ * - Authors can edit and delete their comments; the poll's creator can remove any.
+ * - Deleted comments with replies stay as placeholders so the replies keep their context.
+ * - Vote badges are only shown for comments whose author opted in, and only
+ *   when the viewer can see the author's vote.
+ *
+ * Connections:
+ * - Used on the poll detail page.
+ * - Talks to GET/POST /api/polls/[id]/comments and PATCH/DELETE /api/polls/[id]/comments/[commentId];
+ *   reads votes with getUserVote.
+ */
+export function PollComments({
+  pollId,
+  pollCreatorId,
+  pollType,
+  options,
+}: PollCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<PollComment[]>([]);
+  const [authorVotes, setAuthorVotes] = useState<Record<string, string>>({});
+  const [body, setBody] = useState("");
+  const [showVote, setShowVote] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    // Guests with an invite are matched by these headers, like in usePoll
+    const inviteToken = storedInviteToken(pollId);
+    const headers: Record<string, string> = inviteToken
+      ? {
+          [POLL_INVITE_HEADER]: inviteToken,
+          [FINGERPRINT_HEADER]: generateFingerprint(),
+        }
+      : {};
+
+    fetch(`/api/polls/${pollId}/comments`, { headers })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load comments");
+        setComments(data.comments);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load comments"),
+      );
+  }, [pollId]);
+
+  // Look up each opted-in author's vote once
+  useEffect(() => {
+    const authorIds = Array.from(
+      new Set(
+        comments
+          .filter((comment) => comment.show_vote && !comment.deleted_at)
+          .map((comment) => comment.author_id),
+      ),
+    ).filter((authorId) => !(authorId in authorVotes));
+
+    if (authorIds.length === 0) return;
+
+    Promise.all(
+      authorIds.map(async (authorId) => {
+        try {
+          const votes = await getUserVote(pollId, authorId);
+          return [authorId, voteSummary(votes, options, pollType) ?? ""] as const;
+        } catch {
+          return [authorId, ""] as const;
+        }
+      }),
+    ).then((entries) =>
+      setAuthorVotes((prev) => ({ ...prev, ...Object.fromEntries(entries) })),
+    );
+  }, [comments, authorVotes, pollId, options, pollType]);
+
+  const postComment = async (commentBody: string, parentId: string | null) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          body: commentBody,
+          parent_id: parentId,
+          show_vote: showVote,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to post comment");
+      }
+
+      setComments((prev) => [...prev, data.comment]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to post comment");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await postComment(body, null)) setBody("");
+  };
+
+  const submitReply = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (await postComment(replyBody, parentId)) {
+      setReplyTo(null);
+      setReplyBody("");
+    }
+  };
+
+  const submitEdit = async (e: React.FormEvent, comment: PollComment) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/comments/${comment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: editBody }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to edit comment");
+      }
+
+      setComments((prev) =>
+        prev.map((c) => (c.id === comment.id ? data.comment : c)),
+      );
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to edit comment");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteComment = async (comment: PollComment) => {
+    const isAuthor = comment.author_id === user?.id;
+    if (
+      !window.confirm(
+        isAuthor ? "Delete your comment?" : "Remove this comment from the discussion?",
+      )
+    ) {
+      return;
+    }
+
+    const response = await fetch(`/api/polls/${pollId}/comments/${comment.id}`, {
+      method: "DELETE",
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to delete comment");
+      return;
+    }
+
+    // Mirror delete_poll_comment: keep a placeholder only while replies remain
+    setComments((prev) => {
+      const hasReplies = (id: string, list: PollComment[]) =>
+        list.some((c) => c.parent_id === id);
+
+      let next = prev;
+      if (hasReplies(comment.id, prev)) {
+        next = prev.map((c) =>
+          c.id === comment.id
+            ? {
+                ...c,
+                body: "",
+                show_vote: false,
+                deleted_at: new Date().toISOString(),
+                deleted_by_creator: !isAuthor,
+              }
+            : c,
+        );
+      } else {
+        next = prev.filter((c) => c.id !== comment.id);
+        let parentId = comment.parent_id;
+        while (parentId) {
+          const parent = next.find((c) => c.id === parentId);
+          if (!parent || !parent.deleted_at || hasReplies(parent.id, next)) break;
+          next = next.filter((c) => c.id !== parent.id);
+          parentId = parent.parent_id;
+        }
+      }
+      return next;
+    });
+  };
+
+  const renderComment = (comment: PollComment, depth: number) => {
+    const replies = comments.filter((c) => c.parent_id === comment.id);
+    const isAuthor = !!user && comment.author_id === user.id;
+    const canRemove = !!user && (isAuthor || user.id === pollCreatorId);
+    const badge = comment.show_vote ? authorVotes[comment.author_id] : null;
+
+    return (
+      <li key={comment.id} className="space-y-3">
+        <div className="space-y-1">
+          {comment.deleted_at ? (
+            <p className="text-sm italic text-muted-foreground">
+              {comment.deleted_by_creator
+                ? "Removed by the poll creator"
+                : "[deleted]"}
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-medium text-gray-900">
+                  {comment.author?.username || "Anonymous"}
+                </span>
+                {comment.author_id === pollCreatorId && (
+                  <span className="px-1.5 py-0.5 bg-gray-100 text-gray-800 rounded">
+                    Creator
+                  </span>
+                )}
+                {badge && (
+                  <span className="px-1.5 py-0.5 bg-blue-100 text-blue-800 rounded">
+                    {badge}
+                  </span>
+                )}
+                <span>{formatDateTime(comment.created_at)}</span>
+                {comment.edited_at && <span>(edited)</span>}
+              </div>
+
+              {editing === comment.id ? (
+                <form onSubmit={(e) => submitEdit(e, comment)} className="space-y-2">
+                  <Textarea
+                    value={editBody}
+                    onChange={(e) => setEditBody(e.target.value)}
+                    disabled={isLoading}
+                    maxLength={2000}
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm" disabled={isLoading || !editBody.trim()}>
+                      Save
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  {comment.body}
+                </p>
+              )}
+
+              {user && editing !== comment.id && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setReplyTo(replyTo === comment.id ? null : comment.id);
+                      setReplyBody("");
+                    }}
+                  >
+                    <Reply className="h-4 w-4 mr-1" />
+                    Reply
+                  </Button>
+                  {isAuthor && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditing(comment.id);
+                        setEditBody(comment.body);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {canRemove && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteComment(comment)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      {isAuthor ? "Delete" : "Remove"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {replyTo === comment.id && (
+            <form onSubmit={(e) => submitReply(e, comment.id)} className="space-y-2">
+              <Textarea
+                placeholder="Write a reply..."
+                value={replyBody}
+                onChange={(e) => setReplyBody(e.target.value)}
+                disabled={isLoading}
+                maxLength={2000}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isLoading || !replyBody.trim()}>
+                  Reply
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReplyTo(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {replies.length > 0 && (
+          <ul
+            className={`space-y-4 ${depth < MAX_THREAD_DEPTH ? "pl-4 border-l" : ""}`}
+          >
+            {replies.map((reply) => renderComment(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  const topLevel = comments.filter((comment) => !comment.parent_id);
+  const liveCount = comments.filter((comment) => !comment.deleted_at).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Discussion
+        </CardTitle>
+        <CardDescription>
+          {liveCount === 0
+            ? "No comments yet."
+            : `${liveCount} ${liveCount === 1 ? "comment" : "comments"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {user ? (
+          <form onSubmit={submitComment} className="space-y-3">
+            <Textarea
+              placeholder="Share your thoughts..."
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              disabled={isLoading}
+              maxLength={2000}
+              rows={3}
+            />
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="comment_show_vote"
+                  checked={showVote}
+                  onChange={(e) => setShowVote(e.target.checked)}
+                  disabled={isLoading}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="comment_show_vote" className="text-sm font-normal">
+                  Show how I voted
+                </Label>
+              </div>
+              <Button type="submit" disabled={isLoading || !body.trim()}>
+                {isLoading ? "Posting..." : "Post Comment"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            <Link href={`/login?redirectTo=/polls/${pollId}`} className="underline">
+              Sign in
+            </Link>{" "}
+            to join the discussion.
+          </p>
+        )}
+
+        {topLevel.length > 0 && (
+          <ul className="space-y-6">
+            {topLevel.map((comment) => renderComment(comment, 0))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PollDraftBannerProps {
+  pollId: string;
+  onPublished: () => void;
+}
+
+/**
+ * PollDraftBanner marks a poll page as a draft preview and lets the creator publish it.
+ *
+ * Assumptions:
+ * - Rendered for the creator of a draft poll; nobody else can load a draft.
+ *
+ * Edge Cases:
+ * - Publishing asks for confirmation, since a published poll cannot become a draft again.
+ * - Shows the API's error, e.g. when the expiration date has already passed.
+ *
+ * Connections:
+ * - Used by the poll detail page; talks to POST /api/polls/[id]/publish.
+ */
+export function PollDraftBanner({ pollId, onPublished }: PollDraftBannerProps) {
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const publish = async () => {
+    if (!window.confirm("Publish this poll? It cannot be turned back into a draft.")) {
+      return;
+    }
+
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/publish`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to publish poll");
+      }
+
+      onPublished();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to publish poll");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-2 text-sm bg-yellow-50 border border-yellow-200 rounded-md">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-2 text-yellow-800">
+          <Eye className="h-4 w-4" />
+          This is a preview of your draft. Only you can see it until it is published.
+        </span>
+        <Button size="sm" onClick={publish} disabled={isPublishing}>
+          {isPublishing ? "Publishing..." : "Publish"}
+        </Button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PollEdit, PollEditChanges } from "@/types/database";
+import { getPollEdits } from "@/lib/database";
+import { formatDateTime } from "@/lib/utils";
+
+interface PollEditHistoryProps {
+  pollId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  is_public: "Visibility",
+  allow_multiple_votes: "Multiple votes",
+  allow_anonymous_votes: "Anonymous voting",
+  allow_suggestions: "Option suggestions",
+  anonymous_dedupe: "Anonymous vote checks",
+  poll_type: "Poll type",
+  opens_at: "Opening",
+  expires_at: "Expiration",
+};
+
+/**
+ * describeEdit turns a poll_edits.changes payload into readable lines.
+ *
+ * Assumptions:
+ * - changes follows PollEditChanges as written by update_poll_with_options.
+ *
+ * Edge Cases:
+ * - Notes how many votes were discarded with each removed option.
+ *
+ * Connections:
+ * - Used by PollEditHistory for each audit entry.
+ */
+function describeEdit(changes: PollEditChanges): string[] {
+  const lines = Object.keys(changes.fields || {}).map(
+    (field) => `${FIELD_LABELS[field] || field} changed`,
+  );
+
+  changes.renamed?.forEach((option) =>
+    lines.push(`Renamed "${option.from}" to "${option.to}"`),
+  );
+  changes.added?.forEach((text) => lines.push(`Added "${text}"`));
+  changes.removed?.forEach((option) =>
+    lines.push(
+      `Removed "${option.text}"${option.votes > 0 ? ` (${option.votes} votes discarded)` : ""}`,
+    ),
+  );
+  if (changes.reordered) lines.push("Reordered options");
+
+  return lines;
+}
+
+/**
+ * PollEditHistory lists the audit trail of edits made to a poll.
+ *
+ * Assumptions:
+ * - Rendered for the poll's creator, the only user allowed to read poll_edits.
+ *
+ * Edge Cases:
+ * - Shows an empty-state message when the poll was never edited.
+ * - Shows fetch errors inline instead of throwing.
+ *
+ * Connections:
+ * - Used on the poll edit page below the edit form.
+ */
+export function PollEditHistory({ pollId }: PollEditHistoryProps) {
+  const [edits, setEdits] = useState<PollEdit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPollEdits(pollId)
+      .then((data) => {
+        setEdits(data);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load history"),
+      );
+  }, [pollId]);
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Edit History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {!error && edits.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            This poll has not been edited yet.
+          </p>
+        )}
+
+        {edits.map((edit) => (
+          <div key={edit.id} className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {formatDateTime(edit.created_at)}
+            </p>
+            <ul className="text-sm list-disc pl-5">
+              {describeEdit(edit.changes as unknown as PollEditChanges).map(
+                (line, index) => (
+                  <li key={index}>{line}</li>
+                ),
+              )}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
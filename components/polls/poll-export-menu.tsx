@@ -0,0 +1,46 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PollExportMenuProps {
+  pollId: string;
+}
+
+const EXPORT_LINKS = [
+  { label: "Results CSV", query: "format=csv&dataset=results" },
+  { label: "Votes CSV", query: "format=csv&dataset=votes" },
+  { label: "JSON", query: "format=json" },
+  { label: "Excel", query: "format=xlsx" },
+];
+
+/**
+ * PollExportMenu offers download links for a poll's results and raw votes.
+ *
+ * Assumptions:
+ * - Rendered only for the poll's creator; the export route rejects anyone else.
+ *
+ * Edge Cases:
+ * - Downloads are plain links, so the browser streams large exports to disk.
+ *
+ * Connections:
+ * - Used on the dashboard under each of the user's polls.
+ * - Links to GET /api/polls/[id]/export.
+ */
+export function PollExportMenu({ pollId }: PollExportMenuProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Download className="h-4 w-4" />
+        Export
+      </span>
+      {EXPORT_LINKS.map(({ label, query }) => (
+        <Button key={label} asChild variant="outline" size="sm">
+          <a href={`/api/polls/${pollId}/export?${query}`} download>
+            {label}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
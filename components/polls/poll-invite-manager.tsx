@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PollInvite } from "@/types/database";
+import { inviteUrl } from "@/lib/invites";
+import { copyToClipboard, formatDateTime } from "@/lib/utils";
+
+interface PollInviteManagerProps {
+  pollId: string;
+}
+
+// Why an invite no longer lets new people in, if it doesn't
+const inviteState = (invite: PollInvite): string | null => {
+  if (invite.revoked_at) return "revoked";
+  if (invite.expires_at && new Date(invite.expires_at) <= new Date()) return "expired";
+  if (invite.max_uses && invite.redemption_count >= invite.max_uses) return "used up";
+  return null;
+};
+
+/**
+ * PollInviteManager lets creators hand out and revoke invite links to a private poll.
+ *
+ * Assumptions:
+ * - Rendered for the creator of a private poll.
+ *
+ * Edge Cases:
+ * - A link is shown once, right after creation; only its hash is stored.
+ * - Expired and used-up links keep working for people who already used them;
+ *   revoking a link locks everyone who used it out.
+ *
+ * Connections:
+ * - Used on the poll edit page.
+ * - Talks to GET/POST /api/polls/[id]/invites and DELETE /api/polls/[id]/invites/[inviteId].
+ */
+export function PollInviteManager({ pollId }: PollInviteManagerProps) {
+  const [invites, setInvites] = useState<PollInvite[]>([]);
+  const [label, setLabel] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [newLink, setNewLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/polls/${pollId}/invites`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load invite links");
+        setInvites(data.invites);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load invite links"),
+      );
+  }, [pollId]);
+
+  const createInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNewLink(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/invites`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: label.trim() || null,
+          // datetime-local values are in the creator's timezone
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+          max_uses: maxUses ? Number(maxUses) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create invite link");
+      }
+
+      setNewLink(inviteUrl(pollId, data.token));
+      setInvites((prev) => [data.invite, ...prev]);
+      setLabel("");
+      setExpiresAt("");
+      setMaxUses("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create invite link");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeInvite = async (invite: PollInvite) => {
+    if (
+      !window.confirm(
+        `Revoke ${invite.label ? `"${invite.label}"` : "this invite link"}? Everyone who used it loses access to the poll.`,
+      )
+    ) {
+      return;
+    }
+
+    const response = await fetch(`/api/polls/${pollId}/invites/${invite.id}`, {
+      method: "DELETE",
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to revoke invite link");
+      return;
+    }
+
+    setInvites((prev) =>
+      prev.map((i) =>
+        i.id === invite.id ? { ...i, revoked_at: new Date().toISOString() } : i,
+      ),
+    );
+  };
+
+  const copyLink = async () => {
+    if (!newLink) return;
+    if (await copyToClipboard(newLink)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Invite Links
+        </CardTitle>
+        <CardDescription>
+          Anyone with an invite link can view and vote on this private poll.
+          Limit how long a link works or how many people can use it, and revoke
+          it to lock everyone who used it out again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newLink && (
+          <div className="p-3 space-y-2 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-700">
+              Copy the invite link now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={newLink} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={copyLink}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={createInvite} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite_label">Label (optional)</Label>
+            <Input
+              id="invite_label"
+              placeholder="e.g. Team mailing list"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={isLoading}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="invite_expires_at">Expires (optional)</Label>
+              <Input
+                id="invite_expires_at"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite_max_uses">Use limit (optional)</Label>
+              <Input
+                id="invite_max_uses"
+                type="number"
+                min={1}
+                max={10000}
+                placeholder="Unlimited"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Creating..." : "Create Invite Link"}
+          </Button>
+        </form>
+
+        {invites.length > 0 && (
+          <ul className="divide-y border rounded-md">
+            {invites.map((invite) => {
+              const state = inviteState(invite);
+
+              return (
+                <li
+                  key={invite.id}
+                  className={`p-3 flex items-center justify-between gap-4 ${invite.revoked_at ? "opacity-60" : ""}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {invite.label || "Invite link"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Used by {invite.redemption_count}
+                      {invite.max_uses ? ` of ${invite.max_uses}` : ""}{" "}
+                      {invite.redemption_count === 1 && !invite.max_uses ? "person" : "people"}
+                      {" · created "}
+                      {formatDateTime(invite.created_at)}
+                      {invite.expires_at &&
+                        ` · ${state === "expired" ? "expired" : "expires"} ${formatDateTime(invite.expires_at)}`}
+                      {state && state !== "expired" && ` · ${state}`}
+                    </p>
+                  </div>
+                  {!invite.revoked_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      onClick={() => revokeInvite(invite)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Check, Lightbulb, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PollOptionSuggestion, PollType } from "@/types/database";
+import { useAuth } from "@/contexts/auth-context";
+
+interface PollOptionSuggestionsProps {
+  pollId: string;
+  pollCreatorId: string;
+  pollType: PollType;
+  // Called after an approval adds an option, so the poll can be reloaded
+  onApproved?: () => void;
+}
+
+const STATUS_LABELS: Record<PollOptionSuggestion["status"], string> = {
+  pending: "Waiting for approval",
+  approved: "Added to the poll",
+  rejected: "Not added",
+};
+
+/**
+ * PollOptionSuggestions lets voters suggest options and the poll's creator review them.
+ *
+ * Assumptions:
+ * - Rendered for published polls that allow suggestions and have not closed.
+ *
+ * Edge Cases:
+ * - Voters only see their own suggestions; the creator sees the pending ones.
+ * - Auto-voting is only offered on choice and approval polls, whose ballots
+ *   can take a single extra pick.
+ *
+ * Connections:
+ * - Used on the poll detail page.
+ * - Talks to GET/POST /api/polls/[id]/suggestions and PATCH /api/polls/[id]/suggestions/[suggestionId].
+ */
+export function PollOptionSuggestions({
+  pollId,
+  pollCreatorId,
+  pollType,
+  onApproved,
+}: PollOptionSuggestionsProps) {
+  const { user } = useAuth();
+  const [suggestions, setSuggestions] = useState<PollOptionSuggestion[]>([]);
+  const [text, setText] = useState("");
+  const [autoVote, setAutoVote] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isCreator = !!user && user.id === pollCreatorId;
+  const canAutoVote = pollType === "choice";
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch(`/api/polls/${pollId}/suggestions`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load suggestions");
+        setSuggestions(data.suggestions);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load suggestions"),
+      );
+  }, [pollId, user]);
+
+  const suggestOption = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/suggestions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, auto_vote: canAutoVote && autoVote }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to suggest option");
+      }
+
+      setSuggestions((prev) => [...prev, data.suggestion]);
+      setText("");
+      setAutoVote(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to suggest option");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reviewSuggestion = async (
+    suggestion: PollOptionSuggestion,
+    status: "approved" | "rejected",
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/polls/${pollId}/suggestions/${suggestion.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status }),
+        },
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review suggestion");
+      }
+
+      setSuggestions((prev) =>
+        prev.map((s) =>
+          s.id === suggestion.id ? { ...data.suggestion, suggester: s.suggester } : s,
+        ),
+      );
+      if (status === "approved") onApproved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review suggestion");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pending = suggestions.filter((s) => s.status === "pending");
+  const ownSuggestions = suggestions.filter((s) => s.suggested_by === user?.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lightbulb className="h-5 w-5" />
+          {isCreator ? "Suggested Options" : "Suggest an Option"}
+        </CardTitle>
+        <CardDescription>
+          {isCreator
+            ? "Approved suggestions are added to the end of the poll."
+            : "Missing an option? Suggest it, and it is added once the poll's creator approves it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!user && (
+          <p className="text-sm text-muted-foreground">
+            <Link href={`/login?redirectTo=/polls/${pollId}`} className="underline">
+              Sign in
+            </Link>{" "}
+            to suggest an option.
+          </p>
+        )}
+
+        {isCreator && (
+          <>
+            {pending.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No suggestions waiting.</p>
+            ) : (
+              <ul className="divide-y border rounded-md">
+                {pending.map((suggestion) => (
+                  <li
+                    key={suggestion.id}
+                    className="p-3 flex items-center justify-between gap-4"
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm font-medium break-words">{suggestion.text}</p>
+                      <p className="text-xs text-muted-foreground">
+                        by {suggestion.suggester?.username || "Anonymous"}
+                        {suggestion.auto_vote && " · votes for it once approved"}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => reviewSuggestion(suggestion, "approved")}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => reviewSuggestion(suggestion, "rejected")}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {user && !isCreator && (
+          <form onSubmit={suggestOption} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="suggestion_text">Option</Label>
+              <Input
+                id="suggestion_text"
+                placeholder="Your option"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                disabled={isLoading}
+                maxLength={1000}
+              />
+            </div>
+            {canAutoVote && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="suggestion_auto_vote"
+                  checked={autoVote}
+                  onChange={(e) => setAutoVote(e.target.checked)}
+                  disabled={isLoading}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="suggestion_auto_vote" className="text-sm font-normal">
+                  Vote for it once it is approved
+                </Label>
+              </div>
+            )}
+            <Button type="submit" disabled={isLoading || !text.trim()}>
+              {isLoading ? "Suggesting..." : "Suggest Option"}
+            </Button>
+          </form>
+        )}
+
+        {!isCreator && ownSuggestions.length > 0 && (
+          <ul className="divide-y border rounded-md">
+            {ownSuggestions.map((suggestion) => (
+              <li
+                key={suggestion.id}
+                className="p-3 flex items-center justify-between gap-4 text-sm"
+              >
+                <span className="break-words min-w-0">{suggestion.text}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {STATUS_LABELS[suggestion.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
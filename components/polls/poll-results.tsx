@@ -0,0 +1,152 @@
+"use client";
+
+import { Check } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { PollResult, PollType } from "@/types/database";
+import { SCORE_RANGES } from "@/lib/validation";
+
+interface PollResultsProps {
+  results: PollResult[];
+  userVotes?: string[];
+  pollType?: PollType;
+}
+
+/**
+ * PollResults renders per-option vote counts and percentages for a poll.
+ *
+ * Assumptions:
+ * - results come from the get_poll_results RPC and are ordered by order_index.
+ *
+ * Edge Cases:
+ * - Shows an empty-state message when the poll has no votes yet.
+ * - Highlights the options the current voter picked.
+ * - Score and rating polls show the average, median and distribution of
+ *   scores instead of vote shares, with bars scaled to the maximum score.
+ * - Once ballots have been imported, counts are split into online and imported.
+ * - Votes flagged by the fraud checks and not accepted are left out of the
+ *   counts; while there are any, the raw tally including them is shown too.
+ *
+ * Connections:
+ * - Used by the poll detail page after voting or once a poll is closed.
+ */
+export function PollResults({
+  results,
+  userVotes = [],
+  pollType = "choice",
+}: PollResultsProps) {
+  const scoreRange =
+    pollType === "score" || pollType === "rating"
+      ? SCORE_RANGES[pollType]
+      : null;
+
+  // Every scored ballot covers every option, so the largest count is the ballot count
+  const totalVotes = scoreRange
+    ? Math.max(0, ...results.map((result) => Number(result.vote_count)))
+    : results.reduce((sum, result) => sum + Number(result.vote_count), 0);
+  const importedVotes = scoreRange
+    ? Math.max(
+        0,
+        ...results.map((result) => Number(result.imported_vote_count)),
+      )
+    : results.reduce(
+        (sum, result) => sum + Number(result.imported_vote_count),
+        0,
+      );
+  const rawVotes = scoreRange
+    ? Math.max(0, ...results.map((result) => Number(result.raw_vote_count)))
+    : results.reduce((sum, result) => sum + Number(result.raw_vote_count), 0);
+  const hasUncountedVotes = rawVotes > totalVotes;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">Results</span>
+        <span className="text-muted-foreground">
+          {totalVotes}{" "}
+          {scoreRange
+            ? totalVotes === 1
+              ? "ballot"
+              : "ballots"
+            : totalVotes === 1
+              ? "vote"
+              : "votes"}
+          {importedVotes > 0 && ` (${importedVotes} imported)`}
+          {hasUncountedVotes && ` · ${rawVotes} raw`}
+        </span>
+      </div>
+
+      {results.map((result) => {
+        const isUserChoice = userVotes.includes(result.option_id);
+
+        if (scoreRange) {
+          const average = Number(result.average_score ?? 0);
+
+          return (
+            <div key={result.option_id} className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium pr-2">{result.option_text}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  avg {average.toFixed(2)} / median{" "}
+                  {Number(result.median_score ?? 0)}
+                </span>
+              </div>
+              <Progress
+                value={(average / scoreRange.max) * 100}
+                className="h-2"
+              />
+              {result.score_distribution && (
+                <p className="text-xs text-muted-foreground">
+                  {Object.entries(result.score_distribution)
+                    .sort(([a], [b]) => Number(a) - Number(b))
+                    .map(
+                      ([score, count]) =>
+                        `${score}${pollType === "rating" ? "★" : ""}: ${count}`,
+                    )
+                    .join(" · ")}
+                </p>
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <div key={result.option_id} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium flex items-center gap-1 pr-2">
+                {result.option_text}
+                {isUserChoice && (
+                  <Check
+                    className="h-4 w-4 text-green-600"
+                    aria-label="Your vote"
+                  />
+                )}
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {Number(result.vote_count)} ({Number(result.percentage)}%)
+              </span>
+            </div>
+            <Progress value={Number(result.percentage)} className="h-2" />
+            {importedVotes > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {Number(result.vote_count) - Number(result.imported_vote_count)}{" "}
+                online · {Number(result.imported_vote_count)} imported
+              </p>
+            )}
+            {hasUncountedVotes && (
+              <p className="text-xs text-muted-foreground">
+                {Number(result.vote_count)} counted ·{" "}
+                {Number(result.raw_vote_count)} raw
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {totalVotes === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No votes yet. Be the first to vote!
+        </p>
+      )}
+    </div>
+  );
+}
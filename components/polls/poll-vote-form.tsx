@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { PollOption } from "@/types/database";
+
+interface PollVoteFormProps {
+  options: PollOption[];
+  allowMultiple: boolean;
+  disabled?: boolean;
+  onSubmit: (optionIds: string[]) => Promise<void>;
+}
+
+/**
+ * PollVoteForm renders the selectable options of a poll and submits a vote.
+ *
+ * Assumptions:
+ * - options are already sorted by order_index.
+ * - onSubmit sends the vote to the server and throws on failure.
+ *
+ * Edge Cases:
+ * - Uses checkboxes when allowMultiple is set, radio buttons otherwise.
+ * - Disables submission until at least one option is selected.
+ *
+ * Connections:
+ * - Used by the poll detail page together with the usePoll hook.
+ */
+export function PollVoteForm({
+  options,
+  allowMultiple,
+  disabled = false,
+  onSubmit,
+}: PollVoteFormProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toggleOption = (optionId: string) => {
+    if (!allowMultiple) {
+      setSelected([optionId]);
+      return;
+    }
+
+    setSelected((prev) =>
+      prev.includes(optionId)
+        ? prev.filter((id) => id !== optionId)
+        : [...prev, optionId],
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(selected);
+      setSelected([]);
+    } catch {
+      // Errors are surfaced by the caller
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isDisabled = disabled || isSubmitting;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {allowMultiple && (
+        <p className="text-sm text-muted-foreground">
+          You can select more than one option.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {options.map((option) => (
+          <li key={option.id}>
+            <label
+              htmlFor={`option-${option.id}`}
+              className="flex items-center p-3 border border-gray-200 rounded-md cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type={allowMultiple ? "checkbox" : "radio"}
+                id={`option-${option.id}`}
+                name="pollOption"
+                value={option.id}
+                checked={selected.includes(option.id)}
+                onChange={() => toggleOption(option.id)}
+                disabled={isDisabled}
+                className="mr-3 h-4 w-4 border-gray-300"
+              />
+              <span className="flex-grow">{option.text}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isDisabled || selected.length === 0}
+      >
+        {isSubmitting ? "Submitting..." : "Submit Vote"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { Trophy } from "lucide-react";
+import { PollOption, RankedChoiceResult } from "@/types/database";
+
+interface RankedChoiceResultsProps {
+  result: RankedChoiceResult;
+  options: PollOption[];
+}
+
+/**
+ * RankedChoiceResults renders the round-by-round instant-runoff breakdown.
+ *
+ * Assumptions:
+ * - result was computed by computeInstantRunoff over the poll's options.
+ *
+ * Edge Cases:
+ * - Shows an empty-state message when no ballots were cast.
+ * - Reports a tie when no option reached a majority.
+ *
+ * Connections:
+ * - Rendered next to PollResults (first preferences) for ranked polls.
+ */
+export function RankedChoiceResults({
+  result,
+  options,
+}: RankedChoiceResultsProps) {
+  const optionText = (optionId: string) =>
+    options.find((option) => option.id === optionId)?.text || "Unknown option";
+
+  if (result.total_ballots === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The runoff will appear once ballots are cast.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">Instant-runoff rounds</span>
+        <span className="text-muted-foreground">
+          {result.total_ballots}{" "}
+          {result.total_ballots === 1 ? "ballot" : "ballots"}
+        </span>
+      </div>
+
+      <div className="p-3 text-sm bg-blue-50 border border-blue-200 rounded-md flex items-center gap-2">
+        <Trophy className="h-4 w-4 text-blue-700" />
+        {result.winner_id
+          ? `Winner: ${optionText(result.winner_id)}`
+          : "No option reached a majority (tie)"}
+      </div>
+
+      {result.rounds.map((round) => (
+        <div key={round.round} className="space-y-1">
+          <p className="text-sm font-medium">Round {round.round}</p>
+          <ul className="text-sm space-y-1">
+            {Object.entries(round.tallies)
+              .sort(([, a], [, b]) => b - a)
+              .map(([optionId, count]) => (
+                <li
+                  key={optionId}
+                  className={`flex justify-between ${round.eliminated.includes(optionId) ? "text-muted-foreground line-through" : ""}`}
+                >
+                  <span className="pr-2">{optionText(optionId)}</span>
+                  <span className="whitespace-nowrap">{count}</span>
+                </li>
+              ))}
+          </ul>
+          {round.exhausted_ballots > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {round.exhausted_ballots} exhausted{" "}
+              {round.exhausted_ballots === 1 ? "ballot" : "ballots"}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
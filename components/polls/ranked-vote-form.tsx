@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PollOption } from "@/types/database";
+
+interface RankedVoteFormProps {
+  options: PollOption[];
+  disabled?: boolean;
+  onSubmit: (optionIds: string[]) => Promise<void>;
+}
+
+/**
+ * RankedVoteForm lets a voter order every option of a ranked-choice poll.
+ *
+ * Assumptions:
+ * - options are already sorted by order_index, which is the initial ranking.
+ * - onSubmit sends the ballot to the server and throws on failure.
+ *
+ * Edge Cases:
+ * - The first option cannot move up and the last cannot move down.
+ *
+ * Connections:
+ * - Used by the poll detail page for polls with poll_type "ranked".
+ * - Submits option ids from most to least preferred.
+ */
+export function RankedVoteForm({
+  options,
+  disabled = false,
+  onSubmit,
+}: RankedVoteFormProps) {
+  const [ranking, setRanking] = useState<PollOption[]>(options);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const moveOption = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= ranking.length) return;
+
+    const next = [...ranking];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRanking(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(ranking.map((option) => option.id));
+    } catch {
+      // Errors are surfaced by the caller
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isDisabled = disabled || isSubmitting;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Order the options from your first to your last choice.
+      </p>
+
+      <ol className="space-y-3">
+        {ranking.map((option, index) => (
+          <li
+            key={option.id}
+            className="flex items-center gap-3 p-3 border border-gray-200 rounded-md"
+          >
+            <span className="w-6 text-sm font-semibold text-muted-foreground">
+              {index + 1}.
+            </span>
+            <span className="flex-grow">{option.text}</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => moveOption(index, -1)}
+              disabled={isDisabled || index === 0}
+              aria-label={`Move ${option.text} up`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => moveOption(index, 1)}
+              disabled={isDisabled || index === ranking.length - 1}
+              aria-label={`Move ${option.text} down`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+
+      <Button type="submit" className="w-full" disabled={isDisabled}>
+        {isSubmitting ? "Submitting..." : "Submit Ranking"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PollOption } from "@/types/database";
+import { SCORE_RANGES } from "@/lib/validation";
+
+interface ScoreVoteFormProps {
+  options: PollOption[];
+  pollType: "score" | "rating";
+  disabled?: boolean;
+  onSubmit: (optionIds: string[], scores: Record<string, number>) => Promise<void>;
+}
+
+/**
+ * ScoreVoteForm lets a voter give every option a score or a star rating.
+ *
+ * Assumptions:
+ * - options are already sorted by order_index.
+ * - onSubmit sends the ballot to the server and throws on failure.
+ *
+ * Edge Cases:
+ * - Rating polls render stars (1-5); score polls render numbers (0-10).
+ * - Submission stays disabled until every option has a score.
+ *
+ * Connections:
+ * - Used by the poll detail page for polls with poll_type "score" or "rating".
+ */
+export function ScoreVoteForm({
+  options,
+  pollType,
+  disabled = false,
+  onSubmit,
+}: ScoreVoteFormProps) {
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { min, max } = SCORE_RANGES[pollType];
+  const values = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  const isComplete = options.every((option) => scores[option.id] !== undefined);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(
+        options.map((option) => option.id),
+        scores,
+      );
+    } catch {
+      // Errors are surfaced by the caller
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isDisabled = disabled || isSubmitting;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {pollType === "rating"
+          ? "Rate every option from 1 to 5 stars."
+          : `Score every option from ${min} to ${max}.`}
+      </p>
+
+      <ul className="space-y-3">
+        {options.map((option) => (
+          <li
+            key={option.id}
+            className="p-3 border border-gray-200 rounded-md space-y-2"
+          >
+            <p className="font-medium">{option.text}</p>
+            <div className="flex flex-wrap gap-1">
+              {values.map((value) => {
+                const isSelected =
+                  pollType === "rating"
+                    ? (scores[option.id] ?? 0) >= value
+                    : scores[option.id] === value;
+
+                return (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={isSelected && pollType === "score" ? "default" : "outline"}
+                    onClick={() =>
+                      setScores((prev) => ({ ...prev, [option.id]: value }))
+                    }
+                    disabled={isDisabled}
+                    aria-label={`Give ${option.text} ${value}`}
+                    aria-pressed={scores[option.id] === value}
+                  >
+                    {pollType === "rating" ? (
+                      <Star
+                        className={`h-4 w-4 ${isSelected ? "fill-yellow-400 text-yellow-400" : ""}`}
+                      />
+                    ) : (
+                      value
+                    )}
+                  </Button>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isDisabled || !isComplete}
+      >
+        {isSubmitting ? "Submitting..." : "Submit Scores"}
+      </Button>
+    </form>
+  );
+}
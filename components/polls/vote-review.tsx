@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, ShieldAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { FlaggedBallot, PollOption, VoteReviewStatus } from "@/types/database";
+import { VOTE_FRAUD_REASON_LABELS } from "@/lib/fraud";
+
+interface VoteReviewProps {
+  pollId: string;
+  options: Pick<PollOption, "id" | "text">[];
+}
+
+const STATUS_LABELS: Record<VoteReviewStatus, string> = {
+  quarantined: "Held for review",
+  accepted: "Counted",
+  rejected: "Not counted",
+};
+
+/**
+ * VoteReview lets a poll's creator accept or reject votes held by the fraud checks.
+ *
+ * Assumptions:
+ * - Rendered for the poll's creator; the quarantine route rejects anyone else.
+ *
+ * Edge Cases:
+ * - A ballot's rows are reviewed together, so ranked and scored ballots are
+ *   never split.
+ * - Reviewed ballots stay listed below the held ones with their outcome;
+ *   decisions cannot be changed afterwards.
+ *
+ * Connections:
+ * - Used on the poll edit page.
+ * - Talks to GET/PATCH /api/polls/[id]/quarantine.
+ */
+export function VoteReview({ pollId, options }: VoteReviewProps) {
+  const [ballots, setBallots] = useState<FlaggedBallot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/polls/${pollId}/quarantine`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load flagged votes");
+        }
+        setBallots(data.ballots);
+      })
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load flagged votes",
+        ),
+      );
+  }, [pollId]);
+
+  const review = async (
+    reviewed: FlaggedBallot[],
+    status: "accepted" | "rejected",
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    const voteIds = reviewed.flatMap((ballot) => ballot.vote_ids);
+
+    try {
+      const response = await fetch(`/api/polls/${pollId}/quarantine`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vote_ids: voteIds, status }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review votes");
+      }
+
+      setBallots((prev) =>
+        prev.map((ballot) =>
+          reviewed.includes(ballot)
+            ? { ...ballot, review_status: status }
+            : ballot,
+        ),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review votes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const optionText = (optionId: string) =>
+    options.find((option) => option.id === optionId)?.text || "Removed option";
+
+  // Ranked ballots come most preferred first
+  const choices = (ballot: FlaggedBallot) =>
+    ballot.option_ids
+      .map((optionId, index) => {
+        const score = ballot.scores[index];
+        return score === null
+          ? optionText(optionId)
+          : `${optionText(optionId)} (${score})`;
+      })
+      .join(", ");
+
+  const held = ballots.filter(
+    (ballot) => ballot.review_status === "quarantined",
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Flagged Votes
+        </CardTitle>
+        <CardDescription>
+          Votes that look automated or repeated, such as bursts from one network
+          or votes cast the moment the poll was opened, are held here instead of
+          being counted. Accept the ones you trust to add them to the results.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {held.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No votes waiting for review.
+          </p>
+        ) : (
+          held.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                disabled={isLoading}
+                onClick={() => review(held, "accepted")}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Accept all {held.length}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => review(held, "rejected")}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject all {held.length}
+              </Button>
+            </div>
+          )
+        )}
+
+        {ballots.length > 0 && (
+          <ul className="divide-y border rounded-md max-h-96 overflow-y-auto">
+            {ballots.map((ballot) => (
+              <li
+                key={ballot.vote_ids[0]}
+                className="p-3 flex items-center justify-between gap-4"
+              >
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium break-words">
+                    {choices(ballot)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ballot.is_guest ? "Guest" : "Signed-in voter"} ·{" "}
+                    {new Date(ballot.created_at).toLocaleString()} · risk{" "}
+                    {ballot.fraud_score}/100
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ballot.fraud_reasons
+                      .map((reason) => VOTE_FRAUD_REASON_LABELS[reason])
+                      .join("; ")}
+                  </p>
+                </div>
+                {ballot.review_status === "quarantined" ? (
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      disabled={isLoading}
+                      onClick={() => review([ballot], "accepted")}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isLoading}
+                      onClick={() => review([ballot], "rejected")}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {STATUS_LABELS[ballot.review_status]}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,362 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Webhook, WebhookDelivery, WebhookEvent } from "@/types/database";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS } from "@/lib/webhooks";
+import { formatDateTime } from "@/lib/utils";
+
+interface WebhookManagerProps {
+  // Manages the poll's own webhooks; omitted for account-wide webhooks
+  pollId?: string;
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  pending: "text-yellow-700",
+  delivering: "text-blue-700",
+  succeeded: "text-green-700",
+  failed: "text-red-700",
+};
+
+/**
+ * WebhookDeliveryLog shows the latest deliveries of one webhook.
+ *
+ * Assumptions:
+ * - webhookId belongs to the signed-in user.
+ *
+ * Edge Cases:
+ * - Pending deliveries show when they will be retried.
+ *
+ * Connections:
+ * - Used by WebhookManager; talks to GET /api/webhooks/[id]/deliveries.
+ */
+function WebhookDeliveryLog({ webhookId }: { webhookId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/webhooks/${webhookId}/deliveries`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load deliveries");
+        setDeliveries(data.deliveries);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load deliveries"),
+      );
+  }, [webhookId]);
+
+  if (error) return <p className="text-xs text-red-600">{error}</p>;
+  if (!deliveries) return <p className="text-xs text-muted-foreground">Loading...</p>;
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex flex-wrap gap-x-3">
+          <span className={`font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+            {delivery.status}
+          </span>
+          <span className="font-mono">{delivery.event}</span>
+          <span className="text-muted-foreground">{formatDateTime(delivery.created_at)}</span>
+          <span className="text-muted-foreground">
+            {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+            {delivery.response_status && ` · HTTP ${delivery.response_status}`}
+          </span>
+          {delivery.status === "pending" && delivery.next_attempt_at && delivery.attempts > 0 && (
+            <span className="text-muted-foreground">
+              retrying {formatDateTime(delivery.next_attempt_at)}
+            </span>
+          )}
+          {delivery.last_error && delivery.status !== "succeeded" && (
+            <span className="text-red-600 basis-full">{delivery.last_error}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * WebhookManager lets creators register, pause and remove webhook endpoints.
+ *
+ * Assumptions:
+ * - Rendered for a signed-in user; with a pollId, for that poll's creator.
+ *
+ * Edge Cases:
+ * - The signing secret is shown once, right after creation, and cannot be shown again.
+ * - A vote threshold is only asked for when the threshold event is selected.
+ *
+ * Connections:
+ * - Used on the dashboard (account-wide) and the poll edit page (per poll).
+ * - Talks to GET/POST /api/webhooks and PATCH/DELETE /api/webhooks/[id].
+ */
+export function WebhookManager({ pollId }: WebhookManagerProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["vote.cast"]);
+  const [voteThreshold, setVoteThreshold] = useState("");
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // poll.created fires before a poll's own webhooks can exist
+  const availableEvents = pollId
+    ? WEBHOOK_EVENTS.filter((event) => event !== "poll.created")
+    : WEBHOOK_EVENTS;
+  const wantsThreshold = events.includes("poll.vote_threshold");
+
+  const fetchWebhooks = async () => {
+    const response = await fetch(
+      pollId ? `/api/webhooks?poll_id=${pollId}` : "/api/webhooks",
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to load webhooks");
+      return;
+    }
+
+    setWebhooks(data.webhooks);
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [pollId]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event],
+    );
+  };
+
+  const createWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setNewSecret(null);
+
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          events,
+          poll_id: pollId ?? null,
+          vote_threshold: wantsThreshold && voteThreshold ? Number(voteThreshold) : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create webhook");
+      }
+
+      setNewSecret(data.secret);
+      setWebhooks((prev) => [data.webhook, ...prev]);
+      setUrl("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleActive = async (webhook: Webhook) => {
+    const response = await fetch(`/api/webhooks/${webhook.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ is_active: !webhook.is_active }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to update webhook");
+      return;
+    }
+
+    setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? data.webhook : w)));
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/webhooks/${webhook.id}`, { method: "DELETE" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setError(data.error || "Failed to delete webhook");
+      return;
+    }
+
+    setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WebhookIcon className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          {pollId
+            ? "Notify your services about activity on this poll."
+            : "Notify your services about activity on all of your polls."}{" "}
+          Deliveries are signed with the webhook&apos;s secret in the
+          X-Pully-Signature header.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newSecret && (
+          <div className="p-3 space-y-2 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-700">
+              Copy the signing secret now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={newSecret} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={copySecret}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={createWebhook} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook_url">Endpoint URL</Label>
+            <Input
+              id="webhook_url"
+              type="url"
+              placeholder="https://example.com/hooks/polls"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={isLoading}
+              maxLength={2000}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="flex flex-wrap gap-4">
+              {availableEvents.map((event) => (
+                <div key={event} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id={`event_${event}`}
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    disabled={isLoading}
+                    className="rounded border-gray-300"
+                  />
+                  <Label htmlFor={`event_${event}`} className="text-sm font-normal">
+                    {WEBHOOK_EVENT_LABELS[event]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {wantsThreshold && (
+            <div className="space-y-2">
+              <Label htmlFor="webhook_threshold">Notify when votes reach</Label>
+              <Input
+                id="webhook_threshold"
+                type="number"
+                min={1}
+                placeholder="e.g. 100"
+                value={voteThreshold}
+                onChange={(e) => setVoteThreshold(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            disabled={
+              isLoading ||
+              !url.trim() ||
+              events.length === 0 ||
+              (wantsThreshold && !voteThreshold)
+            }
+          >
+            {isLoading ? "Adding..." : "Add Webhook"}
+          </Button>
+        </form>
+
+        {webhooks.length > 0 && (
+          <ul className="divide-y border rounded-md">
+            {webhooks.map((webhook) => (
+              <li
+                key={webhook.id}
+                className={`p-3 space-y-2 ${webhook.is_active ? "" : "opacity-60"}`}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-mono text-sm truncate">{webhook.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {webhook.events.map((e) => WEBHOOK_EVENT_LABELS[e]).join(", ")}
+                      {webhook.vote_threshold && ` · at ${webhook.vote_threshold} votes`}
+                      {!webhook.is_active && " · paused"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}
+                    >
+                      {openLog === webhook.id ? "Hide log" : "Deliveries"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => toggleActive(webhook)}>
+                      {webhook.is_active ? "Pause" : "Resume"}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => deleteWebhook(webhook)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {openLog === webhook.id && <WebhookDeliveryLog webhookId={webhook.id} />}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
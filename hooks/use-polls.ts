@@ -1,19 +1,51 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { createClientSupabase } from "@/lib/supabase-client";
 import { useAuth } from "@/contexts/auth-context";
 import {
   PollWithDetails,
+  PopularTag,
   CreatePollForm,
   VoteForm,
   PollResult,
+  RankedBallot,
+  RankedChoiceResult,
 } from "@/types/database";
-import { DatabaseError } from "@/lib/database";
+import {
+  DatabaseError,
+  generateFingerprint,
+  recordPollView,
+  redeemPollInvite,
+} from "@/lib/database";
+import {
+  FINGERPRINT_HEADER,
+  POLL_INVITE_HEADER,
+  rememberInviteToken,
+  storedInviteToken,
+} from "@/lib/invites";
+import { referrerSource } from "@/lib/analytics";
+import {
+  LiveResultsStatus,
+  applyResultDeltas,
+  subscribeToPollResults,
+} from "@/lib/realtime";
+import { computeInstantRunoff } from "@/lib/ranked-choice";
+import { BALLOT_POLL_TYPES } from "@/lib/validation";
+import { canCastVote } from "@/lib/vote-rules";
+import { debounce } from "@/lib/utils";
+
+// Refetch cadence while the live results socket is down
+const RESULTS_POLL_INTERVAL_MS = 5000;
+// Collapses bursts of update/delete events into a single resync
+const RESULTS_RESYNC_DEBOUNCE_MS = 500;
 
 interface UsePollsOptions {
   userId?: string;
   isPublic?: boolean;
+  // Also list the signed-in user's drafts
+  includeDrafts?: boolean;
+  tag?: string;
   limit?: number;
   search?: string;
   autoFetch?: boolean;
@@ -22,11 +54,15 @@ interface UsePollsOptions {
 interface UsePollsReturn {
   polls: PollWithDetails[];
   loading: boolean;
+  // A next page is being appended; the polls so far stay in place
+  loadingMore: boolean;
   error: string | null;
   hasMore: boolean;
   totalCount: number;
   currentPage: number;
   fetchPolls: (page?: number) => Promise<void>;
+  // Appends the next page, continuing from where the last one ended
+  loadMore: () => Promise<void>;
   createPoll: (pollData: CreatePollForm) => Promise<string>;
   refreshPolls: () => Promise<void>;
   clearError: () => void;
@@ -36,28 +72,51 @@ export function usePolls(options: UsePollsOptions = {}): UsePollsReturn {
   const { user } = useAuth();
   const [polls, setPolls] = useState<PollWithDetails[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
-
-  const { userId, isPublic, limit = 10, search, autoFetch = true } = options;
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Only the latest request may update the list, so a slow response for an
+  // old search cannot replace or extend the current one
+  const latestRequest = useRef(0);
+
+  const {
+    userId,
+    isPublic,
+    includeDrafts,
+    tag,
+    limit = 10,
+    search,
+    autoFetch = true,
+  } = options;
 
   const supabase = createClientSupabase();
 
-  const fetchPolls = async (page: number = 1, append: boolean = false) => {
-    setLoading(true);
+  const fetchPolls = async (
+    page: number = 1,
+    append: boolean = false,
+    cursor?: string,
+  ) => {
+    const request = ++latestRequest.current;
+    setLoading(!append);
+    setLoadingMore(append);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-      });
+      const params = new URLSearchParams({ limit: limit.toString() });
+      if (cursor) {
+        params.append("cursor", cursor);
+      } else {
+        params.append("page", page.toString());
+      }
 
       if (userId) params.append("userId", userId);
       if (isPublic !== undefined)
         params.append("isPublic", isPublic.toString());
+      if (includeDrafts) params.append("includeDrafts", "true");
+      if (tag) params.append("tag", tag);
       if (search) params.append("search", search);
 
       const response = await fetch(`/api/polls?${params}`);
@@ -68,6 +127,7 @@ export function usePolls(options: UsePollsOptions = {}): UsePollsReturn {
       }
 
       const data = await response.json();
+      if (request !== latestRequest.current) return;
 
       if (append) {
         setPolls((prev) => [...prev, ...data.data]);
@@ -75,18 +135,31 @@ export function usePolls(options: UsePollsOptions = {}): UsePollsReturn {
         setPolls(data.data);
       }
 
-      setTotalCount(data.pagination.total);
+      // Later cursor pages leave the total out
+      if (data.pagination.total !== undefined) {
+        setTotalCount(data.pagination.total);
+      }
       setHasMore(data.pagination.hasMore);
+      setNextCursor(data.pagination.nextCursor);
       setCurrentPage(page);
     } catch (err) {
+      if (request !== latestRequest.current) return;
       const errorMessage =
         err instanceof Error ? err.message : "An error occurred";
       setError(errorMessage);
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
+  const loadMore = async () => {
+    if (loading || loadingMore || !nextCursor) return;
+    await fetchPolls(currentPage + 1, true, nextCursor);
+  };
+
   const createPoll = async (pollData: CreatePollForm): Promise<string> => {
     if (!user) {
       throw new Error("Authentication required");
@@ -147,16 +220,18 @@ export function usePolls(options: UsePollsOptions = {}): UsePollsReturn {
     if (autoFetch) {
       fetchPolls(1, false);
     }
-  }, [userId, isPublic, search, autoFetch]);
+  }, [userId, isPublic, includeDrafts, tag, search, autoFetch]);
 
   return {
     polls,
     loading,
+    loadingMore,
     error,
     hasMore,
     totalCount,
     currentPage,
     fetchPolls,
+    loadMore,
     createPoll,
     refreshPolls,
     clearError,
@@ -166,65 +241,68 @@ export function usePolls(options: UsePollsOptions = {}): UsePollsReturn {
 interface UsePollOptions {
   pollId: string;
   autoFetch?: boolean;
+  live?: boolean;
+  // Records a poll view, with its referrer, once the poll has loaded
+  trackView?: boolean;
+  // Invite token from an invite link, redeemed before the poll is fetched
+  invite?: string | null;
 }
 
 interface UsePollReturn {
   poll: PollWithDetails | null;
   results: PollResult[];
+  rankedResult: RankedChoiceResult | null;
   loading: boolean;
   error: string | null;
   userVotes: string[];
   canVote: boolean;
+  liveStatus: LiveResultsStatus;
+  // Why the invite link the page was opened with could not be used
+  inviteError: string | null;
   fetchPoll: () => Promise<void>;
-  vote: (optionIds: string[], fingerprint?: string) => Promise<void>;
-  removeVote: () => Promise<void>;
+  fetchResults: () => Promise<void>;
+  vote: (optionIds: string[], scores?: Record<string, number>) => Promise<void>;
   clearError: () => void;
 }
 
 export function usePoll({
   pollId,
   autoFetch = true,
+  live = true,
+  trackView = false,
+  invite = null,
 }: UsePollOptions): UsePollReturn {
   const { user } = useAuth();
   const [poll, setPoll] = useState<PollWithDetails | null>(null);
   const [results, setResults] = useState<PollResult[]>([]);
+  const [rankedResult, setRankedResult] = useState<RankedChoiceResult | null>(
+    null,
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [userVotes, setUserVotes] = useState<string[]>([]);
-
-  const supabase = createClientSupabase();
-
-  const generateFingerprint = (): string => {
-    // Simple browser fingerprint
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-
-    if (ctx) {
-      ctx.textBaseline = "top";
-      ctx.font = "14px Arial";
-      ctx.fillText("Browser fingerprint", 2, 2);
-    }
-
-    const fingerprint = [
-      navigator.userAgent,
-      navigator.language,
-      navigator.platform,
-      new Date().getTimezoneOffset(),
-      screen.width + "x" + screen.height,
-      screen.colorDepth,
-      canvas.toDataURL(),
-    ].join("|");
-
-    // Simple hash
-    let hash = 0;
-    for (let i = 0; i < fingerprint.length; i++) {
-      const char = fingerprint.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-
-    return Math.abs(hash).toString(36);
-  };
+  // Option ids of a ranked poll, needed to recount the runoff
+  const rankedOptionIds = useRef<string[] | null>(null);
+  const [liveStatus, setLiveStatus] =
+    useState<LiveResultsStatus>("connecting");
+  // Votes cast from this client are already counted in the vote response
+  const ownVoteIds = useRef<Set<string>>(new Set());
+  // Invite token for this poll, from the link or an earlier visit
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [inviteChecked, setInviteChecked] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  // Guests are matched to their invite by these headers; signed-in users by their id
+  const supabase = useMemo(
+    () =>
+      inviteToken
+        ? createClientSupabase({
+            [POLL_INVITE_HEADER]: inviteToken,
+            [FINGERPRINT_HEADER]: generateFingerprint(),
+          })
+        : createClientSupabase(),
+    [inviteToken],
+  );
 
   const fetchPoll = async () => {
     setLoading(true);
@@ -237,8 +315,9 @@ export function usePoll({
         .select(
           `
           *,
-          creator(*),
-          options:poll_options(*)
+          options:poll_options(*),
+          voter_allowlist:poll_voter_allowlist(entry),
+          tags:poll_tags(tag)
         `,
         )
         .eq("id", pollId)
@@ -248,6 +327,13 @@ export function usePoll({
         throw new Error(pollError.message);
       }
 
+      // Creators live in profiles, which share their id with auth.users
+      const { data: creator } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", pollData.creator_id)
+        .single();
+
       // Fetch poll results
       const { data: resultsData, error: resultsError } = await supabase.rpc(
         "get_poll_results",
@@ -258,19 +344,39 @@ export function usePoll({
         console.error("Error fetching results:", resultsError);
       }
 
-      // Fetch user's votes
+      // Fetch user's votes (in rank order for ranked polls)
       let userVotesData = [];
       if (user) {
         const { data: votes } = await supabase
           .from("votes")
           .select("option_id")
           .eq("poll_id", pollId)
-          .eq("user_id", user.id);
+          .eq("user_id", user.id)
+          .order("rank");
 
         userVotesData = votes?.map((v) => v.option_id) || [];
       }
 
-      setPoll(pollData);
+      const options = [...(pollData.options || [])].sort(
+        (a, b) => a.order_index - b.order_index,
+      );
+
+      rankedOptionIds.current =
+        pollData.poll_type === "ranked"
+          ? options.map((option) => option.id)
+          : null;
+      await fetchRankedResult();
+
+      setPoll({
+        ...pollData,
+        creator: creator || undefined,
+        options,
+        // Only the creator can read the allowlist; everyone else gets an empty one
+        voter_allowlist: (pollData.voter_allowlist || []).map(
+          (row: { entry: string }) => row.entry,
+        ),
+        tags: (pollData.tags || []).map((row: { tag: string }) => row.tag),
+      });
       setResults(resultsData || []);
       setUserVotes(userVotesData);
     } catch (err) {
@@ -282,25 +388,65 @@ export function usePoll({
     }
   };
 
-  const vote = async (optionIds: string[], fingerprint?: string) => {
+  const fetchResults = async () => {
+    const { data, error: resultsError } = await supabase.rpc(
+      "get_poll_results",
+      { poll_uuid: pollId },
+    );
+
+    if (resultsError) {
+      console.error("Error fetching results:", resultsError);
+      return;
+    }
+
+    setResults(data || []);
+    await fetchRankedResult();
+  };
+
+  const fetchRankedResult = async () => {
+    const optionIds = rankedOptionIds.current;
+    if (!optionIds) {
+      setRankedResult(null);
+      return;
+    }
+
+    const { data, error: ballotsError } = await supabase.rpc(
+      "get_ranked_ballots",
+      { poll_uuid: pollId },
+    );
+
+    if (ballotsError) {
+      console.error("Error fetching ranked ballots:", ballotsError);
+      return;
+    }
+
+    setRankedResult(
+      computeInstantRunoff(
+        optionIds,
+        (data || []).map((row: RankedBallot) => row.ballot),
+      ),
+    );
+  };
+
+  // Guests are identified by the voter cookie the vote route sets
+  const vote = async (optionIds: string[], scores?: Record<string, number>) => {
     setLoading(true);
     setError(null);
 
     try {
-      const voteData: any = {
+      const voteData: VoteForm = {
+        poll_id: pollId,
         option_ids: optionIds,
+        ...(scores && { scores }),
       };
 
-      if (!user && !fingerprint) {
-        voteData.voter_fingerprint = generateFingerprint();
-      } else if (!user && fingerprint) {
-        voteData.voter_fingerprint = fingerprint;
-      }
-
       const response = await fetch(`/api/polls/${pollId}/vote`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          // Matches the vote to this browser's poll view for the fraud checks
+          [FINGERPRINT_HEADER]: generateFingerprint(),
+          ...(inviteToken && { [POLL_INVITE_HEADER]: inviteToken }),
         },
         body: JSON.stringify(voteData),
       });
@@ -310,10 +456,17 @@ export function usePoll({
         throw new Error(errorData.error || "Failed to vote");
       }
 
-      const { results: updatedResults } = await response.json();
+      const { results: updatedResults, votes } = await response.json();
 
+      votes?.forEach((v: { id: string }) => ownVoteIds.current.add(v.id));
       setResults(updatedResults);
-      setUserVotes(optionIds);
+      setUserVotes((prev) =>
+        poll?.allow_multiple_votes &&
+          !BALLOT_POLL_TYPES.includes(poll.poll_type)
+          ? Array.from(new Set([...prev, ...optionIds]))
+          : optionIds,
+      );
+      await fetchRankedResult();
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to vote";
@@ -324,64 +477,119 @@ export function usePoll({
     }
   };
 
-  const removeVote = async () => {
-    if (!user) {
-      throw new Error("Authentication required");
-    }
-
-    setLoading(true);
+  const clearError = () => {
     setError(null);
+  };
 
-    try {
-      const response = await fetch(`/api/polls/${pollId}/vote`, {
-        method: "DELETE",
-      });
+  const canVote = poll ? canCastVote(poll, !!user, userVotes) : false;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to remove vote");
+  // Redeem the invite the page was opened with before anything is fetched
+  useEffect(() => {
+    if (!pollId) return;
+
+    let cancelled = false;
+    setInviteChecked(false);
+    setInviteError(null);
+
+    const resolveInvite = async () => {
+      if (invite) {
+        try {
+          await redeemPollInvite(invite, generateFingerprint());
+          rememberInviteToken(pollId, invite);
+
+          // Keep the token out of links copied from the address bar
+          const url = new URL(window.location.href);
+          url.searchParams.delete("invite");
+          window.history.replaceState(null, "", url);
+        } catch (err) {
+          if (!cancelled) {
+            setInviteError(
+              err instanceof Error ? err.message : "Failed to use invite link",
+            );
+          }
+        }
       }
 
-      const { results: updatedResults } = await response.json();
+      if (!cancelled) {
+        setInviteToken(storedInviteToken(pollId));
+        setInviteChecked(true);
+      }
+    };
 
-      setResults(updatedResults);
-      setUserVotes([]);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to remove vote";
-      setError(errorMessage);
-      throw err;
-    } finally {
-      setLoading(false);
+    resolveInvite();
+    return () => {
+      cancelled = true;
+    };
+  }, [pollId, invite]);
+
+  useEffect(() => {
+    if (autoFetch && pollId && inviteChecked) {
+      fetchPoll();
     }
-  };
+  }, [pollId, autoFetch, inviteChecked, inviteToken]);
 
-  const clearError = () => {
-    setError(null);
-  };
+  // Views can only be recorded for published public polls
+  useEffect(() => {
+    if (!trackView || !poll?.is_public || poll.status === "draft") return;
+
+    const source = referrerSource(
+      document.referrer,
+      window.location.hostname,
+      new URLSearchParams(window.location.search).get("ref"),
+    );
 
-  const canVote = poll
-    ? (!poll.expires_at || new Date(poll.expires_at) > new Date()) &&
-      (poll.allow_multiple_votes || userVotes.length === 0) &&
-      (!!user || poll.allow_anonymous_votes)
-    : false;
+    recordPollView(poll.id, user?.id, generateFingerprint(), source).catch(
+      (err) => console.error("Error recording poll view:", err),
+    );
+  }, [poll?.id, trackView]);
 
+  // Stream vote deltas while the poll is open
   useEffect(() => {
-    if (autoFetch && pollId) {
-      fetchPoll();
-    }
-  }, [pollId, autoFetch]);
+    if (!live || !pollId) return;
+
+    const resync = debounce(fetchResults, RESULTS_RESYNC_DEBOUNCE_MS);
+
+    const unsubscribe = subscribeToPollResults(supabase, pollId, {
+      onDelta: (deltas) => {
+        const remoteDeltas = deltas.filter(
+          (d) => !d.vote_id || !ownVoteIds.current.has(d.vote_id),
+        );
+        if (remoteDeltas.length > 0) {
+          setResults((prev) => applyResultDeltas(prev, remoteDeltas));
+        }
+      },
+      onResync: resync,
+      onStatusChange: (status) => {
+        setLiveStatus(status);
+        // Catch up on anything missed while disconnected
+        if (status === "live") resync();
+      },
+    });
+
+    return unsubscribe;
+  }, [pollId, live, supabase]);
+
+  // Degrade to polling while the socket is down
+  useEffect(() => {
+    if (!live || !pollId || liveStatus !== "polling") return;
+
+    const interval = setInterval(fetchResults, RESULTS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pollId, live, liveStatus, supabase]);
 
   return {
     poll,
     results,
+    rankedResult,
     loading,
     error,
     userVotes,
     canVote,
+    liveStatus,
+    inviteError,
     fetchPoll,
+    fetchResults,
     vote,
-    removeVote,
     clearError,
   };
 }
@@ -455,3 +663,30 @@ export function useUserStats(userId?: string): UseUserStatsReturn {
     clearError,
   };
 }
+
+interface UsePopularTagsReturn {
+  tags: PopularTag[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function usePopularTags(limit: number = 20): UsePopularTagsReturn {
+  const [tags, setTags] = useState<PopularTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/tags?limit=${limit}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to fetch tags");
+        setTags(data.tags);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to fetch tags"),
+      )
+      .finally(() => setLoading(false));
+  }, [limit]);
+
+  return { tags, loading, error };
+}
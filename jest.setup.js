@@ -1,2 +1,2 @@
 // jest.setup.js
-import "@testing-library/jest-dom/extend-expect";
+import "@testing-library/jest-dom";
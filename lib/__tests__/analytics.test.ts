@@ -0,0 +1,44 @@
+import { defaultRangeStart, referrerSource } from "../analytics";
+
+describe("Poll Analytics Helpers", () => {
+  // --- referrerSource ---
+  describe("referrerSource", () => {
+    const host = "polls.example.com";
+
+    it("should name the referring site without www", () => {
+      expect(
+        referrerSource("https://www.Reddit.com/r/polls/comments/1", host),
+      ).toBe("reddit.com");
+    });
+
+    it("should prefer an explicit ref tag", () => {
+      expect(
+        referrerSource("https://reddit.com/", host, " Newsletter "),
+      ).toBe("newsletter");
+    });
+
+    it("should treat direct visits and in-app navigation as no source", () => {
+      expect(referrerSource("", host)).toBeNull();
+      expect(referrerSource("https://polls.example.com/polls", host)).toBeNull();
+      expect(referrerSource("not a url", host)).toBeNull();
+    });
+  });
+
+  // --- defaultRangeStart ---
+  describe("defaultRangeStart", () => {
+    const now = new Date("2025-03-10T12:00:00.000Z");
+
+    it("should look back two days for hourly and thirty days for daily buckets", () => {
+      expect(defaultRangeStart("hour", now)?.toISOString()).toBe(
+        "2025-03-08T12:00:00.000Z",
+      );
+      expect(defaultRangeStart("day", now)?.toISOString()).toBe(
+        "2025-02-08T12:00:00.000Z",
+      );
+    });
+
+    it("should cover the whole poll for weekly buckets", () => {
+      expect(defaultRangeStart("week", now)).toBeNull();
+    });
+  });
+});
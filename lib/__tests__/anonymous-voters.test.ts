@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createAnonymousVoterToken,
+  getClientIp,
+  getUserAgent,
+  verifyAnonymousVoterToken,
+} from "../anonymous-voters";
+import { faker } from "@faker-js/faker";
+
+describe("Anonymous Voters", () => {
+  const secret = faker.string.alphanumeric(32);
+
+  // --- createAnonymousVoterToken / verifyAnonymousVoterToken ---
+  describe("voter tokens", () => {
+    it("should verify the tokens it issues", async () => {
+      const { voterId, token } = await createAnonymousVoterToken(secret);
+
+      expect(voterId).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      expect(token.startsWith(`${voterId}.`)).toBe(true);
+      await expect(verifyAnonymousVoterToken(token, secret)).resolves.toBe(
+        voterId,
+      );
+    });
+
+    it("should issue a new voter id each time", async () => {
+      const first = await createAnonymousVoterToken(secret);
+      const second = await createAnonymousVoterToken(secret);
+
+      expect(first.voterId).not.toBe(second.voterId);
+    });
+
+    it("should reject forged, tampered and malformed tokens", async () => {
+      const { voterId, token } = await createAnonymousVoterToken(secret);
+      const [, signature] = token.split(".");
+      const otherSecret = faker.string.alphanumeric(32);
+
+      for (const forged of [
+        `${faker.string.alphanumeric(22)}.${signature}`,
+        `${voterId}.${signature.slice(1)}`,
+        `${voterId}.${signature}.extra`,
+        voterId,
+        "not a token",
+        "",
+        null,
+        undefined,
+      ]) {
+        await expect(verifyAnonymousVoterToken(forged, secret)).resolves.toBe(
+          null,
+        );
+      }
+      await expect(verifyAnonymousVoterToken(token, otherSecret)).resolves.toBe(
+        null,
+      );
+    });
+  });
+
+  // --- getClientIp ---
+  describe("getClientIp", () => {
+    it("should prefer X-Real-IP, which the proxy sets", () => {
+      expect(
+        getClientIp(
+          new Headers({
+            "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+            "x-real-ip": "198.51.100.4",
+          }),
+        ),
+      ).toBe("198.51.100.4");
+    });
+
+    it("should take the last forwarded address, added by the proxy", () => {
+      expect(
+        getClientIp(
+          new Headers({ "x-forwarded-for": "203.0.113.7, 198.51.100.4" }),
+        ),
+      ).toBe("198.51.100.4");
+      expect(
+        getClientIp(new Headers({ "x-forwarded-for": "2001:db8::1" })),
+      ).toBe("2001:db8::1");
+    });
+
+    it("should ignore values that are not addresses", () => {
+      expect(getClientIp(new Headers())).toBeNull();
+      expect(
+        getClientIp(new Headers({ "x-forwarded-for": "unknown" })),
+      ).toBeNull();
+      expect(
+        getClientIp(new Headers({ "x-real-ip": "1.2.3.4; DROP TABLE" })),
+      ).toBeNull();
+    });
+  });
+
+  // --- getUserAgent ---
+  describe("getUserAgent", () => {
+    it("should read the user agent, cut to 512 characters", () => {
+      const userAgent = faker.internet.userAgent();
+
+      expect(getUserAgent(new Headers({ "user-agent": userAgent }))).toBe(
+        userAgent,
+      );
+      expect(
+        getUserAgent(new Headers({ "user-agent": "x".repeat(600) })),
+      ).toHaveLength(512);
+      expect(getUserAgent(new Headers())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+import { createHash, createHmac } from "crypto";
+import { createClient } from "@supabase/supabase-js";
+import {
+  API_KEY_PREFIX,
+  authenticateApiKey,
+  generateApiKey,
+  hashApiKey,
+  hasApiKeyScope,
+  isApiKey,
+  requiredScope,
+  signAccessToken,
+} from "../api-keys";
+import { faker } from "@faker-js/faker";
+
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: jest.fn(),
+}));
+
+describe("API Keys", () => {
+  const userId = faker.string.uuid();
+  const secret = "jwt-secret";
+
+  const decodeSegment = (segment: string) =>
+    JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+  // --- generateApiKey / isApiKey ---
+  describe("generateApiKey", () => {
+    it("should create unique prefixed keys that are not mistaken for tokens", () => {
+      const key = generateApiKey();
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(key).toMatch(/^pully_[A-Za-z0-9_-]{43}$/);
+      expect(generateApiKey()).not.toBe(key);
+      expect(isApiKey(key)).toBe(true);
+      expect(isApiKey("eyJhbGciOiJIUzI1NiJ9.e30.sig")).toBe(false);
+      expect(isApiKey(null)).toBe(false);
+    });
+  });
+
+  // --- hashApiKey ---
+  describe("hashApiKey", () => {
+    it("should produce the hex SHA-256 of the key", async () => {
+      const key = generateApiKey();
+
+      expect(await hashApiKey(key)).toBe(
+        createHash("sha256").update(key).digest("hex"),
+      );
+    });
+  });
+
+  // --- requiredScope ---
+  describe("requiredScope", () => {
+    const pollId = faker.string.uuid();
+
+    it("should map poll endpoints to their scopes", () => {
+      expect(requiredScope("GET", "/api/polls")).toBe("polls:read");
+      expect(requiredScope("POST", "/api/polls")).toBe("polls:write");
+      expect(requiredScope("PATCH", `/api/polls/${pollId}`)).toBe("polls:write");
+      expect(requiredScope("POST", `/api/polls/${pollId}/publish`)).toBe("polls:write");
+      expect(requiredScope("post", `/api/polls/${pollId}/vote`)).toBe("votes:write");
+      expect(requiredScope("GET", `/api/polls/${pollId}/export`)).toBe("polls:export");
+      expect(requiredScope("POST", "/api/polls/batch-vote")).toBe("votes:import");
+      expect(requiredScope("POST", `/api/polls/${pollId}/import`)).toBe("votes:import");
+    });
+
+    it("should not accept keys for auth or key management", () => {
+      expect(requiredScope("POST", "/api/auth/login")).toBeNull();
+      expect(requiredScope("POST", "/api/keys")).toBeNull();
+      expect(requiredScope("DELETE", `/api/keys/${pollId}`)).toBeNull();
+    });
+  });
+
+  // --- hasApiKeyScope ---
+  describe("hasApiKeyScope", () => {
+    it("should only match scopes the middleware listed", () => {
+      expect(hasApiKeyScope("votes:write,votes:import", "votes:import")).toBe(true);
+      expect(hasApiKeyScope("votes:write", "votes:import")).toBe(false);
+      expect(hasApiKeyScope(null, "votes:import")).toBe(false);
+    });
+  });
+
+  // --- signAccessToken ---
+  describe("signAccessToken", () => {
+    it("should sign an HS256 token for the user that expires after the ttl", async () => {
+      const now = Date.UTC(2025, 0, 1);
+      const token = await signAccessToken(userId, secret, 300, now);
+      const [header, payload, signature] = token.split(".");
+
+      expect(decodeSegment(header)).toEqual({ alg: "HS256", typ: "JWT" });
+      expect(decodeSegment(payload)).toEqual({
+        sub: userId,
+        role: "authenticated",
+        aud: "authenticated",
+        iat: now / 1000,
+        exp: now / 1000 + 300,
+      });
+      expect(signature).toBe(
+        createHmac("sha256", secret)
+          .update(`${header}.${payload}`)
+          .digest("base64url"),
+      );
+    });
+  });
+
+  // --- authenticateApiKey ---
+  describe("authenticateApiKey", () => {
+    const rpc = jest.fn();
+    const key = generateApiKey();
+
+    beforeEach(() => {
+      rpc.mockReset();
+      (createClient as jest.Mock).mockReturnValue({ rpc });
+      process.env.SUPABASE_JWT_SECRET = secret;
+    });
+
+    it("should exchange a key with the right scope for a token", async () => {
+      rpc.mockResolvedValueOnce({
+        data: [{ key_id: faker.string.uuid(), user_id: userId, scopes: ["polls:write"] }],
+        error: null,
+      });
+
+      const result = await authenticateApiKey(key, "POST", "/api/polls");
+
+      expect(rpc).toHaveBeenCalledWith("authenticate_api_key", {
+        api_key_hash: await hashApiKey(key),
+      });
+      expect("token" in result && decodeSegment(result.token.split(".")[1]).sub).toBe(userId);
+      expect(result).toMatchObject({ scopes: ["polls:write"] });
+    });
+
+    it("should reject a key without the scope the endpoint needs", async () => {
+      rpc.mockResolvedValueOnce({
+        data: [{ key_id: faker.string.uuid(), user_id: userId, scopes: ["polls:read"] }],
+        error: null,
+      });
+
+      expect(await authenticateApiKey(key, "POST", "/api/polls")).toEqual({
+        error: 'This API key is missing the "polls:write" scope',
+        status: 403,
+      });
+    });
+
+    it("should reject unknown, revoked and expired keys", async () => {
+      rpc.mockResolvedValueOnce({ data: [], error: null });
+
+      expect(await authenticateApiKey(key, "GET", "/api/polls")).toEqual({
+        error: "Invalid, revoked or expired API key",
+        status: 401,
+      });
+    });
+
+    it("should not look keys up for endpoints that do not accept them", async () => {
+      expect(await authenticateApiKey(key, "POST", "/api/keys")).toMatchObject({
+        status: 403,
+      });
+      expect(rpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { Session, User as SupabaseUser } from "@supabase/supabase-js";
+import { getBearerToken, toApiUser, toAuthResponse } from "../auth";
+import { faker } from "@faker-js/faker";
+
+describe("Auth Helpers", () => {
+  const supabaseUser = {
+    id: faker.string.uuid(),
+    email: "jane@example.com",
+    user_metadata: { username: "jane_meta" },
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-02-01T00:00:00.000Z",
+  } as unknown as SupabaseUser;
+
+  // --- getBearerToken ---
+  describe("getBearerToken", () => {
+    it("should read the token from a bearer header", () => {
+      expect(getBearerToken("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+      expect(getBearerToken("bearer abc")).toBe("abc");
+    });
+
+    it("should ignore missing headers and other schemes", () => {
+      expect(getBearerToken(null)).toBeNull();
+      expect(getBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+      expect(getBearerToken("Bearer ")).toBeNull();
+    });
+  });
+
+  // --- toApiUser ---
+  describe("toApiUser", () => {
+    it("should prefer the profile username", () => {
+      expect(toApiUser(supabaseUser, "jane")).toEqual({
+        id: supabaseUser.id,
+        email: "jane@example.com",
+        username: "jane",
+        createdAt: new Date("2025-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2025-02-01T00:00:00.000Z"),
+      });
+    });
+
+    it("should fall back to sign-up metadata, then the email", () => {
+      expect(toApiUser(supabaseUser).username).toBe("jane_meta");
+      expect(
+        toApiUser({ ...supabaseUser, user_metadata: {} } as SupabaseUser)
+          .username,
+      ).toBe("jane");
+    });
+  });
+
+  // --- toAuthResponse ---
+  describe("toAuthResponse", () => {
+    it("should expose the Supabase session tokens", () => {
+      const session = {
+        access_token: "access-token",
+        refresh_token: "refresh-token",
+        expires_in: 3600,
+        expires_at: 1735693200,
+        token_type: "bearer",
+        user: supabaseUser,
+      } as Session;
+
+      expect(toAuthResponse(session, "jane")).toMatchObject({
+        user: { id: supabaseUser.id, username: "jane" },
+        token: "access-token",
+        refreshToken: "refresh-token",
+        expiresAt: 1735693200,
+      });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { parseBallotCsv, summariseBallotCsvImport } from "../ballot-import";
+import { faker } from "@faker-js/faker";
+
+describe("Ballot CSV Import", () => {
+  const pizzaId = faker.string.uuid();
+  const tacosId = faker.string.uuid();
+  const options = [
+    { id: pizzaId, text: "Pizza" },
+    { id: tacosId, text: "Fish, Tacos" },
+  ];
+  const choicePoll = { poll_type: "approval" as const, options };
+
+  // --- parseBallotCsv ---
+  describe("parseBallotCsv", () => {
+    it("should map option texts and ids to ballots", () => {
+      const csv = [
+        "Ballot_ID,choice,choice",
+        ` 101 , pizza ,"Fish,  Tacos"`,
+        `102,${tacosId.toUpperCase()}`,
+      ].join("\r\n");
+
+      expect(parseBallotCsv(csv, choicePoll, "file")).toEqual({
+        ballots: [
+          { ballotId: "101", optionIds: [pizzaId, tacosId] },
+          { ballotId: "102", optionIds: [tacosId] },
+        ],
+        lines: [2, 3],
+        failures: [],
+      });
+    });
+
+    it("should number ballots by file and line without a ballot_id column", () => {
+      const csv = 'choice\n"Pizza"\n\n"Fish, ""Tacos"""\nPizza';
+
+      const parsed = parseBallotCsv(csv, choicePoll, "abc");
+
+      expect(parsed.ballots.map(({ ballotId }) => ballotId)).toEqual([
+        "abc-2",
+        "abc-5",
+      ]);
+      expect(parsed.failures).toEqual([
+        { row: 4, ballotId: "abc-4", error: 'Unknown option "Fish, "Tacos""' },
+      ]);
+    });
+
+    it("should report unreadable rows by line", () => {
+      const csv = [
+        "ballot_id,choice",
+        ",Pizza",
+        "2,",
+        "3,Burgers",
+        `${"x".repeat(101)},Pizza`,
+      ].join("\n");
+
+      expect(parseBallotCsv(csv, choicePoll, "file")).toEqual({
+        ballots: [],
+        lines: [],
+        failures: [
+          { row: 2, ballotId: "", error: "Ballot id is missing" },
+          { row: 3, ballotId: "2", error: "Ballot has no choices" },
+          { row: 4, ballotId: "3", error: 'Unknown option "Burgers"' },
+          {
+            row: 5,
+            ballotId: "x".repeat(101),
+            error: "Ballot id must be 100 characters or less",
+          },
+        ],
+      });
+    });
+
+    it("should read scores after the last equals sign on scored polls", () => {
+      const sumId = faker.string.uuid();
+      const scoredPoll = {
+        poll_type: "score" as const,
+        options: [...options, { id: sumId, text: "1+1=2" }],
+      };
+      const csv = [
+        "ballot_id,a,b",
+        '1,Pizza=8,"Fish, Tacos = 3"',
+        "2,1+1=2=7",
+        "3,1+1=2",
+        "4,Pizza",
+      ].join("\n");
+
+      const parsed = parseBallotCsv(csv, scoredPoll, "file");
+
+      expect(parsed.ballots).toEqual([
+        {
+          ballotId: "1",
+          optionIds: [pizzaId, tacosId],
+          scores: { [pizzaId]: 8, [tacosId]: 3 },
+        },
+        { ballotId: "2", optionIds: [sumId], scores: { [sumId]: 7 } },
+      ]);
+      expect(parsed.failures).toEqual([
+        { row: 4, ballotId: "3", error: 'Unknown option "1+1"' },
+        {
+          row: 5,
+          ballotId: "4",
+          error: '"Pizza" needs a score, like "Pizza=5"',
+        },
+      ]);
+    });
+
+    it("should return nothing for a CSV with only a header", () => {
+      expect(parseBallotCsv("ballot_id,choice\n", choicePoll, "file")).toEqual({
+        ballots: [],
+        lines: [],
+        failures: [],
+      });
+    });
+  });
+
+  // --- summariseBallotCsvImport ---
+  describe("summariseBallotCsvImport", () => {
+    const csv =
+      'ballot_id,first,second\n1,Pizza\nbad\n2,"Fish, Tacos"\n3,"Fish, Tacos",Pizza';
+
+    it("should report failures by line and tally the imported ballots", () => {
+      const parsed = parseBallotCsv(csv, choicePoll, "file");
+      const result = {
+        processed: 2,
+        failed: 1,
+        failures: [
+          { row: 1, ballotId: "2", error: "Ballot has already been imported" },
+        ],
+      };
+
+      expect(
+        summariseBallotCsvImport(parsed, result, choicePoll, true),
+      ).toEqual({
+        committed: true,
+        ballots: 4,
+        processed: 2,
+        failed: 2,
+        failures: [
+          { row: 3, ballotId: "bad", error: "Ballot has no choices" },
+          {
+            row: 4,
+            ballotId: "2",
+            error: "Ballot has already been imported",
+          },
+        ],
+        tally: [
+          { option_id: pizzaId, option_text: "Pizza", votes: 2 },
+          { option_id: tacosId, option_text: "Fish, Tacos", votes: 1 },
+        ],
+      });
+    });
+
+    it("should only tally first preferences on ranked ballots", () => {
+      const rankedPoll = { poll_type: "ranked" as const, options };
+      const parsed = parseBallotCsv(csv, rankedPoll, "file");
+
+      const summary = summariseBallotCsvImport(
+        parsed,
+        { processed: 3, failed: 0, failures: [] },
+        rankedPoll,
+        false,
+      );
+
+      expect(summary.committed).toBe(false);
+      expect(summary.tally.map(({ votes }) => votes)).toEqual([1, 2]);
+    });
+  });
+});
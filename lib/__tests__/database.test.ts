@@ -5,20 +5,38 @@ import {
   getPolls,
   getPopularPolls,
   updatePoll,
+  editPoll,
   deletePoll,
-  castVote,
   getUserVote,
   recordPollView,
+  getPollAnalytics,
   getUserPollStats,
   refreshPopularPolls,
+  publishPoll,
+  getPollInvites,
+  redeemPollInvite,
+  isAllowedVoter,
+  createPollComment,
+  getPollComments,
+  deletePollComment,
+  reviewOptionSuggestion,
+  searchPolls,
+  getPollsPage,
+  getPopularTags,
   DatabaseError,
+  POLL_EDIT_CONFIRM_CODE,
 } from "../database";
-import { createClientSupabase, createServerSupabase } from "@/lib/supabase";
-import { CreatePollForm, VoteForm } from "@/types/database";
+import {
+  createAdminSupabase,
+  createClientSupabase,
+  createServerSupabase,
+} from "@/lib/supabase";
+import { CreatePollForm, EditPollForm } from "@/types/database";
 import { faker } from "@faker-js/faker";
 
 // Mock Supabase client
 jest.mock("@/lib/supabase", () => ({
+  createAdminSupabase: jest.fn(),
   createClientSupabase: jest.fn(),
   createServerSupabase: jest.fn(),
 }));
@@ -29,6 +47,7 @@ const mockSupabase = {
   select: jest.fn(() => mockSupabase),
   single: jest.fn(() => mockSupabase),
   eq: jest.fn(() => mockSupabase),
+  neq: jest.fn(() => mockSupabase),
   in: jest.fn(() => mockSupabase),
   or: jest.fn(() => mockSupabase),
   order: jest.fn(() => mockSupabase),
@@ -37,8 +56,17 @@ const mockSupabase = {
   update: jest.fn(() => mockSupabase),
   delete: jest.fn(() => mockSupabase),
   rpc: jest.fn(() => mockSupabase),
+  // Awaiting the chain resolves to the next queued result
+  then: (resolve: any, reject: any) =>
+    Promise.resolve(mockResults.shift() ?? { data: null, error: null }).then(
+      resolve,
+      reject,
+    ),
 };
 
+// Results of the queries a test awaits, in the order they are awaited
+let mockResults: { data: unknown; error: unknown }[] = [];
+
 describe("Database Functions Integration Tests", () => {
   const mockUserId = faker.string.uuid();
   const mockPollId = faker.string.uuid();
@@ -48,8 +76,16 @@ describe("Database Functions Integration Tests", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Drop implementations queued but never used by earlier tests
+    Object.values(mockSupabase)
+      .filter(jest.isMockFunction)
+      .forEach((method) =>
+        method.mockReset().mockImplementation(() => mockSupabase),
+      );
+    mockResults = [];
     (createClientSupabase as jest.Mock).mockReturnValue(mockSupabase);
     (createServerSupabase as jest.Mock).mockReturnValue(mockSupabase);
+    (createAdminSupabase as jest.Mock).mockReturnValue(mockSupabase);
   });
 
   // Helper function to mock successful Supabase responses
@@ -57,6 +93,14 @@ describe("Database Functions Integration Tests", () => {
     jest.fn(() => Promise.resolve({ data, error: null }));
   const mockError = (message: string, code?: string) =>
     jest.fn(() => Promise.resolve({ data: null, error: { message, code } }));
+  // Queue results for awaited query chains rather than a single method
+  const queueSuccess = (...results: any[]) =>
+    results.forEach((data) => mockResults.push({ data, error: null }));
+  const queueError = (message: string, code?: string, times = 1) => {
+    for (let i = 0; i < times; i++) {
+      mockResults.push({ data: null, error: { message, code } });
+    }
+  };
 
   // --- createPoll ---
   describe("createPoll", () => {
@@ -70,38 +114,40 @@ describe("Database Functions Integration Tests", () => {
       expires_at: null,
     };
 
-    it("should successfully create a poll and its options", async () => {
+    it("should create a poll and its options in one database call", async () => {
       const mockPoll = {
         id: mockPollId,
         creator_id: mockUserId,
         ...mockPollForm,
       };
 
-      mockSupabase.insert
-        .mockImplementationOnce(mockSuccess(mockPoll)) // For polls insert
-        .mockImplementationOnce(mockSuccess(null)); // For poll_options insert
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess(mockPoll));
 
       const result = await createPoll(mockPollForm, mockUserId);
 
-      expect(mockSupabase.from).toHaveBeenCalledWith("polls");
-      expect(mockSupabase.insert).toHaveBeenCalledWith(
-        expect.objectContaining({
-          title: mockPollForm.title,
-          creator_id: mockUserId,
-        }),
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "create_poll_with_options",
+        {
+          poll_data: expect.objectContaining({
+            title: mockPollForm.title,
+            creator_id: mockUserId,
+            poll_type: "choice",
+          }),
+          option_texts: ["Option A", "Option B"],
+          voter_allowlist: [],
+          tags: [],
+        },
       );
-      expect(mockSupabase.from).toHaveBeenCalledWith("poll_options");
-      expect(mockSupabase.insert).toHaveBeenCalledWith([
-        expect.objectContaining({ poll_id: mockPollId, text: "Option A" }),
-        expect.objectContaining({ poll_id: mockPollId, text: "Option B" }),
-      ]);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+      expect(mockSupabase.insert).not.toHaveBeenCalled();
       expect(result).toEqual(mockPoll);
     });
 
     it("should throw a DatabaseError if poll creation fails", async () => {
-      mockSupabase.insert.mockImplementationOnce(
-        mockError("Failed to insert poll"),
-      );
+      mockSupabase.rpc
+        .mockImplementationOnce(mockError("Failed to insert poll"))
+        .mockImplementationOnce(mockError("Failed to insert poll"));
 
       await expect(createPoll(mockPollForm, mockUserId)).rejects.toThrow(
         DatabaseError,
@@ -111,21 +157,33 @@ describe("Database Functions Integration Tests", () => {
       );
     });
 
-    it("should throw a DatabaseError if option creation fails", async () => {
-      const mockPoll = {
-        id: mockPollId,
-        creator_id: mockUserId,
-        ...mockPollForm,
-      };
-      mockSupabase.insert
-        .mockImplementationOnce(mockSuccess(mockPoll)) // For polls insert
-        .mockImplementationOnce(mockError("Failed to insert options")); // For poll_options insert
+    it("should not leave a poll behind if option creation fails", async () => {
+      // The function rolls back the poll insert when an option insert fails
+      const optionFailure = mockError(
+        'null value in column "text" of relation "poll_options" violates not-null constraint',
+        "23502",
+      );
+      mockSupabase.rpc
+        .mockImplementationOnce(optionFailure)
+        .mockImplementationOnce(optionFailure);
 
       await expect(createPoll(mockPollForm, mockUserId)).rejects.toThrow(
         DatabaseError,
       );
+      await expect(createPoll(mockPollForm, mockUserId)).rejects.toMatchObject({
+        code: "23502",
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalledWith("polls");
+      expect(mockSupabase.delete).not.toHaveBeenCalled();
+    });
+
+    it("should wrap unexpected errors in a DatabaseError", async () => {
+      mockSupabase.rpc.mockImplementationOnce(() =>
+        Promise.reject(new Error("connection reset")),
+      );
+
       await expect(createPoll(mockPollForm, mockUserId)).rejects.toThrow(
-        "Failed to create poll options: Failed to insert options",
+        "Unexpected error creating poll: Error: connection reset",
       );
     });
   });
@@ -149,15 +207,14 @@ describe("Database Functions Integration Tests", () => {
     };
 
     it("should successfully fetch a poll with details and no user vote", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockPollData)); // Poll data
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess([
-          { poll_id: mockPollId, option_id: mockOption1Id },
-          { poll_id: mockPollId, option_id: mockOption1Id },
-          { poll_id: mockPollId, option_id: mockOption2Id },
-        ]),
-      ); // Vote counts
-      mockSupabase.select.mockImplementationOnce(mockSuccess(null)); // User vote (no user id)
+      queueSuccess(
+        mockPollData,
+        [
+          { option_id: mockOption1Id, user_id: mockUserId },
+          { option_id: mockOption1Id, voter_fingerprint: mockFingerprint },
+          { option_id: mockOption2Id, voter_fingerprint: mockFingerprint },
+        ], // Vote counts
+      );
 
       const result = await getPoll(mockPollId);
 
@@ -169,25 +226,44 @@ describe("Database Functions Integration Tests", () => {
             { ...mockPollData.options[0], vote_count: 2 },
             { ...mockPollData.options[1], vote_count: 1 },
           ],
-          vote_count: 3,
+          vote_count: 2,
           user_vote: null,
         }),
       );
     });
 
+    it("should count each voter once and leave out held votes", async () => {
+      const voterId = faker.string.uuid();
+      queueSuccess(mockPollData, [
+        // An approval ballot covering both options
+        { option_id: mockOption1Id, user_id: mockUserId },
+        { option_id: mockOption2Id, user_id: mockUserId },
+        { option_id: mockOption1Id, user_id: voterId },
+        { option_id: mockOption2Id, user_id: voterId },
+        {
+          option_id: mockOption2Id,
+          voter_fingerprint: mockFingerprint,
+          review_status: "quarantined",
+        },
+      ]);
+
+      const result = await getPoll(mockPollId);
+
+      expect(result?.options?.map((option) => option.vote_count)).toEqual([
+        2, 2,
+      ]);
+      expect(result?.vote_count).toBe(2);
+    });
+
     it("should return null if poll is not found (PGRST116)", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Not found", "PGRST116"),
-      );
+      queueError("Not found", "PGRST116");
 
       const result = await getPoll(mockPollId);
       expect(result).toBeNull();
     });
 
     it("should throw a DatabaseError if fetching poll fails", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Failed to fetch poll", "500"),
-      );
+      queueError("Failed to fetch poll", "500", 2);
 
       await expect(getPoll(mockPollId)).rejects.toThrow(DatabaseError);
       await expect(getPoll(mockPollId)).rejects.toThrow(
@@ -196,10 +272,10 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should throw a DatabaseError if fetching vote counts fails", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockPollData));
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Failed to fetch votes", "500"),
-      );
+      queueSuccess(mockPollData);
+      queueError("Failed to fetch votes", "500");
+      queueSuccess(mockPollData);
+      queueError("Failed to fetch votes", "500");
 
       await expect(getPoll(mockPollId)).rejects.toThrow(DatabaseError);
       await expect(getPoll(mockPollId)).rejects.toThrow(
@@ -215,9 +291,7 @@ describe("Database Functions Integration Tests", () => {
         user_id: mockUserId,
         created_at: new Date().toISOString(),
       };
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockPollData));
-      mockSupabase.select.mockImplementationOnce(mockSuccess([])); // No votes initially
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockUserVote)); // User vote
+      queueSuccess(mockPollData, [], mockUserVote); // No votes counted yet
 
       const result = await getPoll(mockPollId, mockUserId);
 
@@ -252,9 +326,7 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should throw a DatabaseError if fetching results fails", async () => {
-      mockSupabase.rpc.mockImplementationOnce(
-        mockError("Failed to get results", "500"),
-      );
+      queueError("Failed to get results", "500", 2);
 
       await expect(getPollResults(mockPollId)).rejects.toThrow(DatabaseError);
       await expect(getPollResults(mockPollId)).rejects.toThrow(
@@ -281,15 +353,21 @@ describe("Database Functions Integration Tests", () => {
     };
 
     it("should fetch all polls with vote counts", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess([mockPoll1, mockPoll2]),
-      ); // Polls data
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess([
-          { poll_id: mockPoll1.id, option_id: mockOption1Id },
-          { poll_id: mockPoll1.id, option_id: mockOption1Id },
-        ]),
-      ); // Vote counts
+      queueSuccess(
+        [mockPoll1, mockPoll2],
+        [
+          {
+            poll_id: mockPoll1.id,
+            option_id: mockOption1Id,
+            user_id: mockUserId,
+          },
+          {
+            poll_id: mockPoll1.id,
+            option_id: mockOption1Id,
+            voter_fingerprint: mockFingerprint,
+          },
+        ], // Vote counts
+      );
 
       const result = await getPolls();
 
@@ -309,43 +387,35 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should apply filters and pagination", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess([mockPoll1])); // Polls data
-      mockSupabase.select.mockImplementationOnce(mockSuccess([])); // Vote counts
+      queueSuccess([mockPoll1], []);
 
       await getPolls({
         userId: mockUserId,
         isPublic: true,
         limit: 1,
-        offset: 0,
-        search: "One",
+        offset: 1,
         orderBy: "title",
         orderDirection: "asc",
       });
 
       expect(mockSupabase.eq).toHaveBeenCalledWith("creator_id", mockUserId);
       expect(mockSupabase.eq).toHaveBeenCalledWith("is_public", true);
-      expect(mockSupabase.or).toHaveBeenCalledWith(
-        "title.ilike.%One%,description.ilike.%One%",
-      );
       expect(mockSupabase.order).toHaveBeenCalledWith("title", {
         ascending: true,
       });
       expect(mockSupabase.limit).toHaveBeenCalledWith(1);
-      expect(mockSupabase.range).toHaveBeenCalledWith(0, 0);
+      expect(mockSupabase.range).toHaveBeenCalledWith(1, 1);
     });
 
     it("should return an empty array if no polls are found", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess([]));
-      mockSupabase.select.mockImplementationOnce(mockSuccess([]));
+      queueSuccess([]);
 
       const result = await getPolls();
       expect(result).toEqual([]);
     });
 
     it("should throw a DatabaseError if fetching polls fails", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Failed to fetch polls", "500"),
-      );
+      queueError("Failed to fetch polls", "500", 2);
 
       await expect(getPolls()).rejects.toThrow(DatabaseError);
       await expect(getPolls()).rejects.toThrow(
@@ -370,9 +440,7 @@ describe("Database Functions Integration Tests", () => {
     ];
 
     it("should fetch popular polls", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess(mockPopularPolls),
-      );
+      queueSuccess(mockPopularPolls);
 
       const result = await getPopularPolls(2);
 
@@ -385,16 +453,14 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should return an empty array if no popular polls are found", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(null));
+      queueSuccess(null);
 
       const result = await getPopularPolls();
       expect(result).toEqual([]);
     });
 
     it("should throw a DatabaseError if fetching popular polls fails", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Failed to fetch popular polls", "500"),
-      );
+      queueError("Failed to fetch popular polls", "500", 2);
 
       await expect(getPopularPolls()).rejects.toThrow(DatabaseError);
       await expect(getPopularPolls()).rejects.toThrow(
@@ -413,7 +479,7 @@ describe("Database Functions Integration Tests", () => {
     };
 
     it("should successfully update a poll", async () => {
-      mockSupabase.update.mockImplementationOnce(mockSuccess(mockUpdatedPoll));
+      queueSuccess(mockUpdatedPoll);
 
       const result = await updatePoll(mockPollId, updates, mockUserId);
 
@@ -425,9 +491,7 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should throw a DatabaseError if poll update fails", async () => {
-      mockSupabase.update.mockImplementationOnce(
-        mockError("Failed to update poll", "500"),
-      );
+      queueError("Failed to update poll", "500", 2);
 
       await expect(updatePoll(mockPollId, updates, mockUserId)).rejects.toThrow(
         DatabaseError,
@@ -438,139 +502,95 @@ describe("Database Functions Integration Tests", () => {
     });
   });
 
-  // --- deletePoll ---
-  describe("deletePoll", () => {
-    it("should successfully delete a poll", async () => {
-      mockSupabase.delete.mockImplementationOnce(mockSuccess(null));
-
-      await expect(deletePoll(mockPollId, mockUserId)).resolves.toBeUndefined();
-
-      expect(mockSupabase.from).toHaveBeenCalledWith("polls");
-      expect(mockSupabase.delete).toHaveBeenCalled();
-      expect(mockSupabase.eq).toHaveBeenCalledWith("id", mockPollId);
-      expect(mockSupabase.eq).toHaveBeenCalledWith("creator_id", mockUserId);
-    });
-
-    it("should throw a DatabaseError if poll deletion fails", async () => {
-      mockSupabase.delete.mockImplementationOnce(
-        mockError("Failed to delete poll", "500"),
-      );
-
-      await expect(deletePoll(mockPollId, mockUserId)).rejects.toThrow(
-        DatabaseError,
-      );
-      await expect(deletePoll(mockPollId, mockUserId)).rejects.toThrow(
-        "Failed to delete poll: Failed to delete poll",
-      );
-    });
-  });
-
-  // --- castVote ---
-  describe("castVote", () => {
-    const voteForm: VoteForm = {
-      poll_id: mockPollId,
-      option_ids: [mockOption1Id],
-      voter_fingerprint: mockFingerprint,
-    };
-    const mockPoll = {
+  // --- editPoll ---
+  describe("editPoll", () => {
+    const mockEditForm: EditPollForm = {
+      title: "Edited Poll",
+      description: "",
+      options: [
+        { id: mockOption2Id, text: "Option 2" },
+        { id: mockOption1Id, text: "Option 1 renamed" },
+        { text: "Option 3" },
+      ],
+      is_public: true,
       allow_multiple_votes: false,
+      allow_anonymous_votes: true,
       expires_at: null,
     };
-    const mockVote = {
-      id: faker.string.uuid(),
-      poll_id: mockPollId,
-      option_id: mockOption1Id,
-    };
 
-    beforeEach(() => {
-      // Default successful poll fetch for vote operations
-      mockSupabase.select.mockImplementation(mockSuccess(mockPoll));
-      mockSupabase.delete.mockImplementation(mockSuccess(null));
-      mockSupabase.insert.mockImplementation(mockSuccess([mockVote]));
-    });
+    it("should send the ordered option list in one database call", async () => {
+      const mockPoll = { id: mockPollId, title: mockEditForm.title };
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess(mockPoll));
 
-    it("should successfully cast a new vote for an anonymous user", async () => {
-      const result = await castVote(voteForm);
+      const result = await editPoll(mockPollId, mockEditForm);
 
-      expect(mockSupabase.select).toHaveBeenCalledWith(
-        "allow_multiple_votes, expires_at",
-      );
-      expect(mockSupabase.eq).toHaveBeenCalledWith("id", mockPollId);
-      expect(mockSupabase.delete).toHaveBeenCalledWith(); // Called for single vote
-      expect(mockSupabase.eq).toHaveBeenCalledWith(
-        "voter_fingerprint",
-        mockFingerprint,
-      );
-      expect(mockSupabase.insert).toHaveBeenCalledWith([
-        expect.objectContaining({
-          poll_id: mockPollId,
-          option_id: mockOption1Id,
-          voter_fingerprint: mockFingerprint,
-          user_id: null,
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("update_poll_with_options", {
+        poll_uuid: mockPollId,
+        poll_data: expect.objectContaining({
+          title: "Edited Poll",
+          description: null,
+          poll_type: "choice",
         }),
-      ]);
-      expect(result).toEqual([mockVote]);
+        option_list: [
+          { id: mockOption2Id, text: "Option 2" },
+          { id: mockOption1Id, text: "Option 1 renamed" },
+          { id: null, text: "Option 3" },
+        ],
+        confirm_vote_loss: false,
+      });
+      expect(result).toEqual(mockPoll);
     });
 
-    it("should successfully cast a new vote for an authenticated user", async () => {
-      const result = await castVote(voteForm, mockUserId);
-
-      expect(mockSupabase.delete).toHaveBeenCalledWith(); // Called for single vote
-      expect(mockSupabase.eq).toHaveBeenCalledWith("user_id", mockUserId);
-      expect(mockSupabase.insert).toHaveBeenCalledWith([
-        expect.objectContaining({
-          poll_id: mockPollId,
-          option_id: mockOption1Id,
-          user_id: mockUserId,
-          voter_fingerprint: null,
-        }),
-      ]);
-      expect(result).toEqual([mockVote]);
-    });
+    it("should pass through confirmation to discard votes", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess({ id: mockPollId }));
 
-    it("should throw a DatabaseError if poll fetching fails during vote", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Poll not found", "PGRST116"),
-      ); // Initial poll fetch
+      await editPoll(mockPollId, { ...mockEditForm, confirm_vote_loss: true });
 
-      await expect(castVote(voteForm)).rejects.toThrow(DatabaseError);
-      await expect(castVote(voteForm)).rejects.toThrow(
-        "Failed to fetch poll: Poll not found",
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "update_poll_with_options",
+        expect.objectContaining({ confirm_vote_loss: true }),
       );
     });
 
-    it("should throw a DatabaseError if poll has expired", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess({
-          allow_multiple_votes: false,
-          expires_at: new Date(Date.now() - 1000).toISOString(),
-        }),
-      ); // Expired poll
+    it("should surface the vote-safety error code when votes would be lost", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError(
+          "Removing options that have votes requires confirmation",
+          POLL_EDIT_CONFIRM_CODE,
+        ),
+      );
 
-      await expect(castVote(voteForm)).rejects.toThrow(DatabaseError);
-      await expect(castVote(voteForm)).rejects.toThrow("Poll has expired");
+      await expect(editPoll(mockPollId, mockEditForm)).rejects.toMatchObject({
+        name: "DatabaseError",
+        code: POLL_EDIT_CONFIRM_CODE,
+        message:
+          "Failed to edit poll: Removing options that have votes requires confirmation",
+      });
     });
+  });
 
-    it("should throw a DatabaseError if vote insertion fails", async () => {
-      mockSupabase.insert.mockImplementationOnce(
-        mockError("Failed to insert vote", "500"),
-      );
+  // --- deletePoll ---
+  describe("deletePoll", () => {
+    it("should successfully delete a poll", async () => {
+      queueSuccess(null);
 
-      await expect(castVote(voteForm)).rejects.toThrow(DatabaseError);
-      await expect(castVote(voteForm)).rejects.toThrow(
-        "Failed to cast vote: Failed to insert vote",
-      );
-    });
+      await expect(deletePoll(mockPollId, mockUserId)).resolves.toBeUndefined();
 
-    it("should allow multiple votes if poll allows it", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockSuccess({ allow_multiple_votes: true, expires_at: null }),
-      ); // Poll allows multiple votes
+      expect(mockSupabase.from).toHaveBeenCalledWith("polls");
+      expect(mockSupabase.delete).toHaveBeenCalled();
+      expect(mockSupabase.eq).toHaveBeenCalledWith("id", mockPollId);
+      expect(mockSupabase.eq).toHaveBeenCalledWith("creator_id", mockUserId);
+    });
 
-      await castVote(voteForm, mockUserId);
+    it("should throw a DatabaseError if poll deletion fails", async () => {
+      queueError("Failed to delete poll", "500", 2);
 
-      // Expect delete not to have been called for user_id or fingerprint
-      expect(mockSupabase.delete).not.toHaveBeenCalledWith();
+      await expect(deletePoll(mockPollId, mockUserId)).rejects.toThrow(
+        DatabaseError,
+      );
+      await expect(deletePoll(mockPollId, mockUserId)).rejects.toThrow(
+        "Failed to delete poll: Failed to delete poll",
+      );
     });
   });
 
@@ -586,7 +606,7 @@ describe("Database Functions Integration Tests", () => {
     ];
 
     it("should fetch user's votes by userId", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockUserVotes));
+      queueSuccess(mockUserVotes);
 
       const result = await getUserVote(mockPollId, mockUserId, undefined);
 
@@ -596,7 +616,7 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should fetch user's votes by fingerprint", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(mockUserVotes));
+      queueSuccess(mockUserVotes);
 
       const result = await getUserVote(mockPollId, undefined, mockFingerprint);
 
@@ -614,16 +634,14 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should return an empty array if no votes are found", async () => {
-      mockSupabase.select.mockImplementationOnce(mockSuccess(null));
+      queueSuccess(null);
 
       const result = await getUserVote(mockPollId, mockUserId);
       expect(result).toEqual([]);
     });
 
     it("should throw a DatabaseError if fetching user vote fails", async () => {
-      mockSupabase.select.mockImplementationOnce(
-        mockError("Failed to fetch votes", "500"),
-      );
+      queueError("Failed to fetch votes", "500", 2);
 
       await expect(getUserVote(mockPollId, mockUserId)).rejects.toThrow(
         DatabaseError,
@@ -648,6 +666,7 @@ describe("Database Functions Integration Tests", () => {
         poll_id: mockPollId,
         viewer_id: null,
         viewer_fingerprint: mockFingerprint,
+        referrer: null,
       });
     });
 
@@ -662,9 +681,20 @@ describe("Database Functions Integration Tests", () => {
         poll_id: mockPollId,
         viewer_id: mockUserId,
         viewer_fingerprint: null,
+        referrer: null,
       });
     });
 
+    it("should record where the view came from", async () => {
+      mockSupabase.insert.mockImplementationOnce(mockSuccess(null));
+
+      await recordPollView(mockPollId, undefined, mockFingerprint, "twitter.com");
+
+      expect(mockSupabase.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ referrer: "twitter.com" }),
+      );
+    });
+
     it("should not throw an error if a duplicate key error occurs (silent fail)", async () => {
       mockSupabase.insert.mockImplementationOnce(
         mockError("duplicate key value violates unique constraint", "23505"),
@@ -700,6 +730,65 @@ describe("Database Functions Integration Tests", () => {
   });
 
   // --- getUserPollStats ---
+  describe("getPollAnalytics", () => {
+    const mockActivity = {
+      bucket: "day",
+      range_start: "2025-01-01T00:00:00+00:00",
+      range_end: "2025-01-03T00:00:00+00:00",
+      total_votes: 3,
+      total_views: 10,
+      total_shares: 1,
+      votes_over_time: [
+        { date: "2025-01-01T00:00:00+00:00", count: 0 },
+        { date: "2025-01-02T00:00:00+00:00", count: 3 },
+      ],
+      views_over_time: [
+        { date: "2025-01-01T00:00:00+00:00", count: 4 },
+        { date: "2025-01-02T00:00:00+00:00", count: 6 },
+      ],
+      top_referrers: [{ source: "direct", count: 10 }],
+      shares_by_method: [{ method: "link", count: 1 }],
+    };
+
+    it("should combine activity, the poll and its results", async () => {
+      const mockPoll = { id: mockPollId, title: "Analytics Poll" };
+      const mockResults = [{ option_id: mockOption1Id, vote_count: 3 }];
+      const from = new Date("2025-01-01T00:00:00.000Z");
+      mockSupabase.rpc
+        .mockImplementationOnce(mockSuccess(mockActivity))
+        .mockImplementationOnce(mockSuccess(mockResults));
+      mockSupabase.single.mockImplementationOnce(mockSuccess(mockPoll));
+
+      const result = await getPollAnalytics(mockPollId, { bucket: "day", from });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_poll_analytics", {
+        poll_uuid: mockPollId,
+        bucket_size: "day",
+        range_start: from.toISOString(),
+        range_end: null,
+      });
+      expect(result).toEqual({
+        ...mockActivity,
+        poll: mockPoll,
+        results: mockResults,
+      });
+    });
+
+    it("should throw DatabaseError when the caller is not the creator", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError("Poll not found or you are not its creator", "P0002"),
+      );
+
+      await expect(getPollAnalytics(mockPollId)).rejects.toMatchObject({
+        name: "DatabaseError",
+        code: "P0002",
+        message:
+          "Failed to get poll analytics: Poll not found or you are not its creator",
+      });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getUserPollStats", () => {
     const mockStats = {
       total_polls_created: 5,
@@ -727,9 +816,7 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should throw a DatabaseError if fetching user stats fails", async () => {
-      mockSupabase.rpc.mockImplementationOnce(
-        mockError("Failed to get user stats", "500"),
-      );
+      queueError("Failed to get user stats", "500", 2);
 
       await expect(getUserPollStats(mockUserId)).rejects.toThrow(DatabaseError);
       await expect(getUserPollStats(mockUserId)).rejects.toThrow(
@@ -749,9 +836,7 @@ describe("Database Functions Integration Tests", () => {
     });
 
     it("should throw a DatabaseError if refreshing popular polls fails", async () => {
-      mockSupabase.rpc.mockImplementationOnce(
-        mockError("Failed to refresh", "500"),
-      );
+      queueError("Failed to refresh", "500", 2);
 
       await expect(refreshPopularPolls()).rejects.toThrow(DatabaseError);
       await expect(refreshPopularPolls()).rejects.toThrow(
@@ -759,4 +844,434 @@ describe("Database Functions Integration Tests", () => {
       );
     });
   });
+
+  // --- drafts ---
+  describe("drafts", () => {
+    beforeEach(() => {
+      mockSupabase.select.mockImplementation(() => mockSupabase);
+    });
+
+    it("should leave drafts out of poll listings by default", async () => {
+      await getPolls();
+
+      expect(mockSupabase.neq).toHaveBeenCalledWith("status", "draft");
+    });
+
+    it("should list drafts when asked to", async () => {
+      await getPolls({ userId: mockUserId, includeDrafts: true });
+
+      expect(mockSupabase.neq).not.toHaveBeenCalled();
+    });
+
+    it("should create a draft when is_draft is set", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess({ id: mockPollId }));
+
+      await createPoll(
+        {
+          title: "Draft poll",
+          options: ["Yes", "No"],
+          is_public: true,
+          allow_multiple_votes: false,
+          allow_anonymous_votes: true,
+          is_draft: true,
+        },
+        mockUserId,
+      );
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "create_poll_with_options",
+        expect.objectContaining({
+          poll_data: expect.objectContaining({ status: "draft" }),
+        }),
+      );
+    });
+
+    it("should publish a draft through publish_poll", async () => {
+      const published = { id: mockPollId, status: "active" };
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess(published));
+
+      await expect(publishPoll(mockPollId)).resolves.toEqual(published);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("publish_poll", {
+        poll_uuid: mockPollId,
+      });
+    });
+
+    it("should throw a DatabaseError if publishing fails", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError("Poll is already published", "P0001"),
+      );
+
+      await expect(publishPoll(mockPollId)).rejects.toThrow(
+        "Failed to publish poll: Poll is already published",
+      );
+    });
+  });
+
+  // --- invites ---
+  describe("invites", () => {
+    it("should list invites with numeric redemption counts", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockSuccess([{ id: "invite-1", poll_id: mockPollId, redemption_count: "3" }]),
+      );
+
+      const invites = await getPollInvites(mockPollId);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("get_poll_invites", {
+        poll_uuid: mockPollId,
+      });
+      expect(invites[0].redemption_count).toBe(3);
+    });
+
+    it("should redeem a token with the guest's fingerprint", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess(mockPollId));
+
+      await expect(redeemPollInvite("token", mockFingerprint)).resolves.toBe(
+        mockPollId,
+      );
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("redeem_poll_invite", {
+        invite_token: "token",
+        fingerprint: mockFingerprint,
+      });
+    });
+
+    it("should pass on why an invite cannot be used", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError("Invite link has expired", "P0001"),
+      );
+
+      await expect(redeemPollInvite("token")).rejects.toThrow(
+        "Invite link has expired",
+      );
+    });
+  });
+
+  // --- voter allowlists ---
+  describe("voter allowlists", () => {
+    const editForm: EditPollForm = {
+      title: "Team lunch",
+      options: [{ text: "Pizza" }, { text: "Sushi" }],
+      is_public: false,
+      allow_multiple_votes: false,
+      allow_anonymous_votes: false,
+    };
+
+    it("should replace the allowlist after an edit", async () => {
+      mockSupabase.rpc
+        .mockImplementationOnce(mockSuccess({ id: mockPollId }))
+        .mockImplementationOnce(mockSuccess(null));
+
+      await editPoll(mockPollId, {
+        ...editForm,
+        voter_allowlist: ["@example.com"],
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith(
+        "set_poll_voter_allowlist",
+        { poll_uuid: mockPollId, entries: ["@example.com"] },
+      );
+    });
+
+    it("should keep the allowlist when an edit leaves it out", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess({ id: mockPollId }));
+
+      await editPoll(mockPollId, editForm);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check guests against the allowlist with the service role", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess(false));
+
+      await expect(isAllowedVoter(mockPollId)).resolves.toBe(false);
+      expect(createAdminSupabase).toHaveBeenCalled();
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("is_allowed_voter", {
+        poll_uuid: mockPollId,
+        voter_uuid: null,
+      });
+    });
+  });
+
+  // --- comments ---
+  describe("comments", () => {
+    it("should post a reply as the signed-in user", async () => {
+      const parentId = faker.string.uuid();
+      mockSupabase.single.mockImplementationOnce(
+        mockSuccess({ id: "comment-1", poll_id: mockPollId }),
+      );
+
+      await createPollComment(mockPollId, mockUserId, {
+        body: "Good point",
+        parent_id: parentId,
+      });
+
+      expect(mockSupabase.insert).toHaveBeenCalledWith({
+        poll_id: mockPollId,
+        author_id: mockUserId,
+        parent_id: parentId,
+        body: "Good point",
+        show_vote: false,
+      });
+    });
+
+    it("should list comments oldest first", async () => {
+      mockSupabase.limit.mockImplementationOnce(mockSuccess([]));
+
+      await expect(getPollComments(mockPollId)).resolves.toEqual([]);
+      expect(mockSupabase.order).toHaveBeenCalledWith("created_at", {
+        ascending: true,
+      });
+    });
+
+    it("should keep the error code when a delete is refused", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError(
+          "Only the author or the poll creator can delete this comment",
+          "42501",
+        ),
+      );
+
+      await expect(deletePollComment("comment-1")).rejects.toMatchObject({
+        code: "42501",
+      });
+    });
+  });
+
+  // --- option suggestions ---
+  describe("option suggestions", () => {
+    it("should approve a suggestion through review_option_suggestion", async () => {
+      const suggestionId = faker.string.uuid();
+      mockSupabase.rpc.mockImplementationOnce(
+        mockSuccess({ id: suggestionId, status: "approved" }),
+      );
+
+      await expect(reviewOptionSuggestion(suggestionId, true)).resolves.toEqual({
+        id: suggestionId,
+        status: "approved",
+      });
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("review_option_suggestion", {
+        suggestion_uuid: suggestionId,
+        approve: true,
+      });
+    });
+
+    it("should keep the error code when a full poll turns an approval down", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError("A poll can have at most 10 options", "23514"),
+      );
+
+      await expect(
+        reviewOptionSuggestion(faker.string.uuid(), true),
+      ).rejects.toMatchObject({ code: "23514" });
+    });
+  });
+
+  // --- searchPolls ---
+  describe("searchPolls", () => {
+    const pollA = { id: faker.string.uuid(), title: "Lunch spot", options: [] };
+    const pollB = { id: faker.string.uuid(), title: "Lunch time", options: [] };
+
+    it("should search through search_polls and keep its ranking", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockSuccess([
+          {
+            id: pollB.id,
+            rank: 0.6,
+            title_highlight: "<mark>Lunch</mark> time",
+            snippet: null,
+            total_count: "12",
+          },
+          {
+            id: pollA.id,
+            rank: 0.3,
+            title_highlight: "<mark>Lunch</mark> spot",
+            snippet: null,
+            total_count: "12",
+          },
+        ]),
+      );
+      mockSupabase.in.mockImplementationOnce(mockSuccess([pollA, pollB])); // Polls
+      mockSupabase.in.mockImplementationOnce(mockSuccess([])); // Vote counts
+
+      const result = await searchPolls({
+        search: "lunch' | ti",
+        isPublic: true,
+        limit: 2,
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith("search_polls", {
+        search_term: "lunch' | ti",
+        public_only: true,
+        creator_uuid: null,
+        include_drafts: false,
+        result_limit: 2,
+        result_offset: 0,
+        tag_filter: null,
+      });
+      expect(mockSupabase.or).not.toHaveBeenCalled();
+      expect(result.total).toBe(12);
+      expect(result.polls.map((poll) => poll.id)).toEqual([pollB.id, pollA.id]);
+      expect(result.polls[0].search).toEqual({
+        rank: 0.6,
+        title_highlight: "<mark>Lunch</mark> time",
+        snippet: null,
+      });
+    });
+
+    it("should send getPolls searches to search_polls", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess([]));
+
+      await expect(getPolls({ search: "lunch" })).resolves.toEqual([]);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "search_polls",
+        expect.objectContaining({ search_term: "lunch" }),
+      );
+      expect(mockSupabase.or).not.toHaveBeenCalled();
+    });
+
+    it("should throw a DatabaseError if the search fails", async () => {
+      mockSupabase.rpc.mockImplementationOnce(
+        mockError("statement timeout", "57014"),
+      );
+
+      await expect(searchPolls({ search: "lunch" })).rejects.toThrow(
+        "Failed to search polls: statement timeout",
+      );
+    });
+  });
+
+  // --- getPollsPage ---
+  describe("getPollsPage", () => {
+    const poll = (created_at: string) => ({
+      id: faker.string.uuid(),
+      title: faker.lorem.words(3),
+      created_at,
+      options: [],
+    });
+
+    it("should return a cursor after the last poll when there are more", async () => {
+      const polls = [
+        poll("2025-03-03T00:00:00.000003+00:00"),
+        poll("2025-03-02T00:00:00.000002+00:00"),
+        poll("2025-03-01T00:00:00.000001+00:00"),
+      ];
+      mockSupabase.limit.mockImplementationOnce(mockSuccess(polls)); // Polls
+      mockSupabase.in.mockImplementationOnce(mockSuccess([])); // Vote counts
+
+      const result = await getPollsPage({ limit: 2 });
+
+      expect(mockSupabase.limit).toHaveBeenCalledWith(3);
+      expect(result.polls.map((p) => p.id)).toEqual([polls[0].id, polls[1].id]);
+
+      // The next page continues after the second poll
+      mockSupabase.limit.mockImplementationOnce(mockSuccess([polls[2]]));
+      mockSupabase.in.mockImplementationOnce(mockSuccess([]));
+
+      const next = await getPollsPage({ limit: 2, cursor: result.nextCursor! });
+
+      expect(mockSupabase.or).toHaveBeenCalledWith(
+        `created_at.lt."${polls[1].created_at}",and(created_at.eq."${polls[1].created_at}",id.lt.${polls[1].id})`,
+      );
+      expect(mockSupabase.range).not.toHaveBeenCalled();
+      expect(next.nextCursor).toBeNull();
+    });
+
+    it("should reject a cursor made for another ordering", async () => {
+      mockSupabase.limit.mockImplementationOnce(
+        mockSuccess([
+          poll("2025-03-02T00:00:00+00:00"),
+          poll("2025-03-01T00:00:00+00:00"),
+        ]),
+      );
+      mockSupabase.in.mockImplementationOnce(mockSuccess([]));
+
+      const { nextCursor } = await getPollsPage({ limit: 1 });
+
+      await expect(
+        getPollsPage({ limit: 1, cursor: nextCursor!, orderBy: "title" }),
+      ).rejects.toThrow("Invalid cursor");
+    });
+
+    it("should page through search results by offset", async () => {
+      const match = poll("2025-03-01T00:00:00+00:00");
+      mockSupabase.rpc.mockImplementationOnce(
+        mockSuccess([
+          {
+            id: match.id,
+            rank: 0.5,
+            title_highlight: "<mark>Lunch</mark>",
+            snippet: null,
+            total_count: 3,
+          },
+        ]),
+      );
+      mockSupabase.in.mockImplementationOnce(mockSuccess([match])); // Polls
+      mockSupabase.in.mockImplementationOnce(mockSuccess([])); // Vote counts
+
+      const result = await getPollsPage({ limit: 1, search: "lunch" });
+
+      expect(result.total).toBe(3);
+      expect(result.nextCursor).not.toBeNull();
+
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess([]));
+      await getPollsPage({
+        limit: 1,
+        search: "lunch",
+        cursor: result.nextCursor!,
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith(
+        "search_polls",
+        expect.objectContaining({ result_offset: 1 }),
+      );
+    });
+  });
+
+  // --- tags ---
+  describe("tags", () => {
+    it("should filter by tag through a separate inner embed and flatten tags", async () => {
+      const poll = {
+        id: faker.string.uuid(),
+        title: "Derby day",
+        options: [],
+        tags: [{ tag: "local-news" }, { tag: "sports" }],
+        tag_filter: [{ tag: "sports" }],
+      };
+      mockSupabase.order
+        .mockImplementationOnce(() => mockSupabase)
+        .mockImplementationOnce(mockSuccess([poll])); // Polls, ordered by id last
+      mockSupabase.in.mockImplementationOnce(mockSuccess([])); // Vote counts
+
+      const [result] = await getPolls({ tag: "sports" });
+
+      expect(mockSupabase.select).toHaveBeenCalledWith(
+        expect.stringContaining("tag_filter:poll_tags!inner(tag)"),
+      );
+      expect(mockSupabase.eq).toHaveBeenCalledWith("tag_filter.tag", "sports");
+      expect(result.tags).toEqual(["local-news", "sports"]);
+      expect(result).not.toHaveProperty("tag_filter");
+    });
+
+    it("should pass the tag to search_polls", async () => {
+      mockSupabase.rpc.mockImplementationOnce(mockSuccess([]));
+
+      await searchPolls({ search: "derby", tag: "sports" });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        "search_polls",
+        expect.objectContaining({ tag_filter: "sports" }),
+      );
+    });
+
+    it("should list popular tags, most used first", async () => {
+      const tags = [{ tag: "sports", poll_count: 4, vote_count: 30 }];
+      mockSupabase.limit.mockImplementationOnce(mockSuccess(tags));
+
+      await expect(getPopularTags(5)).resolves.toEqual(tags);
+      expect(mockSupabase.from).toHaveBeenCalledWith("popular_tags");
+      expect(mockSupabase.order).toHaveBeenCalledWith("poll_count", {
+        ascending: false,
+      });
+      expect(mockSupabase.limit).toHaveBeenCalledWith(5);
+    });
+  });
 });
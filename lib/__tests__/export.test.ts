@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+import { gzipSync, inflateRawSync } from "zlib";
+import {
+  anonymiseVoter,
+  createExportStream,
+  csvLine,
+  toVoteExportRows,
+} from "../export";
+import { PollResult, Vote, VoteExportRow } from "@/types/database";
+import { faker } from "@faker-js/faker";
+
+describe("Poll Export", () => {
+  const pollId = faker.string.uuid();
+  const optionA = faker.string.uuid();
+  const optionB = faker.string.uuid();
+  const secret = "test-secret";
+
+  const results: PollResult[] = [
+    {
+      option_id: optionA,
+      option_text: "Red",
+      order_index: 0,
+      vote_count: 2,
+      raw_vote_count: 2,
+      imported_vote_count: 0,
+      percentage: 66.67,
+      average_score: null,
+      median_score: null,
+      score_distribution: null,
+    },
+    {
+      option_id: optionB,
+      option_text: 'Blue, "navy"',
+      order_index: 1,
+      vote_count: 1,
+      raw_vote_count: 1,
+      imported_vote_count: 0,
+      percentage: 33.33,
+      average_score: null,
+      median_score: null,
+      score_distribution: null,
+    },
+  ];
+
+  const makeRows = (count: number): VoteExportRow[] =>
+    Array.from({ length: count }, (_, i) => ({
+      option_text: i % 2 === 0 ? "Red" : "Blue",
+      created_at: new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString(),
+      voter_key: `voter-${i}`,
+      rank: null,
+      score: null,
+      review_status: i === 2 ? "quarantined" : null,
+    }));
+
+  async function* pages(...rowPages: VoteExportRow[][]) {
+    for (const page of rowPages) yield page;
+  }
+
+  const readAll = (stream: ReadableStream<Uint8Array>) =>
+    new Response(stream).arrayBuffer().then((buffer) => Buffer.from(buffer));
+
+  // Reads every entry of a zip archive through its central directory
+  const unzip = (archive: Buffer): Record<string, string> => {
+    const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = archive.readUInt16LE(endOffset + 10);
+    let cursor = archive.readUInt32LE(endOffset + 16);
+    const files: Record<string, string> = {};
+
+    for (let i = 0; i < count; i++) {
+      const crc = archive.readUInt32LE(cursor + 16);
+      const compressedSize = archive.readUInt32LE(cursor + 20);
+      const nameLength = archive.readUInt16LE(cursor + 28);
+      const localOffset = archive.readUInt32LE(cursor + 42);
+      const name = archive.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+
+      const dataStart =
+        localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+      const data = inflateRawSync(
+        archive.subarray(dataStart, dataStart + compressedSize),
+      );
+      // A gzip trailer starts with the CRC-32 of its data
+      const gzipped = gzipSync(data);
+      expect(gzipped.readUInt32LE(gzipped.length - 8)).toBe(crc);
+
+      files[name] = data.toString("utf8");
+      cursor += 46 + nameLength;
+    }
+
+    return files;
+  };
+
+  // --- csvLine ---
+  describe("csvLine", () => {
+    it("should quote values with commas, quotes and line breaks", () => {
+      expect(csvLine(["plain", 'say "hi"', "a,b", "line\nbreak", 3, null])).toBe(
+        'plain,"say ""hi""","a,b","line\nbreak",3,\r\n',
+      );
+    });
+
+    it("should neutralise values spreadsheets would run as formulas", () => {
+      expect(csvLine(["=SUM(A1:A2)", "@cmd", "+1", "-1"])).toBe(
+        "'=SUM(A1:A2),'@cmd,'+1,'-1\r\n",
+      );
+    });
+  });
+
+  // --- anonymiseVoter ---
+  describe("anonymiseVoter", () => {
+    const userId = faker.string.uuid();
+    const vote = { id: faker.string.uuid(), user_id: userId, voter_fingerprint: null };
+
+    it("should give a voter the same key for every vote in a poll", () => {
+      const other = { ...vote, id: faker.string.uuid() };
+
+      expect(anonymiseVoter(pollId, vote, secret)).toBe(
+        anonymiseVoter(pollId, other, secret),
+      );
+    });
+
+    it("should not reveal the voter or link them across polls", () => {
+      const key = anonymiseVoter(pollId, vote, secret);
+
+      expect(key).toHaveLength(16);
+      expect(key).not.toContain(userId);
+      expect(anonymiseVoter(faker.string.uuid(), vote, secret)).not.toBe(key);
+    });
+  });
+
+  // --- toVoteExportRows ---
+  describe("toVoteExportRows", () => {
+    it("should replace option ids with text and drop voter identities", () => {
+      const vote = {
+        id: faker.string.uuid(),
+        poll_id: pollId,
+        option_id: optionA,
+        user_id: faker.string.uuid(),
+        voter_fingerprint: null,
+        created_at: "2025-01-01T00:00:00.000Z",
+        rank: null,
+        score: 4,
+        review_status: "accepted",
+      } as Vote;
+
+      const [row] = toVoteExportRows(pollId, [vote], { [optionA]: "Red" }, secret);
+
+      expect(row).toEqual({
+        option_text: "Red",
+        created_at: vote.created_at,
+        voter_key: anonymiseVoter(pollId, vote, secret),
+        rank: null,
+        score: 4,
+        review_status: "accepted",
+      });
+    });
+  });
+
+  // --- createExportStream ---
+  describe("createExportStream", () => {
+    it("should write vote rows as CSV across pages", async () => {
+      const rows = makeRows(3);
+      const output = await readAll(
+        createExportStream("csv", "votes", results, pages(rows.slice(0, 2), rows.slice(2))),
+      );
+      const lines = output.toString("utf8").replace(/^\uFEFF/, "").split("\r\n");
+
+      expect(lines[0]).toBe("option_text,created_at,voter_key,rank,score,review_status");
+      expect(lines.slice(1, 4)).toEqual(
+        rows.map((row) => `${row.option_text},${row.created_at},${row.voter_key},,,${row.review_status ?? ""}`),
+      );
+    });
+
+    it("should write poll results as CSV", async () => {
+      const output = await readAll(
+        createExportStream("csv", "results", results, pages()),
+      );
+
+      expect(output.toString("utf8")).toContain('"Blue, ""navy""",1,33.33,,');
+    });
+
+    it("should write results and votes as one JSON document", async () => {
+      const rows = makeRows(4);
+      const output = await readAll(
+        createExportStream("json", "votes", results, pages(rows.slice(0, 3), [], rows.slice(3))),
+      );
+
+      expect(JSON.parse(output.toString("utf8"))).toEqual({ results, votes: rows });
+    });
+
+    it("should write an XLSX workbook with a results and a votes sheet", async () => {
+      const rows = makeRows(5);
+      const files = unzip(
+        await readAll(createExportStream("xlsx", "votes", results, pages(rows))),
+      );
+
+      expect(Object.keys(files)).toEqual(
+        expect.arrayContaining([
+          "[Content_Types].xml",
+          "xl/workbook.xml",
+          "xl/worksheets/sheet1.xml",
+          "xl/worksheets/sheet2.xml",
+        ]),
+      );
+      expect(files["xl/worksheets/sheet1.xml"]).toContain(
+        "Blue, &quot;navy&quot;",
+      );
+      expect(files["xl/worksheets/sheet2.xml"].match(/<row>/g)).toHaveLength(6);
+    });
+
+    it("should only pull vote pages as the stream is read", async () => {
+      let pulled = 0;
+      async function* countingPages() {
+        for (let i = 0; i < 100; i++) {
+          pulled++;
+          yield makeRows(10);
+        }
+      }
+
+      const reader = createExportStream("csv", "votes", results, countingPages()).getReader();
+      await reader.read();
+      await reader.read();
+      await reader.read();
+      await reader.cancel();
+
+      expect(pulled).toBeLessThan(100);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  QUARANTINE_SCORE,
+  VOTE_FRAUD_REASONS,
+  VOTE_FRAUD_REASON_LABELS,
+  scoreVote,
+} from "../fraud";
+import { VoteFraudSignals } from "@/types/database";
+
+describe("Vote Fraud Scoring", () => {
+  const makeSignals = (
+    overrides: Partial<VoteFraudSignals> = {},
+  ): VoteFraudSignals => ({
+    ip_ballots: 0,
+    subnet_ballots: 0,
+    agent_ballots: 0,
+    ip_voter_ids: 0,
+    seconds_since_view: 60,
+    view_expected: true,
+    ...overrides,
+  });
+
+  // --- scoreVote ---
+  describe("scoreVote", () => {
+    it("should not flag an ordinary vote", () => {
+      expect(scoreVote(makeSignals())).toEqual({ score: 0, reasons: [] });
+    });
+
+    it("should never quarantine a vote for one signal alone", () => {
+      const singles: Partial<VoteFraudSignals>[] = [
+        { ip_ballots: 3 },
+        { subnet_ballots: 10 },
+        { agent_ballots: 10 },
+        { ip_voter_ids: 2 },
+        { seconds_since_view: null },
+        { seconds_since_view: 1.5 },
+      ];
+
+      singles.forEach((overrides) => {
+        const { score, reasons } = scoreVote(makeSignals(overrides));
+        expect(reasons).toHaveLength(1);
+        expect(score).toBeLessThan(QUARANTINE_SCORE);
+      });
+    });
+
+    it("should quarantine a burst from one address voting straight away", () => {
+      const { score, reasons } = scoreVote(
+        makeSignals({ ip_ballots: 5, seconds_since_view: 0.4 }),
+      );
+
+      expect(reasons).toEqual(["ip_burst", "fast_vote"]);
+      expect(score).toBeGreaterThanOrEqual(QUARANTINE_SCORE);
+    });
+
+    it("should quarantine a guest churning voter ids on a busy address", () => {
+      const { score, reasons } = scoreVote(
+        makeSignals({ ip_ballots: 4, ip_voter_ids: 3 }),
+      );
+
+      expect(reasons).toEqual(["ip_burst", "voter_churn"]);
+      expect(score).toBe(70);
+    });
+
+    it("should not hold signed-in voters to the address rules", () => {
+      const signals = makeSignals({
+        ip_ballots: 20,
+        subnet_ballots: 20,
+        agent_ballots: 20,
+        ip_voter_ids: 5,
+      });
+
+      expect(scoreVote(signals, true)).toEqual({ score: 0, reasons: [] });
+      expect(
+        scoreVote({ ...signals, seconds_since_view: 1 }, true).reasons,
+      ).toEqual(["fast_vote"]);
+      expect(scoreVote(signals).score).toBeGreaterThanOrEqual(QUARANTINE_SCORE);
+    });
+
+    it("should only expect a view where views are recorded", () => {
+      expect(
+        scoreVote(
+          makeSignals({ seconds_since_view: null, view_expected: false }),
+        ).reasons,
+      ).toEqual([]);
+    });
+
+    it("should cap the score at 100", () => {
+      const { score, reasons } = scoreVote(
+        makeSignals({
+          ip_ballots: 50,
+          subnet_ballots: 50,
+          agent_ballots: 50,
+          ip_voter_ids: 50,
+          seconds_since_view: 0,
+        }),
+      );
+
+      expect(reasons).toHaveLength(5);
+      expect(score).toBe(100);
+    });
+  });
+
+  it("should label every reason", () => {
+    VOTE_FRAUD_REASONS.forEach((reason) => {
+      expect(VOTE_FRAUD_REASON_LABELS[reason]).toEqual(expect.any(String));
+    });
+  });
+});
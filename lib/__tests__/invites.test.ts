@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from "crypto";
+import {
+  generateInviteToken,
+  hashInviteToken,
+  inviteUrl,
+} from "../invites";
+import { faker } from "@faker-js/faker";
+
+describe("Poll Invites", () => {
+  // --- generateInviteToken ---
+  describe("generateInviteToken", () => {
+    it("should create unique URL-safe tokens", () => {
+      const token = generateInviteToken();
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(generateInviteToken()).not.toBe(token);
+    });
+  });
+
+  // --- hashInviteToken ---
+  describe("hashInviteToken", () => {
+    it("should produce the hex SHA-256 the database redeems tokens by", async () => {
+      const token = generateInviteToken();
+
+      expect(await hashInviteToken(token)).toBe(
+        createHash("sha256").update(token).digest("hex"),
+      );
+    });
+  });
+
+  // --- inviteUrl ---
+  describe("inviteUrl", () => {
+    it("should add the token to the poll's share link", () => {
+      const pollId = faker.string.uuid();
+
+      expect(inviteUrl(pollId, "abc_-123")).toBe(`/polls/${pollId}?invite=abc_-123`);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { runScheduledJobs } from "../jobs";
+
+jest.mock("@/lib/database", () => ({
+  advancePollStatuses: jest.fn(),
+  processWebhookDeliveries: jest.fn(),
+}));
+
+describe("runScheduledJobs", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should run each job in order and report its result", async () => {
+    const calls: string[] = [];
+    const jobs = [
+      { name: "first", run: jest.fn(async () => (calls.push("first"), 2)) },
+      { name: "second", run: jest.fn(async () => (calls.push("second"), "done")) },
+    ];
+
+    const results = await runScheduledJobs(jobs);
+
+    expect(calls).toEqual(["first", "second"]);
+    expect(results).toEqual([
+      { name: "first", ok: true, result: 2, durationMs: expect.any(Number) },
+      { name: "second", ok: true, result: "done", durationMs: expect.any(Number) },
+    ]);
+  });
+
+  it("should keep running the other jobs when one fails", async () => {
+    const later = jest.fn(async () => null);
+
+    const results = await runScheduledJobs([
+      { name: "broken", run: jest.fn(async () => Promise.reject(new Error("boom"))) },
+      { name: "later", run: later },
+    ]);
+
+    expect(results[0]).toMatchObject({ name: "broken", ok: false, error: "boom" });
+    expect(results[1]).toMatchObject({ name: "later", ok: true });
+    expect(later).toHaveBeenCalled();
+  });
+});
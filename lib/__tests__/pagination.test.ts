@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import {
+  decodePollCursor,
+  encodePollCursor,
+  quoteFilterValue,
+} from "../pagination";
+import { faker } from "@faker-js/faker";
+
+describe("poll cursors", () => {
+  it("round-trips keyset cursors, including non-ASCII titles", () => {
+    const cursor = {
+      orderBy: "title" as const,
+      direction: "asc" as const,
+      value: "Café, (déjà) vu?",
+      id: faker.string.uuid(),
+    };
+
+    const encoded = encodePollCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodePollCursor(encoded)).toEqual(cursor);
+  });
+
+  it("round-trips search offsets", () => {
+    expect(decodePollCursor(encodePollCursor({ offset: 20 }))).toEqual({
+      offset: 20,
+    });
+  });
+
+  it("rejects malformed or tampered cursors", () => {
+    const valid = {
+      orderBy: "created_at",
+      direction: "desc",
+      value: "2025-01-01T00:00:00.123456+00:00",
+      id: faker.string.uuid(),
+    };
+
+    expect(decodePollCursor("not a cursor")).toBeNull();
+    expect(decodePollCursor(encodePollCursor({ offset: -1 }))).toBeNull();
+    expect(
+      decodePollCursor(encodePollCursor({ ...valid, id: "x,id.neq.0" } as any)),
+    ).toBeNull();
+    expect(
+      decodePollCursor(
+        encodePollCursor({ ...valid, orderBy: "creator_id" } as any),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("quoteFilterValue", () => {
+  it("quotes values and escapes quotes and backslashes", () => {
+    expect(quoteFilterValue("a,b.c")).toBe('"a,b.c"');
+    expect(quoteFilterValue('say "hi" \\o/')).toBe('"say \\"hi\\" \\\\o/"');
+  });
+});
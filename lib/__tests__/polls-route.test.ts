@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/polls/route";
+import { createPoll } from "@/lib/database";
+import { createServerSupabase } from "@/lib/supabase-server";
+import { faker } from "@faker-js/faker";
+
+jest.mock("next/server", () => ({
+  ...jest.requireActual("next/server"),
+  after: jest.fn(),
+}));
+
+jest.mock("@/lib/supabase-server", () => ({
+  createServerSupabase: jest.fn(),
+}));
+
+jest.mock("@/lib/supabase", () => ({
+  createAdminSupabase: jest.fn(),
+  createClientSupabase: jest.fn(),
+  createServerSupabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database", () => ({
+  ...jest.requireActual("@/lib/database"),
+  createPoll: jest.fn(),
+  processWebhookDeliveries: jest.fn(),
+}));
+
+describe("POST /api/polls", () => {
+  const userId = faker.string.uuid();
+
+  const postPoll = (body: string) =>
+    POST(
+      new NextRequest("http://localhost/api/polls", {
+        method: "POST",
+        body,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (createServerSupabase as jest.Mock).mockReturnValue({
+      auth: {
+        getUser: jest
+          .fn()
+          .mockResolvedValue({ data: { user: { id: userId } }, error: null }),
+      },
+    });
+    (createPoll as jest.Mock).mockResolvedValue({ id: faker.string.uuid() });
+  });
+
+  it("should pass ISO date strings on to createPoll as dates", async () => {
+    const opensAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    const response = await postPoll(
+      JSON.stringify({
+        title: "Favourite colour",
+        options: ["Red", " Blue "],
+        opens_at: opensAt.toISOString(),
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(createPoll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: ["Red", "Blue"],
+        opens_at: opensAt,
+      }),
+      userId,
+    );
+  });
+
+  it("should reject a poll that fails validation", async () => {
+    const response = await postPoll(
+      JSON.stringify({ title: "Favourite colour", options: ["Red"] }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "At least 2 poll options are required",
+    });
+    expect(createPoll).not.toHaveBeenCalled();
+  });
+
+  it("should reject a body that is not a JSON object", async () => {
+    for (const body of ["{", "null", "[]"]) {
+      const response = await postPoll(body);
+
+      expect(response.status).toBe(400);
+    }
+    expect(createPoll).not.toHaveBeenCalled();
+  });
+});
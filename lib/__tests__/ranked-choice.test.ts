@@ -0,0 +1,67 @@
+import { computeInstantRunoff } from "../ranked-choice";
+
+describe("Instant-Runoff Count", () => {
+  const options = ["a", "b", "c", "d"];
+
+  // --- computeInstantRunoff ---
+  describe("computeInstantRunoff", () => {
+    it("should elect an option with a first-round majority", () => {
+      const result = computeInstantRunoff(options, [
+        ["a", "b"],
+        ["a", "c"],
+        ["b", "a"],
+      ]);
+
+      expect(result.winner_id).toBe("a");
+      expect(result.rounds).toHaveLength(1);
+      expect(result.rounds[0].tallies).toEqual({ a: 2, b: 1, c: 0, d: 0 });
+      expect(result.total_ballots).toBe(3);
+    });
+
+    it("should eliminate the weakest options and transfer their ballots", () => {
+      const result = computeInstantRunoff(options, [
+        ["a", "b"],
+        ["a", "c"],
+        ["b", "a"],
+        ["b", "c"],
+        ["c", "b"],
+      ]);
+
+      expect(result.rounds).toHaveLength(3);
+      expect(result.rounds[0].eliminated).toEqual(["d"]);
+      expect(result.rounds[1].eliminated).toEqual(["c"]);
+      expect(result.rounds[2].tallies).toEqual({ a: 2, b: 3 });
+      expect(result.winner_id).toBe("b");
+    });
+
+    it("should count ballots with no remaining choices as exhausted", () => {
+      const result = computeInstantRunoff(["a", "b", "c"], [
+        ["a"],
+        ["a"],
+        ["b"],
+        ["b"],
+        ["c"],
+      ]);
+
+      expect(result.rounds[1].exhausted_ballots).toBe(1);
+      expect(result.rounds[1].tallies).toEqual({ a: 2, b: 2 });
+      expect(result.winner_id).toBeNull();
+    });
+
+    it("should ignore unknown and repeated options on a ballot", () => {
+      const result = computeInstantRunoff(["a", "b"], [
+        ["x", "a", "a", "b"],
+        ["x"],
+      ]);
+
+      expect(result.total_ballots).toBe(1);
+      expect(result.winner_id).toBe("a");
+    });
+
+    it("should return no rounds when there are no ballots", () => {
+      const result = computeInstantRunoff(options, []);
+
+      expect(result).toEqual({ rounds: [], winner_id: null, total_ballots: 0 });
+    });
+  });
+});
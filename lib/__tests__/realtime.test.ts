@@ -0,0 +1,105 @@
+import { applyResultDeltas } from "../realtime";
+import { PollResult } from "@/types/database";
+import { faker } from "@faker-js/faker";
+
+describe("Live Results Helpers", () => {
+  const mockOption1Id = faker.string.uuid();
+  const mockOption2Id = faker.string.uuid();
+
+  const mockResults: PollResult[] = [
+    {
+      option_id: mockOption1Id,
+      option_text: "Option A",
+      order_index: 0,
+      vote_count: 3,
+      raw_vote_count: 3,
+      imported_vote_count: 0,
+      percentage: 75,
+      average_score: null,
+      median_score: null,
+      score_distribution: null,
+    },
+    {
+      option_id: mockOption2Id,
+      option_text: "Option B",
+      order_index: 1,
+      vote_count: 1,
+      raw_vote_count: 1,
+      imported_vote_count: 0,
+      percentage: 25,
+      average_score: null,
+      median_score: null,
+      score_distribution: null,
+    },
+  ];
+
+  // --- applyResultDeltas ---
+  describe("applyResultDeltas", () => {
+    it("should add deltas and recompute percentages", () => {
+      const result = applyResultDeltas(mockResults, [
+        { option_id: mockOption2Id, delta: 1 },
+        { option_id: mockOption2Id, delta: 1 },
+      ]);
+
+      expect(result).toEqual([
+        expect.objectContaining({ vote_count: 3, percentage: 50 }),
+        expect.objectContaining({ vote_count: 3, percentage: 50 }),
+      ]);
+    });
+
+    it("should move the raw tally with the counted one", () => {
+      const held = mockResults.map((result) => ({
+        ...result,
+        raw_vote_count: Number(result.vote_count) + 2,
+      }));
+
+      const result = applyResultDeltas(held, [
+        { option_id: mockOption1Id, delta: 1 },
+      ]);
+
+      expect(result[0]).toEqual(
+        expect.objectContaining({ vote_count: 4, raw_vote_count: 6 }),
+      );
+      expect(result[1]).toEqual(
+        expect.objectContaining({ vote_count: 1, raw_vote_count: 3 }),
+      );
+    });
+
+    it("should round percentages to two decimals", () => {
+      const result = applyResultDeltas(mockResults, [
+        { option_id: mockOption2Id, delta: 1 },
+        { option_id: mockOption1Id, delta: 1 },
+        { option_id: mockOption2Id, delta: -1 },
+        { option_id: mockOption2Id, delta: 1 },
+      ]);
+
+      expect(result[0]).toEqual(
+        expect.objectContaining({ vote_count: 4, percentage: 66.67 }),
+      );
+      expect(result[1]).toEqual(
+        expect.objectContaining({ vote_count: 2, percentage: 33.33 }),
+      );
+    });
+
+    it("should ignore deltas for unknown options", () => {
+      const result = applyResultDeltas(mockResults, [
+        { option_id: faker.string.uuid(), delta: 5 },
+      ]);
+
+      expect(result).toEqual(mockResults);
+    });
+
+    it("should never drop a vote count below zero", () => {
+      const result = applyResultDeltas(mockResults, [
+        { option_id: mockOption2Id, delta: -3 },
+      ]);
+
+      expect(result[1]).toEqual(
+        expect.objectContaining({ vote_count: 0, percentage: 0 }),
+      );
+      expect(result[0]).toEqual(
+        expect.objectContaining({ vote_count: 3, percentage: 100 }),
+      );
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ */
+import { splitHighlights } from "../search";
+
+describe("splitHighlights", () => {
+  it("returns plain text as a single part", () => {
+    expect(splitHighlights("Best lunch spot")).toEqual([
+      { text: "Best lunch spot", highlighted: false },
+    ]);
+  });
+
+  it("splits out every highlighted match", () => {
+    expect(
+      splitHighlights("<mark>Lunch</mark> or <mark>dinner</mark>?"),
+    ).toEqual([
+      { text: "Lunch", highlighted: true },
+      { text: " or ", highlighted: false },
+      { text: "dinner", highlighted: true },
+      { text: "?", highlighted: false },
+    ]);
+  });
+
+  it("highlights the rest of the text after an unclosed marker", () => {
+    expect(splitHighlights("Best <mark>lunch spot")).toEqual([
+      { text: "Best ", highlighted: false },
+      { text: "lunch spot", highlighted: true },
+    ]);
+  });
+
+  it("leaves other markup as text", () => {
+    expect(splitHighlights("<b>Bold</b> <mark>move</mark>")).toEqual([
+      { text: "<b>Bold</b> ", highlighted: false },
+      { text: "move", highlighted: true },
+    ]);
+  });
+
+  it("returns no parts for empty text", () => {
+    expect(splitHighlights("")).toEqual([]);
+  });
+});
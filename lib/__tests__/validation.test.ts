@@ -0,0 +1,521 @@
+import {
+  validateCreateApiKeyForm,
+  validateCreatePollForm,
+  validateCreatePollCommentForm,
+  validateCreatePollInviteForm,
+  validateCreateWebhookForm,
+  validateEditPollCommentForm,
+  validateEditPollForm,
+  validateLoginForm,
+  validateRegisterForm,
+  validateVoteScores,
+  validateOptionSuggestion,
+  parseVoterAllowlist,
+  voterAllowlistSchema,
+  parsePollTags,
+  pollTagsSchema,
+  validateVoteForm,
+  validateBatchVoteForm,
+  validateBallotCsvImportForm,
+  MAX_BALLOT_CSV_LENGTH,
+  validateReviewQuarantinedVotesForm,
+  MAX_REVIEWED_VOTES,
+} from "../validation";
+import { faker } from "@faker-js/faker";
+
+describe("Validation Helpers", () => {
+  // --- validateVoteScores ---
+  describe("validateVoteScores", () => {
+    it("should ignore scores for unscored poll types", () => {
+      expect(validateVoteScores("choice", ["a", "b"])).toEqual({
+        isValid: true,
+      });
+      expect(validateVoteScores("approval", ["a"])).toEqual({ isValid: true });
+    });
+
+    it("should accept a complete ballot within the score range", () => {
+      expect(validateVoteScores("score", ["a", "b"], { a: 0, b: 10 })).toEqual({
+        isValid: true,
+      });
+      expect(validateVoteScores("rating", ["a", "b"], { a: 1, b: 5 })).toEqual({
+        isValid: true,
+      });
+    });
+
+    it("should reject a ballot with an unscored option", () => {
+      const result = validateVoteScores("score", ["a", "b"], { a: 4 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Every option must be scored");
+    });
+
+    it("should reject scores outside the range for the poll type", () => {
+      expect(validateVoteScores("rating", ["a"], { a: 0 }).isValid).toBe(false);
+      expect(validateVoteScores("rating", ["a"], { a: 6 }).isValid).toBe(false);
+      expect(validateVoteScores("score", ["a"], { a: 11 }).isValid).toBe(false);
+    });
+
+    it("should reject fractional scores", () => {
+      const result = validateVoteScores("score", ["a"], { a: 7.5 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Scores must be whole numbers");
+    });
+  });
+
+  // --- validateEditPollForm ---
+  describe("validateEditPollForm", () => {
+    const baseForm = {
+      title: "Favourite colour",
+      description: null,
+      is_public: true,
+      allow_multiple_votes: false,
+      allow_anonymous_votes: true,
+      poll_type: "choice",
+    };
+    const optionId = "7f1c3b7e-3c1a-4d3b-9b1e-2a4f5c6d7e8f";
+
+    it("should keep option ids and drop blank options", () => {
+      const result = validateEditPollForm({
+        ...baseForm,
+        options: [
+          { id: optionId, text: " Red " },
+          { text: "Blue" },
+          { text: "  " },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.cleanedData.options).toEqual([
+        { id: optionId, text: "Red" },
+        { text: "Blue" },
+      ]);
+      expect(result.cleanedData.confirm_vote_loss).toBe(false);
+    });
+
+    it("should allow an expiration date that has already passed", () => {
+      const result = validateEditPollForm({
+        ...baseForm,
+        options: [{ text: "Red" }, { text: "Blue" }],
+        expires_at: "2020-01-01T00:00:00.000Z",
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject an expiration date before the opening date", () => {
+      const result = validateEditPollForm({
+        ...baseForm,
+        options: [{ text: "Red" }, { text: "Blue" }],
+        opens_at: "2030-01-02T00:00:00.000Z",
+        expires_at: "2030-01-01T00:00:00.000Z",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.expires_at).toBe(
+        "Expiration date must be after the opening date",
+      );
+    });
+
+    it("should reject duplicate option texts", () => {
+      const result = validateEditPollForm({
+        ...baseForm,
+        options: [{ id: optionId, text: "Red" }, { text: "red" }],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.options).toBe("Poll options must be unique");
+    });
+  });
+
+  // --- validateCreatePollForm ---
+  describe("validateCreatePollForm", () => {
+    const baseForm = {
+      title: "Favourite colour",
+      options: ["Red", "Blue"],
+      is_public: true,
+      allow_multiple_votes: false,
+      allow_anonymous_votes: true,
+    };
+
+    it("should publish right away unless saved as a draft", () => {
+      expect(validateCreatePollForm(baseForm).cleanedData.is_draft).toBe(false);
+      expect(
+        validateCreatePollForm({ ...baseForm, is_draft: true }).cleanedData
+          .is_draft,
+      ).toBe(true);
+    });
+
+    it("should require a future opening date", () => {
+      const result = validateCreatePollForm({
+        ...baseForm,
+        opens_at: "2020-01-01T00:00:00.000Z",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.opens_at).toBe("Opening date must be in the future");
+    });
+  });
+
+  // --- validateLoginForm ---
+  describe("validateLoginForm", () => {
+    it("should trim the email and require a password", () => {
+      expect(
+        validateLoginForm({ email: " jane@example.com ", password: "x" })
+          .cleanedData,
+      ).toEqual({ email: "jane@example.com", password: "x" });
+      expect(validateLoginForm({ email: "jane@example.com" }).errors).toEqual({
+        password: "Password is required",
+      });
+    });
+  });
+
+  // --- validateRegisterForm ---
+  describe("validateRegisterForm", () => {
+    const form = {
+      email: "jane@example.com",
+      username: "jane_doe",
+      password: "Str0ng!Pass",
+      confirmPassword: "Str0ng!Pass",
+    };
+
+    it("should accept a complete registration", () => {
+      expect(validateRegisterForm(form).isValid).toBe(true);
+    });
+
+    it("should reject weak passwords and mismatched confirmation", () => {
+      const result = validateRegisterForm({
+        ...form,
+        password: "weak",
+        confirmPassword: "other",
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.password).toBe(
+        "Password must be at least 8 characters long",
+      );
+    });
+
+    it("should reject usernames with unsupported characters", () => {
+      expect(
+        validateRegisterForm({ ...form, username: "jane doe" }).errors.username,
+      ).toBe("Username can only contain letters, numbers, hyphens, and underscores");
+    });
+  });
+
+  // --- validateCreateApiKeyForm ---
+  describe("validateCreateApiKeyForm", () => {
+    it("should trim the name and drop repeated scopes", () => {
+      const result = validateCreateApiKeyForm({
+        name: " CI ",
+        scopes: ["polls:read", "polls:read", "votes:write"],
+      });
+
+      expect(result.cleanedData).toMatchObject({
+        name: "CI",
+        scopes: ["polls:read", "votes:write"],
+      });
+    });
+
+    it("should reject unknown scopes and keys without scopes", () => {
+      expect(
+        validateCreateApiKeyForm({ name: "CI", scopes: ["admin"] }).isValid,
+      ).toBe(false);
+      expect(
+        validateCreateApiKeyForm({ name: "CI", scopes: [] }).errors.scopes,
+      ).toBe("Choose at least one scope");
+    });
+  });
+
+  // --- validateCreateWebhookForm ---
+  describe("validateCreateWebhookForm", () => {
+    it("should trim the URL and drop repeated events", () => {
+      const result = validateCreateWebhookForm({
+        url: " https://hooks.example.com/polls ",
+        events: ["vote.cast", "vote.cast", "poll.expired"],
+      });
+
+      expect(result.cleanedData).toMatchObject({
+        url: "https://hooks.example.com/polls",
+        events: ["vote.cast", "poll.expired"],
+      });
+    });
+
+    it("should reject private endpoints and unknown events", () => {
+      expect(
+        validateCreateWebhookForm({
+          url: "http://169.254.169.254/latest",
+          events: ["vote.cast"],
+        }).errors.url,
+      ).toBe("URL must be a public http or https address");
+      expect(
+        validateCreateWebhookForm({
+          url: "https://hooks.example.com",
+          events: ["poll.deleted"],
+        }).isValid,
+      ).toBe(false);
+    });
+
+    it("should require a threshold for threshold events", () => {
+      expect(
+        validateCreateWebhookForm({
+          url: "https://hooks.example.com",
+          events: ["poll.vote_threshold"],
+        }).errors.vote_threshold,
+      ).toBe("Set a vote threshold to receive threshold events");
+      expect(
+        validateCreateWebhookForm({
+          url: "https://hooks.example.com",
+          events: ["poll.vote_threshold"],
+          vote_threshold: 100,
+        }).isValid,
+      ).toBe(true);
+    });
+  });
+
+  // --- validateCreatePollInviteForm ---
+  describe("validateCreatePollInviteForm", () => {
+    it("should accept an invite without limits", () => {
+      expect(validateCreatePollInviteForm({}).isValid).toBe(true);
+    });
+
+    it("should require a future expiration and a sensible use limit", () => {
+      expect(
+        validateCreatePollInviteForm({ expires_at: "2020-01-01T00:00:00.000Z" })
+          .errors.expires_at,
+      ).toBe("Expiration date must be in the future");
+      expect(validateCreatePollInviteForm({ max_uses: 0 }).errors.max_uses).toBe(
+        "Use limit must be at least 1",
+      );
+      expect(validateCreatePollInviteForm({ max_uses: 2.5 }).isValid).toBe(false);
+    });
+  });
+
+  // --- voterAllowlistSchema ---
+  describe("voterAllowlistSchema", () => {
+    it("should normalise and dedupe emails and domains", () => {
+      expect(
+        voterAllowlistSchema.parse(
+          parseVoterAllowlist("Alice@Example.com, @OurCompany.com\nalice@example.com"),
+        ),
+      ).toEqual(["alice@example.com", "@ourcompany.com"]);
+    });
+
+    it("should reject entries that are not emails or domains", () => {
+      expect(voterAllowlistSchema.safeParse(["ourcompany.com"]).success).toBe(false);
+      expect(voterAllowlistSchema.safeParse(["@localhost"]).success).toBe(false);
+    });
+  });
+
+  // --- validateOptionSuggestion ---
+  describe("validateOptionSuggestion", () => {
+    it("should accept a new option on a poll with room", () => {
+      expect(validateOptionSuggestion(["Pizza", "Sushi"], "Tacos")).toEqual({
+        isValid: true,
+      });
+    });
+
+    it("should reject options already on the poll, ignoring case", () => {
+      expect(validateOptionSuggestion(["Pizza", "Sushi"], " pizza ").error).toBe(
+        "This option is already on the poll",
+      );
+    });
+
+    it("should reject suggestions for a full poll", () => {
+      const options = Array.from({ length: 10 }, (_, i) => `Option ${i + 1}`);
+      expect(validateOptionSuggestion(options, "Option 11").error).toBe(
+        "Maximum 10 poll options allowed",
+      );
+    });
+  });
+
+  // --- validateCreatePollCommentForm / validateEditPollCommentForm ---
+  describe("poll comment forms", () => {
+    it("should trim comments and default to hiding the vote", () => {
+      expect(validateCreatePollCommentForm({ body: "  Nice poll  " }).cleanedData).toEqual({
+        body: "Nice poll",
+        show_vote: false,
+      });
+    });
+
+    it("should reject blank and overlong comments", () => {
+      expect(validateCreatePollCommentForm({ body: "   " }).errors.body).toBe(
+        "Comment cannot be empty",
+      );
+      expect(validateCreatePollCommentForm({ body: "a".repeat(2001) }).isValid).toBe(false);
+      expect(
+        validateCreatePollCommentForm({ body: "Reply", parent_id: "not-a-uuid" }).isValid,
+      ).toBe(false);
+    });
+
+    it("should require something to change when editing", () => {
+      expect(validateEditPollCommentForm({}).isValid).toBe(false);
+      expect(validateEditPollCommentForm({ show_vote: true }).isValid).toBe(true);
+    });
+  });
+
+  // --- pollTagsSchema ---
+  describe("pollTagsSchema", () => {
+    it("should normalise and dedupe tags", () => {
+      expect(
+        pollTagsSchema.parse(parsePollTags("Local News, #sports,, local_news ")),
+      ).toEqual(["local-news", "sports"]);
+    });
+
+    it("should reject invalid tags and more than 5 tags", () => {
+      expect(pollTagsSchema.safeParse(["c++"]).success).toBe(false);
+      expect(pollTagsSchema.safeParse(["a".repeat(31)]).success).toBe(false);
+      expect(
+        pollTagsSchema.safeParse(["a", "b", "c", "d", "e", "f"]).success,
+      ).toBe(false);
+    });
+
+    it("should count tags after removing duplicates", () => {
+      expect(
+        pollTagsSchema.safeParse(["a", "b", "c", "d", "e", "A"]).success,
+      ).toBe(true);
+    });
+  });
+
+  // --- validateVoteForm ---
+  describe("validateVoteForm", () => {
+    const pollId = faker.string.uuid();
+    const optionId = faker.string.uuid();
+
+    it("should accept a vote with scores", () => {
+      const vote = {
+        poll_id: pollId,
+        option_ids: [optionId],
+        scores: { [optionId]: 4 },
+      };
+
+      expect(validateVoteForm(vote).cleanedData).toEqual(vote);
+    });
+
+    it("should reject malformed bodies", () => {
+      expect(validateVoteForm(null).errors.poll_id).toBe("Poll id is required");
+      expect(
+        validateVoteForm({ poll_id: pollId, option_ids: optionId }).errors
+          .option_ids,
+      ).toBe("Expected array, received string");
+      expect(
+        validateVoteForm({ poll_id: pollId, option_ids: [] }).errors.option_ids,
+      ).toBe("Choose at least one option");
+      expect(
+        validateVoteForm({
+          poll_id: pollId,
+          option_ids: [optionId],
+          scores: { [optionId]: "5" },
+        }).isValid,
+      ).toBe(false);
+    });
+  });
+
+  // --- validateBatchVoteForm ---
+  describe("validateBatchVoteForm", () => {
+    const pollId = faker.string.uuid();
+    const optionId = faker.string.uuid();
+
+    it("should trim ballot ids", () => {
+      const result = validateBatchVoteForm({
+        pollId,
+        votes: [{ ballotId: " 0042 ", optionIds: [optionId] }],
+      });
+
+      expect(result.cleanedData).toEqual({
+        pollId,
+        votes: [{ ballotId: "0042", optionIds: [optionId] }],
+      });
+    });
+
+    it("should report invalid ballots by row", () => {
+      const result = validateBatchVoteForm({
+        pollId,
+        votes: [
+          { ballotId: "1", optionIds: [optionId] },
+          { ballotId: "2", optionIds: ["not-an-option"] },
+        ],
+      });
+
+      expect(result.errors["votes.1.optionIds.0"]).toBe("Invalid option id");
+    });
+
+    it("should reject empty imports and ballots without an id", () => {
+      expect(validateBatchVoteForm({ pollId, votes: [] }).errors.votes).toBe(
+        "Add at least one ballot",
+      );
+      expect(
+        validateBatchVoteForm({
+          pollId,
+          votes: [{ optionIds: [optionId], userId: faker.string.uuid() }],
+        }).errors["votes.0.ballotId"],
+      ).toBe("Ballot id is required");
+    });
+  });
+
+  // --- validateBallotCsvImportForm ---
+  describe("validateBallotCsvImportForm", () => {
+    it("should accept a CSV to preview or commit", () => {
+      expect(
+        validateBallotCsvImportForm({ csv: "ballot_id,choice\n1,Pizza\n" })
+          .cleanedData,
+      ).toEqual({ csv: "ballot_id,choice\n1,Pizza" });
+      expect(
+        validateBallotCsvImportForm({ csv: "choice\nPizza", commit: true })
+          .cleanedData?.commit,
+      ).toBe(true);
+    });
+
+    it("should reject empty and oversized CSVs", () => {
+      expect(validateBallotCsvImportForm({ csv: "  " }).errors.csv).toBe(
+        "Add a CSV of ballots",
+      );
+      expect(
+        validateBallotCsvImportForm({
+          csv: "x".repeat(MAX_BALLOT_CSV_LENGTH + 1),
+        }).errors.csv,
+      ).toBe("The CSV is too large to import at once");
+    });
+  });
+
+  // --- validateReviewQuarantinedVotesForm ---
+  describe("validateReviewQuarantinedVotesForm", () => {
+    const voteId = faker.string.uuid();
+
+    it("should accept held votes to accept or reject", () => {
+      expect(
+        validateReviewQuarantinedVotesForm({
+          vote_ids: [voteId],
+          status: "rejected",
+        }).cleanedData,
+      ).toEqual({ vote_ids: [voteId], status: "rejected" });
+    });
+
+    it("should reject unknown statuses and bad vote lists", () => {
+      expect(
+        validateReviewQuarantinedVotesForm({
+          vote_ids: [voteId],
+          status: "quarantined",
+        }).errors.status,
+      ).toBe("Status must be accepted or rejected");
+      expect(
+        validateReviewQuarantinedVotesForm({ vote_ids: [], status: "accepted" })
+          .errors.vote_ids,
+      ).toBe("Choose votes to review");
+      expect(
+        validateReviewQuarantinedVotesForm({
+          vote_ids: ["not-a-uuid"],
+          status: "accepted",
+        }).isValid,
+      ).toBe(false);
+      expect(
+        validateReviewQuarantinedVotesForm({
+          vote_ids: Array.from({ length: MAX_REVIEWED_VOTES + 1 }, () =>
+            faker.string.uuid(),
+          ),
+          status: "accepted",
+        }).errors.vote_ids,
+      ).toBe(`At most ${MAX_REVIEWED_VOTES} votes can be reviewed at once`);
+    });
+  });
+});
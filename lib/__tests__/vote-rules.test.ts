@@ -0,0 +1,254 @@
+import {
+  VOTE_DUPLICATE_CODE,
+  VOTE_INVALID_CODE,
+  VOTE_LOGIN_REQUIRED_CODE,
+  VotingPoll,
+  canCastVote,
+  checkVote,
+  getPollStatus,
+} from "../vote-rules";
+import { faker } from "@faker-js/faker";
+
+describe("Vote Rules", () => {
+  const userId = faker.string.uuid();
+  const fingerprint = faker.string.alphanumeric(16);
+  const option1Id = faker.string.uuid();
+  const option2Id = faker.string.uuid();
+
+  const makePoll = (overrides: Partial<VotingPoll> = {}): VotingPoll => ({
+    id: faker.string.uuid(),
+    status: "active",
+    opens_at: null,
+    expires_at: null,
+    allow_multiple_votes: false,
+    allow_anonymous_votes: true,
+    poll_type: "choice",
+    anonymous_dedupe: "device",
+    ...overrides,
+  });
+
+  // --- getPollStatus ---
+  describe("getPollStatus", () => {
+    const now = new Date("2026-03-01T12:00:00.000Z");
+    const before = "2026-03-01T11:00:00.000Z";
+    const after = "2026-03-01T13:00:00.000Z";
+
+    it("should follow the opening and expiration dates", () => {
+      expect(
+        getPollStatus(
+          { status: "active", opens_at: null, expires_at: null },
+          now,
+        ),
+      ).toBe("active");
+      expect(
+        getPollStatus(
+          { status: "active", opens_at: after, expires_at: null },
+          now,
+        ),
+      ).toBe("scheduled");
+      expect(
+        getPollStatus(
+          { status: "active", opens_at: before, expires_at: after },
+          now,
+        ),
+      ).toBe("active");
+      expect(
+        getPollStatus(
+          { status: "active", opens_at: null, expires_at: before },
+          now,
+        ),
+      ).toBe("closed");
+    });
+
+    it("should not trust a stored status that has fallen behind the dates", () => {
+      expect(
+        getPollStatus(
+          { status: "scheduled", opens_at: before, expires_at: null },
+          now,
+        ),
+      ).toBe("active");
+      expect(
+        getPollStatus(
+          { status: "active", opens_at: null, expires_at: now.toISOString() },
+          now,
+        ),
+      ).toBe("closed");
+    });
+
+    it("should keep drafts as drafts", () => {
+      expect(
+        getPollStatus(
+          { status: "draft", opens_at: before, expires_at: after },
+          now,
+        ),
+      ).toBe("draft");
+    });
+  });
+
+  // --- checkVote ---
+  describe("checkVote", () => {
+    const vote = { option_ids: [option1Id] };
+
+    it("should allow a first vote on an active poll", () => {
+      expect(checkVote(makePoll(), vote, { userId })).toEqual({
+        allowed: true,
+      });
+      expect(checkVote(makePoll(), vote, { fingerprint })).toEqual({
+        allowed: true,
+      });
+    });
+
+    it.each([
+      [{ status: "draft" as const }, "Poll is not published"],
+      [
+        { opens_at: new Date(Date.now() + 60_000).toISOString() },
+        "Poll has not opened yet",
+      ],
+      [
+        { expires_at: new Date(Date.now() - 1000).toISOString() },
+        "Poll has expired",
+      ],
+    ])(
+      "should turn down votes on polls that are not active (%o)",
+      (overrides, error) => {
+        expect(checkVote(makePoll(overrides), vote, { userId })).toEqual({
+          allowed: false,
+          error,
+          code: VOTE_INVALID_CODE,
+        });
+      },
+    );
+
+    it("should require a login on polls without anonymous votes", () => {
+      const poll = makePoll({ allow_anonymous_votes: false });
+
+      expect(checkVote(poll, vote, { fingerprint })).toMatchObject({
+        allowed: false,
+        code: VOTE_LOGIN_REQUIRED_CODE,
+      });
+      expect(checkVote(poll, vote, { userId })).toEqual({ allowed: true });
+    });
+
+    it("should require guests to have a voter id", () => {
+      expect(checkVote(makePoll(), vote, {})).toEqual({
+        allowed: false,
+        error: "Anonymous votes need a voter cookie",
+        code: VOTE_INVALID_CODE,
+      });
+    });
+
+    it("should turn down empty votes and repeated options", () => {
+      expect(
+        checkVote(makePoll(), { option_ids: [] }, { userId }),
+      ).toMatchObject({
+        allowed: false,
+        error: "Choose at least one option",
+      });
+      expect(
+        checkVote(
+          makePoll({ poll_type: "ranked" }),
+          { option_ids: [option1Id, option1Id] },
+          { userId },
+        ),
+      ).toMatchObject({
+        allowed: false,
+        error: "Each option can only appear once on a ballot",
+      });
+    });
+
+    it("should take a single choice on single-vote choice polls", () => {
+      expect(
+        checkVote(
+          makePoll(),
+          { option_ids: [option1Id, option2Id] },
+          { userId },
+        ),
+      ).toMatchObject({
+        allowed: false,
+        error: "This poll takes one choice per voter",
+      });
+      expect(
+        checkVote(
+          makePoll({ allow_multiple_votes: true }),
+          { option_ids: [option1Id, option2Id] },
+          { userId },
+        ),
+      ).toEqual({ allowed: true });
+    });
+
+    it("should validate the scores of score ballots", () => {
+      expect(
+        checkVote(
+          makePoll({ poll_type: "rating" }),
+          { option_ids: [option1Id], scores: { [option1Id]: 6 } },
+          { userId },
+        ),
+      ).toEqual({
+        allowed: false,
+        error: "Scores must be between 1 and 5",
+        code: VOTE_INVALID_CODE,
+      });
+    });
+
+    it("should take one ballot per voter, even on multi-vote polls", () => {
+      const poll = makePoll({
+        poll_type: "approval",
+        allow_multiple_votes: true,
+      });
+
+      expect(checkVote(poll, vote, { userId }, [option2Id])).toEqual({
+        allowed: false,
+        error: "You have already submitted a ballot for this poll",
+        code: VOTE_DUPLICATE_CODE,
+      });
+    });
+
+    it("should turn down a second vote on single-vote polls", () => {
+      expect(checkVote(makePoll(), vote, { fingerprint }, [option2Id])).toEqual(
+        {
+          allowed: false,
+          error: "You have already voted on this poll",
+          code: VOTE_DUPLICATE_CODE,
+        },
+      );
+    });
+
+    it("should take new options on multi-vote polls, but each only once", () => {
+      const poll = makePoll({ allow_multiple_votes: true });
+
+      expect(checkVote(poll, vote, { userId }, [option2Id])).toEqual({
+        allowed: true,
+      });
+      expect(checkVote(poll, vote, { userId }, [option1Id])).toMatchObject({
+        allowed: false,
+        error: "You have already voted for this option",
+      });
+    });
+  });
+
+  // --- canCastVote ---
+  describe("canCastVote", () => {
+    it("should follow the same rules as checkVote", () => {
+      const poll = makePoll();
+
+      expect(canCastVote(poll, false)).toBe(true);
+      expect(canCastVote(poll, true, [option1Id])).toBe(false);
+      expect(
+        canCastVote(makePoll({ allow_anonymous_votes: false }), false),
+      ).toBe(false);
+      expect(canCastVote(makePoll({ status: "draft" }), true)).toBe(false);
+      expect(
+        canCastVote(makePoll({ allow_multiple_votes: true }), true, [
+          option1Id,
+        ]),
+      ).toBe(true);
+      expect(
+        canCastVote(
+          makePoll({ allow_multiple_votes: true, poll_type: "ranked" }),
+          true,
+          [option1Id],
+        ),
+      ).toBe(false);
+    });
+  });
+});
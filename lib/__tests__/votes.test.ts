@@ -0,0 +1,730 @@
+/**
+ * @jest-environment node
+ */
+import {
+  IMPORTED_BALLOT_PREFIX,
+  castSuggestionVote,
+  castVote,
+  claimVoteImport,
+  importVotes,
+  voteErrorStatus,
+} from "../votes";
+import {
+  POLL_NOT_FOUND_CODE,
+  VOTE_DUPLICATE_CODE,
+  VOTE_IMPORT_FORBIDDEN_CODE,
+  VOTE_INVALID_CODE,
+  VOTE_LOGIN_REQUIRED_CODE,
+  VotingPoll,
+} from "../vote-rules";
+import { DatabaseError, VOTER_NOT_ALLOWED_CODE } from "../database";
+import { createAdminSupabase, createServerSupabase } from "@/lib/supabase";
+import { ImportedBallot, VoteForm, VoteFraudSignals } from "@/types/database";
+import { faker } from "@faker-js/faker";
+
+jest.mock("@/lib/supabase", () => ({
+  createAdminSupabase: jest.fn(),
+  createClientSupabase: jest.fn(),
+  createServerSupabase: jest.fn(),
+}));
+
+// A query builder that resolves to result once awaited, whatever is chained
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: any = {
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  for (const method of [
+    "select",
+    "eq",
+    "is",
+    "in",
+    "maybeSingle",
+    "single",
+    "insert",
+    "update",
+    "delete",
+  ]) {
+    query[method] = jest.fn(() => query);
+  }
+  return query;
+};
+
+describe("Vote Service", () => {
+  const userId = faker.string.uuid();
+  const fingerprint = faker.string.alphanumeric(16);
+  const option1Id = faker.string.uuid();
+  const option2Id = faker.string.uuid();
+
+  const makePoll = (overrides: Partial<VotingPoll> = {}): VotingPoll => ({
+    id: faker.string.uuid(),
+    status: "active",
+    opens_at: null,
+    expires_at: null,
+    allow_multiple_votes: false,
+    allow_anonymous_votes: true,
+    poll_type: "choice",
+    anonymous_dedupe: "device",
+    ...overrides,
+  });
+
+  // --- voteErrorStatus ---
+  describe("voteErrorStatus", () => {
+    it("should map vote error codes to HTTP statuses", () => {
+      expect(voteErrorStatus(new DatabaseError("", POLL_NOT_FOUND_CODE))).toBe(
+        404,
+      );
+      expect(voteErrorStatus(new DatabaseError("", VOTE_INVALID_CODE))).toBe(
+        400,
+      );
+      expect(
+        voteErrorStatus(new DatabaseError("", VOTE_LOGIN_REQUIRED_CODE)),
+      ).toBe(401);
+      expect(
+        voteErrorStatus(new DatabaseError("", VOTER_NOT_ALLOWED_CODE)),
+      ).toBe(403);
+      expect(voteErrorStatus(new DatabaseError("", VOTE_DUPLICATE_CODE))).toBe(
+        409,
+      );
+      expect(voteErrorStatus(new DatabaseError("", "PGRST301"))).toBe(500);
+      expect(voteErrorStatus(new Error("boom"))).toBe(500);
+    });
+  });
+
+  // --- castVote ---
+  describe("castVote", () => {
+    const poll = makePoll({ poll_type: "ranked" });
+    // The poll row castVote reads, with the poll's options embedded
+    const pollRow = {
+      ...poll,
+      options: [{ id: option1Id }, { id: option2Id }],
+    };
+    const voteForm: VoteForm = {
+      poll_id: poll.id,
+      option_ids: [option2Id, option1Id],
+    };
+    const ipAddress = faker.internet.ipv4();
+    const userAgent = faker.internet.userAgent();
+    const guest = { fingerprint, ipAddress, userAgent };
+
+    let pollQuery: any;
+    let previousVotesQuery: any;
+    let guestVoteQueries: any[];
+    let insertQuery: any;
+    let allowed: boolean;
+    let signals: VoteFraudSignals;
+    let supabase: any;
+    let admin: any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      allowed = true;
+      pollQuery = mockQuery({ data: pollRow, error: null });
+      previousVotesQuery = mockQuery({ data: [], error: null });
+      guestVoteQueries = [];
+      insertQuery = mockQuery({
+        data: [{ id: faker.string.uuid() }],
+        error: null,
+      });
+      signals = {
+        ip_ballots: 0,
+        subnet_ballots: 0,
+        agent_ballots: 0,
+        ip_voter_ids: 0,
+        seconds_since_view: 60,
+        view_expected: true,
+      };
+
+      supabase = {
+        from: jest.fn((table: string) => {
+          if (table === "polls") return pollQuery;
+          return previousVotesQuery;
+        }),
+      };
+      // Each earlier-vote lookup for a guest gets its own query; the allowlist
+      // is checked and votes are written with the service role
+      admin = {
+        from: jest.fn(() => ({
+          select: (...args: unknown[]) => {
+            const query = mockQuery({ data: [], error: null });
+            guestVoteQueries.push(query);
+            return query.select(...args);
+          },
+          insert: (...args: unknown[]) => insertQuery.insert(...args),
+        })),
+        rpc: jest.fn((fn: string) =>
+          Promise.resolve({
+            data: fn === "is_allowed_voter" ? allowed : [signals],
+            error: null,
+          }),
+        ),
+      };
+      (createServerSupabase as jest.Mock).mockReturnValue(supabase);
+      (createAdminSupabase as jest.Mock).mockReturnValue(admin);
+    });
+
+    it("should insert a guest's ranked ballot in order with the service role", async () => {
+      const votes = await castVote(voteForm, guest);
+
+      // The poll is read as the voter, since the insert skips RLS
+      expect(pollQuery.eq).toHaveBeenCalledWith("id", poll.id);
+      expect(guestVoteQueries[0].eq).toHaveBeenCalledWith(
+        "voter_fingerprint",
+        fingerprint,
+      );
+      expect(admin.rpc).toHaveBeenCalledWith("is_allowed_voter", {
+        poll_uuid: poll.id,
+        voter_uuid: null,
+      });
+      expect(insertQuery.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          option_id: option2Id,
+          rank: 1,
+          user_id: null,
+          voter_fingerprint: fingerprint,
+          ip_address: ipAddress,
+          user_agent: userAgent,
+          source: "online",
+          fraud_score: 0,
+          fraud_reasons: [],
+          review_status: null,
+        }),
+        expect.objectContaining({ option_id: option1Id, rank: 2 }),
+      ]);
+      expect(votes).toHaveLength(1);
+    });
+
+    it("should identify signed-in voters by id", async () => {
+      await castVote(voteForm, { userId, fingerprint, ipAddress });
+
+      expect(previousVotesQuery.eq).toHaveBeenCalledWith("user_id", userId);
+      expect(guestVoteQueries).toHaveLength(0);
+      expect(insertQuery.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: userId,
+          voter_fingerprint: null,
+          ip_address: ipAddress,
+        }),
+        expect.objectContaining({ user_id: userId, voter_fingerprint: null }),
+      ]);
+    });
+
+    it.each([
+      [
+        "device",
+        [
+          ["ip_address", ipAddress],
+          ["user_agent", userAgent],
+        ],
+      ],
+      ["network", [["ip_address", ipAddress]]],
+    ] as const)(
+      "should count guest votes from the same address on %s polls",
+      async (anonymous_dedupe, filters) => {
+        pollQuery = mockQuery({
+          data: { ...pollRow, anonymous_dedupe },
+          error: null,
+        });
+        admin.from = jest.fn(() => ({
+          select: (...args: unknown[]) => {
+            const query = mockQuery({
+              data:
+                guestVoteQueries.length === 0 ? [] : [{ option_id: option1Id }],
+              error: null,
+            });
+            guestVoteQueries.push(query);
+            return query.select(...args);
+          },
+        }));
+
+        await expect(castVote(voteForm, guest)).rejects.toMatchObject({
+          message: "You have already submitted a ballot for this poll",
+          code: VOTE_DUPLICATE_CODE,
+        });
+
+        const sameAddressQuery = guestVoteQueries[1];
+        expect(sameAddressQuery.is).toHaveBeenCalledWith("user_id", null);
+        expect(sameAddressQuery.eq).toHaveBeenCalledWith("source", "online");
+        for (const [column, value] of filters) {
+          expect(sameAddressQuery.eq).toHaveBeenCalledWith(column, value);
+        }
+        if (anonymous_dedupe === "network") {
+          expect(sameAddressQuery.eq).not.toHaveBeenCalledWith(
+            "user_agent",
+            userAgent,
+          );
+        }
+      },
+    );
+
+    it("should only check the voter cookie on cookie polls or without an address", async () => {
+      pollQuery = mockQuery({
+        data: { ...pollRow, anonymous_dedupe: "cookie" },
+        error: null,
+      });
+      await castVote(voteForm, guest);
+
+      pollQuery = mockQuery({ data: pollRow, error: null });
+      await castVote(voteForm, { fingerprint, ipAddress: null, userAgent });
+
+      expect(guestVoteQueries).toHaveLength(2);
+      expect(insertQuery.insert).toHaveBeenCalledTimes(2);
+    });
+
+    it("should score votes with the voter's signals and quarantine suspicious ones", async () => {
+      signals = { ...signals, ip_ballots: 4, seconds_since_view: 1 };
+      const viewerFingerprint = faker.string.alphanumeric(16);
+
+      await castVote(voteForm, { ...guest, viewerFingerprint });
+
+      expect(admin.rpc).toHaveBeenCalledWith("get_vote_fraud_signals", {
+        poll_uuid: poll.id,
+        voter_uuid: null,
+        voter_key: fingerprint,
+        voter_ip: ipAddress,
+        voter_agent: userAgent,
+        viewer_key: viewerFingerprint,
+      });
+      expect(insertQuery.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          fraud_score: 75,
+          fraud_reasons: ["ip_burst", "fast_vote"],
+          review_status: "quarantined",
+        }),
+        expect.objectContaining({ review_status: "quarantined" }),
+      ]);
+    });
+
+    it("should not quarantine signed-in voters for sharing an address", async () => {
+      signals = { ...signals, ip_ballots: 4, agent_ballots: 12 };
+
+      await castVote(voteForm, { userId, ipAddress, userAgent });
+
+      expect(admin.rpc).toHaveBeenCalledWith(
+        "get_vote_fraud_signals",
+        expect.objectContaining({ voter_uuid: userId, voter_key: null }),
+      );
+      expect(insertQuery.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          fraud_score: 0,
+          fraud_reasons: [],
+          review_status: null,
+        }),
+        expect.objectContaining({ review_status: null }),
+      ]);
+    });
+
+    it("should throw a DatabaseError if the signals cannot be read", async () => {
+      admin.rpc = jest.fn((fn: string) =>
+        Promise.resolve(
+          fn === "is_allowed_voter"
+            ? { data: true, error: null }
+            : { data: null, error: { message: "boom", code: "XX000" } },
+        ),
+      );
+
+      await expect(castVote(voteForm, guest)).rejects.toThrow(
+        "Failed to check vote: boom",
+      );
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should not let guests pass their votes off as imported ballots", async () => {
+      await expect(
+        castVote(voteForm, {
+          fingerprint: `${IMPORTED_BALLOT_PREFIX}0042`,
+        }),
+      ).rejects.toMatchObject({ code: VOTE_INVALID_CODE });
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should turn down options from another poll", async () => {
+      await expect(
+        castVote(
+          { ...voteForm, option_ids: [option1Id, faker.string.uuid()] },
+          guest,
+        ),
+      ).rejects.toMatchObject({
+        message: "Vote has options that are not in this poll",
+        code: VOTE_INVALID_CODE,
+      });
+      expect(pollQuery.select).toHaveBeenCalledWith(
+        expect.stringContaining("options:poll_options(id)"),
+      );
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should report polls the guest cannot see as not found", async () => {
+      pollQuery = mockQuery({ data: null, error: null });
+
+      await expect(castVote(voteForm, guest)).rejects.toMatchObject({
+        message: "Poll not found",
+        code: POLL_NOT_FOUND_CODE,
+      });
+    });
+
+    it("should not write votes the rules turn down", async () => {
+      previousVotesQuery = mockQuery({
+        data: [{ option_id: option1Id }],
+        error: null,
+      });
+
+      await expect(castVote(voteForm, { userId })).rejects.toMatchObject({
+        message: "You have already submitted a ballot for this poll",
+        code: VOTE_DUPLICATE_CODE,
+      });
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should turn down voters outside the poll's allowlist", async () => {
+      allowed = false;
+
+      await expect(castVote(voteForm, { userId })).rejects.toMatchObject({
+        code: VOTER_NOT_ALLOWED_CODE,
+      });
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should throw a DatabaseError if the insert fails", async () => {
+      insertQuery = mockQuery({
+        data: null,
+        error: { message: "Poll has expired", code: "P0001" },
+      });
+
+      await expect(castVote(voteForm, guest)).rejects.toThrow(DatabaseError);
+      await expect(castVote(voteForm, guest)).rejects.toThrow(
+        "Failed to cast vote: Poll has expired",
+      );
+    });
+  });
+
+  // --- castSuggestionVote ---
+  describe("castSuggestionVote", () => {
+    const suggestion = {
+      poll_id: faker.string.uuid(),
+      option_id: option1Id,
+      suggested_by: userId,
+      auto_vote: true,
+      status: "approved" as const,
+    };
+
+    let pollQuery: any;
+    let insertQuery: any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      pollQuery = mockQuery({
+        data: {
+          ...makePoll({ id: suggestion.poll_id }),
+          options: [{ id: option1Id }],
+        },
+        error: null,
+      });
+      insertQuery = mockQuery({
+        data: [{ id: faker.string.uuid() }],
+        error: null,
+      });
+
+      (createServerSupabase as jest.Mock).mockReturnValue({
+        from: jest.fn((table: string) =>
+          table === "polls" ? pollQuery : mockQuery({ data: [], error: null }),
+        ),
+      });
+      (createAdminSupabase as jest.Mock).mockReturnValue({
+        from: jest.fn(() => insertQuery),
+        rpc: jest.fn((fn: string) =>
+          Promise.resolve({
+            data:
+              fn === "is_allowed_voter"
+                ? true
+                : [
+                    {
+                      ip_ballots: 0,
+                      subnet_ballots: 0,
+                      agent_ballots: 0,
+                      ip_voter_ids: 0,
+                      seconds_since_view: 60,
+                      view_expected: true,
+                    },
+                  ],
+            error: null,
+          }),
+        ),
+      });
+    });
+
+    it("should cast the suggester's vote through the vote service", async () => {
+      const votes = await castSuggestionVote(suggestion);
+
+      expect(insertQuery.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          poll_id: suggestion.poll_id,
+          option_id: option1Id,
+          user_id: userId,
+          source: "online",
+          review_status: null,
+        }),
+      ]);
+      expect(votes).toHaveLength(1);
+    });
+
+    it("should only vote on choice polls", async () => {
+      pollQuery = mockQuery({
+        data: makePoll({ id: suggestion.poll_id, poll_type: "approval" }),
+        error: null,
+      });
+
+      await expect(castSuggestionVote(suggestion)).resolves.toEqual([]);
+      expect(insertQuery.insert).not.toHaveBeenCalled();
+    });
+
+    it("should not vote unless the suggester asked to", async () => {
+      await expect(
+        castSuggestionVote({ ...suggestion, auto_vote: false }),
+      ).resolves.toEqual([]);
+      expect(createServerSupabase).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- importVotes ---
+  describe("importVotes", () => {
+    const poll = {
+      ...makePoll({ allow_multiple_votes: true }),
+      creator_id: userId,
+      options: [{ id: option1Id }, { id: option2Id }],
+    };
+
+    let pollQuery: any;
+    let previousVotesQuery: any;
+    let insert: jest.Mock;
+    let allowed: boolean;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      allowed = true;
+      pollQuery = mockQuery({ data: poll, error: null });
+      previousVotesQuery = mockQuery({ data: [], error: null });
+      insert = jest.fn(() => Promise.resolve({ error: null }));
+
+      (createServerSupabase as jest.Mock).mockReturnValue({
+        from: jest.fn((table: string) =>
+          table === "polls"
+            ? pollQuery
+            : {
+                select: (...args: unknown[]) =>
+                  previousVotesQuery.select(...args),
+                insert,
+              },
+        ),
+      });
+      (createAdminSupabase as jest.Mock).mockReturnValue({
+        rpc: jest.fn(() => Promise.resolve({ data: allowed, error: null })),
+      });
+    });
+
+    const ballot = (
+      ballotId: string,
+      optionIds = [option1Id],
+    ): ImportedBallot => ({ ballotId, optionIds });
+
+    it("should import ballots as guests identified by ballot id", async () => {
+      const result = await importVotes(poll.id, userId, [
+        ballot("1"),
+        ballot("2", [option2Id]),
+      ]);
+
+      expect(result).toEqual({ processed: 2, failed: 0, failures: [] });
+      expect(previousVotesQuery.in).toHaveBeenCalledWith("voter_fingerprint", [
+        `${IMPORTED_BALLOT_PREFIX}1`,
+        `${IMPORTED_BALLOT_PREFIX}2`,
+      ]);
+      expect(insert).toHaveBeenCalledTimes(1);
+      expect(insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          option_id: option1Id,
+          user_id: null,
+          voter_fingerprint: `${IMPORTED_BALLOT_PREFIX}1`,
+          source: "import",
+        }),
+        expect.objectContaining({
+          option_id: option2Id,
+          voter_fingerprint: `${IMPORTED_BALLOT_PREFIX}2`,
+        }),
+      ]);
+    });
+
+    it("should report failing ballots by row and import the rest", async () => {
+      previousVotesQuery = mockQuery({
+        data: [
+          {
+            voter_fingerprint: `${IMPORTED_BALLOT_PREFIX}3`,
+            option_id: option1Id,
+          },
+        ],
+        error: null,
+      });
+
+      const result = await importVotes(poll.id, userId, [
+        ballot("1"),
+        ballot("1", [option2Id]),
+        ballot("2", [faker.string.uuid()]),
+        ballot("3"),
+      ]);
+
+      expect(result).toEqual({
+        processed: 1,
+        failed: 3,
+        failures: [
+          {
+            row: 1,
+            ballotId: "1",
+            error: "Ballot appears more than once in this import",
+          },
+          {
+            row: 2,
+            ballotId: "2",
+            error: "Ballot has options that are not in this poll",
+          },
+          { row: 3, ballotId: "3", error: "Ballot has already been imported" },
+        ],
+      });
+    });
+
+    it("should check ballots without writing them on a dry run", async () => {
+      const result = await importVotes(
+        poll.id,
+        userId,
+        [ballot("1"), ballot("1"), ballot("2", [option2Id])],
+        { dryRun: true },
+      );
+
+      expect(result).toEqual({
+        processed: 2,
+        failed: 1,
+        failures: [
+          {
+            row: 1,
+            ballotId: "1",
+            error: "Ballot appears more than once in this import",
+          },
+        ],
+      });
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it("should retry ballots one by one when a batch insert fails", async () => {
+      insert
+        .mockResolvedValueOnce({ error: { message: "Poll has expired" } })
+        .mockResolvedValueOnce({ error: null })
+        .mockResolvedValueOnce({ error: { message: "Poll has expired" } });
+
+      const result = await importVotes(poll.id, userId, [
+        ballot("1"),
+        ballot("2"),
+      ]);
+
+      expect(insert).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({
+        processed: 1,
+        failed: 1,
+        failures: [{ row: 1, ballotId: "2", error: "Poll has expired" }],
+      });
+    });
+
+    it("should only let the poll's creator import", async () => {
+      await expect(
+        importVotes(poll.id, faker.string.uuid(), [ballot("1")]),
+      ).rejects.toMatchObject({ code: VOTE_IMPORT_FORBIDDEN_CODE });
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it("should turn down imports every ballot would fail", async () => {
+      pollQuery = mockQuery({
+        data: { ...poll, allow_anonymous_votes: false },
+        error: null,
+      });
+      await expect(
+        importVotes(poll.id, userId, [ballot("1")]),
+      ).rejects.toMatchObject({ code: VOTE_INVALID_CODE });
+
+      pollQuery = mockQuery({ data: poll, error: null });
+      allowed = false;
+      await expect(
+        importVotes(poll.id, userId, [ballot("1")]),
+      ).rejects.toMatchObject({ code: VOTER_NOT_ALLOWED_CODE });
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- claimVoteImport ---
+  describe("claimVoteImport", () => {
+    const pollId = faker.string.uuid();
+    const importId = faker.string.uuid();
+    const result = { processed: 1, failed: 0, failures: [] };
+
+    let queries: any[];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      queries = [];
+      (createServerSupabase as jest.Mock).mockReturnValue({
+        from: jest.fn(() => queries.shift()),
+      });
+    });
+
+    it("should claim an unused key", async () => {
+      queries = [mockQuery({ data: { id: importId }, error: null })];
+
+      expect(await claimVoteImport(pollId, userId, "key-1", "hash")).toEqual({
+        status: "claimed",
+        id: importId,
+      });
+    });
+
+    it("should return the first result to a retry", async () => {
+      queries = [
+        mockQuery({
+          data: null,
+          error: { message: "duplicate", code: "23505" },
+        }),
+        mockQuery({
+          data: { poll_id: pollId, request_hash: "hash", result },
+          error: null,
+        }),
+      ];
+
+      expect(await claimVoteImport(pollId, userId, "key-1", "hash")).toEqual({
+        status: "completed",
+        result,
+      });
+    });
+
+    it("should tell running imports and reused keys apart", async () => {
+      const duplicate = () =>
+        mockQuery({
+          data: null,
+          error: { message: "duplicate", code: "23505" },
+        });
+
+      queries = [
+        duplicate(),
+        mockQuery({
+          data: { poll_id: pollId, request_hash: "hash", result: null },
+          error: null,
+        }),
+        duplicate(),
+        mockQuery({
+          data: { poll_id: pollId, request_hash: "other", result },
+          error: null,
+        }),
+      ];
+
+      expect(await claimVoteImport(pollId, userId, "key-1", "hash")).toEqual({
+        status: "running",
+      });
+      expect(await claimVoteImport(pollId, userId, "key-1", "hash")).toEqual({
+        status: "mismatch",
+      });
+    });
+  });
+});
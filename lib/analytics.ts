@@ -0,0 +1,75 @@
+import { AnalyticsBucket } from "@/types/database";
+
+export const ANALYTICS_BUCKETS: AnalyticsBucket[] = ["hour", "day", "week"];
+
+// How far back each bucket size looks when no start is given; weeks cover the whole poll
+const DEFAULT_RANGES_MS: Record<AnalyticsBucket, number | null> = {
+  hour: 48 * 60 * 60 * 1000,
+  day: 30 * 24 * 60 * 60 * 1000,
+  week: null,
+};
+
+const MAX_SOURCE_LENGTH = 64;
+
+/**
+ * defaultRangeStart picks the start of the analytics window for a bucket size.
+ *
+ * Assumptions:
+ * - now is the end of the window.
+ *
+ * Edge Cases:
+ * - Returns null for weekly buckets, which start from the poll's creation.
+ * - The database clamps any start before the poll was created.
+ *
+ * Connections:
+ * - Used by the analytics route when the request has no "from" parameter.
+ */
+export function defaultRangeStart(
+  bucket: AnalyticsBucket,
+  now: Date = new Date(),
+): Date | null {
+  const range = DEFAULT_RANGES_MS[bucket];
+  return range === null ? null : new Date(now.getTime() - range);
+}
+
+/**
+ * referrerSource names where a poll view came from.
+ *
+ * Assumptions:
+ * - referrer is document.referrer and currentHost is the app's own host.
+ *
+ * Edge Cases:
+ * - An explicit ?ref= tag wins over the referring site.
+ * - Returns null for direct visits and navigation within the app, which count as "direct".
+ * - Strips "www." so both forms of a site are grouped together.
+ *
+ * Connections:
+ * - Stored in poll_views.referrer and grouped into PollAnalytics.top_referrers.
+ */
+export function referrerSource(
+  referrer: string,
+  currentHost: string,
+  ref?: string | null,
+): string | null {
+  const tag = ref?.trim().toLowerCase();
+  if (tag) {
+    return tag.slice(0, MAX_SOURCE_LENGTH);
+  }
+
+  if (!referrer) {
+    return null;
+  }
+
+  let host: string;
+  try {
+    host = new URL(referrer).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  if (!host || host === currentHost.toLowerCase()) {
+    return null;
+  }
+
+  return host.replace(/^www\./, "").slice(0, MAX_SOURCE_LENGTH);
+}
@@ -0,0 +1,148 @@
+import { AnonymousDedupe } from "@/types/database";
+
+// Shared with the browser for the labels, so only Web Crypto is used here
+
+// Cookie holding a guest's signed voter token, issued by the vote route
+export const ANONYMOUS_VOTER_COOKIE = "pully_voter";
+export const ANONYMOUS_VOTER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export const ANONYMOUS_DEDUPE_LEVELS = [
+  "cookie",
+  "device",
+  "network",
+] as const satisfies readonly AnonymousDedupe[];
+
+export const ANONYMOUS_DEDUPE_LABELS: Record<AnonymousDedupe, string> = {
+  cookie: "One vote per browser cookie",
+  device: "Also one vote per IP address and browser",
+  network: "Also one vote per IP address",
+};
+
+// Longest user agent stored with a vote
+const MAX_USER_AGENT_LENGTH = 512;
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+const base64url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0),
+  );
+
+const importVoterKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    utf8(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+// Signed under its own label, so the secret's other signatures never pass as tokens
+const signedPart = (voterId: string) => utf8(`anonymous-voter:${voterId}`);
+
+/**
+ * createAnonymousVoterToken issues a new guest voter id with its signed token.
+ *
+ * Assumptions:
+ * - secret is a server-only value (ANONYMOUS_VOTER_SECRET).
+ *
+ * Edge Cases:
+ * - The id carries 128 bits of randomness, so guests cannot guess each other's.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote for guests without a valid cookie.
+ */
+export async function createAnonymousVoterToken(
+  secret: string,
+): Promise<{ voterId: string; token: string }> {
+  const voterId = base64url(crypto.getRandomValues(new Uint8Array(16)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importVoterKey(secret),
+    signedPart(voterId),
+  );
+
+  return {
+    voterId,
+    token: `${voterId}.${base64url(new Uint8Array(signature))}`,
+  };
+}
+
+/**
+ * verifyAnonymousVoterToken returns the voter id of a token this server issued.
+ *
+ * Assumptions:
+ * - token is the raw ANONYMOUS_VOTER_COOKIE value, if the request had one.
+ *
+ * Edge Cases:
+ * - Returns null for missing, malformed and forged tokens, so the guest is
+ *   treated as new rather than turned down.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote; the id is stored as votes.voter_fingerprint.
+ */
+export async function verifyAnonymousVoterToken(
+  token: string | null | undefined,
+  secret: string,
+): Promise<string | null> {
+  const [voterId, signature, ...rest] = (token || "").split(".");
+  if (!voterId || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importVoterKey(secret),
+      fromBase64url(signature),
+      signedPart(voterId),
+    );
+    return valid ? voterId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * getClientIp finds the address a request came from.
+ *
+ * Assumptions:
+ * - The app runs behind a proxy, such as Vercel's, that sets X-Real-IP or
+ *   appends the address it saw to X-Forwarded-For.
+ *
+ * Edge Cases:
+ * - X-Real-IP wins, since the proxy overwrites it. Otherwise the last
+ *   X-Forwarded-For entry is used: earlier ones come from the client and can
+ *   be made up.
+ * - Returns null when neither header holds something shaped like an address,
+ *   so it is never written to votes.ip_address.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote for anonymous vote checks.
+ */
+export function getClientIp(headers: Headers): string | null {
+  const ip = (
+    headers.get("x-real-ip") ||
+    headers.get("x-forwarded-for")?.split(",").pop() ||
+    ""
+  ).trim();
+
+  return /^[0-9a-fA-F.:]{2,45}$/.test(ip) ? ip : null;
+}
+
+/**
+ * getUserAgent reads a request's user agent as stored with votes.
+ *
+ * Edge Cases:
+ * - Long user agents are cut to MAX_USER_AGENT_LENGTH.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote for anonymous vote checks.
+ */
+export function getUserAgent(headers: Headers): string | null {
+  return headers.get("user-agent")?.slice(0, MAX_USER_AGENT_LENGTH) || null;
+}
@@ -0,0 +1,262 @@
+import { createClient } from "@supabase/supabase-js";
+import { ApiKeyScope, Database } from "@/types/database";
+
+// Runs in the middleware too, so only Web Crypto is used here
+
+export const API_KEY_PREFIX = "pully_";
+
+export const API_KEY_SCOPES = [
+  "polls:read",
+  "polls:write",
+  "votes:write",
+  "votes:import",
+  "polls:export",
+] as const satisfies readonly ApiKeyScope[];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "polls:read": "Read polls",
+  "polls:write": "Create polls",
+  "votes:write": "Vote",
+  "votes:import": "Import ballots",
+  "polls:export": "Export",
+};
+
+// Set by the middleware on requests made with an API key, listing the key's
+// scopes; it is stripped from every other request
+export const API_KEY_SCOPES_HEADER = "x-api-key-scopes";
+
+// Lifetime of the Supabase token minted for each API key request
+export const API_KEY_TOKEN_TTL_SECONDS = 300;
+
+// Endpoints that accept API keys, with the scope each one needs
+const API_KEY_ROUTES: { method: string; path: RegExp; scope: ApiKeyScope }[] = [
+  { method: "GET", path: /^\/api\/polls$/, scope: "polls:read" },
+  { method: "POST", path: /^\/api\/polls$/, scope: "polls:write" },
+  { method: "POST", path: /^\/api\/polls\/create$/, scope: "polls:write" },
+  { method: "POST", path: /^\/api\/polls\/batch-vote$/, scope: "votes:import" },
+  { method: "PATCH", path: /^\/api\/polls\/[^/]+$/, scope: "polls:write" },
+  { method: "POST", path: /^\/api\/polls\/[^/]+\/publish$/, scope: "polls:write" },
+  { method: "POST", path: /^\/api\/polls\/[^/]+\/vote$/, scope: "votes:write" },
+  { method: "POST", path: /^\/api\/polls\/[^/]+\/import$/, scope: "votes:import" },
+  { method: "GET", path: /^\/api\/polls\/[^/]+\/analytics$/, scope: "polls:read" },
+  { method: "GET", path: /^\/api\/polls\/[^/]+\/export$/, scope: "polls:export" },
+];
+
+type AuthenticatedApiKey =
+  Database["public"]["Functions"]["authenticate_api_key"]["Returns"][0];
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+const base64url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const encodeSegment = (value: object): string =>
+  base64url(utf8(JSON.stringify(value)));
+
+/**
+ * isApiKey tells personal API keys apart from Supabase access tokens.
+ *
+ * Assumptions:
+ * - token came from an "Authorization: Bearer" header.
+ *
+ * Edge Cases:
+ * - Supabase tokens are JWTs and never start with the key prefix.
+ *
+ * Connections:
+ * - Used by the middleware before looking a key up.
+ */
+export function isApiKey(token: string | null): token is string {
+  return !!token && token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * generateApiKey creates a new random API key.
+ *
+ * Assumptions:
+ * - Web Crypto is available (browsers, Node 20 and the edge runtime).
+ *
+ * Edge Cases:
+ * - Carries 256 bits of randomness, so keys are safe to look up by hash alone.
+ *
+ * Connections:
+ * - Used by createApiKey; only hashApiKey's output is stored.
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${base64url(crypto.getRandomValues(new Uint8Array(32)))}`;
+}
+
+/**
+ * apiKeyDisplayPrefix returns the part of a key shown in key listings.
+ *
+ * Assumptions:
+ * - key was produced by generateApiKey.
+ *
+ * Edge Cases:
+ * - Too short to narrow down the rest of the key.
+ *
+ * Connections:
+ * - Stored as api_keys.key_prefix.
+ */
+export function apiKeyDisplayPrefix(key: string): string {
+  return key.slice(0, API_KEY_PREFIX.length + 6);
+}
+
+/**
+ * hashApiKey derives the value stored for and looked up by an API key.
+ *
+ * Assumptions:
+ * - key is the full key as presented by the client.
+ *
+ * Edge Cases:
+ * - A plain SHA-256 is enough because keys are random, not user-chosen.
+ *
+ * Connections:
+ * - Used when creating keys and by authenticateApiKey.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", utf8(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * requiredScope finds the scope an API key needs for a request.
+ *
+ * Assumptions:
+ * - pathname has no trailing slash or query string.
+ *
+ * Edge Cases:
+ * - Returns null for endpoints that do not accept API keys, such as auth and key management.
+ *
+ * Connections:
+ * - Used by the middleware to reject keys before the route runs.
+ */
+export function requiredScope(
+  method: string,
+  pathname: string,
+): ApiKeyScope | null {
+  const route = API_KEY_ROUTES.find(
+    (entry) => entry.method === method.toUpperCase() && entry.path.test(pathname),
+  );
+  return route?.scope ?? null;
+}
+
+/**
+ * signAccessToken mints a short-lived Supabase access token for a user.
+ *
+ * Assumptions:
+ * - secret is the project's JWT secret (SUPABASE_JWT_SECRET).
+ *
+ * Edge Cases:
+ * - The token carries no session, so it cannot be refreshed; it simply expires.
+ *
+ * Connections:
+ * - Lets API key requests reuse createServerSupabase's bearer support, so RLS applies as usual.
+ */
+export async function signAccessToken(
+  userId: string,
+  secret: string,
+  ttlSeconds: number = API_KEY_TOKEN_TTL_SECONDS,
+  now: number = Date.now(),
+): Promise<string> {
+  const issuedAt = Math.floor(now / 1000);
+  const unsigned = `${encodeSegment({ alg: "HS256", typ: "JWT" })}.${encodeSegment({
+    sub: userId,
+    role: "authenticated",
+    aud: "authenticated",
+    iat: issuedAt,
+    exp: issuedAt + ttlSeconds,
+  })}`;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    utf8(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, utf8(unsigned));
+
+  return `${unsigned}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * authenticateApiKey checks an API key against a request and exchanges it for an access token.
+ *
+ * Assumptions:
+ * - Called from the middleware with the request's method and path.
+ * - NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_JWT_SECRET are set.
+ *
+ * Edge Cases:
+ * - 403 for endpoints that do not accept keys or scopes the key lacks.
+ * - 401 for unknown, revoked and expired keys.
+ *
+ * Connections:
+ * - Uses the "authenticate_api_key" RPC, which also records when the key was last used.
+ */
+export async function authenticateApiKey(
+  key: string,
+  method: string,
+  pathname: string,
+): Promise<
+  { token: string; scopes: ApiKeyScope[] } | { error: string; status: number }
+> {
+  const scope = requiredScope(method, pathname);
+
+  if (!scope) {
+    return { error: "API keys cannot be used for this endpoint", status: 403 };
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } },
+  );
+
+  const { data, error } = await supabase.rpc("authenticate_api_key", {
+    api_key_hash: await hashApiKey(key),
+  });
+
+  if (error) {
+    console.error("Error authenticating API key:", error);
+    return { error: "Failed to verify API key", status: 500 };
+  }
+
+  const apiKey = (data as AuthenticatedApiKey[] | null)?.[0];
+
+  if (!apiKey) {
+    return { error: "Invalid, revoked or expired API key", status: 401 };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return { error: `This API key is missing the "${scope}" scope`, status: 403 };
+  }
+
+  return {
+    token: await signAccessToken(apiKey.user_id, process.env.SUPABASE_JWT_SECRET!),
+    scopes: apiKey.scopes,
+  };
+}
+
+/**
+ * hasApiKeyScope tells whether a request was made with an API key that has a scope.
+ *
+ * Assumptions:
+ * - header is the request's API_KEY_SCOPES_HEADER, which only the middleware sets.
+ *
+ * Edge Cases:
+ * - False for requests signed in with a session or access token, which have no header.
+ *
+ * Connections:
+ * - Used by routes that only accept API keys, such as POST /api/polls/batch-vote.
+ */
+export function hasApiKeyScope(
+  header: string | null,
+  scope: ApiKeyScope,
+): boolean {
+  return !!header && header.split(",").includes(scope);
+}
@@ -0,0 +1,99 @@
+import { Session, User as SupabaseUser } from "@supabase/supabase-js";
+import type { createRouteSupabase } from "@/lib/supabase-server";
+import { AuthResponse, User } from "@/types";
+
+/**
+ * getBearerToken extracts the token from an "Authorization: Bearer <token>" header.
+ *
+ * Assumptions:
+ * - header is the raw Authorization header value, if any.
+ *
+ * Edge Cases:
+ * - Returns null for missing headers, other schemes and empty tokens.
+ * - The scheme is matched case-insensitively.
+ *
+ * Connections:
+ * - Used by createServerSupabase so API clients can authenticate without cookies.
+ * - Used by the logout route to revoke token sessions.
+ */
+export function getBearerToken(header: string | null | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * toApiUser maps a Supabase auth user to the API's User shape.
+ *
+ * Assumptions:
+ * - username comes from the user's profile when it could be loaded.
+ *
+ * Edge Cases:
+ * - Falls back to the username given at sign-up, then to the email's local part.
+ * - updatedAt falls back to createdAt for users that were never updated.
+ *
+ * Connections:
+ * - Used to build AuthResponse and registration responses.
+ */
+export function toApiUser(user: SupabaseUser, username?: string | null): User {
+  const email = user.email || "";
+
+  return {
+    id: user.id,
+    email,
+    username:
+      username || user.user_metadata?.username || email.split("@")[0],
+    createdAt: new Date(user.created_at),
+    updatedAt: new Date(user.updated_at || user.created_at),
+  };
+}
+
+/**
+ * toAuthResponse packages a Supabase session for API clients.
+ *
+ * Assumptions:
+ * - session was just issued or refreshed by Supabase auth.
+ *
+ * Edge Cases:
+ * - expiresAt is derived from expires_in when Supabase omits it.
+ *
+ * Connections:
+ * - Returned by the login, register and refresh routes.
+ */
+export function toAuthResponse(
+  session: Session,
+  username?: string | null,
+): AuthResponse {
+  return {
+    user: toApiUser(session.user, username),
+    token: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt:
+      session.expires_at ??
+      Math.floor(Date.now() / 1000) + session.expires_in,
+  };
+}
+
+/**
+ * sessionResponse looks up the user's profile and builds the AuthResponse for a session.
+ *
+ * Assumptions:
+ * - supabase is the client the session was issued to.
+ *
+ * Edge Cases:
+ * - A missing profile is not an error; toApiUser falls back to metadata.
+ *
+ * Connections:
+ * - Used by the auth API routes after sign-in, sign-up and refresh.
+ */
+export async function sessionResponse(
+  supabase: ReturnType<typeof createRouteSupabase>,
+  session: Session,
+): Promise<AuthResponse> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("username")
+    .eq("id", session.user.id)
+    .single();
+
+  return toAuthResponse(session, profile?.username);
+}
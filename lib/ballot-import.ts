@@ -0,0 +1,244 @@
+import {
+  BallotCsvImportResult,
+  BallotImportFailure,
+  ImportedBallot,
+  PollOption,
+  PollType,
+  VoteImportResult,
+} from "@/types/database";
+
+// Header of the optional column holding each paper ballot's own number
+export const BALLOT_ID_COLUMN = "ballot_id";
+
+type BallotCsvPoll = {
+  poll_type: PollType;
+  options: Pick<PollOption, "id" | "text">[];
+};
+
+export interface BallotCsv {
+  ballots: ImportedBallot[];
+  lines: number[]; // CSV line each ballot was read from
+  failures: BallotImportFailure[]; // Rows that could not be read, by line
+}
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+const normalise = (value: string) =>
+  value.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Splits CSV text into records, honouring quoted cells that hold commas,
+// doubled quotes or line breaks. Blank lines are dropped.
+function parseCsvRecords(csv: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < csv.length; index++) {
+    const char = csv[index];
+
+    if (quoted) {
+      if (char === '"' && csv[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[index + 1] === "\n") index++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  endRecord();
+  return records;
+}
+
+/**
+ * parseBallotCsv reads paper ballots from a CSV and maps them to a poll's options.
+ *
+ * Assumptions:
+ * - The first row is a header. A "ballot_id" column, if any, holds each
+ *   ballot's number; every other column holds one choice.
+ * - Choices are option texts (matched ignoring case and spacing) or option ids,
+ *   listed from most to least preferred on ranked ballots.
+ * - Score and rating choices carry their score after the last "=", e.g. "Pizza=8".
+ *
+ * Edge Cases:
+ * - Without a ballot_id column, ballots are numbered by fileKey and line;
+ *   the import route picks a new fileKey for every import.
+ * - Rows with a missing ballot id, unknown options, missing scores or no
+ *   choices fail by line; the rest are returned for importVotes to check.
+ * - Blank lines are skipped; quoted cells may hold commas and line breaks.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/import before importVotes.
+ */
+export function parseBallotCsv(
+  csv: string,
+  poll: BallotCsvPoll,
+  fileKey: string,
+): BallotCsv {
+  const parsed: BallotCsv = { ballots: [], lines: [], failures: [] };
+  const [header, ...records] = parseCsvRecords(csv);
+
+  if (!header) return parsed;
+
+  const idColumn = header.cells.findIndex(
+    (cell) => normalise(cell) === BALLOT_ID_COLUMN,
+  );
+  const optionsByKey = new Map<string, string>();
+  for (const option of poll.options) {
+    optionsByKey.set(normalise(option.text), option.id);
+  }
+  for (const option of poll.options) {
+    optionsByKey.set(option.id.toLowerCase(), option.id);
+  }
+  const scored = poll.poll_type === "score" || poll.poll_type === "rating";
+
+  for (const { line, cells } of records) {
+    const ballotId =
+      idColumn >= 0 ? (cells[idColumn] || "").trim() : `${fileKey}-${line}`;
+    const fail = (error: string) =>
+      parsed.failures.push({ row: line, ballotId, error });
+
+    if (!ballotId) {
+      fail("Ballot id is missing");
+      continue;
+    }
+
+    if (ballotId.length > 100) {
+      fail("Ballot id must be 100 characters or less");
+      continue;
+    }
+
+    const choices = cells
+      .filter((_, column) => column !== idColumn)
+      .map((cell) => cell.trim())
+      .filter((cell) => cell !== "");
+
+    if (choices.length === 0) {
+      fail("Ballot has no choices");
+      continue;
+    }
+
+    const ballot: ImportedBallot = { ballotId, optionIds: [] };
+    let error: string | null = null;
+
+    for (const choice of choices) {
+      const separator = scored ? choice.lastIndexOf("=") : -1;
+      const label = separator >= 0 ? choice.slice(0, separator) : choice;
+      const optionId = optionsByKey.get(normalise(label));
+
+      if (!optionId) {
+        error = `Unknown option "${label.trim()}"`;
+        break;
+      }
+
+      if (scored) {
+        const score = choice.slice(separator + 1).trim();
+        if (separator < 0 || !/^-?\d+$/.test(score)) {
+          error = `"${label.trim()}" needs a score, like "${label.trim()}=5"`;
+          break;
+        }
+        ballot.scores = { ...ballot.scores, [optionId]: Number(score) };
+      }
+
+      ballot.optionIds.push(optionId);
+    }
+
+    if (error) {
+      fail(error);
+      continue;
+    }
+
+    parsed.ballots.push(ballot);
+    parsed.lines.push(line);
+  }
+
+  return parsed;
+}
+
+/**
+ * summariseBallotCsvImport reports an import of parsed CSV ballots by CSV line.
+ *
+ * Assumptions:
+ * - result came from importVotes with parsed.ballots, in the same order.
+ *
+ * Edge Cases:
+ * - Rows that could not be read are reported with the rows importVotes turned down.
+ * - The tally counts what the ballots add to results: first preferences on
+ *   ranked ballots, every choice otherwise.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/import for previews and commits.
+ */
+export function summariseBallotCsvImport(
+  parsed: BallotCsv,
+  result: VoteImportResult,
+  poll: BallotCsvPoll,
+  committed: boolean,
+): BallotCsvImportResult {
+  const failedRows = new Set(result.failures.map(({ row }) => row));
+  const votes: Record<string, number> = {};
+
+  parsed.ballots.forEach((ballot, row) => {
+    if (failedRows.has(row)) return;
+
+    const counted =
+      poll.poll_type === "ranked"
+        ? ballot.optionIds.slice(0, 1)
+        : ballot.optionIds;
+    for (const optionId of counted) {
+      votes[optionId] = (votes[optionId] || 0) + 1;
+    }
+  });
+
+  const failures = [
+    ...parsed.failures,
+    ...result.failures.map((failure) => ({
+      ...failure,
+      row: parsed.lines[failure.row],
+    })),
+  ].sort((a, b) => a.row - b.row);
+
+  return {
+    committed,
+    ballots: parsed.ballots.length + parsed.failures.length,
+    processed: result.processed,
+    failed: failures.length,
+    failures,
+    tally: poll.options.map((option) => ({
+      option_id: option.id,
+      option_text: option.text,
+      votes: votes[option.id] || 0,
+    })),
+  };
+}
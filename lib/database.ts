@@ -1,4 +1,8 @@
-import { createServerSupabase, createClientSupabase } from "@/lib/supabase";
+import {
+  createServerSupabase,
+  createClientSupabase,
+  createAdminSupabase,
+} from "@/lib/supabase";
 import {
   Database,
   Poll,
@@ -9,25 +13,70 @@ import {
   PollOption,
   PollOptionInsert,
   Vote,
-  VoteInsert,
   PollView,
   PollViewInsert,
   CreatePollForm,
-  VoteForm,
   PollResult,
   UserPollStats,
   PopularPoll,
+  PopularTag,
+  RankedBallot,
+  RankedChoiceResult,
+  EditPollForm,
+  PollEdit,
+  PollAnalytics,
+  AnalyticsBucket,
+  ApiKey,
+  CreateApiKeyForm,
+  CreatedApiKey,
+  Webhook,
+  WebhookDelivery,
+  CreateWebhookForm,
+  CreatedWebhook,
+  PollInvite,
+  CreatePollInviteForm,
+  CreatedPollInvite,
+  PollComment,
+  CreatePollCommentForm,
+  EditPollCommentForm,
+  PollOptionSuggestion,
+  CreateOptionSuggestionForm,
+  FlaggedBallot,
 } from "@/types/database";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { computeInstantRunoff } from "@/lib/ranked-choice";
+import {
+  apiKeyDisplayPrefix,
+  generateApiKey,
+  hashApiKey,
+} from "@/lib/api-keys";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  deliverWebhook,
+  generateWebhookSecret,
+  webhookRetryDelay,
+} from "@/lib/webhooks";
+import { generateInviteToken, hashInviteToken } from "@/lib/invites";
+import { isCountedVote } from "@/lib/fraud";
+import {
+  PollOrderDirection,
+  PollOrderField,
+  decodePollCursor,
+  encodePollCursor,
+  quoteFilterValue,
+} from "@/lib/pagination";
 
-export class DatabaseError extends Error {
-  constructor(
-    message: string,
-    public code?: string,
-  ) {
-    super(message);
-    this.name = "DatabaseError";
-  }
-}
+// SQLSTATEs raised by update_poll_with_options for edits that are unsafe once votes exist
+export const POLL_EDIT_CONFIRM_CODE = "PV409";
+export const POLL_EDIT_LOCKED_CODE = "PV423";
+
+// SQLSTATE raised by validate_vote for voters outside a poll's allowlist
+export const VOTER_NOT_ALLOWED_CODE = "PV403";
+
+// Columns clients can read from votes; the IP address, user agent and fraud
+// score stay hidden
+export const VOTE_COLUMNS =
+  "id, poll_id, option_id, user_id, voter_fingerprint, rank, score, source, review_status, created_at";
 
 /**
  * DatabaseError is a custom error class for database-related errors.
@@ -52,18 +101,24 @@ export class DatabaseError extends Error {
 }
 
 /**
- * createPoll inserts a new poll and its options into the database.
+ * createPoll inserts a new poll and its options in a single transaction.
  *
  * Assumptions:
  * - pollData contains at least two options.
  * - userId is a valid authenticated user.
+ * - The create_poll_with_options function exists (migration 006).
  *
  * Edge Cases:
  * - Throws DatabaseError if poll or options creation fails.
- * - Handles transaction-like logic for poll and options.
+ * - A failed option insert rolls back the poll, so no orphan poll is left.
+ * - With is_draft the poll is saved as a draft, visible only to its creator.
+ * - The voter allowlist is stored with the poll, so it applies from the first vote.
+ * - Tags are stored with the poll too.
  *
  * Connections:
  * - Used by API routes or server actions to create polls.
+ * - Committing the poll queues poll.created webhook deliveries (migration 010);
+ *   drafts queue them when published instead.
  */
 export async function createPoll(
   pollData: CreatePollForm,
@@ -72,20 +127,28 @@ export async function createPoll(
   const supabase = createServerSupabase();
 
   try {
-    // Start a transaction
-    const { data: poll, error: pollError } = await supabase
-      .from("polls")
-      .insert({
-        title: pollData.title,
-        description: pollData.description || null,
-        creator_id: userId,
-        is_public: pollData.is_public,
-        allow_multiple_votes: pollData.allow_multiple_votes,
-        allow_anonymous_votes: pollData.allow_anonymous_votes,
-        expires_at: pollData.expires_at?.toISOString() || null,
-      } satisfies PollInsert)
-      .select()
-      .single();
+    const { data: poll, error: pollError } = await supabase.rpc(
+      "create_poll_with_options",
+      {
+        poll_data: {
+          title: pollData.title,
+          description: pollData.description || null,
+          creator_id: userId,
+          is_public: pollData.is_public,
+          allow_multiple_votes: pollData.allow_multiple_votes,
+          allow_anonymous_votes: pollData.allow_anonymous_votes,
+          allow_suggestions: pollData.allow_suggestions ?? false,
+          anonymous_dedupe: pollData.anonymous_dedupe || "device",
+          poll_type: pollData.poll_type || "choice",
+          status: pollData.is_draft ? "draft" : "active",
+          opens_at: pollData.opens_at?.toISOString() || null,
+          expires_at: pollData.expires_at?.toISOString() || null,
+        } satisfies PollInsert,
+        option_texts: pollData.options,
+        voter_allowlist: pollData.voter_allowlist || [],
+        tags: pollData.tags || [],
+      },
+    );
 
     if (pollError) {
       throw new DatabaseError(
@@ -94,26 +157,6 @@ export async function createPoll(
       );
     }
 
-    // Create poll options
-    const optionsData: PollOptionInsert[] = pollData.options.map(
-      (text, index) => ({
-        poll_id: poll.id,
-        text,
-        order_index: index,
-      }),
-    );
-
-    const { error: optionsError } = await supabase
-      .from("poll_options")
-      .insert(optionsData);
-
-    if (optionsError) {
-      throw new DatabaseError(
-        `Failed to create poll options: ${optionsError.message}`,
-        optionsError.code,
-      );
-    }
-
     return poll;
   } catch (error) {
     if (error instanceof DatabaseError) {
@@ -132,6 +175,8 @@ export async function createPoll(
  *
  * Edge Cases:
  * - Returns null if poll not found (PGRST116).
+ * - Votes held for review are left out. vote_count counts voters, so a ranked
+ *   or approval ballot counts once however many options it covers.
  * - Throws DatabaseError for other errors.
  *
  * Connections:
@@ -167,9 +212,9 @@ export async function getPoll(
     }
 
     // Get vote counts for each option
-    const { data: voteCounts, error: voteCountError } = await supabase
+    const { data: allVotes, error: voteCountError } = await supabase
       .from("votes")
-      .select("option_id")
+      .select("id, option_id, user_id, voter_fingerprint, review_status")
       .eq("poll_id", pollId);
 
     if (voteCountError) {
@@ -179,7 +224,8 @@ export async function getPoll(
       );
     }
 
-    // Calculate vote counts per option
+    // Calculate vote counts per option, leaving out votes held for review
+    const voteCounts = allVotes.filter(isCountedVote);
     const voteCountMap = voteCounts.reduce(
       (acc, vote) => {
         acc[vote.option_id] = (acc[vote.option_id] || 0) + 1;
@@ -193,7 +239,7 @@ export async function getPoll(
     if (userId) {
       const { data: vote } = await supabase
         .from("votes")
-        .select("*")
+        .select(VOTE_COLUMNS)
         .eq("poll_id", pollId)
         .eq("user_id", userId)
         .single();
@@ -210,7 +256,7 @@ export async function getPoll(
     return {
       ...poll,
       options: enhancedOptions,
-      vote_count: voteCounts.length,
+      vote_count: countVoters(voteCounts),
       user_vote: userVote,
     };
   } catch (error) {
@@ -259,14 +305,229 @@ export async function getPollResults(pollId: string): Promise<PollResult[]> {
   }
 }
 
+/**
+ * getRankedChoiceResults runs an instant-runoff count over a ranked poll's ballots.
+ *
+ * Assumptions:
+ * - pollId refers to a poll with poll_type "ranked".
+ * - The "get_ranked_ballots" RPC is defined in the database.
+ *
+ * Edge Cases:
+ * - Returns a result with no rounds and no winner if nobody has voted.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Shown beside get_poll_results output for ranked polls.
+ */
+export async function getRankedChoiceResults(
+  pollId: string,
+): Promise<RankedChoiceResult> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data: options, error: optionsError } = await supabase
+      .from("poll_options")
+      .select("id")
+      .eq("poll_id", pollId)
+      .order("order_index");
+
+    if (optionsError) {
+      throw new DatabaseError(
+        `Failed to fetch poll options: ${optionsError.message}`,
+        optionsError.code,
+      );
+    }
+
+    const { data: ballots, error: ballotsError } = await supabase.rpc(
+      "get_ranked_ballots",
+      { poll_uuid: pollId },
+    );
+
+    if (ballotsError) {
+      throw new DatabaseError(
+        `Failed to get ranked ballots: ${ballotsError.message}`,
+        ballotsError.code,
+      );
+    }
+
+    return computeInstantRunoff(
+      (options || []).map((option) => option.id),
+      (ballots || []).map((row: RankedBallot) => row.ballot),
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error computing ranked choice results: ${error}`,
+    );
+  }
+}
+
+/**
+ * streamPollVotes yields a poll's raw votes page by page, oldest first.
+ *
+ * Assumptions:
+ * - Called server-side by the poll's creator, who can read all its votes under RLS.
+ *
+ * Edge Cases:
+ * - Yields nothing for a poll without votes.
+ * - Votes cast while paging may shift later pages; exports are a best-effort snapshot.
+ * - Throws DatabaseError if a page fails to load.
+ *
+ * Connections:
+ * - Used by the export route so large polls are never loaded into memory at once.
+ */
+export async function* streamPollVotes(
+  pollId: string,
+  pageSize = 1000,
+): AsyncGenerator<Vote[]> {
+  const supabase = createServerSupabase();
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("votes")
+      .select(VOTE_COLUMNS)
+      .eq("poll_id", pollId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch votes: ${error.message}`,
+        error.code,
+      );
+    }
+
+    if (!data || data.length === 0) return;
+
+    yield data;
+
+    if (data.length < pageSize) return;
+  }
+}
+
+// Ballots have a row per option, so a poll's vote count is of voters rather
+// than rows. Votes without a voter on record count once each.
+const countVoters = (
+  votes: Pick<Vote, "id" | "user_id" | "voter_fingerprint">[],
+): number =>
+  new Set(
+    votes.map((vote) => vote.user_id || vote.voter_fingerprint || vote.id),
+  ).size;
+
+// Columns listed for each poll in getPolls and searchPolls
+const POLL_LIST_COLUMNS = `
+        *,
+        creator(*),
+        options:poll_options(*),
+        tags:poll_tags(tag)
+      `;
+
+// Adds vote counts, and average scores for scored polls, to listed polls, and
+// flattens their tags
+async function withVoteCounts(
+  supabase: ReturnType<typeof createServerSupabase>,
+  polls: any[],
+): Promise<PollWithDetails[]> {
+  // Get vote counts for all polls
+  const pollIds = polls.map((poll) => poll.id);
+  if (pollIds.length === 0) return [];
+
+  const { data: allVotes, error: voteCountError } = await supabase
+    .from("votes")
+    .select(
+      "id, poll_id, option_id, user_id, voter_fingerprint, score, review_status",
+    )
+    .in("poll_id", pollIds);
+
+  if (voteCountError) {
+    throw new DatabaseError(
+      `Failed to fetch vote counts: ${voteCountError.message}`,
+      voteCountError.code,
+    );
+  }
+
+  // Votes held for review are left out, as in get_poll_results
+  const voteCounts = allVotes.filter(isCountedVote);
+
+  // Group vote counts by poll
+  const voteCountsByPoll = voteCounts.reduce(
+    (acc, vote) => {
+      if (!acc[vote.poll_id]) {
+        acc[vote.poll_id] = {};
+      }
+      acc[vote.poll_id][vote.option_id] =
+        (acc[vote.poll_id][vote.option_id] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, Record<string, number>>,
+  );
+
+  // Sum scores per option for score and rating polls
+  const scoreTotalsByOption = voteCounts.reduce(
+    (acc, vote) => {
+      if (vote.score !== null && vote.score !== undefined) {
+        acc[vote.option_id] = (acc[vote.option_id] || 0) + vote.score;
+      }
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  // Enhance polls with vote counts
+  return polls.map((poll) => {
+    const pollVoteCounts = voteCountsByPoll[poll.id] || {};
+    const totalVotes = countVoters(
+      voteCounts.filter((vote) => vote.poll_id === poll.id),
+    );
+
+    const isScored = poll.poll_type === "score" || poll.poll_type === "rating";
+
+    const enhancedOptions = poll.options?.map((option: PollOption) => {
+      const optionVotes = pollVoteCounts[option.id] || 0;
+      return {
+        ...option,
+        vote_count: optionVotes,
+        ...(isScored && {
+          average_score:
+            optionVotes > 0
+              ? Math.round(
+                  ((scoreTotalsByOption[option.id] || 0) / optionVotes) * 100,
+                ) / 100
+              : null,
+        }),
+      };
+    });
+
+    // tag_filter is only there to filter by tag
+    const { tag_filter, ...listed } = poll;
+
+    return {
+      ...listed,
+      options: enhancedOptions,
+      tags: poll.tags?.map((row: { tag: string }) => row.tag),
+      vote_count: totalVotes,
+    };
+  });
+}
+
 /**
  * getPolls fetches a list of polls with optional filters, ordering, and pagination.
  *
  * Assumptions:
- * - Options may include userId, isPublic, search, limit, offset, orderBy, orderDirection.
+ * - Options may include userId, isPublic, includeDrafts, tag, search, limit, offset, cursor, orderBy, orderDirection.
+ * - cursor comes from getPollsPage, for the same orderBy and orderDirection.
  *
  * Edge Cases:
  * - Returns an empty array if no polls found.
+ * - Drafts are left out unless includeDrafts is set, and even then RLS only
+ *   returns the signed-in user's own drafts.
+ * - Score and rating polls also get an average_score per option.
+ * - With a search, results come from searchPolls, ordered by relevance.
+ * - Ties in orderBy are broken by id, so pages never overlap or skip polls.
+ * - A cursor takes the place of offset; an invalid one throws DatabaseError.
  * - Throws DatabaseError on error.
  *
  * Connections:
@@ -275,20 +536,60 @@ export async function getPollResults(pollId: string): Promise<PollResult[]> {
 export async function getPolls(options?: {
   userId?: string;
   isPublic?: boolean;
+  includeDrafts?: boolean;
+  tag?: string;
   limit?: number;
   offset?: number;
+  cursor?: string;
   search?: string;
-  orderBy?: "created_at" | "updated_at" | "title";
-  orderDirection?: "asc" | "desc";
+  orderBy?: PollOrderField;
+  orderDirection?: PollOrderDirection;
 }): Promise<PollWithDetails[]> {
+  const orderBy = options?.orderBy || "created_at";
+  const orderDirection = options?.orderDirection || "desc";
+  const cursor = options?.cursor ? decodePollCursor(options.cursor) : null;
+
+  if (options?.cursor && !cursor) {
+    throw new DatabaseError("Invalid cursor");
+  }
+
+  if (options?.search?.trim()) {
+    if (cursor && !("offset" in cursor)) {
+      throw new DatabaseError("Invalid cursor");
+    }
+
+    const { polls } = await searchPolls({
+      ...options,
+      search: options.search,
+      offset: cursor ? cursor.offset : options.offset,
+    });
+    return polls;
+  }
+
+  if (
+    cursor &&
+    ("offset" in cursor ||
+      cursor.orderBy !== orderBy ||
+      cursor.direction !== orderDirection)
+  ) {
+    throw new DatabaseError("Invalid cursor");
+  }
+
   const supabase = createServerSupabase();
 
   try {
-    let query = supabase.from("polls").select(`
-        *,
-        creator(*),
-        options:poll_options(*)
-      `);
+    // Filtering on a second, inner embed keeps every tag in the first one
+    let query = supabase
+      .from("polls")
+      .select(
+        options?.tag
+          ? `${POLL_LIST_COLUMNS}, tag_filter:poll_tags!inner(tag)`
+          : POLL_LIST_COLUMNS,
+      );
+
+    if (options?.tag) {
+      query = query.eq("tag_filter.tag", options.tag);
+    }
 
     // Apply filters
     if (options?.userId) {
@@ -299,23 +600,30 @@ export async function getPolls(options?: {
       query = query.eq("is_public", options.isPublic);
     }
 
-    if (options?.search) {
+    if (!options?.includeDrafts) {
+      query = query.neq("status", "draft");
+    }
+
+    // Continue after the cursor's poll, in the same order
+    if (cursor) {
+      const op = orderDirection === "asc" ? "gt" : "lt";
+      const value = quoteFilterValue(cursor.value);
       query = query.or(
-        `title.ilike.%${options.search}%,description.ilike.%${options.search}%`,
+        `${orderBy}.${op}.${value},and(${orderBy}.eq.${value},id.${op}.${cursor.id})`,
       );
     }
 
     // Apply ordering
-    const orderBy = options?.orderBy || "created_at";
-    const orderDirection = options?.orderDirection || "desc";
-    query = query.order(orderBy, { ascending: orderDirection === "asc" });
+    query = query
+      .order(orderBy, { ascending: orderDirection === "asc" })
+      .order("id", { ascending: orderDirection === "asc" });
 
     // Apply pagination
     if (options?.limit) {
       query = query.limit(options.limit);
     }
 
-    if (options?.offset) {
+    if (options?.offset && !cursor) {
       query = query.range(
         options.offset,
         options.offset + (options.limit || 10) - 1,
@@ -331,62 +639,177 @@ export async function getPolls(options?: {
       );
     }
 
-    // Get vote counts for all polls
-    const pollIds = polls?.map((poll) => poll.id) || [];
-    if (pollIds.length === 0) return [];
+    return await withVoteCounts(supabase, polls || []);
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching polls: ${error}`);
+  }
+}
 
-    const { data: voteCounts, error: voteCountError } = await supabase
-      .from("votes")
-      .select("poll_id, option_id")
-      .in("poll_id", pollIds);
+/**
+ * searchPolls runs a full-text search over poll titles, descriptions and options.
+ *
+ * Assumptions:
+ * - search is what the user typed; search_polls quotes every word, so no input
+ *   is parsed as query syntax.
+ *
+ * Edge Cases:
+ * - Every word must match, the last letters of each may be left off ("vot" finds "voting").
+ * - Results are ordered by relevance, title matches first; orderBy is ignored.
+ * - Each poll carries a search match with highlighted title and snippet.
+ * - total counts all matches, not just the returned page.
+ * - Searches made only of stop words ("the", "and") match nothing.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by getPolls and GET /api/polls, behind the /polls search box.
+ */
+export async function searchPolls(options: {
+  search: string;
+  userId?: string;
+  isPublic?: boolean;
+  includeDrafts?: boolean;
+  tag?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ polls: PollWithDetails[]; total: number }> {
+  const supabase = createServerSupabase();
 
-    if (voteCountError) {
+  try {
+    const { data: matches, error } = await supabase.rpc("search_polls", {
+      search_term: options.search,
+      public_only: options.isPublic ?? null,
+      creator_uuid: options.userId || null,
+      include_drafts: options.includeDrafts || false,
+      result_limit: options.limit || 10,
+      result_offset: options.offset || 0,
+      tag_filter: options.tag || null,
+    });
+
+    if (error) {
       throw new DatabaseError(
-        `Failed to fetch vote counts: ${voteCountError.message}`,
-        voteCountError.code,
+        `Failed to search polls: ${error.message}`,
+        error.code,
       );
     }
 
-    // Group vote counts by poll
-    const voteCountsByPoll = voteCounts.reduce(
-      (acc, vote) => {
-        if (!acc[vote.poll_id]) {
-          acc[vote.poll_id] = {};
-        }
-        acc[vote.poll_id][vote.option_id] =
-          (acc[vote.poll_id][vote.option_id] || 0) + 1;
-        return acc;
-      },
-      {} as Record<string, Record<string, number>>,
-    );
+    if (!matches || matches.length === 0) {
+      return { polls: [], total: 0 };
+    }
 
-    // Enhance polls with vote counts
-    return (
-      polls?.map((poll) => {
-        const pollVoteCounts = voteCountsByPoll[poll.id] || {};
-        const totalVotes = Object.values(pollVoteCounts).reduce(
-          (sum, count) => sum + count,
-          0,
-        );
+    const { data: polls, error: pollsError } = await supabase
+      .from("polls")
+      .select(POLL_LIST_COLUMNS)
+      .in(
+        "id",
+        matches.map((match: { id: string }) => match.id),
+      );
 
-        const enhancedOptions = poll.options?.map((option: PollOption) => ({
-          ...option,
-          vote_count: pollVoteCounts[option.id] || 0,
-        }));
-
-        return {
-          ...poll,
-          options: enhancedOptions,
-          vote_count: totalVotes,
-        };
-      }) || []
-    );
+    if (pollsError) {
+      throw new DatabaseError(
+        `Failed to fetch polls: ${pollsError.message}`,
+        pollsError.code,
+      );
+    }
+
+    const withCounts = await withVoteCounts(supabase, polls || []);
+    const pollsById = new Map(withCounts.map((poll) => [poll.id, poll]));
+
+    // Keep the ranking from search_polls
+    return {
+      polls: matches.flatMap((match: any) => {
+        const poll = pollsById.get(match.id);
+        return poll
+          ? [
+              {
+                ...poll,
+                search: {
+                  rank: match.rank,
+                  title_highlight: match.title_highlight,
+                  snippet: match.snippet,
+                },
+              },
+            ]
+          : [];
+      }),
+      // bigint counts can arrive as strings
+      total: Number(matches[0].total_count),
+    };
   } catch (error) {
     if (error instanceof DatabaseError) {
       throw error;
     }
-    throw new DatabaseError(`Unexpected error fetching polls: ${error}`);
+    throw new DatabaseError(`Unexpected error searching polls: ${error}`);
+  }
+}
+
+/**
+ * getPollsPage fetches one page of polls along with the cursor for the next.
+ *
+ * Assumptions:
+ * - Takes the same options as getPolls; cursor is null or a nextCursor from
+ *   an earlier call with the same filters and ordering.
+ *
+ * Edge Cases:
+ * - nextCursor is null on the last page.
+ * - Polls created after the first page do not shift later pages, as they would
+ *   with offsets.
+ * - Searches page through ranked results, and also return the total.
+ * - Throws DatabaseError on error, or for an invalid cursor.
+ *
+ * Connections:
+ * - Used by GET /api/polls, behind the infinite scroll on /polls.
+ */
+export async function getPollsPage(
+  options: Parameters<typeof getPolls>[0] & { limit: number },
+): Promise<{
+  polls: PollWithDetails[];
+  nextCursor: string | null;
+  total?: number;
+}> {
+  const search = options.search?.trim();
+
+  if (search) {
+    const cursor = options.cursor ? decodePollCursor(options.cursor) : null;
+    if (options.cursor && !(cursor && "offset" in cursor)) {
+      throw new DatabaseError("Invalid cursor");
+    }
+
+    const offset =
+      cursor && "offset" in cursor ? cursor.offset : options.offset || 0;
+    const { polls, total } = await searchPolls({ ...options, search, offset });
+    const nextOffset = offset + polls.length;
+
+    return {
+      polls,
+      nextCursor:
+        polls.length > 0 && nextOffset < total
+          ? encodePollCursor({ offset: nextOffset })
+          : null,
+      total,
+    };
   }
+
+  // One extra poll tells whether there is another page
+  const polls = await getPolls({ ...options, limit: options.limit + 1 });
+  const page = polls.slice(0, options.limit);
+  const last = page[page.length - 1];
+  const orderBy = options.orderBy || "created_at";
+
+  return {
+    polls: page,
+    nextCursor:
+      polls.length > options.limit
+        ? encodePollCursor({
+            orderBy,
+            direction: options.orderDirection || "desc",
+            value: String(last[orderBy]),
+            id: last.id,
+          })
+        : null,
+  };
 }
 
 /**
@@ -433,6 +856,49 @@ export async function getPopularPolls(
   }
 }
 
+/**
+ * getPopularTags fetches the tags used most by popular polls.
+ *
+ * Assumptions:
+ * - The "popular_tags" view exists in the database (migration 019).
+ *
+ * Edge Cases:
+ * - Counts are as fresh as the last refreshPopularPolls.
+ * - Returns an empty array if no popular poll has tags.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by GET /api/tags for the tag cloud on /polls.
+ */
+export async function getPopularTags(
+  limit: number = 20,
+): Promise<PopularTag[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("popular_tags")
+      .select("*")
+      .order("poll_count", { ascending: false })
+      .order("vote_count", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch popular tags: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching popular tags: ${error}`);
+  }
+}
+
 /**
  * updatePoll updates a poll's fields if the user is the creator.
  *
@@ -479,127 +945,253 @@ export async function updatePoll(
 }
 
 /**
- * deletePoll deletes a poll if the user is the creator.
+ * editPoll updates a poll and its options in a single transaction.
  *
  * Assumptions:
- * - pollId and userId are valid and match an existing poll.
+ * - The caller is the poll's creator; update_poll_with_options checks auth.uid().
+ * - editData.options is the complete option list in its new order.
  *
  * Edge Cases:
- * - Throws DatabaseError if deletion fails.
+ * - Options missing from editData.options are removed along with their votes.
+ * - Throws DatabaseError with code POLL_EDIT_CONFIRM_CODE when the edit would
+ *   discard votes without confirm_vote_loss, and POLL_EDIT_LOCKED_CODE when it
+ *   would change the type of a voted poll or move its opening into the future.
+ * - Changing opens_at or expires_at reschedules, reopens or closes the poll.
+ * - Every applied change is written to poll_edits by the database function.
+ * - A voter_allowlist replaces the poll's allowlist after the edit is saved;
+ *   without one the allowlist is left alone. tags work the same way.
  *
  * Connections:
- * - Used by poll deletion features in the UI.
+ * - Used by the PATCH /api/polls/[id] route behind the poll edit form.
  */
-export async function deletePoll(
+export async function editPoll(
   pollId: string,
-  userId: string,
-): Promise<void> {
+  editData: EditPollForm,
+): Promise<Poll> {
   const supabase = createServerSupabase();
 
   try {
-    const { error } = await supabase
-      .from("polls")
-      .delete()
-      .eq("id", pollId)
-      .eq("creator_id", userId);
+    const { data, error } = await supabase.rpc("update_poll_with_options", {
+      poll_uuid: pollId,
+      poll_data: {
+        title: editData.title,
+        description: editData.description || null,
+        is_public: editData.is_public,
+        allow_multiple_votes: editData.allow_multiple_votes,
+        allow_anonymous_votes: editData.allow_anonymous_votes,
+        allow_suggestions: editData.allow_suggestions,
+        anonymous_dedupe: editData.anonymous_dedupe,
+        poll_type: editData.poll_type || "choice",
+        opens_at: editData.opens_at?.toISOString() || null,
+        expires_at: editData.expires_at?.toISOString() || null,
+      } satisfies PollUpdate,
+      option_list: editData.options.map((option) => ({
+        id: option.id || null,
+        text: option.text,
+      })),
+      confirm_vote_loss: editData.confirm_vote_loss || false,
+    });
 
     if (error) {
       throw new DatabaseError(
-        `Failed to delete poll: ${error.message}`,
+        `Failed to edit poll: ${error.message}`,
         error.code,
       );
     }
-  } catch (error) {
-    if (error instanceof DatabaseError) {
-      throw error;
-    }
-    throw new DatabaseError(`Unexpected error deleting poll: ${error}`);
-  }
-}
 
-/**
- * castVote inserts votes for a poll, handling multiple/single vote logic.
- *
+    if (editData.voter_allowlist) {
+      const { error: allowlistError } = await supabase.rpc(
+        "set_poll_voter_allowlist",
+        { poll_uuid: pollId, entries: editData.voter_allowlist },
+      );
+
+      if (allowlistError) {
+        throw new DatabaseError(
+          `Failed to update allowed voters: ${allowlistError.message}`,
+          allowlistError.code,
+        );
+      }
+    }
+
+    if (editData.tags) {
+      const { error: tagsError } = await supabase.rpc("set_poll_tags", {
+        poll_uuid: pollId,
+        tags: editData.tags,
+      });
+
+      if (tagsError) {
+        throw new DatabaseError(
+          `Failed to update tags: ${tagsError.message}`,
+          tagsError.code,
+        );
+      }
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error editing poll: ${error}`);
+  }
+}
+
+/**
+ * publishPoll makes a draft poll live.
+ *
  * Assumptions:
- * - voteData contains poll_id, option_ids, and optionally voter_fingerprint.
- * - userId is optional for anonymous voting.
+ * - The caller is the poll's creator; publish_poll checks auth.uid().
  *
  * Edge Cases:
- * - Checks for poll expiration and multiple vote rules.
- * - Throws DatabaseError on error.
+ * - The poll becomes scheduled or active depending on its opening date.
+ * - Throws DatabaseError if the poll is already published or its expiration
+ *   date has passed.
  *
  * Connections:
- * - Used by voting UI to submit user votes.
+ * - Used by POST /api/polls/[id]/publish; queues the poll's poll.created webhooks.
  */
-export async function castVote(
-  voteData: VoteForm,
-  userId?: string,
-): Promise<Vote[]> {
-  const supabase = createClientSupabase();
+export async function publishPoll(pollId: string): Promise<Poll> {
+  const supabase = createServerSupabase();
 
   try {
-    // Check if poll allows multiple votes
-    const { data: poll, error: pollError } = await supabase
-      .from("polls")
-      .select("allow_multiple_votes, expires_at")
-      .eq("id", voteData.poll_id)
-      .single();
+    const { data, error } = await supabase.rpc("publish_poll", {
+      poll_uuid: pollId,
+    });
 
-    if (pollError) {
+    if (error) {
       throw new DatabaseError(
-        `Failed to fetch poll: ${pollError.message}`,
-        pollError.code,
+        `Failed to publish poll: ${error.message}`,
+        error.code,
       );
     }
 
-    // Check if poll has expired
-    if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-      throw new DatabaseError("Poll has expired");
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
     }
+    throw new DatabaseError(`Unexpected error publishing poll: ${error}`);
+  }
+}
 
-    // If multiple votes are not allowed, delete existing votes
-    if (!poll.allow_multiple_votes) {
-      if (userId) {
-        await supabase
-          .from("votes")
-          .delete()
-          .eq("poll_id", voteData.poll_id)
-          .eq("user_id", userId);
-      } else if (voteData.voter_fingerprint) {
-        await supabase
-          .from("votes")
-          .delete()
-          .eq("poll_id", voteData.poll_id)
-          .eq("voter_fingerprint", voteData.voter_fingerprint);
-      }
+/**
+ * isAllowedVoter checks a voter against a poll's allowlist.
+ *
+ * Assumptions:
+ * - userId is the signed-in voter, or undefined for guests.
+ * - Runs with the service role, which is_allowed_voter is limited to (migration
+ *   025), so callers check the poll is visible to the voter first.
+ *
+ * Edge Cases:
+ * - Always true for polls without an allowlist.
+ * - Guests and users with unconfirmed emails never match an allowlist.
+ *
+ * Connections:
+ * - Used by castVote in lib/votes; validate_vote enforces the same rule.
+ */
+export async function isAllowedVoter(
+  pollId: string,
+  userId?: string,
+): Promise<boolean> {
+  const supabase = createWorkerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("is_allowed_voter", {
+      poll_uuid: pollId,
+      voter_uuid: userId || null,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to check allowed voters: ${error.message}`,
+        error.code,
+      );
     }
 
-    // Cast new votes
-    const votesToInsert: VoteInsert[] = voteData.option_ids.map((optionId) => ({
-      poll_id: voteData.poll_id,
-      option_id: optionId,
-      user_id: userId || null,
-      voter_fingerprint: voteData.voter_fingerprint || null,
-    }));
+    return data === true;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error checking allowed voters: ${error}`);
+  }
+}
 
-    const { data: votes, error: voteError } = await supabase
-      .from("votes")
-      .insert(votesToInsert)
-      .select();
+/**
+ * getPollEdits fetches the edit history of a poll, newest first.
+ *
+ * Assumptions:
+ * - Only the poll's creator can read poll_edits under RLS.
+ *
+ * Edge Cases:
+ * - Returns an empty array for polls that were never edited or not owned.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by the poll edit page to show the audit trail.
+ */
+export async function getPollEdits(pollId: string): Promise<PollEdit[]> {
+  const supabase = createClientSupabase();
 
-    if (voteError) {
+  try {
+    const { data, error } = await supabase
+      .from("poll_edits")
+      .select("*")
+      .eq("poll_id", pollId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
       throw new DatabaseError(
-        `Failed to cast vote: ${voteError.message}`,
-        voteError.code,
+        `Failed to fetch poll edits: ${error.message}`,
+        error.code,
       );
     }
 
-    return votes || [];
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching poll edits: ${error}`);
+  }
+}
+
+/**
+ * deletePoll deletes a poll if the user is the creator.
+ *
+ * Assumptions:
+ * - pollId and userId are valid and match an existing poll.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError if deletion fails.
+ *
+ * Connections:
+ * - Used by poll deletion features in the UI.
+ */
+export async function deletePoll(
+  pollId: string,
+  userId: string,
+): Promise<void> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { error } = await supabase
+      .from("polls")
+      .delete()
+      .eq("id", pollId)
+      .eq("creator_id", userId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete poll: ${error.message}`,
+        error.code,
+      );
+    }
   } catch (error) {
     if (error instanceof DatabaseError) {
       throw error;
     }
-    throw new DatabaseError(`Unexpected error casting vote: ${error}`);
+    throw new DatabaseError(`Unexpected error deleting poll: ${error}`);
   }
 }
 
@@ -625,7 +1217,10 @@ export async function getUserVote(
   const supabase = createClientSupabase();
 
   try {
-    let query = supabase.from("votes").select("*").eq("poll_id", pollId);
+    let query = supabase
+      .from("votes")
+      .select(VOTE_COLUMNS)
+      .eq("poll_id", pollId);
 
     if (userId) {
       query = query.eq("user_id", userId);
@@ -659,6 +1254,7 @@ export async function getUserVote(
  * Assumptions:
  * - pollId is valid.
  * - userId or fingerprint is provided.
+ * - referrer is already reduced to a source name by referrerSource.
  *
  * Edge Cases:
  * - Silently ignores duplicate key errors (unique constraint).
@@ -671,6 +1267,7 @@ export async function recordPollView(
   pollId: string,
   userId?: string,
   fingerprint?: string,
+  referrer?: string | null,
 ): Promise<void> {
   const supabase = createClientSupabase();
 
@@ -679,6 +1276,7 @@ export async function recordPollView(
       poll_id: pollId,
       viewer_id: userId || null,
       viewer_fingerprint: fingerprint || null,
+      referrer: referrer || null,
     };
 
     // Insert view record (will be ignored if already exists due to unique constraint)
@@ -691,9 +1289,6 @@ export async function recordPollView(
       );
     }
   } catch (error) {
-    if (error instanceof DatabaseError) {
-      throw error;
-    }
     // Silently fail for view tracking to not disrupt user experience
     console.error("Error recording poll view:", error);
   }
@@ -739,6 +1334,75 @@ export async function getUserPollStats(
   }
 }
 
+/**
+ * getPollAnalytics builds a poll's analytics: totals, activity over time and traffic sources.
+ *
+ * Assumptions:
+ * - Called on behalf of the poll's creator; the "get_poll_analytics" RPC checks this.
+ * - from and to bound the time series only; totals and referrers cover the poll's lifetime.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError with code "P0002" if the poll is missing or not the caller's.
+ * - Buckets with no activity are included with a count of 0.
+ * - The database keeps only the latest 500 buckets of a longer range.
+ *
+ * Connections:
+ * - Used by the analytics API route and the creator's analytics page.
+ */
+export async function getPollAnalytics(
+  pollId: string,
+  options: {
+    bucket?: AnalyticsBucket;
+    from?: Date | null;
+    to?: Date | null;
+  } = {},
+): Promise<PollAnalytics> {
+  const supabase = createServerSupabase();
+  const { bucket = "day", from, to } = options;
+
+  try {
+    const { data: activity, error: activityError } = await supabase.rpc(
+      "get_poll_analytics",
+      {
+        poll_uuid: pollId,
+        bucket_size: bucket,
+        range_start: from?.toISOString() ?? null,
+        range_end: to?.toISOString() ?? null,
+      },
+    );
+
+    if (activityError) {
+      throw new DatabaseError(
+        `Failed to get poll analytics: ${activityError.message}`,
+        activityError.code,
+      );
+    }
+
+    const [{ data: poll, error: pollError }, results] = await Promise.all([
+      supabase.from("polls").select("*").eq("id", pollId).single(),
+      getPollResults(pollId),
+    ]);
+
+    if (pollError) {
+      throw new DatabaseError(
+        `Failed to fetch poll: ${pollError.message}`,
+        pollError.code,
+      );
+    }
+
+    return {
+      ...(activity as Omit<PollAnalytics, "poll" | "results">),
+      poll,
+      results,
+    };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching poll analytics: ${error}`);
+  }
+}
+
 /**
  * refreshPopularPolls triggers a database RPC to refresh popular polls cache.
  *
@@ -773,98 +1437,1195 @@ export async function refreshPopularPolls(): Promise<void> {
   }
 }
 
+// Columns returned for API keys; the hash never leaves the database
+const API_KEY_COLUMNS =
+  "id, user_id, name, key_prefix, scopes, last_used_at, expires_at, revoked_at, created_at";
+
+// Live keys a user may hold at once
+export const MAX_API_KEYS_PER_USER = 25;
+
 /**
- * generateFingerprint creates a browser fingerprint for anonymous voting/tracking.
+ * createApiKey issues a new personal API key for a user.
  *
  * Assumptions:
- * - Runs in a browser environment.
+ * - Called on behalf of userId with a cookie session; RLS only lets users create their own keys.
+ * - keyData has been validated with createApiKeySchema.
  *
  * Edge Cases:
- * - Uses simple hashing; not cryptographically secure.
+ * - Throws DatabaseError with code "KEY_LIMIT" once the user holds MAX_API_KEYS_PER_USER live keys.
+ * - The full key is returned only here; afterwards only its prefix is visible.
  *
  * Connections:
- * - Used for anonymous vote and view tracking.
+ * - Used by POST /api/keys from the dashboard's API key manager.
  */
-export function generateFingerprint(): string {
-  // Generate a simple fingerprint based on available browser information
-  const canvas = document.createElement("canvas");
-  const ctx = canvas.getContext("2d");
+export async function createApiKey(
+  userId: string,
+  keyData: CreateApiKeyForm,
+): Promise<CreatedApiKey> {
+  const supabase = createServerSupabase();
 
-  if (ctx) {
-    ctx.textBaseline = "top";
-    ctx.font = "14px Arial";
-    ctx.fillText("Browser fingerprint", 2, 2);
-  }
+  try {
+    const { count, error: countError } = await supabase
+      .from("api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("revoked_at", null);
 
-  const fingerprint = [
-    navigator.userAgent,
-    navigator.language,
-    navigator.platform,
-    new Date().getTimezoneOffset(),
-    screen.width + "x" + screen.height,
-    screen.colorDepth,
-    canvas.toDataURL(),
-  ].join("|");
+    if (countError) {
+      throw new DatabaseError(
+        `Failed to count API keys: ${countError.message}`,
+        countError.code,
+      );
+    }
 
-  // Create a simple hash
-  let hash = 0;
-  for (let i = 0; i < fingerprint.length; i++) {
-    const char = fingerprint.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
+    if ((count || 0) >= MAX_API_KEYS_PER_USER) {
+      throw new DatabaseError(
+        `You can have at most ${MAX_API_KEYS_PER_USER} active API keys`,
+        "KEY_LIMIT",
+      );
+    }
 
-  return Math.abs(hash).toString(36);
+    const key = generateApiKey();
+    const { data, error } = await supabase
+      .from("api_keys")
+      .insert({
+        user_id: userId,
+        name: keyData.name,
+        key_prefix: apiKeyDisplayPrefix(key),
+        key_hash: await hashApiKey(key),
+        scopes: keyData.scopes,
+        expires_at: keyData.expires_at?.toISOString() || null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create API key: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return { apiKey: data, key };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error creating API key: ${error}`);
+  }
 }
 
 /**
- * canUserVote determines if a user is allowed to vote in a poll.
+ * getApiKeys lists a user's API keys, newest first.
  *
  * Assumptions:
- * - poll is a valid Poll object.
- * - userVote is an array of Vote objects or undefined.
+ * - RLS limits the rows to the signed-in user's keys.
  *
  * Edge Cases:
- * - Returns false if poll expired or user already voted (and multiple votes not allowed).
+ * - Includes revoked and expired keys so their history stays visible.
+ * - Throws DatabaseError on error.
  *
  * Connections:
- * - Used to enable/disable voting UI.
+ * - Used by GET /api/keys.
  */
-export function canUserVote(poll: Poll, userVote?: Vote[]): boolean {
-  // Check if poll has expired
-  if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-    return false;
-  }
+export async function getApiKeys(userId: string): Promise<ApiKey[]> {
+  const supabase = createServerSupabase();
 
-  // Check if user has already voted and multiple votes are not allowed
-  if (!poll.allow_multiple_votes && userVote && userVote.length > 0) {
-    return false;
-  }
+  try {
+    const { data, error } = await supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch API keys: ${error.message}`,
+        error.code,
+      );
+    }
 
-  return true;
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching API keys: ${error}`);
+  }
 }
 
 /**
- * getPollStatus returns the status of a poll ("active", "expired", or "draft").
+ * revokeApiKey permanently disables one of a user's API keys.
  *
  * Assumptions:
- * - poll is a valid Poll object.
+ * - RLS only lets users update their own keys.
  *
  * Edge Cases:
- * - Returns "expired" if poll has expired.
- * - Returns "draft" if poll is not public.
+ * - Returns null if the key does not exist, is not the user's or was already revoked.
+ * - Requests already holding a token minted from the key keep working until it expires.
  *
  * Connections:
- * - Used to display poll status in UI.
+ * - Used by DELETE /api/keys/[id].
  */
-export function getPollStatus(poll: Poll): "active" | "expired" | "draft" {
-  if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-    return "expired";
-  }
+export async function revokeApiKey(
+  keyId: string,
+  userId: string,
+): Promise<ApiKey | null> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("api_keys")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", keyId)
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .select(API_KEY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to revoke API key: ${error.message}`,
+        error.code,
+      );
+    }
 
-  if (!poll.is_public) {
-    return "draft";
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error revoking API key: ${error}`);
   }
+}
 
-  return "active";
+// Columns returned for webhooks; the signing secret is only shown at creation
+const WEBHOOK_COLUMNS =
+  "id, owner_id, poll_id, url, events, vote_threshold, is_active, created_at, updated_at";
+
+// Webhooks a user may register across all of their polls
+export const MAX_WEBHOOKS_PER_USER = 20;
+
+type ClaimedWebhookDelivery =
+  Database["public"]["Functions"]["claim_webhook_deliveries"]["Returns"][0];
+
+// The service-role client is untyped: createClient<Database> cannot type this
+// schema's RPCs and updates, so results are cast to the Database types instead
+const createWorkerSupabase = () =>
+  createAdminSupabase() as unknown as SupabaseClient;
+
+/**
+ * createWebhook registers an endpoint to be notified of poll events.
+ *
+ * Assumptions:
+ * - Called on behalf of userId; RLS only allows webhooks on the user's own polls.
+ * - webhookData has been validated with createWebhookSchema.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError with code "WEBHOOK_LIMIT" once the user has MAX_WEBHOOKS_PER_USER webhooks.
+ * - The signing secret is returned only here.
+ *
+ * Connections:
+ * - Used by POST /api/webhooks; deliveries are queued by database triggers.
+ */
+export async function createWebhook(
+  userId: string,
+  webhookData: CreateWebhookForm,
+): Promise<CreatedWebhook> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { count, error: countError } = await supabase
+      .from("webhooks")
+      .select("id", { count: "exact", head: true })
+      .eq("owner_id", userId);
+
+    if (countError) {
+      throw new DatabaseError(
+        `Failed to count webhooks: ${countError.message}`,
+        countError.code,
+      );
+    }
+
+    if ((count || 0) >= MAX_WEBHOOKS_PER_USER) {
+      throw new DatabaseError(
+        `You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`,
+        "WEBHOOK_LIMIT",
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    const { data, error } = await supabase
+      .from("webhooks")
+      .insert({
+        owner_id: userId,
+        poll_id: webhookData.poll_id || null,
+        url: webhookData.url,
+        secret,
+        events: webhookData.events,
+        vote_threshold: webhookData.vote_threshold ?? null,
+      })
+      .select(WEBHOOK_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create webhook: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return { webhook: data, secret };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error creating webhook: ${error}`);
+  }
+}
+
+/**
+ * getWebhooks lists a user's webhooks, newest first.
+ *
+ * Assumptions:
+ * - RLS limits the rows to the signed-in user's webhooks.
+ *
+ * Edge Cases:
+ * - With a pollId only that poll's webhooks are returned, otherwise only account-wide ones.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by GET /api/webhooks.
+ */
+export async function getWebhooks(
+  userId: string,
+  pollId?: string | null,
+): Promise<Webhook[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    let query = supabase
+      .from("webhooks")
+      .select(WEBHOOK_COLUMNS)
+      .eq("owner_id", userId);
+
+    query = pollId ? query.eq("poll_id", pollId) : query.is("poll_id", null);
+
+    const { data, error } = await query.order("created_at", {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch webhooks: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching webhooks: ${error}`);
+  }
+}
+
+/**
+ * setWebhookActive pauses or resumes a webhook.
+ *
+ * Assumptions:
+ * - RLS only lets users update their own webhooks.
+ *
+ * Edge Cases:
+ * - Returns null if the webhook does not exist or is not the user's.
+ * - Deliveries queued before a pause are kept and sent once it is resumed.
+ *
+ * Connections:
+ * - Used by PATCH /api/webhooks/[id].
+ */
+export async function setWebhookActive(
+  webhookId: string,
+  userId: string,
+  isActive: boolean,
+): Promise<Webhook | null> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("webhooks")
+      .update({ is_active: isActive })
+      .eq("id", webhookId)
+      .eq("owner_id", userId)
+      .select(WEBHOOK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update webhook: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error updating webhook: ${error}`);
+  }
+}
+
+/**
+ * deleteWebhook removes a webhook together with its delivery log.
+ *
+ * Assumptions:
+ * - RLS only lets users delete their own webhooks.
+ *
+ * Edge Cases:
+ * - Returns false if the webhook does not exist or is not the user's.
+ *
+ * Connections:
+ * - Used by DELETE /api/webhooks/[id].
+ */
+export async function deleteWebhook(
+  webhookId: string,
+  userId: string,
+): Promise<boolean> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("webhooks")
+      .delete()
+      .eq("id", webhookId)
+      .eq("owner_id", userId)
+      .select("id");
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete webhook: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return (data || []).length > 0;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error deleting webhook: ${error}`);
+  }
+}
+
+/**
+ * getWebhookDeliveries returns the most recent deliveries of a webhook.
+ *
+ * Assumptions:
+ * - RLS only returns deliveries of the signed-in user's webhooks.
+ *
+ * Edge Cases:
+ * - Returns an empty list for webhooks the user cannot see.
+ *
+ * Connections:
+ * - Used by GET /api/webhooks/[id]/deliveries for the delivery log.
+ */
+export async function getWebhookDeliveries(
+  webhookId: string,
+  limit: number = 50,
+): Promise<WebhookDelivery[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("webhook_id", webhookId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch webhook deliveries: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error fetching webhook deliveries: ${error}`,
+    );
+  }
+}
+
+// Columns returned for invites; the token hash is never selected
+const POLL_INVITE_COLUMNS =
+  "id, poll_id, label, expires_at, max_uses, revoked_at, created_at";
+
+// Invite links a poll may have, revoked ones included
+export const MAX_INVITES_PER_POLL = 50;
+
+/**
+ * createPollInvite creates an invite link to one of the user's polls.
+ *
+ * Assumptions:
+ * - Called on behalf of userId, the poll's creator; RLS rejects invites to other polls.
+ * - inviteData has been validated with createPollInviteSchema.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError with code "INVITE_LIMIT" once the poll has MAX_INVITES_PER_POLL invites.
+ * - The token is returned only here; the database keeps its hash.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/invites; tokens are redeemed with redeemPollInvite.
+ */
+export async function createPollInvite(
+  pollId: string,
+  userId: string,
+  inviteData: CreatePollInviteForm,
+): Promise<CreatedPollInvite> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { count, error: countError } = await supabase
+      .from("poll_shares")
+      .select("id", { count: "exact", head: true })
+      .eq("poll_id", pollId)
+      .eq("share_method", "invite");
+
+    if (countError) {
+      throw new DatabaseError(
+        `Failed to count invites: ${countError.message}`,
+        countError.code,
+      );
+    }
+
+    if ((count || 0) >= MAX_INVITES_PER_POLL) {
+      throw new DatabaseError(
+        `A poll can have at most ${MAX_INVITES_PER_POLL} invite links`,
+        "INVITE_LIMIT",
+      );
+    }
+
+    const token = generateInviteToken();
+    const { data, error } = await supabase
+      .from("poll_shares")
+      .insert({
+        poll_id: pollId,
+        sharer_id: userId,
+        share_method: "invite",
+        token_hash: await hashInviteToken(token),
+        label: inviteData.label || null,
+        expires_at: inviteData.expires_at?.toISOString() ?? null,
+        max_uses: inviteData.max_uses ?? null,
+      })
+      .select(POLL_INVITE_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create invite: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return { invite: { ...data, redemption_count: 0 }, token };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error creating invite: ${error}`);
+  }
+}
+
+/**
+ * getPollInvites lists a poll's invite links with their redemption counts, newest first.
+ *
+ * Assumptions:
+ * - Only the poll's creator gets rows back.
+ *
+ * Edge Cases:
+ * - Revoked invites are included so their counts stay visible.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by GET /api/polls/[id]/invites.
+ */
+export async function getPollInvites(pollId: string): Promise<PollInvite[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("get_poll_invites", {
+      poll_uuid: pollId,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch invites: ${error.message}`,
+        error.code,
+      );
+    }
+
+    // bigint counts can arrive as strings
+    return (data || []).map((invite: PollInvite) => ({
+      ...invite,
+      redemption_count: Number(invite.redemption_count),
+    }));
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching invites: ${error}`);
+  }
+}
+
+/**
+ * revokePollInvite permanently disables an invite link.
+ *
+ * Assumptions:
+ * - RLS only lets the poll's creator update its invites.
+ *
+ * Edge Cases:
+ * - Returns false if the invite does not exist, belongs to another poll or was already revoked.
+ * - Everyone who redeemed the invite loses access; votes they cast are kept.
+ *
+ * Connections:
+ * - Used by DELETE /api/polls/[id]/invites/[inviteId].
+ */
+export async function revokePollInvite(
+  inviteId: string,
+  pollId: string,
+): Promise<boolean> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_shares")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", inviteId)
+      .eq("poll_id", pollId)
+      .eq("share_method", "invite")
+      .is("revoked_at", null)
+      .select("id");
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to revoke invite: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return (data || []).length > 0;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error revoking invite: ${error}`);
+  }
+}
+
+/**
+ * redeemPollInvite uses an invite token, giving the visitor access to its poll.
+ *
+ * Assumptions:
+ * - Runs in the browser; guests must pass the fingerprint they vote with.
+ *
+ * Edge Cases:
+ * - Redeeming a token again is allowed and does not count as another use.
+ * - Throws DatabaseError for invalid, revoked, expired and used-up invites.
+ *
+ * Connections:
+ * - Used by usePoll when the poll page is opened from an invite link.
+ */
+export async function redeemPollInvite(
+  token: string,
+  fingerprint?: string,
+): Promise<string> {
+  const supabase = createClientSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("redeem_poll_invite", {
+      invite_token: token,
+      fingerprint: fingerprint || null,
+    });
+
+    if (error) {
+      throw new DatabaseError(error.message, error.code);
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error redeeming invite: ${error}`);
+  }
+}
+
+// Suggestions are returned with their suggester's public profile
+const OPTION_SUGGESTION_COLUMNS =
+  "*, suggester:profiles(id, username, avatar_url)";
+
+/**
+ * getOptionSuggestions lists a poll's option suggestions, oldest first.
+ *
+ * Assumptions:
+ * - RLS returns every suggestion to the poll's creator and only their own to other users.
+ *
+ * Edge Cases:
+ * - Reviewed suggestions are included with their status.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by GET /api/polls/[id]/suggestions.
+ */
+export async function getOptionSuggestions(
+  pollId: string,
+): Promise<PollOptionSuggestion[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_option_suggestions")
+      .select(OPTION_SUGGESTION_COLUMNS)
+      .eq("poll_id", pollId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch suggestions: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching suggestions: ${error}`);
+  }
+}
+
+/**
+ * createOptionSuggestion suggests a new option for a poll that takes suggestions.
+ *
+ * Assumptions:
+ * - Called on behalf of userId, who is signed in.
+ * - suggestionData has been validated with createOptionSuggestionSchema and
+ *   checked against the poll's options with validateOptionSuggestion.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError with code "23505" if the option is already on the poll
+ *   or pending, and "23514" once the poll is full or the user has 3 pending
+ *   suggestions on it.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/suggestions; reviewed with reviewOptionSuggestion.
+ */
+export async function createOptionSuggestion(
+  pollId: string,
+  userId: string,
+  suggestionData: CreateOptionSuggestionForm,
+): Promise<PollOptionSuggestion> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_option_suggestions")
+      .insert({
+        poll_id: pollId,
+        suggested_by: userId,
+        text: suggestionData.text,
+        auto_vote: suggestionData.auto_vote ?? false,
+      })
+      .select(OPTION_SUGGESTION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to suggest option: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error suggesting option: ${error}`);
+  }
+}
+
+/**
+ * reviewOptionSuggestion approves or rejects a pending suggestion as the poll's creator.
+ *
+ * Assumptions:
+ * - The caller is the poll's creator; review_option_suggestion checks auth.uid().
+ *
+ * Edge Cases:
+ * - Approving adds the option to the end of the poll and logs it in poll_edits.
+ * - Suggesters' votes for approved options are cast separately, by
+ *   castSuggestionVote.
+ * - Throws DatabaseError with code "P0002" for missing or already reviewed
+ *   suggestions, "23505" if the option is already on the poll and "23514" if
+ *   the poll is full.
+ *
+ * Connections:
+ * - Used by PATCH /api/polls/[id]/suggestions/[suggestionId].
+ */
+export async function reviewOptionSuggestion(
+  suggestionId: string,
+  approve: boolean,
+): Promise<PollOptionSuggestion> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("review_option_suggestion", {
+      suggestion_uuid: suggestionId,
+      approve,
+    });
+
+    if (error) {
+      throw new DatabaseError(error.message, error.code);
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error reviewing suggestion: ${error}`);
+  }
+}
+
+/**
+ * getFlaggedBallots lists a poll's ballots flagged by the fraud checks, held ones first.
+ *
+ * Assumptions:
+ * - The caller is the poll's creator; get_flagged_ballots checks auth.uid().
+ *
+ * Edge Cases:
+ * - Ballots already accepted or rejected are included with their status.
+ * - Voters are not identified, and IP addresses and user agents are never returned.
+ * - Throws DatabaseError with code "P0002" for unknown polls and non-creators.
+ *
+ * Connections:
+ * - Used by GET /api/polls/[id]/quarantine.
+ */
+export async function getFlaggedBallots(
+  pollId: string,
+): Promise<FlaggedBallot[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("get_flagged_ballots", {
+      poll_uuid: pollId,
+    });
+
+    if (error) {
+      throw new DatabaseError(error.message, error.code);
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error fetching flagged ballots: ${error}`,
+    );
+  }
+}
+
+/**
+ * reviewQuarantinedVotes accepts or rejects votes held by the fraud checks.
+ *
+ * Assumptions:
+ * - The caller is the poll's creator; review_quarantined_votes checks auth.uid().
+ *
+ * Edge Cases:
+ * - Accepted votes count towards the results; rejected ones are kept but never counted.
+ * - Votes that are not held, or belong to another poll, are skipped, so the
+ *   count returned can be lower than voteIds.length.
+ * - Throws DatabaseError with code "P0002" for unknown polls and non-creators.
+ *
+ * Connections:
+ * - Used by PATCH /api/polls/[id]/quarantine.
+ */
+export async function reviewQuarantinedVotes(
+  pollId: string,
+  voteIds: string[],
+  accept: boolean,
+): Promise<number> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("review_quarantined_votes", {
+      poll_uuid: pollId,
+      vote_uuids: voteIds,
+      accept,
+    });
+
+    if (error) {
+      throw new DatabaseError(error.message, error.code);
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error reviewing votes: ${error}`);
+  }
+}
+
+// Comments are returned with their author's public profile
+const POLL_COMMENT_COLUMNS = "*, author:profiles(id, username, avatar_url)";
+
+// Comments loaded per poll; discussions longer than this are cut off at the newest
+export const MAX_POLL_COMMENTS = 500;
+
+/**
+ * getPollComments lists a poll's comments, oldest first.
+ *
+ * Assumptions:
+ * - RLS only returns comments of polls the caller can view.
+ *
+ * Edge Cases:
+ * - Deleted comments that still have replies are included with an empty body.
+ * - Returns at most MAX_POLL_COMMENTS comments.
+ * - Throws DatabaseError on error.
+ *
+ * Connections:
+ * - Used by GET /api/polls/[id]/comments; threads are built by PollComments.
+ */
+export async function getPollComments(pollId: string): Promise<PollComment[]> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_comments")
+      .select(POLL_COMMENT_COLUMNS)
+      .eq("poll_id", pollId)
+      .order("created_at", { ascending: true })
+      .limit(MAX_POLL_COMMENTS);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch comments: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error fetching comments: ${error}`);
+  }
+}
+
+/**
+ * createPollComment posts a comment, or a reply to one, on a poll.
+ *
+ * Assumptions:
+ * - Called on behalf of userId, who is signed in.
+ * - commentData has been validated with createPollCommentSchema.
+ *
+ * Edge Cases:
+ * - RLS rejects comments on drafts and polls the user cannot view, and
+ *   replies to deleted comments or comments of another poll.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/comments.
+ */
+export async function createPollComment(
+  pollId: string,
+  userId: string,
+  commentData: CreatePollCommentForm,
+): Promise<PollComment> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_comments")
+      .insert({
+        poll_id: pollId,
+        author_id: userId,
+        parent_id: commentData.parent_id || null,
+        body: commentData.body,
+        show_vote: commentData.show_vote ?? false,
+      })
+      .select(POLL_COMMENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to post comment: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error posting comment: ${error}`);
+  }
+}
+
+/**
+ * editPollComment changes the text of a comment, or whether it shows the author's vote.
+ *
+ * Assumptions:
+ * - RLS only lets authors edit their own comments.
+ *
+ * Edge Cases:
+ * - Returns null if the comment does not exist, belongs to another poll or
+ *   user, or was deleted.
+ * - The database stamps edited_at when the text changes.
+ *
+ * Connections:
+ * - Used by PATCH /api/polls/[id]/comments/[commentId].
+ */
+export async function editPollComment(
+  commentId: string,
+  pollId: string,
+  commentData: EditPollCommentForm,
+): Promise<PollComment | null> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data, error } = await supabase
+      .from("poll_comments")
+      .update({
+        ...(commentData.body !== undefined && { body: commentData.body }),
+        ...(commentData.show_vote !== undefined && {
+          show_vote: commentData.show_vote,
+        }),
+      })
+      .eq("id", commentId)
+      .eq("poll_id", pollId)
+      .is("deleted_at", null)
+      .select(POLL_COMMENT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to edit comment: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error editing comment: ${error}`);
+  }
+}
+
+/**
+ * deletePollComment deletes a comment as its author, or removes it as the poll's creator.
+ *
+ * Assumptions:
+ * - The caller is signed in.
+ *
+ * Edge Cases:
+ * - Comments with replies are blanked rather than deleted, so threads stay intact.
+ * - Throws DatabaseError with code "P0002" for missing or already deleted
+ *   comments and "42501" for anyone but the author or poll creator.
+ *
+ * Connections:
+ * - Used by DELETE /api/polls/[id]/comments/[commentId].
+ */
+export async function deletePollComment(commentId: string): Promise<void> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { error } = await supabase.rpc("delete_poll_comment", {
+      comment_uuid: commentId,
+    });
+
+    if (error) {
+      throw new DatabaseError(error.message, error.code);
+    }
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error deleting comment: ${error}`);
+  }
+}
+
+/**
+ * advancePollStatuses opens scheduled polls and closes expired ones.
+ *
+ * Assumptions:
+ * - Runs on the server with the service role key.
+ *
+ * Edge Cases:
+ * - Handles a bounded batch per call; the rest is picked up on the next run.
+ * - Each change is logged in poll_status_changes and queues its webhook
+ *   notifications (poll.opened, poll.expired) in the database.
+ *
+ * Connections:
+ * - Run by the scheduled job runner in lib/jobs.ts.
+ */
+export async function advancePollStatuses(): Promise<
+  Database["public"]["Functions"]["advance_poll_statuses"]["Returns"]
+> {
+  const supabase = createWorkerSupabase();
+
+  try {
+    const { data, error } = await supabase.rpc("advance_poll_statuses");
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to advance poll statuses: ${error.message}`,
+        error.code,
+      );
+    }
+
+    return data || [];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error advancing poll statuses: ${error}`,
+    );
+  }
+}
+
+/**
+ * processWebhookDeliveries sends due webhook deliveries and records the outcome.
+ *
+ * Assumptions:
+ * - Runs on the server with the service role key; deliveries are claimed atomically,
+ *   so several workers can run at once.
+ *
+ * Edge Cases:
+ * - Failed deliveries are retried with webhookRetryDelay backoff and marked failed
+ *   after WEBHOOK_MAX_ATTEMPTS attempts.
+ * - A worker that dies mid-batch leaves its deliveries to be claimed again once the lease ends.
+ *
+ * Connections:
+ * - Run right after responses that may queue events and by the job runner in lib/jobs.ts.
+ */
+export async function processWebhookDeliveries(
+  batchSize: number = 25,
+): Promise<{ succeeded: number; retrying: number; failed: number }> {
+  const supabase = createWorkerSupabase();
+  const summary = { succeeded: 0, retrying: 0, failed: 0 };
+
+  try {
+    const { data, error } = await supabase.rpc("claim_webhook_deliveries", {
+      batch_size: batchSize,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to claim webhook deliveries: ${error.message}`,
+        error.code,
+      );
+    }
+
+    const deliveries = (data as ClaimedWebhookDelivery[] | null) || [];
+
+    await Promise.all(
+      deliveries.map(async (delivery) => {
+        const result = await deliverWebhook(delivery);
+        const exhausted = delivery.attempts >= WEBHOOK_MAX_ATTEMPTS;
+        const status = result.ok ? "succeeded" : exhausted ? "failed" : "pending";
+
+        const { error: updateError } = await supabase
+          .from("webhook_deliveries")
+          .update({
+            status,
+            response_status: result.status,
+            last_error: result.error,
+            delivered_at: result.ok ? new Date().toISOString() : null,
+            next_attempt_at:
+              status === "pending"
+                ? new Date(
+                    Date.now() + webhookRetryDelay(delivery.attempts),
+                  ).toISOString()
+                : null,
+          })
+          .eq("id", delivery.id);
+
+        if (updateError) {
+          // The lease runs out and the delivery is retried, possibly twice
+          console.error("Failed to record webhook delivery:", updateError);
+        }
+
+        summary[status === "pending" ? "retrying" : status]++;
+      }),
+    );
+
+    return summary;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error processing webhook deliveries: ${error}`,
+    );
+  }
+}
+
+/**
+ * generateFingerprint creates a browser fingerprint for anonymous tracking.
+ *
+ * Assumptions:
+ * - Runs in a browser environment.
+ *
+ * Edge Cases:
+ * - Uses simple hashing; not cryptographically secure, and the browser can
+ *   send any value it likes, so it never decides who may vote. Guest votes
+ *   are deduped by the signed voter cookie instead (lib/anonymous-voters).
+ *
+ * Connections:
+ * - Used by usePoll and PollComments for view tracking and invite access.
+ */
+export function generateFingerprint(): string {
+  // Generate a simple fingerprint based on available browser information
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+
+  if (ctx) {
+    ctx.textBaseline = "top";
+    ctx.font = "14px Arial";
+    ctx.fillText("Browser fingerprint", 2, 2);
+  }
+
+  const fingerprint = [
+    navigator.userAgent,
+    navigator.language,
+    navigator.platform,
+    new Date().getTimezoneOffset(),
+    screen.width + "x" + screen.height,
+    screen.colorDepth,
+    canvas.toDataURL(),
+  ].join("|");
+
+  // Create a simple hash
+  let hash = 0;
+  for (let i = 0; i < fingerprint.length; i++) {
+    const char = fingerprint.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  return Math.abs(hash).toString(36);
 }
@@ -0,0 +1,454 @@
+import { createHmac } from "crypto";
+import { constants, deflateRawSync } from "zlib";
+import {
+  ExportDataset,
+  ExportFormat,
+  PollResult,
+  Vote,
+  VoteExportRow,
+} from "@/types/database";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "xlsx"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const RESULT_COLUMNS = [
+  "option_text",
+  "vote_count",
+  "percentage",
+  "average_score",
+  "median_score",
+] as const;
+
+const VOTE_COLUMNS = [
+  "option_text",
+  "created_at",
+  "voter_key",
+  "rank",
+  "score",
+  "review_status",
+] as const;
+
+type Cell = string | number | null;
+type VotePages = AsyncIterable<VoteExportRow[]>;
+
+/**
+ * anonymiseVoter derives a stable, non-reversible key for whoever cast a vote.
+ *
+ * Assumptions:
+ * - secret is a server-only value, so keys cannot be recomputed from known user ids.
+ *
+ * Edge Cases:
+ * - Votes with neither a user nor a fingerprint get a key of their own.
+ * - The same voter gets different keys in different polls.
+ *
+ * Connections:
+ * - Used by toVoteExportRows for the voter_key column.
+ */
+export function anonymiseVoter(
+  pollId: string,
+  vote: Pick<Vote, "id" | "user_id" | "voter_fingerprint">,
+  secret: string,
+): string {
+  const identity = vote.user_id
+    ? `user:${vote.user_id}`
+    : vote.voter_fingerprint
+      ? `fingerprint:${vote.voter_fingerprint}`
+      : `vote:${vote.id}`;
+
+  return createHmac("sha256", secret)
+    .update(`${pollId}:${identity}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * toVoteExportRows maps raw votes to export rows without voter identities.
+ *
+ * Assumptions:
+ * - optionTexts maps every option id of the poll to its text.
+ *
+ * Edge Cases:
+ * - Votes for options missing from optionTexts are labelled "Unknown option".
+ * - Held and rejected votes are exported too, marked by their review_status.
+ *
+ * Connections:
+ * - Used by the export route on each page yielded by streamPollVotes.
+ */
+export function toVoteExportRows(
+  pollId: string,
+  votes: Vote[],
+  optionTexts: Record<string, string>,
+  secret: string,
+): VoteExportRow[] {
+  return votes.map((vote) => ({
+    option_text: optionTexts[vote.option_id] ?? "Unknown option",
+    created_at: vote.created_at,
+    voter_key: anonymiseVoter(pollId, vote, secret),
+    rank: vote.rank,
+    score: vote.score,
+    review_status: vote.review_status,
+  }));
+}
+
+/**
+ * createExportStream streams poll results and vote rows in the requested format.
+ *
+ * Assumptions:
+ * - votePages yields rows in the order they should be written.
+ *
+ * Edge Cases:
+ * - CSV holds a single table, chosen by dataset; JSON and XLSX hold both.
+ * - Vote pages are pulled only as the consumer reads, so memory stays flat.
+ * - Cancelling the stream stops pulling further vote pages.
+ *
+ * Connections:
+ * - Used by GET /api/polls/[id]/export.
+ */
+export function createExportStream(
+  format: ExportFormat,
+  dataset: ExportDataset,
+  results: PollResult[],
+  votePages: VotePages,
+): ReadableStream<Uint8Array> {
+  const chunks =
+    format === "csv"
+      ? csvChunks(dataset, results, votePages)
+      : format === "json"
+        ? jsonChunks(results, votePages)
+        : xlsxChunks(results, votePages);
+
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(
+            typeof value === "string" ? encoder.encode(value) : value,
+          );
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+const resultCells = (result: PollResult): Cell[] => [
+  result.option_text,
+  Number(result.vote_count),
+  Number(result.percentage),
+  result.average_score === null ? null : Number(result.average_score),
+  result.median_score === null ? null : Number(result.median_score),
+];
+
+const voteCells = (row: VoteExportRow): Cell[] => [
+  row.option_text,
+  row.created_at,
+  row.voter_key,
+  row.rank,
+  row.score,
+  row.review_status,
+];
+
+// --- CSV ---
+
+/**
+ * csvLine formats one RFC 4180 line.
+ *
+ * Edge Cases:
+ * - Quotes values containing commas, quotes or line breaks.
+ * - Prefixes text starting with =, +, - or @ with a quote so spreadsheets
+ *   do not evaluate it as a formula.
+ */
+export function csvLine(values: Cell[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null) return "";
+        if (typeof value === "number") return String(value);
+
+        const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+async function* csvChunks(
+  dataset: ExportDataset,
+  results: PollResult[],
+  votePages: VotePages,
+): AsyncGenerator<string> {
+  // Byte order mark so Excel opens the file as UTF-8
+  yield "\uFEFF";
+
+  if (dataset === "results") {
+    yield csvLine([...RESULT_COLUMNS]);
+    yield results.map((result) => csvLine(resultCells(result))).join("");
+    return;
+  }
+
+  yield csvLine([...VOTE_COLUMNS]);
+  for await (const page of votePages) {
+    yield page.map((row) => csvLine(voteCells(row))).join("");
+  }
+}
+
+// --- JSON ---
+
+async function* jsonChunks(
+  results: PollResult[],
+  votePages: VotePages,
+): AsyncGenerator<string> {
+  yield `{"results":${JSON.stringify(results)},"votes":[`;
+
+  let first = true;
+  for await (const page of votePages) {
+    if (page.length === 0) continue;
+    yield (first ? "" : ",") + page.map((row) => JSON.stringify(row)).join(",");
+    first = false;
+  }
+
+  yield "]}";
+}
+
+// --- XLSX ---
+
+const XML_HEADER =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const xlsxRow = (values: Cell[]) =>
+  "<row>" +
+  values
+    .map((value) => {
+      if (value === null) return "<c/>";
+      if (typeof value === "number") return `<c><v>${value}</v></c>`;
+      return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    })
+    .join("") +
+  "</row>";
+
+const WORKSHEET_OPEN =
+  XML_HEADER +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+const WORKSHEET_CLOSE = "</sheetData></worksheet>";
+
+const XLSX_STATIC_PARTS: Record<string, string> = {
+  "[Content_Types].xml":
+    XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    XML_HEADER +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Results" sheetId="1" r:id="rId1"/><sheet name="Votes" sheetId="2" r:id="rId2"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>' +
+    "</Relationships>",
+};
+
+async function* xlsxChunks(
+  results: PollResult[],
+  votePages: VotePages,
+): AsyncGenerator<Uint8Array> {
+  async function* resultsSheet() {
+    yield WORKSHEET_OPEN + xlsxRow([...RESULT_COLUMNS]);
+    yield results.map((result) => xlsxRow(resultCells(result))).join("");
+    yield WORKSHEET_CLOSE;
+  }
+
+  async function* votesSheet() {
+    yield WORKSHEET_OPEN + xlsxRow([...VOTE_COLUMNS]);
+    for await (const page of votePages) {
+      yield page.map((row) => xlsxRow(voteCells(row))).join("");
+    }
+    yield WORKSHEET_CLOSE;
+  }
+
+  async function* staticPart(content: string) {
+    yield content;
+  }
+
+  yield* zipChunks([
+    ...Object.entries(XLSX_STATIC_PARTS).map(([name, content]) => ({
+      name,
+      content: staticPart(content),
+    })),
+    { name: "xl/worksheets/sheet1.xml", content: resultsSheet() },
+    { name: "xl/worksheets/sheet2.xml", content: votesSheet() },
+  ]);
+}
+
+// --- ZIP (deflate with data descriptors, so entries can be written as they stream) ---
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+// General purpose flags: sizes follow in a data descriptor (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+// CRC-32 (IEEE) lookup table; zlib.crc32 needs Node 20.15 or later
+const CRC32_TABLE = Uint32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc;
+});
+
+// Continues the checksum of earlier chunks, like zlib.crc32(data, crc)
+function crc32(data: Uint8Array, crc = 0): number {
+  let value = ~crc;
+  for (const byte of data) {
+    value = CRC32_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return ~value >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+async function* zipChunks(
+  files: { name: string; content: AsyncIterable<string> }[],
+): AsyncGenerator<Uint8Array> {
+  const { time, date } = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const entry: ZipEntry = {
+      name: Buffer.from(file.name, "utf8"),
+      offset,
+      crc: 0,
+      size: 0,
+      compressedSize: 0,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes stay zero here and are written in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    const localHeader = Buffer.concat([header, entry.name]);
+    offset += localHeader.length;
+    yield localHeader;
+
+    for await (const text of file.content) {
+      const data = Buffer.from(text, "utf8");
+      if (data.length === 0) continue;
+
+      // Each chunk is compressed on its own and sync-flushed, which keeps the
+      // concatenated output a single valid deflate stream
+      const compressed = deflateRawSync(data, {
+        finishFlush: constants.Z_SYNC_FLUSH,
+      });
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      entry.compressedSize += compressed.length;
+      offset += compressed.length;
+      yield compressed;
+    }
+
+    // Empty final block terminates the deflate stream
+    const finalBlock = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += finalBlock.length;
+    offset += finalBlock.length;
+    yield finalBlock;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    offset += descriptor.length;
+    yield descriptor;
+
+    entries.push(entry);
+  }
+
+  const centralDirectory = Buffer.concat(
+    entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(ZIP_VERSION, 4);
+      record.writeUInt16LE(ZIP_VERSION, 6);
+      record.writeUInt16LE(ZIP_FLAGS, 8);
+      record.writeUInt16LE(ZIP_DEFLATE, 10);
+      record.writeUInt16LE(time, 12);
+      record.writeUInt16LE(date, 14);
+      record.writeUInt32LE(entry.crc >>> 0, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    }),
+  );
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield centralDirectory;
+  yield end;
+}
@@ -0,0 +1,111 @@
+import { Vote, VoteFraudReason, VoteFraudSignals } from "@/types/database";
+
+// Votes scoring at least this much are quarantined until the poll's creator
+// reviews them
+export const QUARANTINE_SCORE = 50;
+
+interface FraudRule {
+  weight: number;
+  label: string;
+  applies: (signals: VoteFraudSignals) => boolean;
+  // Signed-in voters often share an address (an office or campus NAT) and are
+  // already held to one ballot per account, so address rules skip them
+  guestsOnly?: boolean;
+}
+
+// Counts are of other voters on the same poll (get_vote_fraud_signals)
+const FRAUD_RULES: Record<VoteFraudReason, FraudRule> = {
+  ip_burst: {
+    weight: 40,
+    label: "Many votes from one IP address in the last 10 minutes",
+    applies: (signals) => signals.ip_ballots >= 3,
+    guestsOnly: true,
+  },
+  subnet_burst: {
+    weight: 25,
+    label: "Many votes from one network in the last 10 minutes",
+    applies: (signals) => signals.subnet_ballots >= 10,
+    guestsOnly: true,
+  },
+  agent_cluster: {
+    weight: 15,
+    label: "Many votes from an identical browser in the last 10 minutes",
+    applies: (signals) => signals.agent_ballots >= 10,
+    guestsOnly: true,
+  },
+  voter_churn: {
+    weight: 30,
+    label: "Several guest voter ids used on one IP address",
+    applies: (signals) => signals.ip_voter_ids >= 2,
+    guestsOnly: true,
+  },
+  no_view: {
+    weight: 20,
+    label: "Voted without viewing the poll",
+    applies: (signals) =>
+      signals.view_expected && signals.seconds_since_view === null,
+  },
+  fast_vote: {
+    weight: 35,
+    label: "Voted within seconds of viewing the poll",
+    applies: (signals) =>
+      signals.seconds_since_view !== null && signals.seconds_since_view < 3,
+  },
+};
+
+export const VOTE_FRAUD_REASONS = Object.keys(FRAUD_RULES) as VoteFraudReason[];
+
+export const VOTE_FRAUD_REASON_LABELS = Object.fromEntries(
+  VOTE_FRAUD_REASONS.map((reason) => [reason, FRAUD_RULES[reason].label]),
+) as Record<VoteFraudReason, string>;
+
+/**
+ * scoreVote rates how likely a vote is to come from a bot or a ballot stuffer.
+ *
+ * Assumptions:
+ * - signals were read for the voter just before their vote is written.
+ *
+ * Edge Cases:
+ * - Each rule adds its weight once; the score is capped at 100.
+ * - One rule alone never reaches QUARANTINE_SCORE, so a vote is only held
+ *   when signals agree, e.g. a burst from one address voting straight away.
+ * - Signed-in voters are only scored on how they viewed the poll, not on
+ *   others voting from the same address, network or browser.
+ *
+ * Connections:
+ * - Used by castVote, which stores the score and reasons with the vote.
+ */
+export function scoreVote(
+  signals: VoteFraudSignals,
+  isAuthenticated: boolean = false,
+): {
+  score: number;
+  reasons: VoteFraudReason[];
+} {
+  const reasons = VOTE_FRAUD_REASONS.filter(
+    (reason) =>
+      !(isAuthenticated && FRAUD_RULES[reason].guestsOnly) &&
+      FRAUD_RULES[reason].applies(signals),
+  );
+  const score = reasons.reduce(
+    (total, reason) => total + FRAUD_RULES[reason].weight,
+    0,
+  );
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+/**
+ * isCountedVote tells whether a vote counts towards its poll's results.
+ *
+ * Edge Cases:
+ * - Votes never flagged and flagged votes the creator accepted count;
+ *   quarantined and rejected ones do not.
+ *
+ * Connections:
+ * - Mirrors the filter get_poll_results applies (migration 023), for vote
+ *   counts tallied outside it.
+ */
+export function isCountedVote(vote: Pick<Vote, "review_status">): boolean {
+  return !vote.review_status || vote.review_status === "accepted";
+}
@@ -0,0 +1,111 @@
+import { shareUrl } from "@/lib/utils";
+
+// Shared with the browser, so only Web Crypto is used here
+
+// Guests prove their invite on every request with these headers; the database
+// reads them in has_poll_invite_access
+export const POLL_INVITE_HEADER = "x-poll-invite";
+export const FINGERPRINT_HEADER = "x-fingerprint";
+
+// Query parameter carrying the token in invite links
+export const INVITE_QUERY_PARAM = "invite";
+
+const INVITE_STORAGE_PREFIX = "pully:invite:";
+
+const base64url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * generateInviteToken creates the secret part of an invite link.
+ *
+ * Assumptions:
+ * - Web Crypto is available (browsers, Node 20 and the edge runtime).
+ *
+ * Edge Cases:
+ * - Carries 192 bits of randomness, so links cannot be guessed or enumerated.
+ * - URL-safe, so it can go into a query string as is.
+ *
+ * Connections:
+ * - Used by createPollInvite; only hashInviteToken's output is stored.
+ */
+export function generateInviteToken(): string {
+  return base64url(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * hashInviteToken derives the value an invite is stored and looked up by.
+ *
+ * Assumptions:
+ * - token is the full token from the invite link.
+ *
+ * Edge Cases:
+ * - Must stay in step with hash_invite_token in the database, which redeems tokens.
+ *
+ * Connections:
+ * - Used by createPollInvite.
+ */
+export async function hashInviteToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * inviteUrl builds the link that hands out an invite.
+ *
+ * Assumptions:
+ * - token came from generateInviteToken.
+ *
+ * Edge Cases:
+ * - Relative during SSR, like shareUrl.
+ *
+ * Connections:
+ * - Shown once by PollInviteManager; read back by the poll page.
+ */
+export function inviteUrl(pollId: string, token: string): string {
+  return `${shareUrl(pollId)}?${INVITE_QUERY_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/**
+ * rememberInviteToken keeps a redeemed invite token for later visits to the poll.
+ *
+ * Assumptions:
+ * - Runs in the browser.
+ *
+ * Edge Cases:
+ * - Storage can be unavailable (private mode, blocked cookies); the token then lasts for the visit.
+ *
+ * Connections:
+ * - Read back by storedInviteToken in usePoll, which sends it with guest requests.
+ */
+export function rememberInviteToken(pollId: string, token: string): void {
+  try {
+    window.localStorage.setItem(`${INVITE_STORAGE_PREFIX}${pollId}`, token);
+  } catch {
+    // Storage is best effort
+  }
+}
+
+/**
+ * storedInviteToken returns the invite token remembered for a poll, if any.
+ *
+ * Assumptions:
+ * - Runs in the browser.
+ *
+ * Edge Cases:
+ * - Returns null when storage is unavailable.
+ *
+ * Connections:
+ * - Counterpart of rememberInviteToken.
+ */
+export function storedInviteToken(pollId: string): string | null {
+  try {
+    return window.localStorage.getItem(`${INVITE_STORAGE_PREFIX}${pollId}`);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import { advancePollStatuses, processWebhookDeliveries } from "@/lib/database";
+
+export interface JobResult {
+  name: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// Jobs run in order: status changes queue notifications that the delivery job then sends
+export const SCHEDULED_JOBS: { name: string; run: () => Promise<unknown> }[] = [
+  { name: "poll-statuses", run: advancePollStatuses },
+  { name: "webhook-deliveries", run: () => processWebhookDeliveries() },
+];
+
+/**
+ * runScheduledJobs runs every background job once.
+ *
+ * Assumptions:
+ * - Called about once a minute by the cron route; each job handles a bounded batch.
+ *
+ * Edge Cases:
+ * - A failing job is reported in its result and does not stop the jobs after it.
+ *
+ * Connections:
+ * - Used by GET /api/cron/jobs.
+ */
+export async function runScheduledJobs(
+  jobs: typeof SCHEDULED_JOBS = SCHEDULED_JOBS,
+): Promise<JobResult[]> {
+  const results: JobResult[] = [];
+
+  for (const job of jobs) {
+    const startTime = Date.now();
+
+    try {
+      const result = await job.run();
+      results.push({ name: job.name, ok: true, result, durationMs: Date.now() - startTime });
+    } catch (error) {
+      console.error(`Scheduled job ${job.name} failed:`, error);
+      results.push({
+        name: job.name,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startTime,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,112 @@
+// Opaque cursors for poll listings. They are only read by the server, but
+// nothing here needs Node, so the module stays usable anywhere.
+
+export const POLL_ORDER_FIELDS = ["created_at", "updated_at", "title"] as const;
+
+export type PollOrderField = (typeof POLL_ORDER_FIELDS)[number];
+export type PollOrderDirection = "asc" | "desc";
+
+// Where the previous page ended: the last poll's sort value and id, or, for
+// ranked search results, how many results were already returned
+export type PollCursor =
+  | {
+      orderBy: PollOrderField;
+      direction: PollOrderDirection;
+      value: string;
+      id: string;
+    }
+  | { offset: number };
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Non-ASCII characters are written as JSON \u escapes, so the JSON can go
+// through btoa and come back through JSON.parse unchanged
+const toBase64url = (json: string): string =>
+  btoa(
+    json.replace(
+      /[\u007f-\uffff]/g,
+      (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+    ),
+  )
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64url = (value: string): string =>
+  atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+export function isPollOrderField(value: string): value is PollOrderField {
+  return (POLL_ORDER_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * encodePollCursor turns the end of a page into the cursor for the next one.
+ *
+ * Assumptions:
+ * - For keyset cursors, value is the last poll's orderBy column exactly as the
+ *   database returned it, so no timestamp precision is lost.
+ *
+ * Edge Cases:
+ * - The result is URL-safe and means nothing to clients.
+ *
+ * Connections:
+ * - Used by getPollsPage; read back by decodePollCursor.
+ */
+export function encodePollCursor(cursor: PollCursor): string {
+  return toBase64url(JSON.stringify(cursor));
+}
+
+/**
+ * decodePollCursor reads a cursor sent back by a client.
+ *
+ * Assumptions:
+ * - cursor came from encodePollCursor, but may have been tampered with.
+ *
+ * Edge Cases:
+ * - Returns null for anything malformed, including ids that are not UUIDs and
+ *   order fields outside POLL_ORDER_FIELDS, since both end up in a filter.
+ *
+ * Connections:
+ * - Used by getPollsPage.
+ */
+export function decodePollCursor(cursor: string): PollCursor | null {
+  try {
+    const parsed = JSON.parse(fromBase64url(cursor));
+
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    if ("offset" in parsed) {
+      return Number.isInteger(parsed.offset) && parsed.offset >= 0
+        ? { offset: parsed.offset }
+        : null;
+    }
+
+    const { orderBy, direction, value, id } = parsed;
+    if (
+      typeof orderBy !== "string" ||
+      !isPollOrderField(orderBy) ||
+      (direction !== "asc" && direction !== "desc") ||
+      typeof value !== "string" ||
+      typeof id !== "string" ||
+      !UUID_PATTERN.test(id)
+    ) {
+      return null;
+    }
+
+    return { orderBy, direction, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * quoteFilterValue makes any string safe to use as a value in a PostgREST
+ * or() filter, where commas, dots and parentheses would otherwise be parsed.
+ *
+ * Connections:
+ * - Used by getPolls for keyset cursors.
+ */
+export function quoteFilterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
@@ -0,0 +1,95 @@
+import { RankedChoiceResult, RankedChoiceRound } from "@/types/database";
+
+/**
+ * computeInstantRunoff tallies ranked ballots round by round until an option
+ * holds a majority of the ballots still in play.
+ *
+ * Assumptions:
+ * - optionIds lists every option of the poll.
+ * - Each ballot lists option ids from most to least preferred.
+ *
+ * Edge Cases:
+ * - Ignores ranks for unknown options and repeated options on a ballot.
+ * - Ballots whose ranked options are all eliminated count as exhausted.
+ * - Options tied for last place are eliminated together; if that would remove
+ *   every remaining option the poll ends in a tie and winner_id is null.
+ * - Returns no rounds and a null winner when there are no ballots.
+ *
+ * Connections:
+ * - Used by getRankedChoiceResults and the usePoll hook for ranked polls.
+ */
+export function computeInstantRunoff(
+  optionIds: string[],
+  ballots: string[][],
+): RankedChoiceResult {
+  const known = new Set(optionIds);
+  const cleanBallots = ballots
+    .map((ballot) =>
+      ballot.filter(
+        (optionId, index) =>
+          known.has(optionId) && ballot.indexOf(optionId) === index,
+      ),
+    )
+    .filter((ballot) => ballot.length > 0);
+
+  const rounds: RankedChoiceRound[] = [];
+  let remaining = [...optionIds];
+  let winnerId: string | null = null;
+
+  while (cleanBallots.length > 0 && remaining.length > 0) {
+    const tallies = remaining.reduce(
+      (acc, optionId) => {
+        acc[optionId] = 0;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+    let exhausted = 0;
+    for (const ballot of cleanBallots) {
+      const choice = ballot.find((optionId) => optionId in tallies);
+      if (choice) {
+        tallies[choice]++;
+      } else {
+        exhausted++;
+      }
+    }
+
+    const round: RankedChoiceRound = {
+      round: rounds.length + 1,
+      tallies,
+      eliminated: [],
+      exhausted_ballots: exhausted,
+    };
+    rounds.push(round);
+
+    const continuing = cleanBallots.length - exhausted;
+    const leader = remaining.reduce((best, optionId) =>
+      tallies[optionId] > tallies[best] ? optionId : best,
+    );
+
+    if (tallies[leader] * 2 > continuing || remaining.length === 1) {
+      winnerId = leader;
+      break;
+    }
+
+    const lowest = Math.min(...remaining.map((optionId) => tallies[optionId]));
+    const eliminated = remaining.filter(
+      (optionId) => tallies[optionId] === lowest,
+    );
+
+    if (eliminated.length === remaining.length) {
+      // Every remaining option is tied
+      break;
+    }
+
+    round.eliminated = eliminated;
+    remaining = remaining.filter((optionId) => !eliminated.includes(optionId));
+  }
+
+  return {
+    rounds,
+    winner_id: winnerId,
+    total_ballots: cleanBallots.length,
+  };
+}
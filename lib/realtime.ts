@@ -0,0 +1,151 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { createClientSupabase } from "@/lib/supabase-client";
+import { PollResult, PollResultDelta, Vote } from "@/types/database";
+
+export type LiveResultsStatus = "connecting" | "live" | "polling";
+
+interface PollResultsHandlers {
+  onDelta: (deltas: PollResultDelta[]) => void;
+  onResync: () => void;
+  onStatusChange?: (status: LiveResultsStatus) => void;
+}
+
+/**
+ * subscribeToPollResults opens a realtime channel on the votes of a poll.
+ *
+ * Assumptions:
+ * - The votes table is part of the supabase_realtime publication (migration 003).
+ * - Runs in the browser with a client created by createClientSupabase.
+ *
+ * Edge Cases:
+ * - Inserts are pushed as +1 deltas for the voted option.
+ * - Ranked and scored ballot rows ask for a resync, since the runoff or the
+ *   score aggregates have to be recomputed. So do imported ballots, which
+ *   results count separately, and votes held for fraud review, which only
+ *   count towards the raw tally.
+ * - Updates, such as a creator reviewing held votes, and deletes only carry the
+ *   primary key under RLS, so they ask the caller to resync from
+ *   get_poll_results instead of guessing a delta.
+ * - Reports "polling" when the socket errors, times out or closes so the
+ *   caller can fall back to periodic refetching.
+ *
+ * Connections:
+ * - Used by the usePoll hook to keep results live.
+ * - Returns an unsubscribe function that removes the channel.
+ */
+export function subscribeToPollResults(
+  supabase: ReturnType<typeof createClientSupabase>,
+  pollId: string,
+  { onDelta, onResync, onStatusChange }: PollResultsHandlers,
+): () => void {
+  onStatusChange?.("connecting");
+
+  const channel = supabase
+    .channel(`poll-results:${pollId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "votes",
+        filter: `poll_id=eq.${pollId}`,
+      },
+      (payload: RealtimePostgresChangesPayload<Vote>) => {
+        const vote = payload.new as Vote;
+        if (
+          vote.rank != null ||
+          vote.score != null ||
+          vote.source === "import" ||
+          vote.review_status != null
+        ) {
+          onResync();
+          return;
+        }
+        onDelta([{ option_id: vote.option_id, delta: 1, vote_id: vote.id }]);
+      },
+    )
+    .on(
+      "postgres_changes",
+      {
+        event: "UPDATE",
+        schema: "public",
+        table: "votes",
+        filter: `poll_id=eq.${pollId}`,
+      },
+      () => onResync(),
+    )
+    .on(
+      "postgres_changes",
+      // Delete events cannot be filtered server-side
+      { event: "DELETE", schema: "public", table: "votes" },
+      (payload: RealtimePostgresChangesPayload<Vote>) => {
+        const oldVote = payload.old as Partial<Vote>;
+        if (oldVote.poll_id && oldVote.poll_id !== pollId) return;
+        onResync();
+      },
+    )
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        onStatusChange?.("live");
+      } else if (
+        status === "CHANNEL_ERROR" ||
+        status === "TIMED_OUT" ||
+        status === "CLOSED"
+      ) {
+        onStatusChange?.("polling");
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * applyResultDeltas adds vote count deltas to poll results and recomputes percentages.
+ *
+ * Assumptions:
+ * - results follow the get_poll_results shape.
+ *
+ * Edge Cases:
+ * - Ignores deltas for options that are not in results.
+ * - Deltas are counted votes, so they move raw_vote_count by the same amount.
+ * - Never lets a vote count drop below zero.
+ * - Rounds percentages to two decimals like the RPC does.
+ *
+ * Connections:
+ * - Used by the usePoll hook when the live results channel pushes deltas.
+ */
+export function applyResultDeltas(
+  results: PollResult[],
+  deltas: PollResultDelta[],
+): PollResult[] {
+  const deltaByOption = deltas.reduce(
+    (acc, { option_id, delta }) => {
+      acc[option_id] = (acc[option_id] || 0) + delta;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+
+  const counts = results.map((result) =>
+    Math.max(
+      0,
+      Number(result.vote_count) + (deltaByOption[result.option_id] || 0),
+    ),
+  );
+  const totalVotes = counts.reduce((sum, count) => sum + count, 0);
+
+  return results.map((result, index) => ({
+    ...result,
+    vote_count: counts[index],
+    raw_vote_count: Math.max(
+      0,
+      Number(result.raw_vote_count) + (deltaByOption[result.option_id] || 0),
+    ),
+    percentage:
+      totalVotes > 0
+        ? Math.round((counts[index] / totalVotes) * 10000) / 100
+        : 0,
+  }));
+}
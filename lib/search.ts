@@ -0,0 +1,49 @@
+// Markers ts_headline wraps matches in; see search_polls in migration 017
+export const HIGHLIGHT_START = "<mark>";
+export const HIGHLIGHT_END = "</mark>";
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * splitHighlights breaks a search highlight into plain and matched parts.
+ *
+ * Assumptions:
+ * - text comes from search_polls, with matches between HIGHLIGHT_START and HIGHLIGHT_END.
+ *
+ * Edge Cases:
+ * - Parts are plain strings, never HTML, so markup in a poll's own text is shown as typed.
+ * - An unclosed marker highlights the rest of the text.
+ * - Empty parts are dropped.
+ *
+ * Connections:
+ * - Used by PollCard to render search results.
+ */
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let rest = text;
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+
+    rest = rest.slice(start + HIGHLIGHT_START.length);
+    const end = rest.indexOf(HIGHLIGHT_END);
+    const match = end === -1 ? rest : rest.slice(0, end);
+    if (match) {
+      parts.push({ text: match, highlighted: true });
+    }
+    rest = end === -1 ? "" : rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return parts;
+}
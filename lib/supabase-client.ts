@@ -10,11 +10,20 @@ import { Database } from "@/types/database";
  *
  * Edge Cases:
  * - Returns a new client instance on each call.
+ * - Extra headers, such as a guest's poll invite, are sent with every request;
+ *   such clients are never shared with the rest of the app.
  *
  * Connections:
  * - Used in components that require a fresh Supabase client.
  */
-export const createClientSupabase = () => {
+export const createClientSupabase = (headers?: Record<string, string>) => {
+  if (headers) {
+    return createClientComponentClient<Database>({
+      options: { global: { headers } },
+      isSingleton: false,
+    });
+  }
+
   return createClientComponentClient<Database>();
 };
 
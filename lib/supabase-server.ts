@@ -1,7 +1,12 @@
-import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  createRouteHandlerClient,
+  createServerComponentClient,
+} from "@supabase/auth-helpers-nextjs";
 import { createClient } from "@supabase/supabase-js";
-import { cookies } from "next/headers";
+import { cookies, headers, type UnsafeUnwrappedHeaders } from "next/headers";
 import { Database } from "@/types/database";
+import { getBearerToken } from "@/lib/auth";
+import { FINGERPRINT_HEADER, POLL_INVITE_HEADER } from "@/lib/invites";
 
 /**
  * createServerSupabase creates a Supabase client for server-side components with cookie-based auth.
@@ -14,12 +19,58 @@ import { Database } from "@/types/database";
  * Edge Cases:
  * - Returns a new client instance on each call.
  * - Relies on cookies for session management.
+ * - A request with an "Authorization: Bearer" header is authenticated by that token
+ *   instead, so scripts and mobile clients can call the API without cookies.
+ * - A guest's poll invite and fingerprint headers are passed on, so invite access
+ *   works through the API routes as well.
  *
  * Connections:
  * - Used in server components and API routes that require authenticated Supabase access.
  */
 export const createServerSupabase = () => {
-  return createServerComponentClient<Database>({
+  const requestHeaders = headers() as unknown as UnsafeUnwrappedHeaders;
+  const token = getBearerToken(requestHeaders.get("authorization"));
+
+  const inviteHeaders: Record<string, string> = {};
+  for (const name of [POLL_INVITE_HEADER, FINGERPRINT_HEADER]) {
+    const value = requestHeaders.get(name);
+    if (value) inviteHeaders[name] = value;
+  }
+
+  if (token) {
+    return createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        global: { headers: { ...inviteHeaders, Authorization: `Bearer ${token}` } },
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      },
+    );
+  }
+
+  return createServerComponentClient<Database>(
+    { cookies: () => cookies() },
+    { options: { global: { headers: inviteHeaders } } },
+  );
+};
+
+/**
+ * createRouteSupabase creates a Supabase client for route handlers that can write session cookies.
+ *
+ * Assumptions:
+ * - Called inside an API route handler, where Next.js allows setting cookies.
+ *
+ * Edge Cases:
+ * - Sign-in, sign-out and refresh through this client update the auth cookies on the response.
+ *
+ * Connections:
+ * - Used by the /api/auth routes.
+ */
+export const createRouteSupabase = () => {
+  return createRouteHandlerClient<Database>({
     cookies: () => cookies(),
   });
 };
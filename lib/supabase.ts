@@ -3,4 +3,8 @@
 // imported into client-side components.
 
 export { createClientSupabase, supabase } from "./supabase-client";
-export { createServerSupabase, createAdminSupabase } from "./supabase-server";
+export {
+  createServerSupabase,
+  createRouteSupabase,
+  createAdminSupabase,
+} from "./supabase-server";
@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { validatePassword } from "@/lib/utils";
+import { API_KEY_SCOPES } from "@/lib/api-keys";
+import { ANONYMOUS_DEDUPE_LEVELS } from "@/lib/anonymous-voters";
+import { WEBHOOK_EVENTS, isAllowedWebhookUrl } from "@/lib/webhooks";
 
 // Common validation schemas
 export const pollTitleSchema = z
@@ -42,6 +46,343 @@ export const pollExpirationSchema = z.preprocess((arg: any) => {
   return null;
 }, z.date().min(new Date(), "Expiration date must be in the future").optional().nullable());
 
+// Checked against the current time on every parse, unlike the expiration's fixed minimum
+export const pollOpeningSchema = z.preprocess(
+  (arg: any) => {
+    if (typeof arg === "string" && arg !== "") return new Date(arg);
+    if (arg instanceof Date) return arg;
+    return null;
+  },
+  z
+    .date()
+    .refine((date) => date > new Date(), "Opening date must be in the future")
+    .optional()
+    .nullable(),
+);
+
+// A scheduled poll has to open before it expires
+const checkPollSchedule = (
+  data: { opens_at?: Date | null; expires_at?: Date | null },
+  ctx: z.RefinementCtx,
+) => {
+  if (data.opens_at && data.expires_at && data.opens_at >= data.expires_at) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Expiration date must be after the opening date",
+      path: ["expires_at"],
+    });
+  }
+};
+
+// Entries are full addresses (name@example.com) or whole domains (@example.com)
+export const MAX_VOTER_ALLOWLIST_ENTRIES = 500;
+
+export const voterAllowlistSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(
+        /^[^@\s]*@[^@\s]+\.[^@\s]+$/,
+        "Allowed voters must be email addresses or domains like @example.com",
+      ),
+  )
+  .max(
+    MAX_VOTER_ALLOWLIST_ENTRIES,
+    `At most ${MAX_VOTER_ALLOWLIST_ENTRIES} allowed voters can be listed`,
+  )
+  .transform((entries) => Array.from(new Set(entries)));
+
+/**
+ * parseVoterAllowlist splits the allowed voters typed into a form into entries.
+ *
+ * Assumptions:
+ * - text holds emails and @domains separated by newlines, commas, semicolons or spaces.
+ *
+ * Edge Cases:
+ * - Blank entries are dropped; entries are checked by voterAllowlistSchema, not here.
+ *
+ * Connections:
+ * - Used by the create/edit poll form before submitting.
+ */
+export function parseVoterAllowlist(text: string): string[] {
+  return text.split(/[\s,;]+/).filter(Boolean);
+}
+
+// Tags are lowercase words joined by hyphens, like "local-news"
+export const MAX_POLL_TAGS = 5;
+
+export const pollTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((tag) => tag.replace(/^#/, "").replace(/[\s_]+/g, "-"))
+  .pipe(
+    z
+      .string()
+      .min(1, "Tags cannot be empty")
+      .max(30, "Tags must be 30 characters or less")
+      .regex(
+        /^[a-z0-9]+(-[a-z0-9]+)*$/,
+        "Tags can only contain letters, numbers and hyphens",
+      ),
+  );
+
+export const pollTagsSchema = z
+  .array(pollTagSchema)
+  .transform((tags) => Array.from(new Set(tags)))
+  .pipe(
+    z.array(z.string()).max(MAX_POLL_TAGS, `At most ${MAX_POLL_TAGS} tags`),
+  );
+
+/**
+ * parsePollTags splits the tags typed into a form into separate tags.
+ *
+ * Assumptions:
+ * - text holds tags separated by commas; a tag may contain spaces.
+ *
+ * Edge Cases:
+ * - Blank tags are dropped; tags are normalized and checked by pollTagsSchema, not here.
+ *
+ * Connections:
+ * - Used by the create/edit poll form before submitting.
+ */
+export function parsePollTags(text: string): string[] {
+  return text
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export const POLL_TYPES = [
+  "choice",
+  "ranked",
+  "approval",
+  "score",
+  "rating",
+] as const;
+
+export const pollTypeSchema = z.enum(POLL_TYPES).default("choice");
+
+// Allowed score range per scored poll type
+export const SCORE_RANGES = {
+  score: { min: 0, max: 10 },
+  rating: { min: 1, max: 5 },
+} as const;
+
+// Poll types where one submission is a ballot covering several options
+export const BALLOT_POLL_TYPES = ["ranked", "approval", "score", "rating"];
+
+export const loginSchema = z.object({
+  email: z.string({ required_error: "Email is required" }).trim().min(1, "Email is required").email("Please enter a valid email address"),
+  password: z.string({ required_error: "Password is required" }).min(1, "Password is required"),
+});
+
+export const registerSchema = z
+  .object({
+    email: z.string({ required_error: "Email is required" }).trim().min(1, "Email is required").email("Please enter a valid email address"),
+    username: z
+      .string({ required_error: "Username is required" })
+      .trim()
+      .min(3, "Username must be at least 3 characters long")
+      .max(30, "Username must be 30 characters or less")
+      .regex(/^[a-zA-Z0-9_-]+$/, "Username can only contain letters, numbers, hyphens, and underscores"),
+    password: z.string({ required_error: "Password is required" }).superRefine((password, ctx) => {
+      validatePassword(password).errors.forEach((message) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message }),
+      );
+    }),
+    confirmPassword: z
+      .string({ required_error: "Please confirm your password" })
+      .min(1, "Please confirm your password"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+export const createApiKeySchema = z.object({
+  name: z
+    .string({ required_error: "Key name is required" })
+    .trim()
+    .min(1, "Key name is required")
+    .max(100, "Key name must be 100 characters or less"),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES), {
+      required_error: "Choose at least one scope",
+    })
+    .min(1, "Choose at least one scope")
+    .transform((scopes) => Array.from(new Set(scopes))),
+  expires_at: pollExpirationSchema,
+});
+
+export const createWebhookSchema = z
+  .object({
+    url: z
+      .string({ required_error: "Endpoint URL is required" })
+      .trim()
+      .url("Enter a valid URL")
+      .max(2000, "URL must be 2000 characters or less")
+      .refine((url) => isAllowedWebhookUrl(url), {
+        message: "URL must be a public http or https address",
+      }),
+    events: z
+      .array(z.enum(WEBHOOK_EVENTS), {
+        required_error: "Choose at least one event",
+      })
+      .min(1, "Choose at least one event")
+      .transform((events) => Array.from(new Set(events))),
+    poll_id: z.string().uuid("Invalid poll id").nullable().optional(),
+    vote_threshold: z
+      .number()
+      .int("Vote threshold must be a whole number")
+      .positive("Vote threshold must be at least 1")
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.events.includes("poll.vote_threshold") || !!data.vote_threshold,
+    {
+      message: "Set a vote threshold to receive threshold events",
+      path: ["vote_threshold"],
+    },
+  );
+
+export const createPollInviteSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .max(100, "Label must be 100 characters or less")
+    .optional()
+    .nullable(),
+  expires_at: z.preprocess(
+    (arg: any) => {
+      if (typeof arg === "string" && arg !== "") return new Date(arg);
+      if (arg instanceof Date) return arg;
+      return null;
+    },
+    z
+      .date()
+      .refine((date) => date > new Date(), "Expiration date must be in the future")
+      .optional()
+      .nullable(),
+  ),
+  max_uses: z
+    .number()
+    .int("Use limit must be a whole number")
+    .min(1, "Use limit must be at least 1")
+    .max(10000, "Use limit must be 10000 or less")
+    .optional()
+    .nullable(),
+});
+
+export const createOptionSuggestionSchema = z.object({
+  text: pollOptionSchema,
+  auto_vote: z.boolean().default(false),
+});
+
+export const reviewOptionSuggestionSchema = z.object({
+  status: z.enum(["approved", "rejected"], {
+    errorMap: () => ({ message: "Status must be approved or rejected" }),
+  }),
+});
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(2000, "Comment must be 2000 characters or less");
+
+export const createPollCommentSchema = z.object({
+  body: commentBodySchema,
+  parent_id: z.string().uuid("Invalid comment to reply to").optional().nullable(),
+  show_vote: z.boolean().default(false),
+});
+
+export const editPollCommentSchema = z
+  .object({
+    body: commentBodySchema.optional(),
+    show_vote: z.boolean().optional(),
+  })
+  .refine((data) => data.body !== undefined || data.show_vote !== undefined, {
+    message: "Nothing to update",
+  });
+
+// A vote cast in the app; ranked ballots list option_ids most preferred first
+export const voteSchema = z.object({
+  poll_id: z
+    .string({ required_error: "Poll id is required" })
+    .uuid("Invalid poll id"),
+  option_ids: z
+    .array(z.string().uuid("Invalid option id"), {
+      required_error: "Choose at least one option",
+    })
+    .min(1, "Choose at least one option"),
+  scores: z.record(z.number()).optional(),
+});
+
+export const MAX_IMPORTED_BALLOTS = 1000;
+
+export const batchVoteSchema = z.object({
+  pollId: z
+    .string({ required_error: "Poll id is required" })
+    .uuid("Invalid poll id"),
+  votes: z
+    .array(
+      z.object({
+        ballotId: z
+          .string({ required_error: "Ballot id is required" })
+          .trim()
+          .min(1, "Ballot id is required")
+          .max(100, "Ballot id must be 100 characters or less"),
+        optionIds: z
+          .array(z.string().uuid("Invalid option id"), {
+            required_error: "Choose at least one option",
+          })
+          .min(1, "Choose at least one option"),
+        scores: z.record(z.number()).optional(),
+      }),
+      { required_error: "Add at least one ballot" },
+    )
+    .min(1, "Add at least one ballot")
+    .max(
+      MAX_IMPORTED_BALLOTS,
+      `An import can have at most ${MAX_IMPORTED_BALLOTS} ballots`,
+    ),
+});
+
+// Longest ballot CSV accepted, comfortably above MAX_IMPORTED_BALLOTS rows
+export const MAX_BALLOT_CSV_LENGTH = 500_000;
+
+export const ballotCsvImportSchema = z.object({
+  csv: z
+    .string({ required_error: "Add a CSV of ballots" })
+    .trim()
+    .min(1, "Add a CSV of ballots")
+    .max(MAX_BALLOT_CSV_LENGTH, "The CSV is too large to import at once"),
+  commit: z.boolean().optional(),
+});
+
+// Most held votes a creator can review at once
+export const MAX_REVIEWED_VOTES = 500;
+
+export const reviewQuarantinedVotesSchema = z.object({
+  vote_ids: z
+    .array(z.string().uuid("Invalid vote id"), {
+      required_error: "Choose votes to review",
+    })
+    .min(1, "Choose votes to review")
+    .max(
+      MAX_REVIEWED_VOTES,
+      `At most ${MAX_REVIEWED_VOTES} votes can be reviewed at once`,
+    ),
+  status: z.enum(["accepted", "rejected"], {
+    errorMap: () => ({ message: "Status must be accepted or rejected" }),
+  }),
+});
+
 // Complete poll creation schema
 export const createPollSchema = z.object({
   title: pollTitleSchema,
@@ -50,7 +391,65 @@ export const createPollSchema = z.object({
   is_public: z.boolean().default(true),
   allow_multiple_votes: z.boolean().default(false),
   allow_anonymous_votes: z.boolean().default(true),
+  poll_type: pollTypeSchema,
+  opens_at: pollOpeningSchema,
   expires_at: pollExpirationSchema,
+  is_draft: z.boolean().default(false),
+  voter_allowlist: voterAllowlistSchema.default([]),
+  allow_suggestions: z.boolean().default(false),
+  anonymous_dedupe: z
+    .enum(ANONYMOUS_DEDUPE_LEVELS, {
+      errorMap: () => ({ message: "Choose how anonymous votes are checked" }),
+    })
+    .default("device"),
+  tags: pollTagsSchema.default([]),
+});
+
+// Options of an edited poll keep their ids so votes stay attached
+export const editPollOptionsArraySchema = z
+  .array(
+    z.object({
+      id: z.string().uuid("Invalid option id").optional(),
+      text: pollOptionSchema,
+    }),
+  )
+  .min(2, "At least 2 poll options are required")
+  .max(10, "Maximum 10 poll options allowed")
+  .refine(
+    (options) => {
+      const texts = options.map((opt) => opt.text.toLowerCase().trim());
+      return new Set(texts).size === texts.length;
+    },
+    {
+      message: "Poll options must be unique",
+    },
+  );
+
+// Complete poll edit schema; an existing opening or expiration may already be in the past
+// Drafts are published through their own endpoint, not by editing
+export const editPollSchema = createPollSchema.omit({ is_draft: true }).extend({
+  options: editPollOptionsArraySchema,
+  opens_at: z.preprocess(
+    (arg: any) => {
+      if (typeof arg === "string" && arg !== "") return new Date(arg);
+      if (arg instanceof Date) return arg;
+      return null;
+    },
+    z.date().optional().nullable(),
+  ),
+  expires_at: z.preprocess(
+    (arg: any) => {
+      if (typeof arg === "string" && arg !== "") return new Date(arg);
+      if (arg instanceof Date) return arg;
+      return null;
+    },
+    z.date().optional().nullable(),
+  ),
+  // Left out, the allowlist is kept as it is
+  voter_allowlist: voterAllowlistSchema.optional(),
+  // Left out, the tags are kept as they are
+  tags: pollTagsSchema.optional(),
+  confirm_vote_loss: z.boolean().default(false),
 });
 
 // Validation utility functions
@@ -88,6 +487,29 @@ export function validatePollOptions(options: string[]): {
   };
 }
 
+// A suggestion must fit the poll as if the creator had typed it in, within the
+// option cap and unique among the existing options
+export function validateOptionSuggestion(
+  existingOptions: string[],
+  suggestion: string,
+): {
+  isValid: boolean;
+  error?: string;
+} {
+  const result = pollOptionsArraySchema.safeParse([
+    ...existingOptions,
+    suggestion,
+  ]);
+  return {
+    isValid: result.success,
+    error: result.success
+      ? undefined
+      : result.error.errors[0].message === "Poll options must be unique"
+        ? "This option is already on the poll"
+        : result.error.errors[0].message,
+  };
+}
+
 export function validatePollExpiration(expiresAt: Date | null): {
   isValid: boolean;
   error?: string;
@@ -99,6 +521,41 @@ export function validatePollExpiration(expiresAt: Date | null): {
   };
 }
 
+export function validateVoteScores(
+  pollType: string,
+  optionIds: string[],
+  scores?: Record<string, number>,
+): {
+  isValid: boolean;
+  error?: string;
+} {
+  if (pollType !== "score" && pollType !== "rating") {
+    return { isValid: true };
+  }
+
+  const { min, max } = SCORE_RANGES[pollType];
+  const scoreSchema = z
+    .number()
+    .int("Scores must be whole numbers")
+    .min(min, `Scores must be between ${min} and ${max}`)
+    .max(max, `Scores must be between ${min} and ${max}`);
+
+  for (const optionId of optionIds) {
+    const result = scoreSchema.safeParse(scores?.[optionId]);
+    if (!result.success) {
+      return {
+        isValid: false,
+        error:
+          scores?.[optionId] === undefined
+            ? "Every option must be scored"
+            : result.error.errors[0].message,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
 // Helper function to clean and prepare options
 export function cleanPollOptions(options: string[]): string[] {
   return options
@@ -121,7 +578,9 @@ export function validateCreatePollForm(formData: any): {
     options: cleanedOptions,
   };
 
-  const result = createPollSchema.safeParse(cleanedData);
+  const result = createPollSchema
+    .superRefine(checkPollSchedule)
+    .safeParse(cleanedData);
 
   if (result.success) {
     return {
@@ -142,3 +601,174 @@ export function validateCreatePollForm(formData: any): {
     errors,
   };
 }
+
+// Edit form validation function
+export function validateEditPollForm(formData: any): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: any;
+} {
+  const errors: Record<string, string> = {};
+
+  // Drop options left blank and trim the rest
+  const cleanedOptions = (formData.options || [])
+    .map((option: { id?: string; text?: string }) => ({
+      ...option,
+      text: (option.text || "").trim(),
+    }))
+    .filter((option: { text: string }) => option.text !== "");
+  const cleanedData = {
+    ...formData,
+    options: cleanedOptions,
+  };
+
+  const result = editPollSchema
+    .superRefine(checkPollSchedule)
+    .safeParse(cleanedData);
+
+  if (result.success) {
+    return {
+      isValid: true,
+      errors: {},
+      cleanedData: result.data,
+    };
+  }
+
+  result.error.errors.forEach((error: any) => {
+    const fieldName = error.path.join(".");
+    errors[fieldName] = error.message;
+  });
+
+  return {
+    isValid: false,
+    errors,
+  };
+}
+
+// Validates formData against schema, keeping the first error message per field
+function validateForm(schema: z.ZodTypeAny, formData: unknown) {
+  const result = schema.safeParse(formData || {});
+
+  if (result.success) {
+    return {
+      isValid: true,
+      errors: {} as Record<string, string>,
+      cleanedData: result.data,
+    };
+  }
+
+  const errors: Record<string, string> = {};
+  result.error.errors.forEach((error: any) => {
+    const fieldName = error.path.join(".");
+    errors[fieldName] ??= error.message;
+  });
+
+  return {
+    isValid: false,
+    errors,
+  };
+}
+
+export function validateLoginForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof loginSchema>;
+} {
+  return validateForm(loginSchema, formData);
+}
+
+export function validateRegisterForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof registerSchema>;
+} {
+  return validateForm(registerSchema, formData);
+}
+
+export function validateCreateApiKeyForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof createApiKeySchema>;
+} {
+  return validateForm(createApiKeySchema, formData);
+}
+
+export function validateCreateWebhookForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof createWebhookSchema>;
+} {
+  return validateForm(createWebhookSchema, formData);
+}
+
+export function validateCreatePollInviteForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof createPollInviteSchema>;
+} {
+  return validateForm(createPollInviteSchema, formData);
+}
+
+export function validateCreatePollCommentForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof createPollCommentSchema>;
+} {
+  return validateForm(createPollCommentSchema, formData);
+}
+
+export function validateEditPollCommentForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof editPollCommentSchema>;
+} {
+  return validateForm(editPollCommentSchema, formData);
+}
+
+export function validateCreateOptionSuggestionForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof createOptionSuggestionSchema>;
+} {
+  return validateForm(createOptionSuggestionSchema, formData);
+}
+
+export function validateReviewOptionSuggestionForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof reviewOptionSuggestionSchema>;
+} {
+  return validateForm(reviewOptionSuggestionSchema, formData);
+}
+
+export function validateVoteForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof voteSchema>;
+} {
+  return validateForm(voteSchema, formData);
+}
+
+export function validateBatchVoteForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof batchVoteSchema>;
+} {
+  return validateForm(batchVoteSchema, formData);
+}
+
+export function validateBallotCsvImportForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof ballotCsvImportSchema>;
+} {
+  return validateForm(ballotCsvImportSchema, formData);
+}
+
+export function validateReviewQuarantinedVotesForm(formData: unknown): {
+  isValid: boolean;
+  errors: Record<string, string>;
+  cleanedData?: z.infer<typeof reviewQuarantinedVotesSchema>;
+} {
+  return validateForm(reviewQuarantinedVotesSchema, formData);
+}
@@ -0,0 +1,220 @@
+import { Poll, PollStatus, VoteForm } from "@/types/database";
+import { BALLOT_POLL_TYPES, validateVoteScores } from "@/lib/validation";
+
+// The rules every vote is checked against, whichever way it arrives. They
+// run in the browser too, to tell voters up front whether they can vote, so
+// nothing here may import server code. validate_vote repeats the important
+// ones in the database.
+
+// The poll columns the rules read
+export const VOTING_POLL_COLUMNS =
+  "id, status, opens_at, expires_at, allow_multiple_votes, allow_anonymous_votes, poll_type, anonymous_dedupe";
+
+export type VotingPoll = Pick<
+  Poll,
+  | "id"
+  | "status"
+  | "opens_at"
+  | "expires_at"
+  | "allow_multiple_votes"
+  | "allow_anonymous_votes"
+  | "poll_type"
+  | "anonymous_dedupe"
+>;
+
+// Signed-in voters are known by id, guests by the voter id in their cookie.
+// Where the vote came from is recorded for anonymous vote and fraud checks.
+export interface Voter {
+  userId?: string;
+  fingerprint?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  // The browser fingerprint the voter's poll view was recorded with
+  viewerFingerprint?: string | null;
+}
+
+// Codes of the DatabaseErrors castVote throws for votes it turns down
+export const POLL_NOT_FOUND_CODE = "P0002";
+export const VOTE_INVALID_CODE = "22023";
+export const VOTE_LOGIN_REQUIRED_CODE = "PV401";
+export const VOTE_DUPLICATE_CODE = "23505";
+export const VOTE_IMPORT_FORBIDDEN_CODE = "42501";
+
+export type VoteCheck =
+  { allowed: true } | { allowed: false; error: string; code: string };
+
+const reject = (error: string, code: string): VoteCheck => ({
+  allowed: false,
+  error,
+  code,
+});
+
+// Why a poll in each non-active status refuses votes
+export const POLL_STATUS_VOTE_ERRORS: Record<
+  Exclude<PollStatus, "active">,
+  string
+> = {
+  draft: "Poll is not published",
+  scheduled: "Poll has not opened yet",
+  closed: "Poll has expired",
+};
+
+/**
+ * getPollStatus returns where a poll is in its lifecycle: draft, scheduled, active or closed.
+ *
+ * Assumptions:
+ * - poll carries status, opens_at and expires_at.
+ *
+ * Edge Cases:
+ * - Drafts stay drafts whatever their times.
+ * - Otherwise the times win over the stored status, which may lag until the
+ *   status job next runs; this mirrors scheduled_poll_status in the database.
+ *
+ * Connections:
+ * - Used to display poll status in UI and to gate voting.
+ */
+export function getPollStatus(
+  poll: Pick<Poll, "status" | "opens_at" | "expires_at">,
+  now: Date = new Date(),
+): PollStatus {
+  if (poll.status === "draft") {
+    return "draft";
+  }
+
+  if (poll.expires_at && new Date(poll.expires_at) <= now) {
+    return "closed";
+  }
+
+  if (poll.opens_at && new Date(poll.opens_at) > now) {
+    return "scheduled";
+  }
+
+  return "active";
+}
+
+// Choice polls that allow multiple votes are the only ones a voter can come back to
+const allowsMoreVotes = (poll: VotingPoll): boolean =>
+  poll.allow_multiple_votes && !BALLOT_POLL_TYPES.includes(poll.poll_type);
+
+/**
+ * checkVote applies the voting rules to a vote before it is written.
+ *
+ * Assumptions:
+ * - previousOptionIds are the options the same voter has already voted for.
+ * - Allowlists are checked separately, since they need the database.
+ *
+ * Edge Cases:
+ * - Only active polls take votes; drafts, scheduled and closed polls do not.
+ * - Guests need a poll that allows anonymous votes and a voter id to be
+ *   recognised by when they come back.
+ * - Ballots and single-vote polls take one submission per voter. Votes are
+ *   never replaced, since voters cannot delete or change their votes.
+ * - Multi-vote choice polls take further votes, but each option only once.
+ *
+ * Connections:
+ * - Used by castVote; canCastVote applies the same rules before a vote is chosen.
+ */
+export function checkVote(
+  poll: VotingPoll,
+  voteData: Pick<VoteForm, "option_ids" | "scores">,
+  voter: Voter,
+  previousOptionIds: string[] = [],
+  now: Date = new Date(),
+): VoteCheck {
+  const status = getPollStatus(poll, now);
+  if (status !== "active") {
+    return reject(POLL_STATUS_VOTE_ERRORS[status], VOTE_INVALID_CODE);
+  }
+
+  if (!voter.userId) {
+    if (!poll.allow_anonymous_votes) {
+      return reject(
+        "You must be logged in to vote on this poll",
+        VOTE_LOGIN_REQUIRED_CODE,
+      );
+    }
+
+    if (!voter.fingerprint) {
+      return reject("Anonymous votes need a voter cookie", VOTE_INVALID_CODE);
+    }
+  }
+
+  const optionIds = voteData.option_ids;
+  if (optionIds.length === 0) {
+    return reject("Choose at least one option", VOTE_INVALID_CODE);
+  }
+
+  if (new Set(optionIds).size !== optionIds.length) {
+    return reject(
+      BALLOT_POLL_TYPES.includes(poll.poll_type)
+        ? "Each option can only appear once on a ballot"
+        : "Each option can only be chosen once",
+      VOTE_INVALID_CODE,
+    );
+  }
+
+  if (
+    poll.poll_type === "choice" &&
+    !poll.allow_multiple_votes &&
+    optionIds.length > 1
+  ) {
+    return reject("This poll takes one choice per voter", VOTE_INVALID_CODE);
+  }
+
+  const scoreValidation = validateVoteScores(
+    poll.poll_type,
+    optionIds,
+    voteData.scores,
+  );
+  if (!scoreValidation.isValid) {
+    return reject(scoreValidation.error!, VOTE_INVALID_CODE);
+  }
+
+  if (previousOptionIds.length > 0) {
+    if (BALLOT_POLL_TYPES.includes(poll.poll_type)) {
+      return reject(
+        "You have already submitted a ballot for this poll",
+        VOTE_DUPLICATE_CODE,
+      );
+    }
+
+    if (!poll.allow_multiple_votes) {
+      return reject("You have already voted on this poll", VOTE_DUPLICATE_CODE);
+    }
+
+    if (optionIds.some((optionId) => previousOptionIds.includes(optionId))) {
+      return reject(
+        "You have already voted for this option",
+        VOTE_DUPLICATE_CODE,
+      );
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * canCastVote tells the voting UI whether a voter can still vote on a poll.
+ *
+ * Assumptions:
+ * - previousOptionIds are the options the voter has already voted for.
+ *
+ * Edge Cases:
+ * - Guests are assumed to have a voter id, which the vote route always issues.
+ * - True for multi-vote choice polls with options left, though checkVote still
+ *   turns down options voted for before.
+ *
+ * Connections:
+ * - Used by usePoll; mirrors checkVote for a vote not yet chosen.
+ */
+export function canCastVote(
+  poll: VotingPoll,
+  isAuthenticated: boolean,
+  previousOptionIds: string[] = [],
+): boolean {
+  return (
+    getPollStatus(poll) === "active" &&
+    (isAuthenticated || poll.allow_anonymous_votes) &&
+    (allowsMoreVotes(poll) || previousOptionIds.length === 0)
+  );
+}
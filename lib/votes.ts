@@ -0,0 +1,725 @@
+import { createAdminSupabase, createServerSupabase } from "@/lib/supabase";
+import {
+  ImportedBallot,
+  Poll,
+  PollOptionSuggestion,
+  Vote,
+  VoteForm,
+  VoteFraudSignals,
+  VoteImportResult,
+  VoteInsert,
+  VoteSource,
+} from "@/types/database";
+import {
+  DatabaseError,
+  VOTER_NOT_ALLOWED_CODE,
+  VOTE_COLUMNS,
+  isAllowedVoter,
+} from "@/lib/database";
+import {
+  POLL_NOT_FOUND_CODE,
+  POLL_STATUS_VOTE_ERRORS,
+  VOTE_DUPLICATE_CODE,
+  VOTE_IMPORT_FORBIDDEN_CODE,
+  VOTE_INVALID_CODE,
+  VOTE_LOGIN_REQUIRED_CODE,
+  VOTING_POLL_COLUMNS,
+  Voter,
+  VotingPoll,
+  checkVote,
+  getPollStatus,
+} from "@/lib/vote-rules";
+import { QUARANTINE_SCORE, scoreVote } from "@/lib/fraud";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Imported ballots vote as guests whose fingerprint is this followed by the ballot id
+export const IMPORTED_BALLOT_PREFIX = "import:";
+
+// Votes cast in the app are written with the service role, as are guests'
+// earlier votes read. Its client is untyped, as in lib/database.ts, so results
+// are cast to the Database types.
+const createVoteWriterSupabase = () =>
+  createAdminSupabase() as unknown as SupabaseClient;
+
+// Imported ballots are checked and written this many at a time
+const IMPORT_CHUNK_SIZE = 100;
+
+const VOTE_ERROR_STATUSES: Record<string, number> = {
+  [POLL_NOT_FOUND_CODE]: 404,
+  [VOTE_INVALID_CODE]: 400,
+  [VOTE_LOGIN_REQUIRED_CODE]: 401,
+  [VOTER_NOT_ALLOWED_CODE]: 403,
+  [VOTE_IMPORT_FORBIDDEN_CODE]: 403,
+  [VOTE_DUPLICATE_CODE]: 409,
+};
+
+// One row per option; ranked ballots rank options in the order they are listed
+const toVoteRows = (
+  poll: VotingPoll,
+  voteData: Pick<VoteForm, "option_ids" | "scores">,
+  voter: Voter,
+  source: VoteSource = "online",
+): VoteInsert[] =>
+  voteData.option_ids.map((optionId, index) => ({
+    poll_id: poll.id,
+    option_id: optionId,
+    user_id: voter.userId || null,
+    voter_fingerprint: voter.userId ? null : voter.fingerprint || null,
+    rank: poll.poll_type === "ranked" ? index + 1 : null,
+    score: voteData.scores?.[optionId] ?? null,
+    ip_address: voter.ipAddress || null,
+    user_agent: voter.userAgent || null,
+    source,
+  }));
+
+/**
+ * voteErrorStatus picks the HTTP status for an error thrown by castVote.
+ *
+ * Edge Cases:
+ * - Errors without a known code, such as failed queries, are 500s.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote.
+ */
+export function voteErrorStatus(error: unknown): number {
+  return (
+    (error instanceof DatabaseError &&
+      error.code &&
+      VOTE_ERROR_STATUSES[error.code]) ||
+    500
+  );
+}
+
+// Earlier guest votes that count as the voter's own under the poll's
+// anonymous_dedupe. Read with the service role, since only it sees ip_address.
+async function fetchPreviousGuestVotes(
+  poll: VotingPoll,
+  voter: Voter,
+): Promise<string[]> {
+  const admin = createVoteWriterSupabase();
+
+  const queries = [
+    admin
+      .from("votes")
+      .select("option_id")
+      .eq("poll_id", poll.id)
+      .eq("voter_fingerprint", voter.fingerprint || ""),
+  ];
+
+  if (poll.anonymous_dedupe !== "cookie" && voter.ipAddress) {
+    let sameAddressQuery = admin
+      .from("votes")
+      .select("option_id")
+      .eq("poll_id", poll.id)
+      .is("user_id", null)
+      .eq("source", "online")
+      .eq("ip_address", voter.ipAddress);
+
+    if (poll.anonymous_dedupe === "device") {
+      sameAddressQuery = voter.userAgent
+        ? sameAddressQuery.eq("user_agent", voter.userAgent)
+        : sameAddressQuery.is("user_agent", null);
+    }
+
+    queries.push(sameAddressQuery);
+  }
+
+  const optionIds = new Set<string>();
+
+  for (const query of queries) {
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch previous votes: ${error.message}`,
+        error.code,
+      );
+    }
+
+    data?.forEach((vote: Pick<Vote, "option_id">) =>
+      optionIds.add(vote.option_id),
+    );
+  }
+
+  return Array.from(optionIds);
+}
+
+// Scores a vote from recent votes on the poll and the voter's poll view.
+// Votes can only be written by the service role, which alone reads the signals.
+async function fetchVoteFraudSignals(
+  poll: VotingPoll,
+  voter: Voter,
+): Promise<VoteFraudSignals> {
+  const { data, error } = await createVoteWriterSupabase().rpc(
+    "get_vote_fraud_signals",
+    {
+      poll_uuid: poll.id,
+      voter_uuid: voter.userId || null,
+      voter_key: voter.fingerprint || null,
+      voter_ip: voter.ipAddress || null,
+      voter_agent: voter.userAgent || null,
+      viewer_key: voter.viewerFingerprint || null,
+    },
+  );
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to check vote: ${error.message}`,
+      error.code,
+    );
+  }
+
+  return (data as VoteFraudSignals[])[0];
+}
+
+/**
+ * castVote is the one way votes are written: it checks a vote against the
+ * poll's rules and the voter's earlier votes, scores it for fraud, then inserts it.
+ *
+ * Assumptions:
+ * - Runs on the server as the voter, so RLS decides which polls they can see;
+ *   castSuggestionVote runs it as the poll's creator instead.
+ * - voter.fingerprint is the guest's verified voter id; it is ignored for
+ *   signed-in voters.
+ *
+ * Edge Cases:
+ * - Throws DatabaseError with POLL_NOT_FOUND_CODE, VOTE_INVALID_CODE,
+ *   VOTE_LOGIN_REQUIRED_CODE, VOTER_NOT_ALLOWED_CODE or VOTE_DUPLICATE_CODE
+ *   for votes it turns down; voteErrorStatus maps these to HTTP statuses.
+ * - Ranked ballots get ranks in the order option_ids are listed.
+ * - Votes are written with the service role, so the poll is always read as
+ *   the voter to check they can see it. Earlier guest votes from the same IP
+ *   address (and user agent, on "device" polls) count as theirs.
+ * - Guests cannot use voter ids that would pass for imported ballots, and
+ *   every option voted for has to belong to the poll.
+ * - Votes scoring QUARANTINE_SCORE or more are still written, but quarantined
+ *   and left out of the results until the poll's creator accepts them.
+ *
+ * Connections:
+ * - Used by POST /api/polls/[id]/vote, which usePoll submits votes to, and by
+ *   castSuggestionVote.
+ * - Inserted ballots queue vote.cast and poll.vote_threshold webhook deliveries (migration 010).
+ * - The score and reasons come from lib/fraud.ts; creators review held votes
+ *   with reviewQuarantinedVotes.
+ */
+export async function castVote(
+  voteData: VoteForm,
+  voter: Voter = {},
+): Promise<Vote[]> {
+  const supabase = createServerSupabase();
+  if (voter.userId) {
+    voter = { ...voter, fingerprint: undefined };
+  }
+
+  try {
+    const { data, error: pollError } = await supabase
+      .from("polls")
+      .select(`${VOTING_POLL_COLUMNS}, options:poll_options(id)`)
+      .eq("id", voteData.poll_id)
+      .maybeSingle();
+
+    if (pollError) {
+      throw new DatabaseError(
+        `Failed to fetch poll: ${pollError.message}`,
+        pollError.code,
+      );
+    }
+
+    if (!data) {
+      throw new DatabaseError("Poll not found", POLL_NOT_FOUND_CODE);
+    }
+
+    const { options, ...poll } = data as VotingPoll & {
+      options: { id: string }[] | null;
+    };
+
+    if (voter.fingerprint?.startsWith(IMPORTED_BALLOT_PREFIX)) {
+      throw new DatabaseError("Invalid voter id", VOTE_INVALID_CODE);
+    }
+
+    // The insert skips RLS, so the options are checked against the poll here
+    const optionIds = new Set((options || []).map((option) => option.id));
+    if (voteData.option_ids.some((optionId) => !optionIds.has(optionId))) {
+      throw new DatabaseError(
+        "Vote has options that are not in this poll",
+        VOTE_INVALID_CODE,
+      );
+    }
+
+    let previousOptionIds: string[] = [];
+
+    if (voter.userId) {
+      const { data: previousVotes, error: previousVotesError } = await supabase
+        .from("votes")
+        .select("option_id")
+        .eq("poll_id", voteData.poll_id)
+        .eq("user_id", voter.userId);
+
+      if (previousVotesError) {
+        throw new DatabaseError(
+          `Failed to fetch previous votes: ${previousVotesError.message}`,
+          previousVotesError.code,
+        );
+      }
+
+      previousOptionIds = (previousVotes || []).map((vote) => vote.option_id);
+    } else if (voter.fingerprint) {
+      previousOptionIds = await fetchPreviousGuestVotes(poll, voter);
+    }
+
+    const check = checkVote(poll, voteData, voter, previousOptionIds);
+    if (!check.allowed) {
+      throw new DatabaseError(check.error, check.code);
+    }
+
+    if (!(await isAllowedVoter(voteData.poll_id, voter.userId))) {
+      throw new DatabaseError(
+        "Only invited voters can vote on this poll",
+        VOTER_NOT_ALLOWED_CODE,
+      );
+    }
+
+    const { score, reasons } = scoreVote(
+      await fetchVoteFraudSignals(poll, voter),
+      !!voter.userId,
+    );
+    const votesToInsert = toVoteRows(poll, voteData, voter).map((vote) => ({
+      ...vote,
+      fraud_score: score,
+      fraud_reasons: reasons,
+      review_status:
+        score >= QUARANTINE_SCORE ? ("quarantined" as const) : null,
+    }));
+
+    const { data: votes, error: voteError } = await createVoteWriterSupabase()
+      .from("votes")
+      .insert(votesToInsert)
+      .select(VOTE_COLUMNS);
+
+    if (voteError) {
+      throw new DatabaseError(
+        `Failed to cast vote: ${voteError.message}`,
+        voteError.code,
+      );
+    }
+
+    return (votes || []) as Vote[];
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error casting vote: ${error}`);
+  }
+}
+
+/**
+ * castSuggestionVote votes for an approved suggestion on behalf of the user who
+ * suggested it, if they asked to.
+ *
+ * Assumptions:
+ * - Runs on the server as the poll's creator, right after the approval.
+ *
+ * Edge Cases:
+ * - Only choice polls get the vote. Elsewhere a one-option ballot would stand
+ *   in for the suggester's full one, so nothing is cast and [] is returned.
+ * - The vote goes through castVote like any other, fraud checks included, and
+ *   is turned down the same way, e.g. if the suggester has already voted.
+ *
+ * Connections:
+ * - Used by PATCH /api/polls/[id]/suggestions/[suggestionId].
+ */
+export async function castSuggestionVote(
+  suggestion: Pick<
+    PollOptionSuggestion,
+    "poll_id" | "option_id" | "suggested_by" | "auto_vote" | "status"
+  >,
+): Promise<Vote[]> {
+  if (
+    !suggestion.auto_vote ||
+    suggestion.status !== "approved" ||
+    !suggestion.option_id
+  ) {
+    return [];
+  }
+
+  const supabase = createServerSupabase();
+
+  try {
+    const { data: poll, error } = await supabase
+      .from("polls")
+      .select("poll_type")
+      .eq("id", suggestion.poll_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch poll: ${error.message}`,
+        error.code,
+      );
+    }
+
+    if (poll?.poll_type !== "choice") {
+      return [];
+    }
+
+    return await castVote(
+      { poll_id: suggestion.poll_id, option_ids: [suggestion.option_id] },
+      { userId: suggestion.suggested_by },
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Unexpected error casting suggestion vote: ${error}`,
+    );
+  }
+}
+
+/**
+ * importVotes imports ballots collected outside the app into a poll.
+ *
+ * Assumptions:
+ * - Runs on the server as the poll's creator; other users are turned down.
+ * - Ballots were validated with batchVoteSchema.
+ *
+ * Edge Cases:
+ * - Each ballot is checked like any other vote, as a guest identified by its
+ *   ballot id, so a ballot already imported is reported rather than counted twice.
+ * - Ballots with options from another poll, or repeated within the import, fail.
+ * - Failing ballots are reported by row and do not stop the others. When a
+ *   batch insert fails, its ballots are retried one by one to find the culprit.
+ * - Throws DatabaseError for unknown polls and non-creators, and for polls
+ *   that would turn down every ballot: polls that are not active, do not allow
+ *   anonymous votes or have a voter allowlist.
+ * - With dryRun nothing is written; processed counts the ballots that would be.
+ *   Only failures the database alone would find are missed.
+ *
+ * Connections:
+ * - Used by POST /api/polls/batch-vote and POST /api/polls/[id]/import.
+ * - Votes are written with source "import", so results can tell them apart.
+ * - Inserted ballots queue webhook deliveries like votes cast in the app.
+ */
+export async function importVotes(
+  pollId: string,
+  userId: string,
+  ballots: ImportedBallot[],
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<VoteImportResult> {
+  const supabase = createServerSupabase();
+  const result: VoteImportResult = { processed: 0, failed: 0, failures: [] };
+
+  const fail = (row: number, error: string) => {
+    result.failed++;
+    result.failures.push({ row, ballotId: ballots[row].ballotId, error });
+  };
+
+  try {
+    const { data: poll, error: pollError } = await supabase
+      .from("polls")
+      .select(`${VOTING_POLL_COLUMNS}, creator_id, options:poll_options(id)`)
+      .eq("id", pollId)
+      .maybeSingle();
+
+    if (pollError) {
+      throw new DatabaseError(
+        `Failed to fetch poll: ${pollError.message}`,
+        pollError.code,
+      );
+    }
+
+    if (!poll) {
+      throw new DatabaseError("Poll not found", POLL_NOT_FOUND_CODE);
+    }
+
+    if (poll.creator_id !== userId) {
+      throw new DatabaseError(
+        "Only the poll's creator can import votes",
+        VOTE_IMPORT_FORBIDDEN_CODE,
+      );
+    }
+
+    // Rules that would fail every ballot fail the import instead
+    const status = getPollStatus(poll);
+    if (status !== "active") {
+      throw new DatabaseError(
+        POLL_STATUS_VOTE_ERRORS[status],
+        VOTE_INVALID_CODE,
+      );
+    }
+
+    if (!poll.allow_anonymous_votes) {
+      throw new DatabaseError(
+        "Only polls that allow anonymous votes can take imported ballots",
+        VOTE_INVALID_CODE,
+      );
+    }
+
+    if (!(await isAllowedVoter(pollId))) {
+      throw new DatabaseError(
+        "Polls with a voter allowlist cannot take imported ballots",
+        VOTER_NOT_ALLOWED_CODE,
+      );
+    }
+
+    const optionIds = new Set(
+      (poll.options || []).map((option: { id: string }) => option.id),
+    );
+    const seen = new Set<string>();
+
+    for (let start = 0; start < ballots.length; start += IMPORT_CHUNK_SIZE) {
+      const rows = ballots
+        .slice(start, start + IMPORT_CHUNK_SIZE)
+        .map((ballot, offset) => ({
+          row: start + offset,
+          ballot,
+          voter: {
+            fingerprint: `${IMPORTED_BALLOT_PREFIX}${ballot.ballotId}`,
+          },
+        }));
+
+      const { data: previousVotes, error: previousVotesError } = await supabase
+        .from("votes")
+        .select("voter_fingerprint, option_id")
+        .eq("poll_id", pollId)
+        .in(
+          "voter_fingerprint",
+          rows.map(({ voter }) => voter.fingerprint),
+        );
+
+      if (previousVotesError) {
+        throw new DatabaseError(
+          `Failed to fetch previous votes: ${previousVotesError.message}`,
+          previousVotesError.code,
+        );
+      }
+
+      const accepted: { row: number; votes: VoteInsert[] }[] = [];
+
+      for (const { row, ballot, voter } of rows) {
+        if (seen.has(ballot.ballotId)) {
+          fail(row, "Ballot appears more than once in this import");
+          continue;
+        }
+        seen.add(ballot.ballotId);
+
+        if (ballot.optionIds.some((optionId) => !optionIds.has(optionId))) {
+          fail(row, "Ballot has options that are not in this poll");
+          continue;
+        }
+
+        const voteData = {
+          option_ids: ballot.optionIds,
+          scores: ballot.scores,
+        };
+        const check = checkVote(
+          poll,
+          voteData,
+          voter,
+          (previousVotes || [])
+            .filter((vote) => vote.voter_fingerprint === voter.fingerprint)
+            .map((vote) => vote.option_id),
+        );
+
+        if (!check.allowed) {
+          fail(
+            row,
+            check.code === VOTE_DUPLICATE_CODE
+              ? "Ballot has already been imported"
+              : check.error,
+          );
+          continue;
+        }
+
+        accepted.push({
+          row,
+          votes: toVoteRows(poll, voteData, voter, "import"),
+        });
+      }
+
+      if (dryRun) {
+        result.processed += accepted.length;
+        continue;
+      }
+
+      if (accepted.length === 0) continue;
+
+      const { error: insertError } = await supabase
+        .from("votes")
+        .insert(accepted.flatMap(({ votes }) => votes));
+
+      if (!insertError) {
+        result.processed += accepted.length;
+        continue;
+      }
+
+      // One bad ballot fails the whole insert, so find out which
+      for (const { row, votes } of accepted) {
+        const { error } = await supabase.from("votes").insert(votes);
+
+        if (error) {
+          fail(row, error.message);
+        } else {
+          result.processed++;
+        }
+      }
+    }
+
+    result.failures.sort((a, b) => a.row - b.row);
+    return result;
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error importing votes: ${error}`);
+  }
+}
+
+export type VoteImportClaim =
+  | { status: "claimed"; id: string }
+  | { status: "completed"; result: VoteImportResult }
+  | { status: "running" }
+  | { status: "mismatch" };
+
+/**
+ * hashVoteImportRequest derives the value a retried import is compared by.
+ *
+ * Assumptions:
+ * - body is the raw request body, which retries send unchanged.
+ *
+ * Connections:
+ * - Stored as vote_imports.request_hash by claimVoteImport.
+ */
+export async function hashVoteImportRequest(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(body),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * claimVoteImport records an import under its Idempotency-Key before it runs.
+ *
+ * Assumptions:
+ * - userId is the poll's creator, who owns the key.
+ *
+ * Edge Cases:
+ * - "completed" hands back the first run's result, so a retry imports nothing twice.
+ * - "running" means the first run has not finished; "mismatch" means the key
+ *   was already used for a different request.
+ *
+ * Connections:
+ * - Used by POST /api/polls/batch-vote with completeVoteImport and abandonVoteImport.
+ */
+export async function claimVoteImport(
+  pollId: string,
+  userId: string,
+  idempotencyKey: string,
+  requestHash: string,
+): Promise<VoteImportClaim> {
+  const supabase = createServerSupabase();
+
+  try {
+    const { data: claimed, error: claimError } = await supabase
+      .from("vote_imports")
+      .insert({
+        poll_id: pollId,
+        created_by: userId,
+        idempotency_key: idempotencyKey,
+        request_hash: requestHash,
+      })
+      .select("id")
+      .single();
+
+    if (!claimError) {
+      return { status: "claimed", id: claimed.id };
+    }
+
+    if (claimError.code !== "23505") {
+      throw new DatabaseError(
+        `Failed to start vote import: ${claimError.message}`,
+        claimError.code,
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("vote_imports")
+      .select("poll_id, request_hash, result")
+      .eq("created_by", userId)
+      .eq("idempotency_key", idempotencyKey)
+      .single();
+
+    if (existingError) {
+      throw new DatabaseError(
+        `Failed to fetch vote import: ${existingError.message}`,
+        existingError.code,
+      );
+    }
+
+    if (existing.poll_id !== pollId || existing.request_hash !== requestHash) {
+      return { status: "mismatch" };
+    }
+
+    return existing.result
+      ? { status: "completed", result: existing.result }
+      : { status: "running" };
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(`Unexpected error starting vote import: ${error}`);
+  }
+}
+
+/**
+ * completeVoteImport stores an import's result for retries to return.
+ *
+ * Connections:
+ * - Used by POST /api/polls/batch-vote after importVotes.
+ */
+export async function completeVoteImport(
+  importId: string,
+  result: VoteImportResult,
+): Promise<void> {
+  const supabase = createServerSupabase();
+
+  const { error } = await supabase
+    .from("vote_imports")
+    .update({ result, completed_at: new Date().toISOString() })
+    .eq("id", importId);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to complete vote import: ${error.message}`,
+      error.code,
+    );
+  }
+}
+
+/**
+ * abandonVoteImport forgets an import that failed before it finished.
+ *
+ * Edge Cases:
+ * - Ballots written before the failure stay; a retry reports them as already imported.
+ *
+ * Connections:
+ * - Used by POST /api/polls/batch-vote, so its Idempotency-Key can be retried.
+ */
+export async function abandonVoteImport(importId: string): Promise<void> {
+  const supabase = createServerSupabase();
+
+  const { error } = await supabase
+    .from("vote_imports")
+    .delete()
+    .eq("id", importId);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to abandon vote import: ${error.message}`,
+      error.code,
+    );
+  }
+}
@@ -0,0 +1,414 @@
+import { Json, WebhookEvent } from "@/types/database";
+import type { LookupFunction } from "node:net";
+
+// Shared with the browser, so only Web Crypto is used here
+
+export const WEBHOOK_EVENTS = [
+  "poll.created",
+  "poll.opened",
+  "vote.cast",
+  "poll.expired",
+  "poll.vote_threshold",
+] as const satisfies readonly WebhookEvent[];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "poll.created": "Poll created",
+  "poll.opened": "Poll opened",
+  "vote.cast": "Vote cast",
+  "poll.expired": "Poll expired",
+  "poll.vote_threshold": "Vote threshold reached",
+};
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+export const WEBHOOK_EVENT_HEADER = "X-Pully-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Pully-Delivery";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Pully-Signature";
+
+// Receivers that take longer than this count as failed and are retried
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Attempts per delivery, including the first, before it is marked failed
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// A delivery claimed by the worker, as returned by claim_webhook_deliveries
+export interface WebhookDeliveryRequest {
+  id: string;
+  event: WebhookEvent;
+  payload: Json;
+  url: string;
+  secret: string;
+}
+
+export interface WebhookDeliveryResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+// Looks up every address a hostname points at
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * generateWebhookSecret creates the secret a webhook's deliveries are signed with.
+ *
+ * Assumptions:
+ * - Web Crypto is available (browsers, Node 20 and the edge runtime).
+ *
+ * Edge Cases:
+ * - The prefix makes leaked secrets easy to recognise; it is part of the HMAC key.
+ *
+ * Connections:
+ * - Used by createWebhook; receivers pass the same value to verifyWebhookSignature.
+ */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)).buffer)}`;
+}
+
+/**
+ * signWebhookPayload builds the signature header for a delivery body.
+ *
+ * Assumptions:
+ * - body is the exact string sent as the request body.
+ * - timestamp is in Unix seconds.
+ *
+ * Edge Cases:
+ * - The timestamp is signed with the body so old deliveries cannot be replayed later.
+ *
+ * Connections:
+ * - Sent as X-Pully-Signature by deliverWebhook in the form "t=<timestamp>,v1=<hex HMAC-SHA256>".
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    utf8(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, utf8(`${timestamp}.${body}`));
+
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+/**
+ * verifyWebhookSignature checks a delivery the way receivers are expected to.
+ *
+ * Assumptions:
+ * - header is the X-Pully-Signature value and body the raw request body.
+ *
+ * Edge Cases:
+ * - Returns false for malformed headers and timestamps outside the tolerance.
+ * - Compares in constant time so the signature cannot be guessed byte by byte.
+ *
+ * Connections:
+ * - Documented in SETUP.md for webhook receivers; mirrors signWebhookPayload.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Date.now(),
+): Promise<boolean> {
+  const match = header?.match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+  if (!match) return false;
+
+  const timestamp = Number(match[1]);
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = await signWebhookPayload(secret, body, timestamp);
+  const received = `t=${match[1]},v1=${match[2]}`;
+
+  let difference = expected.length ^ received.length;
+  for (let i = 0; i < Math.min(expected.length, received.length); i++) {
+    difference |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * webhookRetryDelay returns how long to wait before the next attempt of a delivery.
+ *
+ * Assumptions:
+ * - attempt is the number of attempts made so far (1 after the first failure).
+ *
+ * Edge Cases:
+ * - Grows fourfold per attempt: 30s, 2m, 8m, 32m and about 2h before the last try.
+ *
+ * Connections:
+ * - Used by processWebhookDeliveries to schedule retries.
+ */
+export function webhookRetryDelay(attempt: number): number {
+  return 30_000 * 4 ** Math.max(attempt - 1, 0);
+}
+
+const PRIVATE_HOSTNAME = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+const PRIVATE_IPV4_RANGES: [number, number][] = [
+  [0x00000000, 8], // 0.0.0.0/8
+  [0x0a000000, 8], // 10.0.0.0/8
+  [0x64400000, 10], // 100.64.0.0/10
+  [0x7f000000, 8], // 127.0.0.0/8
+  [0xa9fe0000, 16], // 169.254.0.0/16, including cloud metadata endpoints
+  [0xac100000, 12], // 172.16.0.0/12
+  [0xc0a80000, 16], // 192.168.0.0/16
+  [0xc6120000, 15], // 198.18.0.0/15, benchmarking networks
+];
+
+const isPrivateIpv4 = (hostname: string): boolean => {
+  const parts = hostname.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) {
+    return false;
+  }
+
+  const address = parts.reduce((acc, part) => acc * 256 + Number(part), 0);
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return address >= base && address < base + size;
+  });
+};
+
+// IPv4-mapped addresses (::ffff:10.0.0.1) reach the IPv4 address they embed.
+// URL parsing writes the embedded address in hex (::ffff:a00:1).
+const IPV4_MAPPED = /^(?:::|(?:0{1,4}:){5})ffff:(.+)$/;
+
+const isPrivateIpv4Mapped = (embedded: string): boolean => {
+  if (embedded.includes(".")) return isPrivateIpv4(embedded);
+
+  const groups = embedded.split(":");
+  if (
+    groups.length > 2 ||
+    groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))
+  ) {
+    // Not a form we know; refuse rather than guess
+    return true;
+  }
+
+  const [high, low] = (groups.length === 2 ? groups : ["0", ...groups]).map(
+    (group) => parseInt(group, 16),
+  );
+  return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+};
+
+const isPrivateIpv6 = (hostname: string): boolean => {
+  if (!hostname.startsWith("[")) return false;
+  const address = hostname.slice(1, -1).toLowerCase();
+  const mapped = IPV4_MAPPED.exec(address);
+  if (mapped) return isPrivateIpv4Mapped(mapped[1]);
+
+  return (
+    address === "::" ||
+    address === "::1" ||
+    /^f[cd]/.test(address) ||
+    /^fe[89ab]/.test(address)
+  );
+};
+
+/**
+ * isAllowedWebhookUrl checks that a webhook URL points somewhere we are willing to call.
+ *
+ * Assumptions:
+ * - url comes from the user registering the webhook.
+ *
+ * Edge Cases:
+ * - Only http and https are allowed, and credentials in the URL are rejected.
+ * - Loopback, private-network and link-local hosts are rejected so webhooks cannot
+ *   probe our own infrastructure, unless allowPrivate is set for local development.
+ * - Hostnames that resolve to private addresses are not caught here;
+ *   deliverWebhook resolves them before each request.
+ *
+ * Connections:
+ * - Used by createWebhookSchema; controlled by WEBHOOK_ALLOW_PRIVATE_URLS.
+ */
+export function isAllowedWebhookUrl(
+  url: string,
+  allowPrivate: boolean = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true",
+): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return false;
+  if (parsed.username || parsed.password) return false;
+  if (allowPrivate) return true;
+
+  return !(
+    PRIVATE_HOSTNAME.test(parsed.hostname) ||
+    isPrivateIpv4(parsed.hostname) ||
+    isPrivateIpv6(parsed.hostname)
+  );
+}
+
+// Node's resolver is only loaded on the server, when a delivery is sent, and
+// kept out of browser bundles
+const lookupHost: HostResolver = async (hostname) => {
+  const { lookup } = await import(
+    /* webpackIgnore: true */ "node:dns/promises"
+  );
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+};
+
+const isPrivateAddress = (address: string): boolean =>
+  isPrivateIpv4(address) || isPrivateIpv6(`[${address}]`);
+
+// Answers Node's lookups for a request with the addresses already checked, so
+// the connection cannot go to an address the hostname was re-pointed to since
+const pinnedLookup =
+  (addresses: string[]): LookupFunction =>
+  (_hostname, options, callback) => {
+    const entries = addresses.map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    }));
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+
+// POSTs body with Node's http clients, loaded like the resolver, and resolves
+// with the response status
+async function postToAddresses(
+  url: URL,
+  addresses: string[],
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<number> {
+  const { request }: { request: typeof import("node:http").request } =
+    url.protocol === "https:"
+      ? await import(/* webpackIgnore: true */ "node:https")
+      : await import(/* webpackIgnore: true */ "node:http");
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(utf8(body).length) },
+        // A fresh connection each time, never a pooled one to an earlier address
+        agent: false,
+        lookup: pinnedLookup(addresses),
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        // The response body is not used; release the connection
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * deliverWebhook sends one signed delivery to a webhook's endpoint.
+ *
+ * Assumptions:
+ * - delivery was claimed through claim_webhook_deliveries.
+ *
+ * Edge Cases:
+ * - Any 2xx response counts as delivered; other statuses, timeouts and network errors do not.
+ * - Redirects are not followed, so an endpoint cannot bounce us to another host.
+ * - The URL is checked again before each request, and its hostname resolved:
+ *   if any address it points at is private, nothing is sent. A hostname can
+ *   be pointed somewhere else after the webhook was registered.
+ * - The request connects to the addresses that were checked, with the URL's
+ *   host kept for the Host header and TLS, so a second lookup cannot swap in
+ *   a private address.
+ * - Never throws; failures are reported in the result so they can be logged.
+ *
+ * Connections:
+ * - Used by processWebhookDeliveries, which records the result and schedules retries.
+ * - The private address checks are skipped with WEBHOOK_ALLOW_PRIVATE_URLS,
+ *   like isAllowedWebhookUrl's.
+ */
+export async function deliverWebhook(
+  delivery: WebhookDeliveryRequest,
+  timeoutMs: number = WEBHOOK_TIMEOUT_MS,
+  allowPrivate: boolean = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true",
+  resolveHost: HostResolver = lookupHost,
+): Promise<WebhookDeliveryResult> {
+  const body = JSON.stringify(delivery.payload);
+  const refused = (error: string): WebhookDeliveryResult => ({
+    ok: false,
+    status: null,
+    error,
+  });
+
+  try {
+    if (!isAllowedWebhookUrl(delivery.url, allowPrivate)) {
+      return refused("Endpoint URL is not allowed");
+    }
+
+    const url = new URL(delivery.url);
+    const addresses = await resolveHost(url.hostname.replace(/^\[|\]$/g, ""));
+    if (addresses.length === 0) {
+      return refused("Endpoint did not resolve to an address");
+    }
+    if (!allowPrivate && addresses.some(isPrivateAddress)) {
+      return refused("Endpoint resolves to a private address");
+    }
+
+    const status = await postToAddresses(
+      url,
+      addresses,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Pully-Webhooks/1.0",
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+          delivery.secret,
+          body,
+          Math.floor(Date.now() / 1000),
+        ),
+      },
+      body,
+      timeoutMs,
+    );
+
+    return status >= 200 && status < 300
+      ? { ok: true, status, error: null }
+      : {
+          ok: false,
+          status,
+          error: `Endpoint responded with ${status}`,
+        };
+  } catch (error) {
+    // Aborts surface as DOMExceptions, which are not always instances of Error
+    const name = (error as { name?: string } | null)?.name;
+    const timedOut = name === "TimeoutError" || name === "AbortError";
+
+    return {
+      ok: false,
+      status: null,
+      error: timedOut
+        ? `Timed out after ${timeoutMs}ms`
+        : `Request failed: ${error instanceof Error ? error.message : String(error)}`.slice(0, 500),
+    };
+  }
+}
@@ -4,6 +4,8 @@ import type { NextRequest } from 'next/server'
 import { Database } from '@/types/database'
 import { Ratelimit } from '@upstash/ratelimit'
 import { Redis } from 'ioredis'
+import { getBearerToken } from '@/lib/auth'
+import { API_KEY_SCOPES_HEADER, authenticateApiKey, isApiKey } from '@/lib/api-keys'
 
 const redis = new Redis(process.env.UPSTASH_REDIS_URL!)
 
@@ -26,15 +28,33 @@ export async function middleware(req: NextRequest) {
       },
     })
   }
-  const res = NextResponse.next()
+  const { pathname } = req.nextUrl
+
+  // Only the middleware says which requests came with an API key
+  const requestHeaders = new Headers(req.headers)
+  requestHeaders.delete(API_KEY_SCOPES_HEADER)
+
+  // Personal API keys are exchanged for a short-lived access token before the route runs
+  const bearerToken = getBearerToken(req.headers.get('authorization'))
+  if (pathname.startsWith('/api') && isApiKey(bearerToken)) {
+    const result = await authenticateApiKey(bearerToken, req.method, pathname)
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    requestHeaders.set('authorization', `Bearer ${result.token}`)
+    requestHeaders.set(API_KEY_SCOPES_HEADER, result.scopes.join(','))
+    return NextResponse.next({ request: { headers: requestHeaders } })
+  }
+
+  const res = NextResponse.next({ request: { headers: requestHeaders } })
   const supabase = createMiddlewareClient<Database>({ req, res })
 
   const {
     data: { session },
   } = await supabase.auth.getSession()
 
-  const { pathname } = req.nextUrl
-
   // Public routes that don't require authentication
   const publicRoutes = ['/login', '/register', '/']
 
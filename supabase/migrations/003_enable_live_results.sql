@@ -0,0 +1,29 @@
+-- Stream vote changes to clients subscribed to live poll results.
+-- Supabase projects ship with the supabase_realtime publication; a plain local
+-- Postgres stand-in does not, so create it when it is missing.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime'
+  ) THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+END;
+$$;
+
+-- Add votes to the publication (skipped if it is already part of it)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'votes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.votes;
+  END IF;
+END;
+$$;
+
+-- Index used when clients resynchronise results after reconnecting
+CREATE INDEX IF NOT EXISTS idx_votes_poll_option ON public.votes(poll_id, option_id);
@@ -0,0 +1,146 @@
+-- Add poll types so polls can collect ranked ballots
+ALTER TABLE public.polls
+  ADD COLUMN poll_type VARCHAR(20) NOT NULL DEFAULT 'choice'
+  CHECK (poll_type IN ('choice', 'ranked'));
+
+-- Store the position of each option on a ranked ballot (NULL for choice polls)
+ALTER TABLE public.votes
+  ADD COLUMN rank INTEGER CHECK (rank IS NULL OR rank > 0);
+
+-- A voter now owns several rows per poll (multiple choices or a full ranking),
+-- so uniqueness moves to one row per voter per option. validate_vote still
+-- enforces single votes where the poll requires them.
+ALTER TABLE public.votes DROP CONSTRAINT IF EXISTS votes_poll_id_user_id_key;
+ALTER TABLE public.votes DROP CONSTRAINT IF EXISTS votes_poll_id_voter_fingerprint_key;
+ALTER TABLE public.votes ADD CONSTRAINT votes_poll_id_user_id_option_id_key
+  UNIQUE(poll_id, user_id, option_id);
+ALTER TABLE public.votes ADD CONSTRAINT votes_poll_id_voter_fingerprint_option_id_key
+  UNIQUE(poll_id, voter_fingerprint, option_id);
+
+CREATE INDEX idx_votes_poll_rank ON public.votes(poll_id, rank) WHERE rank IS NOT NULL;
+
+-- Recreate vote validation with ranked ballot rules
+CREATE OR REPLACE FUNCTION public.validate_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  existing_vote_count INTEGER;
+BEGIN
+  -- Get poll details
+  SELECT * INTO poll_record FROM public.polls WHERE id = NEW.poll_id;
+
+  -- Check if poll exists and is still active
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  -- Check if poll has expired
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  -- Ranked ballots hold one row per ranked option, each with a distinct rank
+  IF poll_record.poll_type = 'ranked' THEN
+    IF NEW.rank IS NULL THEN
+      RAISE EXCEPTION 'Ranked polls require a rank for every vote';
+    END IF;
+
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id
+    AND rank = NEW.rank
+    AND (
+      (NEW.user_id IS NOT NULL AND user_id = NEW.user_id) OR
+      (NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND voter_fingerprint = NEW.voter_fingerprint)
+    );
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Ballot already submitted for this poll';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Check multiple votes constraint for authenticated users
+  IF NEW.user_id IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  -- Check multiple votes constraint for anonymous users
+  IF NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND voter_fingerprint = NEW.voter_fingerprint;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count only first preferences for ranked polls so percentages stay meaningful
+CREATE OR REPLACE FUNCTION public.get_poll_results(poll_uuid UUID)
+RETURNS TABLE(
+  option_id UUID,
+  option_text VARCHAR(1000),
+  order_index INTEGER,
+  vote_count BIGINT,
+  percentage NUMERIC(5,2)
+) AS $$
+DECLARE
+  total_votes BIGINT;
+BEGIN
+  -- Get total votes for the poll
+  SELECT COUNT(*) INTO total_votes
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND (v.rank IS NULL OR v.rank = 1);
+
+  -- Return results with vote counts and percentages
+  RETURN QUERY
+  SELECT
+    po.id as option_id,
+    po.text as option_text,
+    po.order_index,
+    COALESCE(vote_counts.count, 0) as vote_count,
+    CASE
+      WHEN total_votes > 0 THEN
+        ROUND((COALESCE(vote_counts.count, 0)::NUMERIC / total_votes::NUMERIC) * 100, 2)
+      ELSE 0::NUMERIC(5,2)
+    END as percentage
+  FROM public.poll_options po
+  LEFT JOIN (
+    SELECT v.option_id, COUNT(*) as count
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND (v.rank IS NULL OR v.rank = 1)
+    GROUP BY v.option_id
+  ) vote_counts ON po.id = vote_counts.option_id
+  WHERE po.poll_id = poll_uuid
+  ORDER BY po.order_index;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Return each ranked ballot as an ordered array of option ids, without voter identity
+CREATE OR REPLACE FUNCTION public.get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(
+  ballot UUID[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ARRAY_AGG(v.option_id ORDER BY v.rank) as ballot
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND v.rank IS NOT NULL
+  GROUP BY COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,166 @@
+-- Add approval, score (0-10) and star-rating (1-5) poll types
+ALTER TABLE public.polls DROP CONSTRAINT IF EXISTS polls_poll_type_check;
+ALTER TABLE public.polls ADD CONSTRAINT polls_poll_type_check
+  CHECK (poll_type IN ('choice', 'ranked', 'approval', 'score', 'rating'));
+
+-- Numeric score a voter gave an option (NULL for choice, ranked and approval polls)
+ALTER TABLE public.votes
+  ADD COLUMN score INTEGER CHECK (score IS NULL OR score BETWEEN 0 AND 10);
+
+-- Recreate vote validation with ballot rules for scored poll types
+CREATE OR REPLACE FUNCTION public.validate_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  existing_vote_count INTEGER;
+BEGIN
+  -- Get poll details
+  SELECT * INTO poll_record FROM public.polls WHERE id = NEW.poll_id;
+
+  -- Check if poll exists and is still active
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  -- Check if poll has expired
+  IF poll_record.expires_at IS NOT NULL AND poll_record.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  -- Ranked ballots hold one row per ranked option, each with a distinct rank
+  IF poll_record.poll_type = 'ranked' THEN
+    IF NEW.rank IS NULL THEN
+      RAISE EXCEPTION 'Ranked polls require a rank for every vote';
+    END IF;
+
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id
+    AND rank = NEW.rank
+    AND (
+      (NEW.user_id IS NOT NULL AND user_id = NEW.user_id) OR
+      (NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND voter_fingerprint = NEW.voter_fingerprint)
+    );
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Ballot already submitted for this poll';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Score and rating ballots carry one score per option within the poll's range
+  IF poll_record.poll_type IN ('score', 'rating') THEN
+    IF NEW.score IS NULL THEN
+      RAISE EXCEPTION 'Scored polls require a score for every vote';
+    END IF;
+
+    IF poll_record.poll_type = 'rating' AND NEW.score NOT BETWEEN 1 AND 5 THEN
+      RAISE EXCEPTION 'Ratings must be between 1 and 5';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Approval ballots may approve any number of options, once each
+  IF poll_record.poll_type = 'approval' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check multiple votes constraint for authenticated users
+  IF NEW.user_id IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  -- Check multiple votes constraint for anonymous users
+  IF NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND voter_fingerprint = NEW.voter_fingerprint;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The results shape gains score aggregates, so the function must be recreated
+DROP FUNCTION IF EXISTS public.get_poll_results(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_poll_results(poll_uuid UUID)
+RETURNS TABLE(
+  option_id UUID,
+  option_text VARCHAR(1000),
+  order_index INTEGER,
+  vote_count BIGINT,
+  percentage NUMERIC(5,2),
+  average_score NUMERIC(5,2),
+  median_score NUMERIC(5,2),
+  score_distribution JSONB
+) AS $$
+DECLARE
+  total_votes BIGINT;
+BEGIN
+  -- Get total votes for the poll (first preferences only for ranked polls)
+  SELECT COUNT(*) INTO total_votes
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND (v.rank IS NULL OR v.rank = 1);
+
+  -- Return results with vote counts, percentages and score aggregates
+  RETURN QUERY
+  SELECT
+    po.id as option_id,
+    po.text as option_text,
+    po.order_index,
+    COALESCE(vote_counts.count, 0) as vote_count,
+    CASE
+      WHEN total_votes > 0 THEN
+        ROUND((COALESCE(vote_counts.count, 0)::NUMERIC / total_votes::NUMERIC) * 100, 2)
+      ELSE 0::NUMERIC(5,2)
+    END as percentage,
+    score_stats.average_score,
+    score_stats.median_score,
+    score_dist.distribution as score_distribution
+  FROM public.poll_options po
+  LEFT JOIN (
+    SELECT v.option_id, COUNT(*) as count
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND (v.rank IS NULL OR v.rank = 1)
+    GROUP BY v.option_id
+  ) vote_counts ON po.id = vote_counts.option_id
+  LEFT JOIN (
+    SELECT
+      v.option_id,
+      ROUND(AVG(v.score), 2)::NUMERIC(5,2) as average_score,
+      ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v.score)::NUMERIC, 2)::NUMERIC(5,2) as median_score
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND v.score IS NOT NULL
+    GROUP BY v.option_id
+  ) score_stats ON po.id = score_stats.option_id
+  LEFT JOIN (
+    SELECT per_score.option_id, JSONB_OBJECT_AGG(per_score.score, per_score.count) as distribution
+    FROM (
+      SELECT v.option_id, v.score, COUNT(*) as count
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.score IS NOT NULL
+      GROUP BY v.option_id, v.score
+    ) per_score
+    GROUP BY per_score.option_id
+  ) score_dist ON po.id = score_dist.option_id
+  WHERE po.poll_id = poll_uuid
+  ORDER BY po.order_index;
+END;
+$$ LANGUAGE plpgsql;
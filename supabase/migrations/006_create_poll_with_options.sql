@@ -0,0 +1,53 @@
+-- Create a poll and its options in a single transaction.
+-- The function body runs atomically: if any option insert fails, the poll
+-- insert is rolled back too, so no poll is ever left without options.
+-- Runs with the caller's privileges, so the existing RLS insert policies apply.
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[]
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    poll_type,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,241 @@
+-- Audit log of edits made to polls after creation
+CREATE TABLE public.poll_edits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  editor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL, -- { fields, added, removed, renamed, reordered }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.poll_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators can view edits of their polls"
+ON public.poll_edits FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_edits.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Poll creators can record edits of their polls"
+ON public.poll_edits FOR INSERT
+WITH CHECK (
+  auth.uid() = editor_id
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_edits.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_poll_edits_poll_id ON public.poll_edits(poll_id, created_at DESC);
+
+-- Edit a poll and its options in a single transaction, enforcing vote-safe rules.
+-- option_list is the complete, ordered list of options after the edit:
+-- [{ "id": <existing option id or null>, "text": "..." }, ...]
+-- Options missing from the list are removed. Removing an option that has votes
+-- deletes those votes, so it is refused unless confirm_vote_loss is true.
+-- Changing the poll type once votes exist is always refused.
+-- Vote-safety errors use SQLSTATE PV409 (confirmation required) and PV423
+-- (locked once voted) so callers can report a conflict.
+CREATE OR REPLACE FUNCTION public.update_poll_with_options(
+  poll_uuid UUID,
+  poll_data JSONB,
+  option_list JSONB,
+  confirm_vote_loss BOOLEAN DEFAULT false
+)
+RETURNS public.polls AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  updated_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+  total_votes BIGINT;
+  field_changes JSONB := '{}'::JSONB;
+  removed_options JSONB;
+  renamed_options JSONB;
+  added_options JSONB;
+  order_changed BOOLEAN;
+  field_name TEXT;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  option_count := jsonb_array_length(option_list);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  -- Every id in the list must belong to this poll
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(option_list) AS item
+    WHERE item->>'id' IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.poll_options po
+      WHERE po.id = (item->>'id')::UUID AND po.poll_id = poll_uuid
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll';
+  END IF;
+
+  SELECT COUNT(*) INTO total_votes FROM public.votes WHERE poll_id = poll_uuid;
+
+  IF total_votes > 0
+    AND poll_data ? 'poll_type'
+    AND poll_data->>'poll_type' IS DISTINCT FROM poll_record.poll_type THEN
+    RAISE EXCEPTION 'The poll type cannot change once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  -- Options being removed, with the votes they would lose
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'text', po.text,
+      'votes', (SELECT COUNT(*) FROM public.votes v WHERE v.option_id = po.id)
+    ) ORDER BY po.order_index),
+    '[]'::JSONB
+  ) INTO removed_options
+  FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  IF NOT confirm_vote_loss AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(removed_options) AS removed
+    WHERE (removed->>'votes')::BIGINT > 0
+  ) THEN
+    RAISE EXCEPTION 'Removing options that have votes requires confirmation'
+      USING ERRCODE = 'PV409',
+            DETAIL = removed_options::TEXT;
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'from', po.text,
+      'to', item->>'text'
+    )),
+    '[]'::JSONB
+  ) INTO renamed_options
+  FROM jsonb_array_elements(option_list) AS item
+  JOIN public.poll_options po ON po.id = (item->>'id')::UUID
+  WHERE po.text IS DISTINCT FROM item->>'text';
+
+  SELECT COALESCE(jsonb_agg(item->>'text'), '[]'::JSONB) INTO added_options
+  FROM jsonb_array_elements(option_list) AS item
+  WHERE item->>'id' IS NULL;
+
+  -- Order changed if the kept options are no longer in their original relative order
+  SELECT COALESCE(bool_or(kept.old_rank <> kept.new_rank), false) INTO order_changed
+  FROM (
+    SELECT
+      RANK() OVER (ORDER BY po.order_index) AS old_rank,
+      RANK() OVER (ORDER BY item.position) AS new_rank
+    FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+    JOIN public.poll_options po ON po.id = (item.value->>'id')::UUID
+  ) kept;
+
+  -- Record which poll fields change
+  FOREACH field_name IN ARRAY ARRAY[
+    'title', 'description', 'is_public', 'allow_multiple_votes',
+    'allow_anonymous_votes', 'poll_type'
+  ] LOOP
+    IF poll_data ? field_name
+      AND (poll_data->field_name) IS DISTINCT FROM (to_jsonb(poll_record)->field_name) THEN
+      field_changes := field_changes || jsonb_build_object(
+        field_name,
+        jsonb_build_object(
+          'from', to_jsonb(poll_record)->field_name,
+          'to', poll_data->field_name
+        )
+      );
+    END IF;
+  END LOOP;
+
+  -- Timestamps are compared as values, since their text forms can differ
+  IF poll_data ? 'expires_at'
+    AND (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.expires_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'expires_at',
+      jsonb_build_object('from', poll_record.expires_at, 'to', poll_data->'expires_at')
+    );
+  END IF;
+
+  UPDATE public.polls SET
+    title = COALESCE(poll_data->>'title', title),
+    description = CASE
+      WHEN poll_data ? 'description' THEN NULLIF(poll_data->>'description', '')
+      ELSE description
+    END,
+    is_public = COALESCE((poll_data->>'is_public')::BOOLEAN, is_public),
+    allow_multiple_votes = COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, allow_multiple_votes),
+    allow_anonymous_votes = COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, allow_anonymous_votes),
+    poll_type = COALESCE(poll_data->>'poll_type', poll_type),
+    expires_at = CASE
+      WHEN poll_data ? 'expires_at' THEN (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+      ELSE expires_at
+    END
+  WHERE id = poll_uuid
+  RETURNING * INTO updated_poll;
+
+  -- Removing an option cascades to its votes
+  DELETE FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  -- Move kept options out of the way first, since (poll_id, order_index) is unique
+  UPDATE public.poll_options
+  SET order_index = -1 - order_index
+  WHERE poll_id = poll_uuid;
+
+  UPDATE public.poll_options po
+  SET text = item.value->>'text',
+      order_index = (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE po.id = (item.value->>'id')::UUID;
+
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT poll_uuid, item.value->>'text', (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE item.value->>'id' IS NULL;
+
+  -- Only log edits that actually changed something
+  IF field_changes <> '{}'::JSONB
+    OR jsonb_array_length(removed_options) > 0
+    OR jsonb_array_length(renamed_options) > 0
+    OR jsonb_array_length(added_options) > 0
+    OR order_changed THEN
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_uuid,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', field_changes,
+        'added', added_options,
+        'removed', removed_options,
+        'renamed', renamed_options,
+        'reordered', order_changed
+      )
+    );
+  END IF;
+
+  RETURN updated_poll;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,132 @@
+-- Where a view came from: a ?ref= tag or the referring site's host
+ALTER TABLE public.poll_views ADD COLUMN referrer TEXT;
+
+CREATE INDEX idx_votes_poll_created_at ON public.votes(poll_id, created_at);
+
+-- Aggregates a poll's votes, views and shares for its creator.
+-- Runs as definer because shares are only visible to their sharer under RLS,
+-- so the creator check below stands in for the table policies.
+-- A ballot is one voter's submission: every row of a ranked or scored ballot,
+-- and every option of a multi-select, is inserted in one statement and shares
+-- its created_at, so each ballot is counted once.
+CREATE OR REPLACE FUNCTION public.get_poll_analytics(
+  poll_uuid UUID,
+  bucket_size TEXT DEFAULT 'day',
+  range_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  range_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  bucket_step INTERVAL;
+  series_start TIMESTAMP WITH TIME ZONE;
+  series_end TIMESTAMP WITH TIME ZONE;
+  max_buckets CONSTANT INTEGER := 500;
+  analytics JSONB;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF bucket_size NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'Bucket size must be hour, day or week'
+      USING ERRCODE = '22023';
+  END IF;
+
+  bucket_step := ('1 ' || bucket_size)::INTERVAL;
+  series_end := date_trunc(bucket_size, COALESCE(range_end, NOW()));
+  series_start := date_trunc(
+    bucket_size,
+    GREATEST(COALESCE(range_start, poll_record.created_at), poll_record.created_at)
+  );
+
+  IF series_start > series_end THEN
+    series_start := series_end;
+  END IF;
+
+  -- Long ranges keep their most recent buckets
+  IF series_start < series_end - bucket_step * (max_buckets - 1) THEN
+    series_start := series_end - bucket_step * (max_buckets - 1);
+  END IF;
+
+  SELECT jsonb_build_object(
+    'bucket', bucket_size,
+    'range_start', series_start,
+    'range_end', series_end + bucket_step,
+    'total_votes', (
+      SELECT COUNT(DISTINCT (COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT), v.created_at))
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+    ),
+    'total_views', (
+      SELECT COUNT(*) FROM public.poll_views pv WHERE pv.poll_id = poll_uuid
+    ),
+    'total_shares', (
+      SELECT COUNT(*) FROM public.poll_shares ps WHERE ps.poll_id = poll_uuid
+    ),
+    'votes_over_time', (
+      SELECT jsonb_agg(
+        jsonb_build_object('date', buckets.bucket, 'count', COALESCE(counts.count, 0))
+        ORDER BY buckets.bucket
+      )
+      FROM generate_series(series_start, series_end, bucket_step) AS buckets(bucket)
+      LEFT JOIN (
+        SELECT
+          date_trunc(bucket_size, v.created_at) AS bucket,
+          COUNT(DISTINCT (COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT), v.created_at)) AS count
+        FROM public.votes v
+        WHERE v.poll_id = poll_uuid
+        AND v.created_at >= series_start
+        AND v.created_at < series_end + bucket_step
+        GROUP BY 1
+      ) counts ON counts.bucket = buckets.bucket
+    ),
+    'views_over_time', (
+      SELECT jsonb_agg(
+        jsonb_build_object('date', buckets.bucket, 'count', COALESCE(counts.count, 0))
+        ORDER BY buckets.bucket
+      )
+      FROM generate_series(series_start, series_end, bucket_step) AS buckets(bucket)
+      LEFT JOIN (
+        SELECT date_trunc(bucket_size, pv.viewed_at) AS bucket, COUNT(*) AS count
+        FROM public.poll_views pv
+        WHERE pv.poll_id = poll_uuid
+        AND pv.viewed_at >= series_start
+        AND pv.viewed_at < series_end + bucket_step
+        GROUP BY 1
+      ) counts ON counts.bucket = buckets.bucket
+    ),
+    'top_referrers', (
+      SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('source', r.source, 'count', r.count) ORDER BY r.count DESC, r.source),
+        '[]'::JSONB
+      )
+      FROM (
+        SELECT COALESCE(NULLIF(pv.referrer, ''), 'direct') AS source, COUNT(*) AS count
+        FROM public.poll_views pv
+        WHERE pv.poll_id = poll_uuid
+        GROUP BY 1
+        ORDER BY 2 DESC, 1
+        LIMIT 10
+      ) r
+    ),
+    'shares_by_method', (
+      SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('method', s.method, 'count', s.count) ORDER BY s.count DESC, s.method),
+        '[]'::JSONB
+      )
+      FROM (
+        SELECT ps.share_method AS method, COUNT(*) AS count
+        FROM public.poll_shares ps
+        WHERE ps.poll_id = poll_uuid
+        GROUP BY 1
+      ) s
+    )
+  ) INTO analytics;
+
+  RETURN analytics;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,53 @@
+-- Personal API keys for calling the REST API without a browser session
+CREATE TABLE public.api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  key_prefix TEXT NOT NULL, -- Start of the key, shown so users can tell keys apart
+  key_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the key; the key itself is never stored
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['polls:read', 'polls:write', 'votes:write', 'polls:export']
+  ),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+ON public.api_keys FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own API keys"
+ON public.api_keys FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own API keys"
+ON public.api_keys FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_api_keys_user_id ON public.api_keys(user_id, created_at DESC);
+
+-- Looks up a live key by hash for the API middleware, which has no session yet.
+-- Runs as definer so anonymous requests can resolve a key without reading the table;
+-- only someone holding the key can produce its hash.
+CREATE OR REPLACE FUNCTION public.authenticate_api_key(api_key_hash TEXT)
+RETURNS TABLE(
+  key_id UUID,
+  user_id UUID,
+  scopes TEXT[]
+) AS $$
+  UPDATE public.api_keys
+  SET last_used_at = NOW()
+  WHERE key_hash = api_key_hash
+  AND revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING id, api_keys.user_id, api_keys.scopes;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.authenticate_api_key(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authenticate_api_key(TEXT) TO anon, authenticated;
@@ -0,0 +1,348 @@
+-- Outbound webhooks: creators register endpoints that are told about poll events
+CREATE TABLE public.webhooks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE, -- NULL covers every poll the owner creates
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  secret TEXT NOT NULL, -- Signs each delivery so receivers can verify where it came from
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['poll.created', 'vote.cast', 'poll.expired', 'poll.vote_threshold']
+  ),
+  vote_threshold INTEGER CHECK (vote_threshold IS NULL OR vote_threshold > 0),
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (NOT ('poll.vote_threshold' = ANY(events)) OR vote_threshold IS NOT NULL)
+);
+
+-- Every attempt to deliver an event, kept as the delivery log
+CREATE TABLE public.webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id UUID REFERENCES public.webhooks(id) ON DELETE CASCADE NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (
+    status IN ('pending', 'delivering', 'succeeded', 'failed')
+  ),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- While delivering, when the worker's claim lapses
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Expiry deadlines already announced, so each one is sent once even if a poll is extended
+CREATE TABLE public.webhook_expired_polls (
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  queued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, expires_at)
+);
+
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_expired_polls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhooks"
+ON public.webhooks FOR SELECT
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can create webhooks for their own polls"
+ON public.webhooks FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id
+  AND (
+    poll_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE polls.id = webhooks.poll_id
+      AND polls.creator_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update their own webhooks"
+ON public.webhooks FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own webhooks"
+ON public.webhooks FOR DELETE
+USING (auth.uid() = owner_id);
+
+-- Deliveries are written by the functions below and the service role only
+CREATE POLICY "Users can view deliveries of their own webhooks"
+ON public.webhook_deliveries FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.webhooks
+    WHERE webhooks.id = webhook_deliveries.webhook_id
+    AND webhooks.owner_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_webhooks_owner_id ON public.webhooks(owner_id, created_at DESC);
+CREATE INDEX idx_webhooks_poll_id ON public.webhooks(poll_id) WHERE poll_id IS NOT NULL;
+CREATE INDEX idx_webhook_deliveries_webhook_id ON public.webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'delivering');
+
+CREATE TRIGGER handle_webhooks_updated_at
+  BEFORE UPDATE ON public.webhooks
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- The poll fields sent with poll events, including its options
+CREATE OR REPLACE FUNCTION public.webhook_poll_payload(poll_uuid UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', p.id,
+    'title', p.title,
+    'description', p.description,
+    'poll_type', p.poll_type,
+    'is_public', p.is_public,
+    'expires_at', p.expires_at,
+    'created_at', p.created_at,
+    'options', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', o.id, 'text', o.text, 'order_index', o.order_index)
+          ORDER BY o.order_index
+        )
+        FROM public.poll_options o
+        WHERE o.poll_id = p.id
+      ),
+      '[]'::JSONB
+    )
+  )
+  FROM public.polls p
+  WHERE p.id = poll_uuid;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Queues one delivery per active webhook of the poll's creator that listens for the event.
+-- Runs as definer because voters trigger events on polls whose webhooks they cannot read.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+  event_name TEXT,
+  poll_uuid UUID,
+  event_data JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+  SELECT
+    w.id,
+    event_name,
+    jsonb_build_object('event', event_name, 'occurred_at', NOW(), 'data', event_data)
+  FROM public.webhooks w
+  JOIN public.polls p ON p.id = poll_uuid AND p.creator_id = w.owner_id
+  WHERE w.is_active
+  AND (w.poll_id IS NULL OR w.poll_id = poll_uuid)
+  AND event_name = ANY(w.events);
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.queue_poll_created_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event(
+    'poll.created',
+    NEW.id,
+    jsonb_build_object('poll', public.webhook_poll_payload(NEW.id))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deferred to commit so the options create_poll_with_options inserts after the poll are included
+CREATE CONSTRAINT TRIGGER queue_poll_created_webhooks
+  AFTER INSERT ON public.polls
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.queue_poll_created_webhooks();
+
+-- Queues vote.cast once per ballot, and poll.vote_threshold for thresholds the insert crosses.
+-- A ballot is the rows one voter inserts together, as in get_poll_analytics; voters stay anonymous.
+CREATE OR REPLACE FUNCTION public.queue_vote_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+  target RECORD;
+  ballot RECORD;
+  poll_total BIGINT;
+BEGIN
+  FOR target IN
+    SELECT
+      n.poll_id,
+      COUNT(DISTINCT (COALESCE(n.user_id::TEXT, n.voter_fingerprint, n.id::TEXT), n.created_at)) AS new_ballots
+    FROM new_votes n
+    JOIN public.polls p ON p.id = n.poll_id
+    WHERE EXISTS (
+      SELECT 1 FROM public.webhooks w
+      WHERE w.owner_id = p.creator_id
+      AND w.is_active
+      AND (w.poll_id IS NULL OR w.poll_id = p.id)
+    )
+    GROUP BY n.poll_id
+  LOOP
+    SELECT COUNT(DISTINCT (COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT), v.created_at))
+    INTO poll_total
+    FROM public.votes v
+    WHERE v.poll_id = target.poll_id;
+
+    FOR ballot IN
+      SELECT
+        jsonb_agg(
+          jsonb_build_object('option_id', n.option_id, 'rank', n.rank, 'score', n.score)
+          ORDER BY n.rank NULLS LAST, n.option_id
+        ) AS selections,
+        MIN(n.created_at) AS cast_at
+      FROM new_votes n
+      WHERE n.poll_id = target.poll_id
+      GROUP BY COALESCE(n.user_id::TEXT, n.voter_fingerprint, n.id::TEXT), n.created_at
+    LOOP
+      PERFORM public.enqueue_webhook_event(
+        'vote.cast',
+        target.poll_id,
+        jsonb_build_object(
+          'poll_id', target.poll_id,
+          'selections', ballot.selections,
+          'cast_at', ballot.cast_at,
+          'total_votes', poll_total
+        )
+      );
+    END LOOP;
+
+    INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+    SELECT
+      w.id,
+      'poll.vote_threshold',
+      jsonb_build_object(
+        'event', 'poll.vote_threshold',
+        'occurred_at', NOW(),
+        'data', jsonb_build_object(
+          'poll', public.webhook_poll_payload(target.poll_id),
+          'vote_threshold', w.vote_threshold,
+          'total_votes', poll_total
+        )
+      )
+    FROM public.webhooks w
+    JOIN public.polls p ON p.id = target.poll_id AND p.creator_id = w.owner_id
+    WHERE w.is_active
+    AND (w.poll_id IS NULL OR w.poll_id = target.poll_id)
+    AND 'poll.vote_threshold' = ANY(w.events)
+    AND w.vote_threshold > poll_total - target.new_ballots
+    AND w.vote_threshold <= poll_total;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Changed votes are updates and do not count as new ballots
+CREATE TRIGGER queue_vote_webhooks
+  AFTER INSERT ON public.votes
+  REFERENCING NEW TABLE AS new_votes
+  FOR EACH STATEMENT EXECUTE FUNCTION public.queue_vote_webhooks();
+
+-- Polls have no expiry event of their own, so the webhook worker sweeps for them.
+-- Only deadlines passed after the webhook was registered are announced, so a new
+-- account-wide webhook is not flooded with every poll that ever expired.
+CREATE OR REPLACE FUNCTION public.queue_expired_poll_webhooks(batch_size INTEGER DEFAULT 100)
+RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  queued INTEGER := 0;
+BEGIN
+  FOR expired IN
+    SELECT DISTINCT p.id, p.expires_at
+    FROM public.polls p
+    JOIN public.webhooks w
+      ON w.owner_id = p.creator_id
+      AND (w.poll_id IS NULL OR w.poll_id = p.id)
+    WHERE p.expires_at <= NOW()
+    AND p.expires_at > w.created_at
+    AND w.is_active
+    AND 'poll.expired' = ANY(w.events)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.webhook_expired_polls e
+      WHERE e.poll_id = p.id AND e.expires_at = p.expires_at
+    )
+    ORDER BY p.expires_at
+    LIMIT batch_size
+  LOOP
+    INSERT INTO public.webhook_expired_polls (poll_id, expires_at)
+    VALUES (expired.id, expired.expires_at)
+    ON CONFLICT DO NOTHING;
+
+    -- Another sweep got here first
+    CONTINUE WHEN NOT FOUND;
+
+    queued := queued + public.enqueue_webhook_event(
+      'poll.expired',
+      expired.id,
+      jsonb_build_object(
+        'poll', public.webhook_poll_payload(expired.id),
+        'results', (
+          SELECT COALESCE(jsonb_agg(to_jsonb(r) ORDER BY r.order_index), '[]'::JSONB)
+          FROM public.get_poll_results(expired.id) r
+        )
+      )
+    );
+  END LOOP;
+
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands due deliveries to a worker. Claimed rows stay "delivering" until the lease
+-- runs out, after which another worker may pick them up again.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(
+  batch_size INTEGER DEFAULT 25,
+  lease_seconds INTEGER DEFAULT 60
+)
+RETURNS TABLE(
+  id UUID,
+  webhook_id UUID,
+  event TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  url TEXT,
+  secret TEXT
+) AS $$
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhooks w ON w.id = d.webhook_id
+    WHERE d.status IN ('pending', 'delivering')
+    AND d.next_attempt_at <= NOW()
+    AND w.is_active
+    ORDER BY d.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.webhook_deliveries d
+    SET
+      status = 'delivering',
+      attempts = d.attempts + 1,
+      next_attempt_at = NOW() + make_interval(secs => lease_seconds)
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.webhook_id, d.event, d.payload, d.attempts
+  )
+  SELECT c.id, c.webhook_id, c.event, c.payload, c.attempts, w.url, w.secret
+  FROM claimed c
+  JOIN public.webhooks w ON w.id = c.webhook_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only triggers and the service-role worker may queue or claim deliveries
+REVOKE ALL ON FUNCTION public.webhook_poll_payload(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.enqueue_webhook_event(TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.queue_expired_poll_webhooks(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_expired_poll_webhooks(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,518 @@
+-- Scheduled opening and a lifecycle status for polls.
+-- A poll is a draft until published, then scheduled until opens_at, active
+-- until expires_at and closed afterwards. sync_poll_status keeps status in step
+-- with those times on every write, and advance_poll_statuses moves polls along
+-- as the times pass. Every change is logged and fires its notifications.
+ALTER TABLE public.polls
+  ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN status TEXT DEFAULT 'active' NOT NULL CHECK (
+    status IN ('draft', 'scheduled', 'active', 'closed')
+  ),
+  ADD CONSTRAINT polls_opens_before_expiry CHECK (
+    opens_at IS NULL OR expires_at IS NULL OR opens_at < expires_at
+  );
+
+-- Status history, kept for creators and as the record of fired notifications
+CREATE TABLE public.poll_status_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.poll_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators can view status changes of their polls"
+ON public.poll_status_changes FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_status_changes.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_poll_status_changes_poll_id ON public.poll_status_changes(poll_id, changed_at DESC);
+CREATE INDEX idx_polls_status ON public.polls(status);
+CREATE INDEX idx_polls_scheduled_opens_at ON public.polls(opens_at) WHERE status = 'scheduled';
+CREATE INDEX idx_polls_open_expires_at ON public.polls(expires_at)
+  WHERE status IN ('scheduled', 'active') AND expires_at IS NOT NULL;
+
+-- The status a published poll should have right now
+CREATE OR REPLACE FUNCTION public.scheduled_poll_status(
+  opens TIMESTAMP WITH TIME ZONE,
+  expires TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN expires IS NOT NULL AND expires <= NOW() THEN 'closed'
+    WHEN opens IS NOT NULL AND opens > NOW() THEN 'scheduled'
+    ELSE 'active'
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Existing polls get their status without firing notifications or touching updated_at
+ALTER TABLE public.polls DISABLE TRIGGER handle_polls_updated_at;
+
+UPDATE public.polls SET status = public.scheduled_poll_status(opens_at, expires_at)
+WHERE status <> public.scheduled_poll_status(opens_at, expires_at);
+
+ALTER TABLE public.polls ENABLE TRIGGER handle_polls_updated_at;
+
+-- Drafts keep their status; published polls always follow their schedule,
+-- so editing opens_at or expires_at reschedules, reopens or closes a poll
+CREATE OR REPLACE FUNCTION public.sync_poll_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'draft' THEN
+    NEW.status := public.scheduled_poll_status(NEW.opens_at, NEW.expires_at);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_poll_status
+  BEFORE INSERT OR UPDATE ON public.polls
+  FOR EACH ROW EXECUTE FUNCTION public.sync_poll_status();
+
+-- poll.opened and poll.expired replace the expiry sweep from migration 010
+ALTER TABLE public.webhooks DROP CONSTRAINT webhooks_events_check;
+ALTER TABLE public.webhooks ADD CONSTRAINT webhooks_events_check CHECK (
+  cardinality(events) > 0
+  AND events <@ ARRAY['poll.created', 'poll.opened', 'vote.cast', 'poll.expired', 'poll.vote_threshold']
+);
+
+DROP FUNCTION public.queue_expired_poll_webhooks(INTEGER);
+DROP TABLE public.webhook_expired_polls;
+
+CREATE OR REPLACE FUNCTION public.notify_poll_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.poll_status_changes (poll_id, from_status, to_status)
+  VALUES (NEW.id, OLD.status, NEW.status);
+
+  IF NEW.status = 'active' AND OLD.status = 'scheduled' THEN
+    PERFORM public.enqueue_webhook_event(
+      'poll.opened',
+      NEW.id,
+      jsonb_build_object('poll', public.webhook_poll_payload(NEW.id))
+    );
+  ELSIF NEW.status = 'closed' THEN
+    PERFORM public.enqueue_webhook_event(
+      'poll.expired',
+      NEW.id,
+      jsonb_build_object(
+        'poll', public.webhook_poll_payload(NEW.id),
+        'results', (
+          SELECT COALESCE(jsonb_agg(to_jsonb(r) ORDER BY r.order_index), '[]'::JSONB)
+          FROM public.get_poll_results(NEW.id) r
+        )
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_poll_status_change
+  AFTER UPDATE ON public.polls
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_poll_status_change();
+
+-- Job: move published polls whose opening or closing time has passed.
+-- Rewriting status lets sync_poll_status pick the new value, and
+-- notify_poll_status_change log it and queue its notifications.
+CREATE OR REPLACE FUNCTION public.advance_poll_statuses(batch_size INTEGER DEFAULT 500)
+RETURNS TABLE(
+  poll_id UUID,
+  from_status TEXT,
+  to_status TEXT
+) AS $$
+  WITH due AS (
+    SELECT p.id, p.status
+    FROM public.polls p
+    WHERE (p.status = 'scheduled' AND p.opens_at <= NOW())
+    OR (p.status IN ('scheduled', 'active') AND p.expires_at <= NOW())
+    ORDER BY LEAST(p.opens_at, p.expires_at)
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.polls p
+  SET status = public.scheduled_poll_status(p.opens_at, p.expires_at)
+  FROM due
+  WHERE p.id = due.id
+  RETURNING p.id, due.status, p.status;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.advance_poll_statuses(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_poll_statuses(INTEGER) TO service_role;
+
+-- Scheduled and draft polls do not take votes
+CREATE OR REPLACE FUNCTION public.validate_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  existing_vote_count INTEGER;
+BEGIN
+  -- Get poll details
+  SELECT * INTO poll_record FROM public.polls WHERE id = NEW.poll_id;
+
+  -- Check if poll exists and is still active
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  -- Only open polls take votes. Times are checked directly rather than trusting
+  -- status, which may lag until advance_poll_statuses next runs.
+  IF poll_record.status = 'draft' THEN
+    RAISE EXCEPTION 'Poll is not published';
+  END IF;
+
+  IF public.scheduled_poll_status(poll_record.opens_at, poll_record.expires_at) = 'closed' THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF public.scheduled_poll_status(poll_record.opens_at, poll_record.expires_at) = 'scheduled' THEN
+    RAISE EXCEPTION 'Poll has not opened yet';
+  END IF;
+
+  -- Ranked ballots hold one row per ranked option, each with a distinct rank
+  IF poll_record.poll_type = 'ranked' THEN
+    IF NEW.rank IS NULL THEN
+      RAISE EXCEPTION 'Ranked polls require a rank for every vote';
+    END IF;
+
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id
+    AND rank = NEW.rank
+    AND (
+      (NEW.user_id IS NOT NULL AND user_id = NEW.user_id) OR
+      (NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND voter_fingerprint = NEW.voter_fingerprint)
+    );
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Ballot already submitted for this poll';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Score and rating ballots carry one score per option within the poll's range
+  IF poll_record.poll_type IN ('score', 'rating') THEN
+    IF NEW.score IS NULL THEN
+      RAISE EXCEPTION 'Scored polls require a score for every vote';
+    END IF;
+
+    IF poll_record.poll_type = 'rating' AND NEW.score NOT BETWEEN 1 AND 5 THEN
+      RAISE EXCEPTION 'Ratings must be between 1 and 5';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Approval ballots may approve any number of options, once each
+  IF poll_record.poll_type = 'approval' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check multiple votes constraint for authenticated users
+  IF NEW.user_id IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  -- Check multiple votes constraint for anonymous users
+  IF NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND voter_fingerprint = NEW.voter_fingerprint;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create polls with an optional opening time
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[]
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    poll_type,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Edits may reschedule a poll, but not push the opening of a voted poll into the future
+CREATE OR REPLACE FUNCTION public.update_poll_with_options(
+  poll_uuid UUID,
+  poll_data JSONB,
+  option_list JSONB,
+  confirm_vote_loss BOOLEAN DEFAULT false
+)
+RETURNS public.polls AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  updated_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+  total_votes BIGINT;
+  field_changes JSONB := '{}'::JSONB;
+  removed_options JSONB;
+  renamed_options JSONB;
+  added_options JSONB;
+  order_changed BOOLEAN;
+  field_name TEXT;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  option_count := jsonb_array_length(option_list);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  -- Every id in the list must belong to this poll
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(option_list) AS item
+    WHERE item->>'id' IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.poll_options po
+      WHERE po.id = (item->>'id')::UUID AND po.poll_id = poll_uuid
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll';
+  END IF;
+
+  SELECT COUNT(*) INTO total_votes FROM public.votes WHERE poll_id = poll_uuid;
+
+  IF total_votes > 0
+    AND poll_data ? 'poll_type'
+    AND poll_data->>'poll_type' IS DISTINCT FROM poll_record.poll_type THEN
+    RAISE EXCEPTION 'The poll type cannot change once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  IF total_votes > 0
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE > NOW() THEN
+    RAISE EXCEPTION 'A poll cannot be rescheduled to open later once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  -- Options being removed, with the votes they would lose
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'text', po.text,
+      'votes', (SELECT COUNT(*) FROM public.votes v WHERE v.option_id = po.id)
+    ) ORDER BY po.order_index),
+    '[]'::JSONB
+  ) INTO removed_options
+  FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  IF NOT confirm_vote_loss AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(removed_options) AS removed
+    WHERE (removed->>'votes')::BIGINT > 0
+  ) THEN
+    RAISE EXCEPTION 'Removing options that have votes requires confirmation'
+      USING ERRCODE = 'PV409',
+            DETAIL = removed_options::TEXT;
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'from', po.text,
+      'to', item->>'text'
+    )),
+    '[]'::JSONB
+  ) INTO renamed_options
+  FROM jsonb_array_elements(option_list) AS item
+  JOIN public.poll_options po ON po.id = (item->>'id')::UUID
+  WHERE po.text IS DISTINCT FROM item->>'text';
+
+  SELECT COALESCE(jsonb_agg(item->>'text'), '[]'::JSONB) INTO added_options
+  FROM jsonb_array_elements(option_list) AS item
+  WHERE item->>'id' IS NULL;
+
+  -- Order changed if the kept options are no longer in their original relative order
+  SELECT COALESCE(bool_or(kept.old_rank <> kept.new_rank), false) INTO order_changed
+  FROM (
+    SELECT
+      RANK() OVER (ORDER BY po.order_index) AS old_rank,
+      RANK() OVER (ORDER BY item.position) AS new_rank
+    FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+    JOIN public.poll_options po ON po.id = (item.value->>'id')::UUID
+  ) kept;
+
+  -- Record which poll fields change
+  FOREACH field_name IN ARRAY ARRAY[
+    'title', 'description', 'is_public', 'allow_multiple_votes',
+    'allow_anonymous_votes', 'poll_type'
+  ] LOOP
+    IF poll_data ? field_name
+      AND (poll_data->field_name) IS DISTINCT FROM (to_jsonb(poll_record)->field_name) THEN
+      field_changes := field_changes || jsonb_build_object(
+        field_name,
+        jsonb_build_object(
+          'from', to_jsonb(poll_record)->field_name,
+          'to', poll_data->field_name
+        )
+      );
+    END IF;
+  END LOOP;
+
+  -- Timestamps are compared as values, since their text forms can differ
+  IF poll_data ? 'opens_at'
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.opens_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'opens_at',
+      jsonb_build_object('from', poll_record.opens_at, 'to', poll_data->'opens_at')
+    );
+  END IF;
+
+  IF poll_data ? 'expires_at'
+    AND (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.expires_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'expires_at',
+      jsonb_build_object('from', poll_record.expires_at, 'to', poll_data->'expires_at')
+    );
+  END IF;
+
+  UPDATE public.polls SET
+    title = COALESCE(poll_data->>'title', title),
+    description = CASE
+      WHEN poll_data ? 'description' THEN NULLIF(poll_data->>'description', '')
+      ELSE description
+    END,
+    is_public = COALESCE((poll_data->>'is_public')::BOOLEAN, is_public),
+    allow_multiple_votes = COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, allow_multiple_votes),
+    allow_anonymous_votes = COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, allow_anonymous_votes),
+    poll_type = COALESCE(poll_data->>'poll_type', poll_type),
+    opens_at = CASE
+      WHEN poll_data ? 'opens_at' THEN (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE
+      ELSE opens_at
+    END,
+    expires_at = CASE
+      WHEN poll_data ? 'expires_at' THEN (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+      ELSE expires_at
+    END
+  WHERE id = poll_uuid
+  RETURNING * INTO updated_poll;
+
+  -- Removing an option cascades to its votes
+  DELETE FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  -- Move kept options out of the way first, since (poll_id, order_index) is unique
+  UPDATE public.poll_options
+  SET order_index = -1 - order_index
+  WHERE poll_id = poll_uuid;
+
+  UPDATE public.poll_options po
+  SET text = item.value->>'text',
+      order_index = (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE po.id = (item.value->>'id')::UUID;
+
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT poll_uuid, item.value->>'text', (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE item.value->>'id' IS NULL;
+
+  -- Only log edits that actually changed something
+  IF field_changes <> '{}'::JSONB
+    OR jsonb_array_length(removed_options) > 0
+    OR jsonb_array_length(renamed_options) > 0
+    OR jsonb_array_length(added_options) > 0
+    OR order_changed THEN
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_uuid,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', field_changes,
+        'added', added_options,
+        'removed', removed_options,
+        'renamed', renamed_options,
+        'reordered', order_changed
+      )
+    );
+  END IF;
+
+  RETURN updated_poll;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,270 @@
+-- Draft polls. A draft is only visible to its creator, takes no votes, views
+-- or shares, and stays out of listings until publish_poll makes it live.
+-- Publishing is one-way and fires the poll.created webhooks the draft skipped.
+
+-- Policies from migration 002, now hiding drafts from everyone but their creator
+DROP POLICY "Anyone can view public polls" ON public.polls;
+CREATE POLICY "Anyone can view public polls"
+ON public.polls FOR SELECT
+USING (is_public = true AND status <> 'draft');
+
+DROP POLICY "Anyone can view options for public polls" ON public.poll_options;
+CREATE POLICY "Anyone can view options for public polls"
+ON public.poll_options FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_options.poll_id
+    AND (
+      (polls.is_public = true AND polls.status <> 'draft')
+      OR polls.creator_id = auth.uid()
+    )
+  )
+);
+
+DROP POLICY "Anyone can view votes for public polls" ON public.votes;
+CREATE POLICY "Anyone can view votes for public polls"
+ON public.votes FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = votes.poll_id
+    AND (
+      (polls.is_public = true AND polls.status <> 'draft')
+      OR polls.creator_id = auth.uid()
+    )
+  )
+);
+
+DROP POLICY "Anyone can vote on public polls" ON public.votes;
+CREATE POLICY "Anyone can vote on public polls"
+ON public.votes FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.is_public = true
+    AND polls.status <> 'draft'
+    AND (polls.expires_at IS NULL OR polls.expires_at > NOW())
+  )
+);
+
+DROP POLICY "Anyone can record views for public polls" ON public.poll_views;
+CREATE POLICY "Anyone can record views for public polls"
+ON public.poll_views FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.is_public = true
+    AND polls.status <> 'draft'
+  )
+);
+
+DROP POLICY "Users can record shares for accessible polls" ON public.poll_shares;
+CREATE POLICY "Users can record shares for accessible polls"
+ON public.poll_shares FOR INSERT
+WITH CHECK (
+  auth.uid() = sharer_id AND
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.status <> 'draft'
+    AND (polls.is_public = true OR polls.creator_id = auth.uid())
+  )
+);
+
+CREATE INDEX idx_polls_creator_drafts ON public.polls(creator_id, updated_at DESC)
+  WHERE status = 'draft';
+
+-- Popular polls skip drafts too; the view is rebuilt with the same columns
+DROP MATERIALIZED VIEW public.popular_polls;
+
+CREATE MATERIALIZED VIEW public.popular_polls AS
+SELECT
+  p.id,
+  p.title,
+  p.description,
+  p.creator_id,
+  p.created_at,
+  p.expires_at,
+  COALESCE(v.vote_count, 0) as vote_count,
+  COALESCE(pv.view_count, 0) as view_count,
+  -- Calculate popularity score based on votes, views, and recency
+  (
+    COALESCE(v.vote_count, 0) * 2 +
+    COALESCE(pv.view_count, 0) * 1 +
+    EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 86400 * -0.1
+  ) as popularity_score
+FROM public.polls p
+LEFT JOIN (
+  SELECT poll_id, COUNT(*) as vote_count
+  FROM public.votes
+  GROUP BY poll_id
+) v ON p.id = v.poll_id
+LEFT JOIN (
+  SELECT poll_id, COUNT(*) as view_count
+  FROM public.poll_views
+  GROUP BY poll_id
+) pv ON p.id = pv.poll_id
+WHERE p.is_public = true
+  AND p.status <> 'draft'
+  AND (p.expires_at IS NULL OR p.expires_at > NOW());
+
+CREATE UNIQUE INDEX idx_popular_polls_id ON public.popular_polls(id);
+CREATE INDEX idx_popular_polls_score ON public.popular_polls(popularity_score DESC);
+
+-- Publishing is one-way, and a poll cannot be published once its expiration has passed
+CREATE OR REPLACE FUNCTION public.sync_poll_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' AND NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'A published poll cannot be turned back into a draft';
+  END IF;
+
+  IF NEW.status <> 'draft' THEN
+    NEW.status := public.scheduled_poll_status(NEW.opens_at, NEW.expires_at);
+
+    IF TG_OP = 'UPDATE' AND OLD.status = 'draft' AND NEW.status = 'closed' THEN
+      RAISE EXCEPTION 'Set an expiration date in the future before publishing';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Drafts announce themselves when they are published instead
+CREATE OR REPLACE FUNCTION public.queue_poll_created_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'draft' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.enqueue_webhook_event(
+    'poll.created',
+    NEW.id,
+    jsonb_build_object('poll', public.webhook_poll_payload(NEW.id))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.notify_poll_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.poll_status_changes (poll_id, from_status, to_status)
+  VALUES (NEW.id, OLD.status, NEW.status);
+
+  IF OLD.status = 'draft' THEN
+    PERFORM public.enqueue_webhook_event(
+      'poll.created',
+      NEW.id,
+      jsonb_build_object('poll', public.webhook_poll_payload(NEW.id))
+    );
+  ELSIF NEW.status = 'active' AND OLD.status = 'scheduled' THEN
+    PERFORM public.enqueue_webhook_event(
+      'poll.opened',
+      NEW.id,
+      jsonb_build_object('poll', public.webhook_poll_payload(NEW.id))
+    );
+  ELSIF NEW.status = 'closed' THEN
+    PERFORM public.enqueue_webhook_event(
+      'poll.expired',
+      NEW.id,
+      jsonb_build_object(
+        'poll', public.webhook_poll_payload(NEW.id),
+        'results', (
+          SELECT COALESCE(jsonb_agg(to_jsonb(r) ORDER BY r.order_index), '[]'::JSONB)
+          FROM public.get_poll_results(NEW.id) r
+        )
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create polls as drafts when poll_data.status is 'draft'
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[]
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    poll_type,
+    status,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    -- Any other status is derived from the schedule by sync_poll_status
+    CASE WHEN poll_data->>'status' = 'draft' THEN 'draft' ELSE 'active' END,
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Publish a draft: it becomes scheduled or active according to its opening date
+CREATE OR REPLACE FUNCTION public.publish_poll(poll_uuid UUID)
+RETURNS public.polls AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid FOR UPDATE;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF poll_record.status <> 'draft' THEN
+    RAISE EXCEPTION 'Poll is already published';
+  END IF;
+
+  -- sync_poll_status replaces 'active' with the status the schedule calls for
+  UPDATE public.polls SET status = 'active'
+  WHERE id = poll_uuid
+  RETURNING * INTO poll_record;
+
+  RETURN poll_record;
+END;
+$$ LANGUAGE plpgsql;
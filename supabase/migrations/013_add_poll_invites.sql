@@ -0,0 +1,221 @@
+-- Invite links for private polls. An invite is a poll_shares row with a token
+-- only its hash is stored for. Redeeming the token records who used it, and
+-- every redeemer can view and vote on the poll until the invite is revoked.
+-- Expiry and use limits only stop new redemptions.
+ALTER TABLE public.poll_shares
+  ADD COLUMN token_hash TEXT UNIQUE,
+  ADD COLUMN label TEXT CHECK (char_length(label) <= 100),
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN max_uses INTEGER CHECK (max_uses > 0),
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT poll_shares_invite_check CHECK (
+    (share_method = 'invite') = (token_hash IS NOT NULL)
+  );
+
+-- Who redeemed each invite: signed-in users by id, guests by fingerprint
+CREATE TABLE public.poll_invite_redemptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_id UUID REFERENCES public.poll_shares(id) ON DELETE CASCADE NOT NULL,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  voter_fingerprint TEXT,
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (user_id IS NOT NULL OR voter_fingerprint IS NOT NULL),
+  UNIQUE(share_id, user_id),
+  UNIQUE(share_id, voter_fingerprint)
+);
+
+ALTER TABLE public.poll_invite_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by redeem_poll_invite
+CREATE POLICY "Poll creators can view invite redemptions of their polls"
+ON public.poll_invite_redemptions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_invite_redemptions.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view their own invite redemptions"
+ON public.poll_invite_redemptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_poll_shares_poll_id ON public.poll_shares(poll_id, created_at DESC);
+CREATE INDEX idx_poll_invite_redemptions_poll_id ON public.poll_invite_redemptions(poll_id);
+CREATE INDEX idx_poll_invite_redemptions_user_id ON public.poll_invite_redemptions(user_id);
+
+-- Only a poll's creator may create invites for it, including for drafts
+DROP POLICY "Users can record shares for accessible polls" ON public.poll_shares;
+CREATE POLICY "Users can record shares for accessible polls"
+ON public.poll_shares FOR INSERT
+WITH CHECK (
+  auth.uid() = sharer_id AND
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND (
+      polls.creator_id = auth.uid()
+      OR (polls.is_public = true AND polls.status <> 'draft' AND token_hash IS NULL)
+    )
+  )
+);
+
+CREATE POLICY "Poll creators can revoke their invite links"
+ON public.poll_shares FOR UPDATE
+USING (auth.uid() = sharer_id AND token_hash IS NOT NULL)
+WITH CHECK (auth.uid() = sharer_id AND token_hash IS NOT NULL);
+
+-- Hex SHA-256 of an invite token, matching hashInviteToken in lib/invites.ts
+CREATE OR REPLACE FUNCTION public.hash_invite_token(invite_token TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(invite_token, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether the caller redeemed a live invite to the poll. Signed-in users are
+-- matched by id; guests send the token and their fingerprint as the
+-- x-poll-invite and x-fingerprint request headers.
+CREATE OR REPLACE FUNCTION public.has_poll_invite_access(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+  WITH request AS (
+    SELECT NULLIF(current_setting('request.headers', true), '')::JSON AS headers
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.poll_invite_redemptions r
+    JOIN public.poll_shares s ON s.id = r.share_id
+    CROSS JOIN request
+    WHERE r.poll_id = poll_uuid
+    AND s.revoked_at IS NULL
+    AND (
+      r.user_id = auth.uid()
+      OR (
+        r.user_id IS NULL
+        AND r.voter_fingerprint = request.headers->>'x-fingerprint'
+        AND s.token_hash = public.hash_invite_token(request.headers->>'x-poll-invite')
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Invitees get the same view and vote access as for a public poll
+CREATE POLICY "Invitees can view private polls"
+ON public.polls FOR SELECT
+USING (status <> 'draft' AND public.has_poll_invite_access(id));
+
+CREATE POLICY "Invitees can view options of private polls"
+ON public.poll_options FOR SELECT
+USING (public.has_poll_invite_access(poll_id));
+
+CREATE POLICY "Invitees can view votes of private polls"
+ON public.votes FOR SELECT
+USING (public.has_poll_invite_access(poll_id));
+
+CREATE POLICY "Invitees can vote on private polls"
+ON public.votes FOR INSERT
+WITH CHECK (public.has_poll_invite_access(poll_id));
+
+-- Redeem an invite token, returning the poll it opens. Redeeming again is free,
+-- so a redeemer can always come back; the creator never uses up an invite.
+CREATE OR REPLACE FUNCTION public.redeem_poll_invite(
+  invite_token TEXT,
+  fingerprint TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  share_record public.poll_shares%ROWTYPE;
+  poll_record public.polls%ROWTYPE;
+  redeemer UUID := auth.uid();
+  used_count INTEGER;
+BEGIN
+  IF redeemer IS NULL AND NULLIF(fingerprint, '') IS NULL THEN
+    RAISE EXCEPTION 'Sign in or allow a browser fingerprint to use this invite link';
+  END IF;
+
+  -- Locked so concurrent redemptions cannot overshoot max_uses
+  SELECT * INTO share_record
+  FROM public.poll_shares
+  WHERE token_hash = public.hash_invite_token(invite_token)
+  FOR UPDATE;
+
+  IF NOT FOUND OR share_record.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite link is invalid or has been revoked'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO poll_record FROM public.polls WHERE id = share_record.poll_id;
+
+  IF poll_record.status = 'draft' THEN
+    RAISE EXCEPTION 'This poll has not been published yet';
+  END IF;
+
+  IF redeemer = poll_record.creator_id OR EXISTS (
+    SELECT 1 FROM public.poll_invite_redemptions
+    WHERE share_id = share_record.id
+    AND (
+      user_id = redeemer
+      OR (redeemer IS NULL AND user_id IS NULL AND voter_fingerprint = fingerprint)
+    )
+  ) THEN
+    RETURN share_record.poll_id;
+  END IF;
+
+  IF share_record.expires_at IS NOT NULL AND share_record.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Invite link has expired';
+  END IF;
+
+  IF share_record.max_uses IS NOT NULL THEN
+    SELECT COUNT(*) INTO used_count
+    FROM public.poll_invite_redemptions
+    WHERE share_id = share_record.id;
+
+    IF used_count >= share_record.max_uses THEN
+      RAISE EXCEPTION 'Invite link has reached its use limit';
+    END IF;
+  END IF;
+
+  INSERT INTO public.poll_invite_redemptions (share_id, poll_id, user_id, voter_fingerprint)
+  VALUES (
+    share_record.id,
+    share_record.poll_id,
+    redeemer,
+    CASE WHEN redeemer IS NULL THEN fingerprint END
+  );
+
+  RETURN share_record.poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.redeem_poll_invite(TEXT, TEXT) TO anon, authenticated;
+
+-- A poll's invite links with how many people redeemed each, for its creator
+CREATE OR REPLACE FUNCTION public.get_poll_invites(poll_uuid UUID)
+RETURNS TABLE(
+  id UUID,
+  poll_id UUID,
+  label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  redemption_count BIGINT
+) AS $$
+  SELECT
+    s.id,
+    s.poll_id,
+    s.label,
+    s.expires_at,
+    s.max_uses,
+    s.revoked_at,
+    s.created_at,
+    COUNT(r.id) AS redemption_count
+  FROM public.poll_shares s
+  JOIN public.polls p ON p.id = s.poll_id
+  LEFT JOIN public.poll_invite_redemptions r ON r.share_id = s.id
+  WHERE s.poll_id = poll_uuid
+  AND s.token_hash IS NOT NULL
+  AND p.creator_id = auth.uid()
+  GROUP BY s.id
+  ORDER BY s.created_at DESC;
+$$ LANGUAGE sql STABLE;
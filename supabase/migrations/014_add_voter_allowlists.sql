@@ -0,0 +1,253 @@
+-- Voter allowlists. A poll with an allowlist only takes votes from signed-in
+-- users whose confirmed email is listed, or ends in a listed @domain. The list
+-- lives in its own table so voters' addresses stay hidden from everyone but the
+-- poll's creator, even on public polls.
+CREATE TABLE public.poll_voter_allowlist (
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  -- An email address (name@example.com) or a whole domain (@example.com)
+  entry TEXT NOT NULL CHECK (
+    entry = lower(entry) AND entry ~ '^[^@[:space:]]*@[^@[:space:]]+\.[^@[:space:]]+$'
+  ),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, entry)
+);
+
+ALTER TABLE public.poll_voter_allowlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Poll creators can view their polls' voter allowlists"
+ON public.poll_voter_allowlist FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_voter_allowlist.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+-- Whether a user may vote on a poll: always for polls without an allowlist,
+-- otherwise only with a confirmed email that matches an entry
+CREATE OR REPLACE FUNCTION public.is_allowed_voter(poll_uuid UUID, voter_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.poll_voter_allowlist WHERE poll_id = poll_uuid
+  ) OR EXISTS (
+    SELECT 1
+    FROM auth.users u
+    JOIN public.poll_voter_allowlist a ON a.poll_id = poll_uuid
+    WHERE u.id = voter_uuid
+    AND u.email_confirmed_at IS NOT NULL
+    AND (
+      a.entry = lower(u.email)
+      OR (left(a.entry, 1) = '@' AND right(lower(u.email), length(a.entry)) = a.entry)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace a poll's allowlist; an empty list opens the poll to every voter again
+CREATE OR REPLACE FUNCTION public.set_poll_voter_allowlist(
+  poll_uuid UUID,
+  entries TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF COALESCE(array_length(entries, 1), 0) > 500 THEN
+    RAISE EXCEPTION 'A voter allowlist can have at most 500 entries';
+  END IF;
+
+  DELETE FROM public.poll_voter_allowlist WHERE poll_id = poll_uuid;
+
+  INSERT INTO public.poll_voter_allowlist (poll_id, entry)
+  SELECT DISTINCT poll_uuid, lower(trim(entry))
+  FROM unnest(entries) AS entry
+  WHERE trim(entry) <> '';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Votes from anyone outside a poll's allowlist are rejected with SQLSTATE PV403
+CREATE OR REPLACE FUNCTION public.validate_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  existing_vote_count INTEGER;
+BEGIN
+  -- Get poll details
+  SELECT * INTO poll_record FROM public.polls WHERE id = NEW.poll_id;
+
+  -- Check if poll exists and is still active
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  -- Only open polls take votes. Times are checked directly rather than trusting
+  -- status, which may lag until advance_poll_statuses next runs.
+  IF poll_record.status = 'draft' THEN
+    RAISE EXCEPTION 'Poll is not published';
+  END IF;
+
+  IF public.scheduled_poll_status(poll_record.opens_at, poll_record.expires_at) = 'closed' THEN
+    RAISE EXCEPTION 'Poll has expired';
+  END IF;
+
+  IF public.scheduled_poll_status(poll_record.opens_at, poll_record.expires_at) = 'scheduled' THEN
+    RAISE EXCEPTION 'Poll has not opened yet';
+  END IF;
+
+  IF NOT public.is_allowed_voter(NEW.poll_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Only invited voters can vote on this poll'
+      USING ERRCODE = 'PV403';
+  END IF;
+
+  -- Ranked ballots hold one row per ranked option, each with a distinct rank
+  IF poll_record.poll_type = 'ranked' THEN
+    IF NEW.rank IS NULL THEN
+      RAISE EXCEPTION 'Ranked polls require a rank for every vote';
+    END IF;
+
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id
+    AND rank = NEW.rank
+    AND (
+      (NEW.user_id IS NOT NULL AND user_id = NEW.user_id) OR
+      (NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND voter_fingerprint = NEW.voter_fingerprint)
+    );
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Ballot already submitted for this poll';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Score and rating ballots carry one score per option within the poll's range
+  IF poll_record.poll_type IN ('score', 'rating') THEN
+    IF NEW.score IS NULL THEN
+      RAISE EXCEPTION 'Scored polls require a score for every vote';
+    END IF;
+
+    IF poll_record.poll_type = 'rating' AND NEW.score NOT BETWEEN 1 AND 5 THEN
+      RAISE EXCEPTION 'Ratings must be between 1 and 5';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Approval ballots may approve any number of options, once each
+  IF poll_record.poll_type = 'approval' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check multiple votes constraint for authenticated users
+  IF NEW.user_id IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  -- Check multiple votes constraint for anonymous users
+  IF NEW.user_id IS NULL AND NEW.voter_fingerprint IS NOT NULL AND NOT poll_record.allow_multiple_votes THEN
+    SELECT COUNT(*) INTO existing_vote_count
+    FROM public.votes
+    WHERE poll_id = NEW.poll_id AND voter_fingerprint = NEW.voter_fingerprint;
+
+    IF existing_vote_count > 0 THEN
+      RAISE EXCEPTION 'Multiple votes not allowed for this poll';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Changed votes are checked too, so voters dropped from the list cannot move theirs
+CREATE OR REPLACE FUNCTION public.validate_vote_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_allowed_voter(NEW.poll_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Only invited voters can vote on this poll'
+      USING ERRCODE = 'PV403';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_vote_update_trigger
+  BEFORE UPDATE OF option_id ON public.votes
+  FOR EACH ROW EXECUTE FUNCTION public.validate_vote_update();
+
+-- Polls are created together with their allowlist, so no vote can slip in first.
+-- The added argument changes the signature, so the old function is replaced.
+DROP FUNCTION public.create_poll_with_options(JSONB, TEXT[]);
+
+CREATE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[],
+  voter_allowlist TEXT[] DEFAULT '{}'
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    poll_type,
+    status,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    -- Any other status is derived from the schedule by sync_poll_status
+    CASE WHEN poll_data->>'status' = 'draft' THEN 'draft' ELSE 'active' END,
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  IF COALESCE(array_length(voter_allowlist, 1), 0) > 0 THEN
+    PERFORM public.set_poll_voter_allowlist(new_poll.id, voter_allowlist);
+  END IF;
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,139 @@
+-- Threaded comments on polls. Anyone who can see a poll can read its comments;
+-- signed-in users can comment, and edit or delete their own comments. The
+-- poll's creator moderates by removing comments.
+CREATE TABLE public.poll_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.poll_comments(id) ON DELETE CASCADE, -- NULL for top-level comments
+  author_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  show_vote BOOLEAN DEFAULT false NOT NULL, -- The author chose to show how they voted
+  edited_at TIMESTAMP WITH TIME ZONE,
+  -- Deleted comments with replies stay as placeholders so the thread holds together
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by_creator BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (deleted_at IS NULL AND char_length(trim(body)) BETWEEN 1 AND 2000)
+    OR (deleted_at IS NOT NULL AND body = '')
+  )
+);
+
+CREATE INDEX idx_poll_comments_poll_id ON public.poll_comments(poll_id, created_at);
+CREATE INDEX idx_poll_comments_parent_id ON public.poll_comments(parent_id);
+
+ALTER TABLE public.poll_comments ENABLE ROW LEVEL SECURITY;
+
+-- The polls subquery runs under the polls policies, so comments share the
+-- poll's visibility: drafts, private polls and invites included
+CREATE POLICY "Anyone who can view a poll can read its comments"
+ON public.poll_comments FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.polls WHERE polls.id = poll_comments.poll_id)
+);
+
+CREATE POLICY "Users can comment on published polls they can view"
+ON public.poll_comments FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND deleted_at IS NULL
+  AND NOT deleted_by_creator
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.status <> 'draft'
+  )
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.poll_comments parent
+      WHERE parent.id = poll_comments.parent_id
+      AND parent.poll_id = poll_comments.poll_id
+      AND parent.deleted_at IS NULL
+    )
+  )
+);
+
+CREATE POLICY "Authors can edit their comments"
+ON public.poll_comments FOR UPDATE
+USING (auth.uid() = author_id AND deleted_at IS NULL)
+WITH CHECK (auth.uid() = author_id AND deleted_at IS NULL);
+
+-- Edits may only change the text and whether the vote is shown
+CREATE OR REPLACE FUNCTION public.guard_poll_comment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.poll_id <> OLD.poll_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id <> OLD.author_id
+    OR NEW.created_at <> OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the text of a comment can be edited';
+  END IF;
+
+  IF NEW.deleted_at IS NULL AND NEW.body <> OLD.body THEN
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_poll_comment_update_trigger
+  BEFORE UPDATE ON public.poll_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_poll_comment_update();
+
+-- Delete a comment as its author, or remove it as the poll's creator. Comments
+-- with replies are blanked instead, keeping their place in the thread.
+CREATE OR REPLACE FUNCTION public.delete_poll_comment(comment_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  comment_record public.poll_comments%ROWTYPE;
+  is_creator BOOLEAN;
+  parent_uuid UUID;
+BEGIN
+  SELECT * INTO comment_record
+  FROM public.poll_comments
+  WHERE id = comment_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR comment_record.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Comment not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = comment_record.poll_id AND creator_id = auth.uid()
+  ) INTO is_creator;
+
+  IF comment_record.author_id IS DISTINCT FROM auth.uid() AND NOT is_creator THEN
+    RAISE EXCEPTION 'Only the author or the poll creator can delete this comment'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.poll_comments WHERE parent_id = comment_uuid) THEN
+    UPDATE public.poll_comments
+    SET
+      body = '',
+      show_vote = false,
+      deleted_at = NOW(),
+      deleted_by_creator = comment_record.author_id IS DISTINCT FROM auth.uid()
+    WHERE id = comment_uuid;
+  ELSE
+    DELETE FROM public.poll_comments WHERE id = comment_uuid;
+
+    -- Placeholders left without replies are not needed any more
+    parent_uuid := comment_record.parent_id;
+    WHILE parent_uuid IS NOT NULL LOOP
+      DELETE FROM public.poll_comments p
+      WHERE p.id = parent_uuid
+      AND p.deleted_at IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.poll_comments c WHERE c.parent_id = p.id)
+      RETURNING p.parent_id INTO parent_uuid;
+
+      EXIT WHEN NOT FOUND;
+    END LOOP;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,486 @@
+-- Write-in suggestions. Creators can let voters suggest options; a suggestion
+-- stays pending, out of the ballot and the results, until the creator approves
+-- it and it becomes a poll option. The 10-option cap and the case-insensitive
+-- uniqueness of option texts apply to suggestions as they do to the poll form.
+ALTER TABLE public.polls
+  ADD COLUMN allow_suggestions BOOLEAN DEFAULT false NOT NULL;
+
+CREATE TABLE public.poll_option_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  text TEXT NOT NULL CHECK (char_length(trim(text)) BETWEEN 1 AND 1000),
+  suggested_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Vote for the option on the suggester's behalf once it is approved
+  auto_vote BOOLEAN DEFAULT false NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  option_id UUID REFERENCES public.poll_options(id) ON DELETE SET NULL, -- The option an approval created
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_poll_option_suggestions_poll_id ON public.poll_option_suggestions(poll_id, created_at);
+
+-- Two people suggesting the same option share one pending suggestion
+CREATE UNIQUE INDEX idx_poll_option_suggestions_pending_text
+  ON public.poll_option_suggestions(poll_id, lower(trim(text)))
+  WHERE status = 'pending';
+
+ALTER TABLE public.poll_option_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suggestions"
+ON public.poll_option_suggestions FOR SELECT
+USING (auth.uid() = suggested_by);
+
+CREATE POLICY "Poll creators can view suggestions for their polls"
+ON public.poll_option_suggestions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_option_suggestions.poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+-- The polls subquery runs under the polls policies, so only viewable polls take
+-- suggestions. Reviews go through review_option_suggestion.
+CREATE POLICY "Users can suggest options on polls that allow it"
+ON public.poll_option_suggestions FOR INSERT
+WITH CHECK (
+  auth.uid() = suggested_by
+  AND status = 'pending'
+  AND option_id IS NULL
+  AND reviewed_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_option_suggestions.poll_id
+    AND polls.allow_suggestions
+  )
+);
+
+-- Suggestions are only taken while the poll could still add them as options.
+-- Duplicates raise unique_violation and a full poll check_violation, like the
+-- matching checks in review_option_suggestion.
+CREATE OR REPLACE FUNCTION public.validate_option_suggestion()
+RETURNS TRIGGER AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  pending_count INTEGER;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = NEW.poll_id;
+
+  IF NOT FOUND OR NOT poll_record.allow_suggestions THEN
+    RAISE EXCEPTION 'This poll does not take suggestions';
+  END IF;
+
+  IF poll_record.status = 'draft'
+    OR public.scheduled_poll_status(poll_record.opens_at, poll_record.expires_at) = 'closed' THEN
+    RAISE EXCEPTION 'This poll is not taking suggestions';
+  END IF;
+
+  NEW.text := trim(NEW.text);
+
+  IF EXISTS (
+    SELECT 1 FROM public.poll_options
+    WHERE poll_id = NEW.poll_id AND lower(trim(text)) = lower(NEW.text)
+  ) THEN
+    RAISE EXCEPTION 'This option is already on the poll'
+      USING ERRCODE = '23505';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = NEW.poll_id) >= 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options'
+      USING ERRCODE = '23514';
+  END IF;
+
+  SELECT COUNT(*) INTO pending_count
+  FROM public.poll_option_suggestions
+  WHERE poll_id = NEW.poll_id
+  AND suggested_by = NEW.suggested_by
+  AND status = 'pending';
+
+  IF pending_count >= 3 THEN
+    RAISE EXCEPTION 'You can have at most 3 pending suggestions on a poll'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_option_suggestion_trigger
+  BEFORE INSERT ON public.poll_option_suggestions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_option_suggestion();
+
+-- Approve or reject a pending suggestion as the poll's creator. An approval adds
+-- the option at the end of the poll, logs it in poll_edits and, if the
+-- suggester asked for it, votes for it on their behalf.
+CREATE OR REPLACE FUNCTION public.review_option_suggestion(
+  suggestion_uuid UUID,
+  approve BOOLEAN
+)
+RETURNS public.poll_option_suggestions AS $$
+DECLARE
+  suggestion_record public.poll_option_suggestions%ROWTYPE;
+  poll_record public.polls%ROWTYPE;
+  new_option_id UUID;
+BEGIN
+  SELECT * INTO suggestion_record
+  FROM public.poll_option_suggestions
+  WHERE id = suggestion_uuid
+  FOR UPDATE;
+
+  -- Locked so concurrent approvals cannot pass the option cap
+  SELECT * INTO poll_record
+  FROM public.polls
+  WHERE id = suggestion_record.poll_id
+  FOR UPDATE;
+
+  IF suggestion_record.id IS NULL
+    OR poll_record.creator_id IS DISTINCT FROM auth.uid()
+    OR suggestion_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Suggestion not found or already reviewed'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF approve THEN
+    IF EXISTS (
+      SELECT 1 FROM public.poll_options
+      WHERE poll_id = poll_record.id
+      AND lower(trim(text)) = lower(trim(suggestion_record.text))
+    ) THEN
+      RAISE EXCEPTION 'This option is already on the poll'
+        USING ERRCODE = '23505';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_record.id) >= 10 THEN
+      RAISE EXCEPTION 'A poll can have at most 10 options'
+        USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO public.poll_options (poll_id, text, order_index)
+    SELECT poll_record.id, suggestion_record.text, COALESCE(MAX(order_index) + 1, 0)
+    FROM public.poll_options
+    WHERE poll_id = poll_record.id
+    RETURNING id INTO new_option_id;
+
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_record.id,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', '{}'::JSONB,
+        'added', jsonb_build_array(suggestion_record.text),
+        'removed', '[]'::JSONB,
+        'renamed', '[]'::JSONB,
+        'reordered', false
+      )
+    );
+
+    -- Ranked and scored ballots are cast whole, so only single picks are added
+    IF suggestion_record.auto_vote AND poll_record.poll_type IN ('choice', 'approval') THEN
+      BEGIN
+        INSERT INTO public.votes (poll_id, option_id, user_id)
+        VALUES (poll_record.id, new_option_id, suggestion_record.suggested_by);
+      EXCEPTION
+        -- validate_vote turned the vote down (already voted, poll closed, not on
+        -- the allowlist); the approval stands without it
+        WHEN raise_exception OR unique_violation OR SQLSTATE 'PV403' THEN
+          NULL;
+      END;
+    END IF;
+  END IF;
+
+  UPDATE public.poll_option_suggestions
+  SET
+    status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+    option_id = new_option_id,
+    reviewed_at = NOW()
+  WHERE id = suggestion_uuid
+  RETURNING * INTO suggestion_record;
+
+  RETURN suggestion_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New polls take allow_suggestions from poll_data like their other settings
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[],
+  voter_allowlist TEXT[] DEFAULT '{}'
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    allow_suggestions,
+    poll_type,
+    status,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_suggestions')::BOOLEAN, false),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    -- Any other status is derived from the schedule by sync_poll_status
+    CASE WHEN poll_data->>'status' = 'draft' THEN 'draft' ELSE 'active' END,
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  IF COALESCE(array_length(voter_allowlist, 1), 0) > 0 THEN
+    PERFORM public.set_poll_voter_allowlist(new_poll.id, voter_allowlist);
+  END IF;
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Edits log allow_suggestions changes with the other poll fields
+CREATE OR REPLACE FUNCTION public.update_poll_with_options(
+  poll_uuid UUID,
+  poll_data JSONB,
+  option_list JSONB,
+  confirm_vote_loss BOOLEAN DEFAULT false
+)
+RETURNS public.polls AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  updated_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+  total_votes BIGINT;
+  field_changes JSONB := '{}'::JSONB;
+  removed_options JSONB;
+  renamed_options JSONB;
+  added_options JSONB;
+  order_changed BOOLEAN;
+  field_name TEXT;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  option_count := jsonb_array_length(option_list);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  -- Every id in the list must belong to this poll
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(option_list) AS item
+    WHERE item->>'id' IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.poll_options po
+      WHERE po.id = (item->>'id')::UUID AND po.poll_id = poll_uuid
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll';
+  END IF;
+
+  SELECT COUNT(*) INTO total_votes FROM public.votes WHERE poll_id = poll_uuid;
+
+  IF total_votes > 0
+    AND poll_data ? 'poll_type'
+    AND poll_data->>'poll_type' IS DISTINCT FROM poll_record.poll_type THEN
+    RAISE EXCEPTION 'The poll type cannot change once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  IF total_votes > 0
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE > NOW() THEN
+    RAISE EXCEPTION 'A poll cannot be rescheduled to open later once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  -- Options being removed, with the votes they would lose
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'text', po.text,
+      'votes', (SELECT COUNT(*) FROM public.votes v WHERE v.option_id = po.id)
+    ) ORDER BY po.order_index),
+    '[]'::JSONB
+  ) INTO removed_options
+  FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  IF NOT confirm_vote_loss AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(removed_options) AS removed
+    WHERE (removed->>'votes')::BIGINT > 0
+  ) THEN
+    RAISE EXCEPTION 'Removing options that have votes requires confirmation'
+      USING ERRCODE = 'PV409',
+            DETAIL = removed_options::TEXT;
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'from', po.text,
+      'to', item->>'text'
+    )),
+    '[]'::JSONB
+  ) INTO renamed_options
+  FROM jsonb_array_elements(option_list) AS item
+  JOIN public.poll_options po ON po.id = (item->>'id')::UUID
+  WHERE po.text IS DISTINCT FROM item->>'text';
+
+  SELECT COALESCE(jsonb_agg(item->>'text'), '[]'::JSONB) INTO added_options
+  FROM jsonb_array_elements(option_list) AS item
+  WHERE item->>'id' IS NULL;
+
+  -- Order changed if the kept options are no longer in their original relative order
+  SELECT COALESCE(bool_or(kept.old_rank <> kept.new_rank), false) INTO order_changed
+  FROM (
+    SELECT
+      RANK() OVER (ORDER BY po.order_index) AS old_rank,
+      RANK() OVER (ORDER BY item.position) AS new_rank
+    FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+    JOIN public.poll_options po ON po.id = (item.value->>'id')::UUID
+  ) kept;
+
+  -- Record which poll fields change
+  FOREACH field_name IN ARRAY ARRAY[
+    'title', 'description', 'is_public', 'allow_multiple_votes',
+    'allow_anonymous_votes', 'allow_suggestions', 'poll_type'
+  ] LOOP
+    IF poll_data ? field_name
+      AND (poll_data->field_name) IS DISTINCT FROM (to_jsonb(poll_record)->field_name) THEN
+      field_changes := field_changes || jsonb_build_object(
+        field_name,
+        jsonb_build_object(
+          'from', to_jsonb(poll_record)->field_name,
+          'to', poll_data->field_name
+        )
+      );
+    END IF;
+  END LOOP;
+
+  -- Timestamps are compared as values, since their text forms can differ
+  IF poll_data ? 'opens_at'
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.opens_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'opens_at',
+      jsonb_build_object('from', poll_record.opens_at, 'to', poll_data->'opens_at')
+    );
+  END IF;
+
+  IF poll_data ? 'expires_at'
+    AND (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.expires_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'expires_at',
+      jsonb_build_object('from', poll_record.expires_at, 'to', poll_data->'expires_at')
+    );
+  END IF;
+
+  UPDATE public.polls SET
+    title = COALESCE(poll_data->>'title', title),
+    description = CASE
+      WHEN poll_data ? 'description' THEN NULLIF(poll_data->>'description', '')
+      ELSE description
+    END,
+    is_public = COALESCE((poll_data->>'is_public')::BOOLEAN, is_public),
+    allow_multiple_votes = COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, allow_multiple_votes),
+    allow_anonymous_votes = COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, allow_anonymous_votes),
+    allow_suggestions = COALESCE((poll_data->>'allow_suggestions')::BOOLEAN, allow_suggestions),
+    poll_type = COALESCE(poll_data->>'poll_type', poll_type),
+    opens_at = CASE
+      WHEN poll_data ? 'opens_at' THEN (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE
+      ELSE opens_at
+    END,
+    expires_at = CASE
+      WHEN poll_data ? 'expires_at' THEN (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+      ELSE expires_at
+    END
+  WHERE id = poll_uuid
+  RETURNING * INTO updated_poll;
+
+  -- Removing an option cascades to its votes
+  DELETE FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  -- Move kept options out of the way first, since (poll_id, order_index) is unique
+  UPDATE public.poll_options
+  SET order_index = -1 - order_index
+  WHERE poll_id = poll_uuid;
+
+  UPDATE public.poll_options po
+  SET text = item.value->>'text',
+      order_index = (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE po.id = (item.value->>'id')::UUID;
+
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT poll_uuid, item.value->>'text', (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE item.value->>'id' IS NULL;
+
+  -- Only log edits that actually changed something
+  IF field_changes <> '{}'::JSONB
+    OR jsonb_array_length(removed_options) > 0
+    OR jsonb_array_length(renamed_options) > 0
+    OR jsonb_array_length(added_options) > 0
+    OR order_changed THEN
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_uuid,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', field_changes,
+        'added', added_options,
+        'removed', removed_options,
+        'renamed', renamed_options,
+        'reordered', order_changed
+      )
+    );
+  END IF;
+
+  RETURN updated_poll;
+END;
+$$ LANGUAGE plpgsql;
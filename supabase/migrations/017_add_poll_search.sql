@@ -0,0 +1,167 @@
+-- Full-text search over polls. Each poll has a weighted search document of its
+-- title (A), description (B) and option texts (C), kept current by triggers,
+-- and search_polls ranks matches and highlights the matching words. Documents
+-- live beside polls so that selecting a poll's columns does not return them.
+CREATE TABLE public.poll_search_documents (
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE PRIMARY KEY,
+  search_vector TSVECTOR NOT NULL
+);
+
+CREATE INDEX idx_poll_search_documents_vector
+  ON public.poll_search_documents USING GIN (search_vector);
+
+ALTER TABLE public.poll_search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documents hold the poll's text, so they share its visibility. Rows are only
+-- written by the triggers below.
+CREATE POLICY "Search documents are visible with their polls"
+ON public.poll_search_documents FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.polls WHERE polls.id = poll_search_documents.poll_id)
+);
+
+-- Rebuilds the documents of the given polls. Runs without RLS, since the
+-- triggers that call it may fire for a user who cannot see every option.
+CREATE OR REPLACE FUNCTION public.refresh_poll_search_documents(poll_uuids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO public.poll_search_documents (poll_id, search_vector)
+  SELECT
+    p.id,
+    setweight(to_tsvector('english', COALESCE(p.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(p.description, '')), 'B') ||
+    setweight(
+      to_tsvector('english', COALESCE(
+        (SELECT string_agg(o.text, ' ') FROM public.poll_options o WHERE o.poll_id = p.id),
+        ''
+      )),
+      'C'
+    )
+  FROM public.polls p
+  WHERE p.id = ANY(poll_uuids)
+  ON CONFLICT (poll_id) DO UPDATE SET search_vector = EXCLUDED.search_vector;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.refresh_poll_search_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_poll_search_documents(ARRAY[NEW.id]);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_poll_search_document_trigger
+  AFTER INSERT OR UPDATE OF title, description ON public.polls
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_poll_search_document();
+
+-- Option changes refresh their polls once per statement, so creating a poll
+-- with ten options rebuilds its document once rather than ten times
+CREATE OR REPLACE FUNCTION public.refresh_option_search_documents()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_poll_search_documents(
+    ARRAY(SELECT DISTINCT poll_id FROM changed_options)
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_option_search_documents_on_insert
+  AFTER INSERT ON public.poll_options
+  REFERENCING NEW TABLE AS changed_options
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_option_search_documents();
+
+CREATE TRIGGER refresh_option_search_documents_on_update
+  AFTER UPDATE ON public.poll_options
+  REFERENCING NEW TABLE AS changed_options
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_option_search_documents();
+
+CREATE TRIGGER refresh_option_search_documents_on_delete
+  AFTER DELETE ON public.poll_options
+  REFERENCING OLD TABLE AS changed_options
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_option_search_documents();
+
+SELECT public.refresh_poll_search_documents(ARRAY(SELECT id FROM public.polls));
+
+-- Turns what a user typed into a prefix query that matches every word. Words
+-- are quoted, so operators in the input are searched for rather than parsed.
+CREATE OR REPLACE FUNCTION public.poll_search_query(search_term TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery(
+    'english',
+    COALESCE(string_agg(quote_literal(word) || ':*', ' & '), '')
+  )
+  FROM regexp_split_to_table(lower(COALESCE(search_term, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Searches the polls the caller can see, best matches first. title_highlight is
+-- the title with matches wrapped in <mark> tags; snippet shows where the
+-- description or options matched, if they did. total_count is the number of
+-- matches before paging.
+CREATE OR REPLACE FUNCTION public.search_polls(
+  search_term TEXT,
+  public_only BOOLEAN DEFAULT NULL,
+  creator_uuid UUID DEFAULT NULL,
+  include_drafts BOOLEAN DEFAULT false,
+  result_limit INTEGER DEFAULT 10,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT public.poll_search_query(search_term) AS q
+  ),
+  page AS (
+    SELECT
+      p.id,
+      p.title,
+      p.description,
+      p.created_at,
+      ts_rank(d.search_vector, query.q) AS rank,
+      COUNT(*) OVER () AS total_count
+    FROM public.polls p
+    JOIN public.poll_search_documents d ON d.poll_id = p.id
+    CROSS JOIN query
+    WHERE d.search_vector @@ query.q
+    AND (public_only IS NULL OR p.is_public = public_only)
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (include_drafts OR p.status <> 'draft')
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(GREATEST(result_limit, 1), 100)
+    OFFSET GREATEST(result_offset, 0)
+  ),
+  body AS (
+    SELECT
+      page.id,
+      concat_ws(
+        ' · ',
+        page.description,
+        (SELECT string_agg(o.text, ' · ' ORDER BY o.order_index)
+         FROM public.poll_options o WHERE o.poll_id = page.id)
+      ) AS text
+    FROM page
+  )
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english', page.title, query.q,
+      'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'
+    ),
+    CASE WHEN to_tsvector('english', body.text) @@ query.q THEN
+      ts_headline(
+        'english', body.text, query.q,
+        'MaxFragments=2, MaxWords=20, MinWords=8, StartSel=<mark>, StopSel=</mark>, FragmentDelimiter=" … "'
+      )
+    END,
+    page.total_count
+  FROM page
+  JOIN body ON body.id = page.id
+  CROSS JOIN query
+  ORDER BY page.rank DESC, page.created_at DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,9 @@
+-- Cursor pagination orders poll listings by created_at, updated_at or title,
+-- with id breaking ties, and continues after the last poll of the previous
+-- page. These indexes match those orders, so each page reads only its own rows
+-- however deep the listing goes. They are scanned backwards for the other
+-- direction.
+DROP INDEX public.idx_polls_created_at;
+CREATE INDEX idx_polls_created_at ON public.polls(created_at DESC, id DESC);
+CREATE INDEX idx_polls_updated_at ON public.polls(updated_at DESC, id DESC);
+CREATE INDEX idx_polls_title ON public.polls(title, id);
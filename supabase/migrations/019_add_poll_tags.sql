@@ -0,0 +1,221 @@
+-- Poll tags. Creators give each poll up to 5 tags, lowercase words joined by
+-- hyphens like "local-news". Listings and searches can be filtered by tag, and
+-- popular_tags counts the tags of the polls in popular_polls.
+CREATE TABLE public.poll_tags (
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  tag TEXT NOT NULL CHECK (
+    tag ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(tag) <= 30
+  ),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, tag)
+);
+
+CREATE INDEX idx_poll_tags_tag ON public.poll_tags(tag);
+
+ALTER TABLE public.poll_tags ENABLE ROW LEVEL SECURITY;
+
+-- The polls subquery runs under the polls policies, so tags share the poll's
+-- visibility. Tags are written through set_poll_tags.
+CREATE POLICY "Tags are visible with their polls"
+ON public.poll_tags FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.polls WHERE polls.id = poll_tags.poll_id)
+);
+
+-- Replace a poll's tags; an empty list removes them all
+CREATE OR REPLACE FUNCTION public.set_poll_tags(
+  poll_uuid UUID,
+  tags TEXT[]
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.poll_tags WHERE poll_id = poll_uuid;
+
+  INSERT INTO public.poll_tags (poll_id, tag)
+  SELECT DISTINCT poll_uuid, lower(trim(tag))
+  FROM unnest(tags) AS tag
+  WHERE trim(tag) <> '';
+
+  IF (SELECT COUNT(*) FROM public.poll_tags WHERE poll_id = poll_uuid) > 5 THEN
+    RAISE EXCEPTION 'A poll can have at most 5 tags'
+      USING ERRCODE = '23514';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tags of the polls in popular_polls, so they only count public, published
+-- polls that are still open. Refreshed with popular_polls.
+CREATE MATERIALIZED VIEW public.popular_tags AS
+SELECT
+  t.tag,
+  COUNT(*) AS poll_count,
+  SUM(pp.vote_count) AS vote_count
+FROM public.poll_tags t
+JOIN public.popular_polls pp ON pp.id = t.poll_id
+GROUP BY t.tag;
+
+CREATE UNIQUE INDEX idx_popular_tags_tag ON public.popular_tags(tag);
+CREATE INDEX idx_popular_tags_count ON public.popular_tags(poll_count DESC, vote_count DESC);
+
+-- popular_tags is built from popular_polls, so it is refreshed second
+CREATE OR REPLACE FUNCTION public.refresh_popular_polls()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.popular_polls;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.popular_tags;
+END;
+$$ LANGUAGE plpgsql;
+
+-- New polls are created together with their tags. The added argument changes
+-- the signature, so the old function is replaced.
+DROP FUNCTION public.create_poll_with_options(JSONB, TEXT[], TEXT[]);
+
+CREATE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[],
+  voter_allowlist TEXT[] DEFAULT '{}',
+  tags TEXT[] DEFAULT '{}'
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    allow_suggestions,
+    poll_type,
+    status,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_suggestions')::BOOLEAN, false),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    -- Any other status is derived from the schedule by sync_poll_status
+    CASE WHEN poll_data->>'status' = 'draft' THEN 'draft' ELSE 'active' END,
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  IF COALESCE(array_length(voter_allowlist, 1), 0) > 0 THEN
+    PERFORM public.set_poll_voter_allowlist(new_poll.id, voter_allowlist);
+  END IF;
+
+  IF COALESCE(array_length(tags, 1), 0) > 0 THEN
+    PERFORM public.set_poll_tags(new_poll.id, tags);
+  END IF;
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Searches can be narrowed to a tag; the added argument replaces the function
+DROP FUNCTION public.search_polls(TEXT, BOOLEAN, UUID, BOOLEAN, INTEGER, INTEGER);
+
+CREATE FUNCTION public.search_polls(
+  search_term TEXT,
+  public_only BOOLEAN DEFAULT NULL,
+  creator_uuid UUID DEFAULT NULL,
+  include_drafts BOOLEAN DEFAULT false,
+  result_limit INTEGER DEFAULT 10,
+  result_offset INTEGER DEFAULT 0,
+  tag_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT public.poll_search_query(search_term) AS q
+  ),
+  page AS (
+    SELECT
+      p.id,
+      p.title,
+      p.description,
+      p.created_at,
+      ts_rank(d.search_vector, query.q) AS rank,
+      COUNT(*) OVER () AS total_count
+    FROM public.polls p
+    JOIN public.poll_search_documents d ON d.poll_id = p.id
+    CROSS JOIN query
+    WHERE d.search_vector @@ query.q
+    AND (public_only IS NULL OR p.is_public = public_only)
+    AND (creator_uuid IS NULL OR p.creator_id = creator_uuid)
+    AND (include_drafts OR p.status <> 'draft')
+    AND (tag_filter IS NULL OR EXISTS (
+      SELECT 1 FROM public.poll_tags t WHERE t.poll_id = p.id AND t.tag = tag_filter
+    ))
+    ORDER BY rank DESC, p.created_at DESC
+    LIMIT LEAST(GREATEST(result_limit, 1), 100)
+    OFFSET GREATEST(result_offset, 0)
+  ),
+  body AS (
+    SELECT
+      page.id,
+      concat_ws(
+        ' · ',
+        page.description,
+        (SELECT string_agg(o.text, ' · ' ORDER BY o.order_index)
+         FROM public.poll_options o WHERE o.poll_id = page.id)
+      ) AS text
+    FROM page
+  )
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english', page.title, query.q,
+      'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'
+    ),
+    CASE WHEN to_tsvector('english', body.text) @@ query.q THEN
+      ts_headline(
+        'english', body.text, query.q,
+        'MaxFragments=2, MaxWords=20, MinWords=8, StartSel=<mark>, StopSel=</mark>, FragmentDelimiter=" … "'
+      )
+    END,
+    page.total_count
+  FROM page
+  JOIN body ON body.id = page.id
+  CROSS JOIN query
+  ORDER BY page.rank DESC, page.created_at DESC;
+$$ LANGUAGE sql STABLE;
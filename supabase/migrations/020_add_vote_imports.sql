@@ -0,0 +1,89 @@
+-- Ballot imports. A poll's creator can import ballots collected elsewhere, such
+-- as on paper, through POST /api/polls/batch-vote with an API key that has the
+-- new votes:import scope. Imported ballots are guest votes whose fingerprint is
+-- "import:" followed by the ballot's own id, so a ballot is only counted once.
+ALTER TABLE public.api_keys DROP CONSTRAINT api_keys_scopes_check;
+ALTER TABLE public.api_keys ADD CONSTRAINT api_keys_scopes_check CHECK (
+  cardinality(scopes) > 0
+  AND scopes <@ ARRAY['polls:read', 'polls:write', 'votes:write', 'votes:import', 'polls:export']
+);
+
+-- Voters cannot pass their votes off as imported ballots
+DROP POLICY "Anyone can vote on public polls" ON public.votes;
+CREATE POLICY "Anyone can vote on public polls"
+ON public.votes FOR INSERT
+WITH CHECK (
+  (voter_fingerprint IS NULL OR voter_fingerprint NOT LIKE 'import:%')
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.is_public = true
+    AND polls.status <> 'draft'
+    AND (polls.expires_at IS NULL OR polls.expires_at > NOW())
+  )
+);
+
+DROP POLICY "Invitees can vote on private polls" ON public.votes;
+CREATE POLICY "Invitees can vote on private polls"
+ON public.votes FOR INSERT
+WITH CHECK (
+  (voter_fingerprint IS NULL OR voter_fingerprint NOT LIKE 'import:%')
+  AND public.has_poll_invite_access(poll_id)
+);
+
+-- Creators can import into their own polls, private ones included, but only as
+-- imported ballots. validate_vote still checks the poll's state and rules.
+CREATE POLICY "Poll creators can import ballots"
+ON public.votes FOR INSERT
+WITH CHECK (
+  user_id IS NULL
+  AND voter_fingerprint LIKE 'import:%'
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+-- One row per Idempotency-Key, so a retried import returns the first result
+-- instead of running again. result is NULL while the import runs.
+CREATE TABLE public.vote_imports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of the request body, so a reused key with other ballots is caught
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(created_by, idempotency_key)
+);
+
+CREATE INDEX idx_vote_imports_poll_id ON public.vote_imports(poll_id, created_at DESC);
+
+ALTER TABLE public.vote_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators can view their vote imports"
+ON public.vote_imports FOR SELECT
+USING (auth.uid() = created_by);
+
+CREATE POLICY "Creators can import votes into their polls"
+ON public.vote_imports FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.creator_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Creators can complete their vote imports"
+ON public.vote_imports FOR UPDATE
+USING (auth.uid() = created_by)
+WITH CHECK (auth.uid() = created_by);
+
+-- An import that failed part way is deleted, so retrying with its key runs it again
+CREATE POLICY "Creators can delete their vote imports"
+ON public.vote_imports FOR DELETE
+USING (auth.uid() = created_by);
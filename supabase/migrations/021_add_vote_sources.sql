@@ -0,0 +1,94 @@
+-- Where a vote came from: cast in the app ('online') or imported by the poll's
+-- creator, e.g. from paper ballots ('import'). Imported ballots are the guest
+-- votes with an "import:" fingerprint (migration 020), and the constraint keeps
+-- the two in step, so voters still cannot pass their votes off as imported.
+ALTER TABLE public.votes
+  ADD COLUMN source VARCHAR(20) NOT NULL DEFAULT 'online'
+  CHECK (source IN ('online', 'import'));
+
+UPDATE public.votes
+SET source = 'import'
+WHERE user_id IS NULL
+AND voter_fingerprint LIKE 'import:%';
+
+ALTER TABLE public.votes ADD CONSTRAINT votes_source_matches_voter CHECK (
+  (source = 'import') = COALESCE(user_id IS NULL AND voter_fingerprint LIKE 'import:%', false)
+);
+
+-- Results are split by source, so the function must be recreated. vote_count
+-- still counts every vote; imported_vote_count is the imported share of it.
+DROP FUNCTION IF EXISTS public.get_poll_results(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_poll_results(poll_uuid UUID)
+RETURNS TABLE(
+  option_id UUID,
+  option_text VARCHAR(1000),
+  order_index INTEGER,
+  vote_count BIGINT,
+  imported_vote_count BIGINT,
+  percentage NUMERIC(5,2),
+  average_score NUMERIC(5,2),
+  median_score NUMERIC(5,2),
+  score_distribution JSONB
+) AS $$
+DECLARE
+  total_votes BIGINT;
+BEGIN
+  -- Get total votes for the poll (first preferences only for ranked polls)
+  SELECT COUNT(*) INTO total_votes
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND (v.rank IS NULL OR v.rank = 1);
+
+  -- Return results with vote counts, percentages and score aggregates
+  RETURN QUERY
+  SELECT
+    po.id as option_id,
+    po.text as option_text,
+    po.order_index,
+    COALESCE(vote_counts.count, 0) as vote_count,
+    COALESCE(vote_counts.imported_count, 0) as imported_vote_count,
+    CASE
+      WHEN total_votes > 0 THEN
+        ROUND((COALESCE(vote_counts.count, 0)::NUMERIC / total_votes::NUMERIC) * 100, 2)
+      ELSE 0::NUMERIC(5,2)
+    END as percentage,
+    score_stats.average_score,
+    score_stats.median_score,
+    score_dist.distribution as score_distribution
+  FROM public.poll_options po
+  LEFT JOIN (
+    SELECT
+      v.option_id,
+      COUNT(*) as count,
+      COUNT(*) FILTER (WHERE v.source = 'import') as imported_count
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND (v.rank IS NULL OR v.rank = 1)
+    GROUP BY v.option_id
+  ) vote_counts ON po.id = vote_counts.option_id
+  LEFT JOIN (
+    SELECT
+      v.option_id,
+      ROUND(AVG(v.score), 2)::NUMERIC(5,2) as average_score,
+      ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v.score)::NUMERIC, 2)::NUMERIC(5,2) as median_score
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND v.score IS NOT NULL
+    GROUP BY v.option_id
+  ) score_stats ON po.id = score_stats.option_id
+  LEFT JOIN (
+    SELECT per_score.option_id, JSONB_OBJECT_AGG(per_score.score, per_score.count) as distribution
+    FROM (
+      SELECT v.option_id, v.score, COUNT(*) as count
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.score IS NOT NULL
+      GROUP BY v.option_id, v.score
+    ) per_score
+    GROUP BY per_score.option_id
+  ) score_dist ON po.id = score_dist.option_id
+  WHERE po.poll_id = poll_uuid
+  ORDER BY po.order_index;
+END;
+$$ LANGUAGE plpgsql;
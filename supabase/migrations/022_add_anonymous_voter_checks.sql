@@ -0,0 +1,344 @@
+-- Anonymous vote checks. Guests used to be told apart by a fingerprint their
+-- browser computed and sent, which they could change at will. The vote route now
+-- issues each guest a signed voter id in a cookie, stored as voter_fingerprint,
+-- and records the IP address and user agent votes came from. Each poll picks how
+-- strictly repeat guests are caught:
+--   cookie:  one vote per voter cookie
+--   device:  also no second guest vote from the same IP address and user agent
+--   network: also no second guest vote from the same IP address
+ALTER TABLE public.polls
+  ADD COLUMN anonymous_dedupe VARCHAR(20) NOT NULL DEFAULT 'device'
+  CHECK (anonymous_dedupe IN ('cookie', 'device', 'network'));
+
+-- Guest votes are written by the vote route with the service role once the
+-- voter cookie and the poll's checks pass, so only signed-in voters insert
+-- votes themselves. Imported ballots keep their own policy (migration 020).
+DROP POLICY "Anyone can vote on public polls" ON public.votes;
+CREATE POLICY "Signed-in users can vote on public polls"
+ON public.votes FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE polls.id = poll_id
+    AND polls.is_public = true
+    AND polls.status <> 'draft'
+    AND (polls.expires_at IS NULL OR polls.expires_at > NOW())
+  )
+);
+
+DROP POLICY "Invitees can vote on private polls" ON public.votes;
+CREATE POLICY "Invitees can vote on private polls"
+ON public.votes FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND public.has_poll_invite_access(poll_id)
+);
+
+-- Votes on public polls are readable by anyone, so the IP address and user
+-- agent are left out of what clients can select
+REVOKE SELECT ON public.votes FROM anon, authenticated;
+GRANT SELECT (
+  id, poll_id, option_id, user_id, voter_fingerprint, rank, score, source, created_at
+) ON public.votes TO anon, authenticated;
+
+-- Live results stream the same columns (publication column lists need Postgres 15)
+ALTER PUBLICATION supabase_realtime DROP TABLE public.votes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.votes (
+  id, poll_id, option_id, user_id, voter_fingerprint, rank, score, source, created_at
+);
+
+-- Used to find earlier guest votes from the same address
+CREATE INDEX idx_votes_poll_ip_address ON public.votes(poll_id, ip_address)
+WHERE user_id IS NULL;
+
+-- New polls take anonymous_dedupe from poll_data
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+  poll_data JSONB,
+  option_texts TEXT[],
+  voter_allowlist TEXT[] DEFAULT '{}',
+  tags TEXT[] DEFAULT '{}'
+)
+RETURNS public.polls AS $$
+DECLARE
+  new_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+BEGIN
+  option_count := COALESCE(array_length(option_texts, 1), 0);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  INSERT INTO public.polls (
+    title,
+    description,
+    creator_id,
+    is_public,
+    allow_multiple_votes,
+    allow_anonymous_votes,
+    allow_suggestions,
+    anonymous_dedupe,
+    poll_type,
+    status,
+    opens_at,
+    expires_at
+  )
+  VALUES (
+    poll_data->>'title',
+    NULLIF(poll_data->>'description', ''),
+    (poll_data->>'creator_id')::UUID,
+    COALESCE((poll_data->>'is_public')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, false),
+    COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, true),
+    COALESCE((poll_data->>'allow_suggestions')::BOOLEAN, false),
+    COALESCE(poll_data->>'anonymous_dedupe', 'device'),
+    COALESCE(poll_data->>'poll_type', 'choice'),
+    -- Any other status is derived from the schedule by sync_poll_status
+    CASE WHEN poll_data->>'status' = 'draft' THEN 'draft' ELSE 'active' END,
+    (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE,
+    (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  )
+  RETURNING * INTO new_poll;
+
+  -- Options keep the order they were submitted in
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT new_poll.id, option_text, (ordinality - 1)::INTEGER
+  FROM unnest(option_texts) WITH ORDINALITY AS t(option_text, ordinality);
+
+  IF COALESCE(array_length(voter_allowlist, 1), 0) > 0 THEN
+    PERFORM public.set_poll_voter_allowlist(new_poll.id, voter_allowlist);
+  END IF;
+
+  IF COALESCE(array_length(tags, 1), 0) > 0 THEN
+    PERFORM public.set_poll_tags(new_poll.id, tags);
+  END IF;
+
+  RETURN new_poll;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Edits can change anonymous_dedupe and log it with the other poll fields
+CREATE OR REPLACE FUNCTION public.update_poll_with_options(
+  poll_uuid UUID,
+  poll_data JSONB,
+  option_list JSONB,
+  confirm_vote_loss BOOLEAN DEFAULT false
+)
+RETURNS public.polls AS $$
+DECLARE
+  poll_record public.polls%ROWTYPE;
+  updated_poll public.polls%ROWTYPE;
+  option_count INTEGER;
+  total_votes BIGINT;
+  field_changes JSONB := '{}'::JSONB;
+  removed_options JSONB;
+  renamed_options JSONB;
+  added_options JSONB;
+  order_changed BOOLEAN;
+  field_name TEXT;
+BEGIN
+  SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+  IF NOT FOUND OR poll_record.creator_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  option_count := jsonb_array_length(option_list);
+
+  IF option_count < 2 THEN
+    RAISE EXCEPTION 'A poll needs at least 2 options';
+  END IF;
+
+  IF option_count > 10 THEN
+    RAISE EXCEPTION 'A poll can have at most 10 options';
+  END IF;
+
+  -- Every id in the list must belong to this poll
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(option_list) AS item
+    WHERE item->>'id' IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.poll_options po
+      WHERE po.id = (item->>'id')::UUID AND po.poll_id = poll_uuid
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option does not belong to this poll';
+  END IF;
+
+  SELECT COUNT(*) INTO total_votes FROM public.votes WHERE poll_id = poll_uuid;
+
+  IF total_votes > 0
+    AND poll_data ? 'poll_type'
+    AND poll_data->>'poll_type' IS DISTINCT FROM poll_record.poll_type THEN
+    RAISE EXCEPTION 'The poll type cannot change once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  IF total_votes > 0
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE > NOW() THEN
+    RAISE EXCEPTION 'A poll cannot be rescheduled to open later once votes have been cast'
+      USING ERRCODE = 'PV423';
+  END IF;
+
+  -- Options being removed, with the votes they would lose
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'text', po.text,
+      'votes', (SELECT COUNT(*) FROM public.votes v WHERE v.option_id = po.id)
+    ) ORDER BY po.order_index),
+    '[]'::JSONB
+  ) INTO removed_options
+  FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  IF NOT confirm_vote_loss AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(removed_options) AS removed
+    WHERE (removed->>'votes')::BIGINT > 0
+  ) THEN
+    RAISE EXCEPTION 'Removing options that have votes requires confirmation'
+      USING ERRCODE = 'PV409',
+            DETAIL = removed_options::TEXT;
+  END IF;
+
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object(
+      'id', po.id,
+      'from', po.text,
+      'to', item->>'text'
+    )),
+    '[]'::JSONB
+  ) INTO renamed_options
+  FROM jsonb_array_elements(option_list) AS item
+  JOIN public.poll_options po ON po.id = (item->>'id')::UUID
+  WHERE po.text IS DISTINCT FROM item->>'text';
+
+  SELECT COALESCE(jsonb_agg(item->>'text'), '[]'::JSONB) INTO added_options
+  FROM jsonb_array_elements(option_list) AS item
+  WHERE item->>'id' IS NULL;
+
+  -- Order changed if the kept options are no longer in their original relative order
+  SELECT COALESCE(bool_or(kept.old_rank <> kept.new_rank), false) INTO order_changed
+  FROM (
+    SELECT
+      RANK() OVER (ORDER BY po.order_index) AS old_rank,
+      RANK() OVER (ORDER BY item.position) AS new_rank
+    FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+    JOIN public.poll_options po ON po.id = (item.value->>'id')::UUID
+  ) kept;
+
+  -- Record which poll fields change
+  FOREACH field_name IN ARRAY ARRAY[
+    'title', 'description', 'is_public', 'allow_multiple_votes',
+    'allow_anonymous_votes', 'allow_suggestions', 'anonymous_dedupe', 'poll_type'
+  ] LOOP
+    IF poll_data ? field_name
+      AND (poll_data->field_name) IS DISTINCT FROM (to_jsonb(poll_record)->field_name) THEN
+      field_changes := field_changes || jsonb_build_object(
+        field_name,
+        jsonb_build_object(
+          'from', to_jsonb(poll_record)->field_name,
+          'to', poll_data->field_name
+        )
+      );
+    END IF;
+  END LOOP;
+
+  -- Timestamps are compared as values, since their text forms can differ
+  IF poll_data ? 'opens_at'
+    AND (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.opens_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'opens_at',
+      jsonb_build_object('from', poll_record.opens_at, 'to', poll_data->'opens_at')
+    );
+  END IF;
+
+  IF poll_data ? 'expires_at'
+    AND (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE IS DISTINCT FROM poll_record.expires_at THEN
+    field_changes := field_changes || jsonb_build_object(
+      'expires_at',
+      jsonb_build_object('from', poll_record.expires_at, 'to', poll_data->'expires_at')
+    );
+  END IF;
+
+  UPDATE public.polls SET
+    title = COALESCE(poll_data->>'title', title),
+    description = CASE
+      WHEN poll_data ? 'description' THEN NULLIF(poll_data->>'description', '')
+      ELSE description
+    END,
+    is_public = COALESCE((poll_data->>'is_public')::BOOLEAN, is_public),
+    allow_multiple_votes = COALESCE((poll_data->>'allow_multiple_votes')::BOOLEAN, allow_multiple_votes),
+    allow_anonymous_votes = COALESCE((poll_data->>'allow_anonymous_votes')::BOOLEAN, allow_anonymous_votes),
+    allow_suggestions = COALESCE((poll_data->>'allow_suggestions')::BOOLEAN, allow_suggestions),
+    anonymous_dedupe = COALESCE(poll_data->>'anonymous_dedupe', anonymous_dedupe),
+    poll_type = COALESCE(poll_data->>'poll_type', poll_type),
+    opens_at = CASE
+      WHEN poll_data ? 'opens_at' THEN (poll_data->>'opens_at')::TIMESTAMP WITH TIME ZONE
+      ELSE opens_at
+    END,
+    expires_at = CASE
+      WHEN poll_data ? 'expires_at' THEN (poll_data->>'expires_at')::TIMESTAMP WITH TIME ZONE
+      ELSE expires_at
+    END
+  WHERE id = poll_uuid
+  RETURNING * INTO updated_poll;
+
+  -- Removing an option cascades to its votes
+  DELETE FROM public.poll_options po
+  WHERE po.poll_id = poll_uuid
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(option_list) AS item
+    WHERE (item->>'id')::UUID = po.id
+  );
+
+  -- Move kept options out of the way first, since (poll_id, order_index) is unique
+  UPDATE public.poll_options
+  SET order_index = -1 - order_index
+  WHERE poll_id = poll_uuid;
+
+  UPDATE public.poll_options po
+  SET text = item.value->>'text',
+      order_index = (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE po.id = (item.value->>'id')::UUID;
+
+  INSERT INTO public.poll_options (poll_id, text, order_index)
+  SELECT poll_uuid, item.value->>'text', (item.position - 1)::INTEGER
+  FROM jsonb_array_elements(option_list) WITH ORDINALITY AS item(value, position)
+  WHERE item.value->>'id' IS NULL;
+
+  -- Only log edits that actually changed something
+  IF field_changes <> '{}'::JSONB
+    OR jsonb_array_length(removed_options) > 0
+    OR jsonb_array_length(renamed_options) > 0
+    OR jsonb_array_length(added_options) > 0
+    OR order_changed THEN
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_uuid,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', field_changes,
+        'added', added_options,
+        'removed', removed_options,
+        'renamed', renamed_options,
+        'reordered', order_changed
+      )
+    );
+  END IF;
+
+  RETURN updated_poll;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,286 @@
+-- Vote fraud checks. Every vote cast in the app is scored by the vote route from
+-- recent votes on the poll (bursts from one IP address or subnet, clusters of
+-- identical user agents, guests churning through voter ids on one address) and
+-- how soon after viewing the poll it came. Votes scoring too high are held for
+-- the poll's creator to review instead of being counted:
+--   review_status NULL:          never flagged, counted
+--   review_status 'quarantined': held for review, not counted
+--   review_status 'accepted':    released by the creator, counted
+--   review_status 'rejected':    turned down by the creator, not counted
+-- Rejected votes are kept, so their voter is still recognised if they return.
+ALTER TABLE public.votes
+  ADD COLUMN fraud_score SMALLINT NOT NULL DEFAULT 0,
+  ADD COLUMN fraud_reasons TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN review_status VARCHAR(20)
+  CHECK (review_status IN ('quarantined', 'accepted', 'rejected'));
+
+CREATE INDEX idx_votes_poll_quarantined ON public.votes(poll_id, created_at)
+WHERE review_status IS NOT NULL;
+
+-- Signed-in votes are now scored and written by the server too, so nobody
+-- inserts online votes with their own session any more. Imported ballots keep
+-- their policy (migration 020); they are never scored.
+DROP POLICY "Signed-in users can vote on public polls" ON public.votes;
+DROP POLICY "Invitees can vote on private polls" ON public.votes;
+
+-- Clients can tell held votes apart, but not why they were held (migration 022)
+GRANT SELECT (review_status) ON public.votes TO anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.votes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.votes (
+  id, poll_id, option_id, user_id, voter_fingerprint, rank, score, source, review_status, created_at
+);
+
+-- What the vote route scores a new vote by. Ballots are counted per voter, so a
+-- ranked or scored ballot's rows count once, and the voter's own are left out.
+CREATE OR REPLACE FUNCTION public.get_vote_fraud_signals(
+  poll_uuid UUID,
+  voter_uuid UUID,
+  voter_key TEXT,
+  voter_ip INET,
+  voter_agent TEXT,
+  viewer_key TEXT
+)
+RETURNS TABLE(
+  ip_ballots BIGINT,
+  subnet_ballots BIGINT,
+  agent_ballots BIGINT,
+  ip_voter_ids BIGINT,
+  seconds_since_view NUMERIC,
+  view_expected BOOLEAN
+) AS $$
+DECLARE
+  voter TEXT := COALESCE(voter_uuid::TEXT, voter_key);
+  -- IPv4 addresses are grouped by /24, IPv6 by /64
+  voter_subnet CIDR := network(set_masklen(voter_ip, CASE WHEN family(voter_ip) = 4 THEN 24 ELSE 64 END));
+BEGIN
+  RETURN QUERY
+  SELECT
+    (
+      SELECT COUNT(DISTINCT COALESCE(v.user_id::TEXT, v.voter_fingerprint))
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.source = 'online'
+      AND v.created_at > NOW() - INTERVAL '10 minutes'
+      AND v.ip_address = voter_ip
+      AND COALESCE(v.user_id::TEXT, v.voter_fingerprint) IS DISTINCT FROM voter
+    ),
+    (
+      SELECT COUNT(DISTINCT COALESCE(v.user_id::TEXT, v.voter_fingerprint))
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.source = 'online'
+      AND v.created_at > NOW() - INTERVAL '10 minutes'
+      AND v.ip_address <<= voter_subnet
+      AND COALESCE(v.user_id::TEXT, v.voter_fingerprint) IS DISTINCT FROM voter
+    ),
+    (
+      SELECT COUNT(DISTINCT COALESCE(v.user_id::TEXT, v.voter_fingerprint))
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.source = 'online'
+      AND v.created_at > NOW() - INTERVAL '10 minutes'
+      AND v.user_agent = voter_agent
+      AND COALESCE(v.user_id::TEXT, v.voter_fingerprint) IS DISTINCT FROM voter
+    ),
+    -- Other guest voter ids seen on this address, as when cookies are cleared between votes
+    (
+      SELECT COUNT(DISTINCT v.voter_fingerprint)
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.source = 'online'
+      AND v.user_id IS NULL
+      AND v.created_at > NOW() - INTERVAL '24 hours'
+      AND v.ip_address = voter_ip
+      AND v.voter_fingerprint IS DISTINCT FROM voter_key
+    ),
+    (
+      SELECT ROUND(EXTRACT(EPOCH FROM NOW() - MAX(pv.viewed_at))::NUMERIC, 1)
+      FROM public.poll_views pv
+      WHERE pv.poll_id = poll_uuid
+      AND (pv.viewer_id = voter_uuid OR pv.viewer_fingerprint = viewer_key)
+    ),
+    -- Views are only recorded on published public polls
+    (
+      SELECT p.is_public AND p.status <> 'draft'
+      FROM public.polls p
+      WHERE p.id = poll_uuid
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_vote_fraud_signals(UUID, UUID, TEXT, INET, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_vote_fraud_signals(UUID, UUID, TEXT, INET, TEXT, TEXT) TO service_role;
+
+-- Flagged ballots of a poll for its creator, held ones first. A ballot is the
+-- rows one voter inserts together, as in queue_vote_webhooks; voters stay anonymous.
+CREATE OR REPLACE FUNCTION public.get_flagged_ballots(poll_uuid UUID)
+RETURNS TABLE(
+  vote_ids UUID[],
+  option_ids UUID[],
+  scores INTEGER[],
+  is_guest BOOLEAN,
+  fraud_score SMALLINT,
+  fraud_reasons TEXT[],
+  review_status VARCHAR(20),
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ARRAY_AGG(v.id ORDER BY v.rank NULLS LAST, v.id),
+    ARRAY_AGG(v.option_id ORDER BY v.rank NULLS LAST, v.id),
+    ARRAY_AGG(v.score ORDER BY v.rank NULLS LAST, v.id),
+    BOOL_AND(v.user_id IS NULL),
+    MAX(v.fraud_score),
+    MAX(v.fraud_reasons),
+    MAX(v.review_status)::VARCHAR(20),
+    v.created_at
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND v.review_status IS NOT NULL
+  GROUP BY COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT), v.created_at
+  ORDER BY MAX(v.review_status) = 'quarantined' DESC, v.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accepting counts held votes; rejecting keeps them out for good. Only held
+-- votes can be reviewed, so a decision is never silently reversed.
+CREATE OR REPLACE FUNCTION public.review_quarantined_votes(
+  poll_uuid UUID,
+  vote_uuids UUID[],
+  accept BOOLEAN
+)
+RETURNS INTEGER AS $$
+DECLARE
+  reviewed INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = poll_uuid AND creator_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Poll not found or you are not its creator'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.votes
+  SET review_status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END
+  WHERE poll_id = poll_uuid
+  AND id = ANY(vote_uuids)
+  AND review_status = 'quarantined';
+
+  GET DIAGNOSTICS reviewed = ROW_COUNT;
+  RETURN reviewed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Results only count votes that were never held or were accepted. vote_count is
+-- that filtered tally; raw_vote_count counts every vote, held and rejected ones
+-- included. The return type changes, so the function must be recreated.
+DROP FUNCTION IF EXISTS public.get_poll_results(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_poll_results(poll_uuid UUID)
+RETURNS TABLE(
+  option_id UUID,
+  option_text VARCHAR(1000),
+  order_index INTEGER,
+  vote_count BIGINT,
+  raw_vote_count BIGINT,
+  imported_vote_count BIGINT,
+  percentage NUMERIC(5,2),
+  average_score NUMERIC(5,2),
+  median_score NUMERIC(5,2),
+  score_distribution JSONB
+) AS $$
+DECLARE
+  total_votes BIGINT;
+BEGIN
+  -- Get total counted votes for the poll (first preferences only for ranked polls)
+  SELECT COUNT(*) INTO total_votes
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND (v.rank IS NULL OR v.rank = 1)
+  AND COALESCE(v.review_status, 'accepted') = 'accepted';
+
+  -- Return results with vote counts, percentages and score aggregates
+  RETURN QUERY
+  SELECT
+    po.id as option_id,
+    po.text as option_text,
+    po.order_index,
+    COALESCE(vote_counts.count, 0) as vote_count,
+    COALESCE(vote_counts.raw_count, 0) as raw_vote_count,
+    COALESCE(vote_counts.imported_count, 0) as imported_vote_count,
+    CASE
+      WHEN total_votes > 0 THEN
+        ROUND((COALESCE(vote_counts.count, 0)::NUMERIC / total_votes::NUMERIC) * 100, 2)
+      ELSE 0::NUMERIC(5,2)
+    END as percentage,
+    score_stats.average_score,
+    score_stats.median_score,
+    score_dist.distribution as score_distribution
+  FROM public.poll_options po
+  LEFT JOIN (
+    SELECT
+      v.option_id,
+      COUNT(*) FILTER (WHERE COALESCE(v.review_status, 'accepted') = 'accepted') as count,
+      COUNT(*) as raw_count,
+      COUNT(*) FILTER (
+        WHERE v.source = 'import' AND COALESCE(v.review_status, 'accepted') = 'accepted'
+      ) as imported_count
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND (v.rank IS NULL OR v.rank = 1)
+    GROUP BY v.option_id
+  ) vote_counts ON po.id = vote_counts.option_id
+  LEFT JOIN (
+    SELECT
+      v.option_id,
+      ROUND(AVG(v.score), 2)::NUMERIC(5,2) as average_score,
+      ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v.score)::NUMERIC, 2)::NUMERIC(5,2) as median_score
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid
+    AND v.score IS NOT NULL
+    AND COALESCE(v.review_status, 'accepted') = 'accepted'
+    GROUP BY v.option_id
+  ) score_stats ON po.id = score_stats.option_id
+  LEFT JOIN (
+    SELECT per_score.option_id, JSONB_OBJECT_AGG(per_score.score, per_score.count) as distribution
+    FROM (
+      SELECT v.option_id, v.score, COUNT(*) as count
+      FROM public.votes v
+      WHERE v.poll_id = poll_uuid
+      AND v.score IS NOT NULL
+      AND COALESCE(v.review_status, 'accepted') = 'accepted'
+      GROUP BY v.option_id, v.score
+    ) per_score
+    GROUP BY per_score.option_id
+  ) score_dist ON po.id = score_dist.option_id
+  WHERE po.poll_id = poll_uuid
+  ORDER BY po.order_index;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The instant runoff only counts the same ballots
+CREATE OR REPLACE FUNCTION public.get_ranked_ballots(poll_uuid UUID)
+RETURNS TABLE(
+  ballot UUID[]
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ARRAY_AGG(v.option_id ORDER BY v.rank) as ballot
+  FROM public.votes v
+  WHERE v.poll_id = poll_uuid
+  AND v.rank IS NOT NULL
+  AND COALESCE(v.review_status, 'accepted') = 'accepted'
+  GROUP BY COALESCE(v.user_id::TEXT, v.voter_fingerprint, v.id::TEXT);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,91 @@
+-- Votes for approved suggestions are cast by the app instead of inside
+-- review_option_suggestion. The raw insert skipped the vote service, so those
+-- votes were never scored for fraud (migration 023), and on approval polls it
+-- left a one-option ballot that kept the suggester from casting their full one.
+-- The app now votes for the suggester through castVote, on choice polls only.
+
+-- Pending suggestions on other polls no longer vote once approved
+UPDATE public.poll_option_suggestions s
+SET auto_vote = false
+FROM public.polls p
+WHERE p.id = s.poll_id
+AND s.auto_vote
+AND s.status = 'pending'
+AND p.poll_type <> 'choice';
+
+-- Approve or reject a pending suggestion as the poll's creator. An approval adds
+-- the option at the end of the poll and logs it in poll_edits.
+CREATE OR REPLACE FUNCTION public.review_option_suggestion(
+  suggestion_uuid UUID,
+  approve BOOLEAN
+)
+RETURNS public.poll_option_suggestions AS $$
+DECLARE
+  suggestion_record public.poll_option_suggestions%ROWTYPE;
+  poll_record public.polls%ROWTYPE;
+  new_option_id UUID;
+BEGIN
+  SELECT * INTO suggestion_record
+  FROM public.poll_option_suggestions
+  WHERE id = suggestion_uuid
+  FOR UPDATE;
+
+  -- Locked so concurrent approvals cannot pass the option cap
+  SELECT * INTO poll_record
+  FROM public.polls
+  WHERE id = suggestion_record.poll_id
+  FOR UPDATE;
+
+  IF suggestion_record.id IS NULL
+    OR poll_record.creator_id IS DISTINCT FROM auth.uid()
+    OR suggestion_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Suggestion not found or already reviewed'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF approve THEN
+    IF EXISTS (
+      SELECT 1 FROM public.poll_options
+      WHERE poll_id = poll_record.id
+      AND lower(trim(text)) = lower(trim(suggestion_record.text))
+    ) THEN
+      RAISE EXCEPTION 'This option is already on the poll'
+        USING ERRCODE = '23505';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_record.id) >= 10 THEN
+      RAISE EXCEPTION 'A poll can have at most 10 options'
+        USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO public.poll_options (poll_id, text, order_index)
+    SELECT poll_record.id, suggestion_record.text, COALESCE(MAX(order_index) + 1, 0)
+    FROM public.poll_options
+    WHERE poll_id = poll_record.id
+    RETURNING id INTO new_option_id;
+
+    INSERT INTO public.poll_edits (poll_id, editor_id, changes)
+    VALUES (
+      poll_record.id,
+      auth.uid(),
+      jsonb_build_object(
+        'fields', '{}'::JSONB,
+        'added', jsonb_build_array(suggestion_record.text),
+        'removed', '[]'::JSONB,
+        'renamed', '[]'::JSONB,
+        'reordered', false
+      )
+    );
+  END IF;
+
+  UPDATE public.poll_option_suggestions
+  SET
+    status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+    option_id = new_option_id,
+    reviewed_at = NOW()
+  WHERE id = suggestion_uuid
+  RETURNING * INTO suggestion_record;
+
+  RETURN suggestion_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
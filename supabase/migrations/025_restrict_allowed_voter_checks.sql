@@ -0,0 +1,39 @@
+-- is_allowed_voter runs as its owner so it can read auth.users, and migration 014
+-- left it executable by everyone: anyone could ask whether any user is on any
+-- poll's allowlist, and so learn who a private poll was shared with. The app now
+-- checks voters with the service role (isAllowedVoter). Signed-in users keep the
+-- grant, since validate_vote calls the function as the creator importing ballots
+-- (migration 020), but may only ask about themselves or their own polls' voters.
+CREATE OR REPLACE FUNCTION public.is_allowed_voter(poll_uuid UUID, voter_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Requests without a JWT role come from the database itself, not the API
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role'
+    AND voter_uuid IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.polls
+      WHERE id = poll_uuid AND creator_id = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Only the voter or the poll creator can check this voter'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM public.poll_voter_allowlist WHERE poll_id = poll_uuid
+  ) OR EXISTS (
+    SELECT 1
+    FROM auth.users u
+    JOIN public.poll_voter_allowlist a ON a.poll_id = poll_uuid
+    WHERE u.id = voter_uuid
+    AND u.email_confirmed_at IS NOT NULL
+    AND (
+      a.entry = lower(u.email)
+      OR (left(a.entry, 1) = '@' AND right(lower(u.email), length(a.entry)) = a.entry)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.is_allowed_voter(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_allowed_voter(UUID, UUID) TO authenticated, service_role;
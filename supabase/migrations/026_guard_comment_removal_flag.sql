@@ -0,0 +1,23 @@
+-- The authors' UPDATE policy (migration 015) only keeps deleted_at unset, so an
+-- author could mark their own comment as removed by the poll's creator. The flag
+-- now only changes together with deleted_at, which delete_poll_comment sets;
+-- authors' updates cannot, so their edits must leave it as it was.
+CREATE OR REPLACE FUNCTION public.guard_poll_comment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.poll_id <> OLD.poll_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id <> OLD.author_id
+    OR NEW.created_at <> OLD.created_at
+    OR (NEW.deleted_at IS NULL AND NEW.deleted_by_creator <> OLD.deleted_by_creator)
+  THEN
+    RAISE EXCEPTION 'Only the text of a comment can be edited';
+  END IF;
+
+  IF NEW.deleted_at IS NULL AND NEW.body <> OLD.body THEN
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -44,6 +44,11 @@ export interface Database {
           is_public: boolean;
           allow_multiple_votes: boolean;
           allow_anonymous_votes: boolean;
+          allow_suggestions: boolean;
+          anonymous_dedupe: AnonymousDedupe;
+          poll_type: PollType;
+          status: PollStatus;
+          opens_at: string | null;
           expires_at: string | null;
           created_at: string;
           updated_at: string;
@@ -56,6 +61,11 @@ export interface Database {
           is_public?: boolean;
           allow_multiple_votes?: boolean;
           allow_anonymous_votes?: boolean;
+          allow_suggestions?: boolean;
+          anonymous_dedupe?: AnonymousDedupe;
+          poll_type?: PollType;
+          status?: PollStatus;
+          opens_at?: string | null;
           expires_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -68,6 +78,11 @@ export interface Database {
           is_public?: boolean;
           allow_multiple_votes?: boolean;
           allow_anonymous_votes?: boolean;
+          allow_suggestions?: boolean;
+          anonymous_dedupe?: AnonymousDedupe;
+          poll_type?: PollType;
+          status?: PollStatus;
+          opens_at?: string | null;
           expires_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -105,6 +120,12 @@ export interface Database {
           voter_fingerprint: string | null;
           ip_address: string | null;
           user_agent: string | null;
+          rank: number | null;
+          score: number | null;
+          source: VoteSource;
+          fraud_score: number;
+          fraud_reasons: VoteFraudReason[];
+          review_status: VoteReviewStatus | null;
           created_at: string;
         };
         Insert: {
@@ -115,6 +136,12 @@ export interface Database {
           voter_fingerprint?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          rank?: number | null;
+          score?: number | null;
+          source?: VoteSource;
+          fraud_score?: number;
+          fraud_reasons?: VoteFraudReason[];
+          review_status?: VoteReviewStatus | null;
           created_at?: string;
         };
         Update: {
@@ -125,9 +152,47 @@ export interface Database {
           voter_fingerprint?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          rank?: number | null;
+          score?: number | null;
+          source?: VoteSource;
+          fraud_score?: number;
+          fraud_reasons?: VoteFraudReason[];
+          review_status?: VoteReviewStatus | null;
           created_at?: string;
         };
       };
+      vote_imports: {
+        Row: {
+          id: string;
+          poll_id: string;
+          created_by: string;
+          idempotency_key: string;
+          request_hash: string;
+          result: VoteImportResult | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          created_by: string;
+          idempotency_key: string;
+          request_hash: string;
+          result?: VoteImportResult | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          created_by?: string;
+          idempotency_key?: string;
+          request_hash?: string;
+          result?: VoteImportResult | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+      };
       poll_views: {
         Row: {
           id: string;
@@ -136,6 +201,7 @@ export interface Database {
           viewer_fingerprint: string | null;
           ip_address: string | null;
           user_agent: string | null;
+          referrer: string | null;
           viewed_at: string;
         };
         Insert: {
@@ -145,6 +211,7 @@ export interface Database {
           viewer_fingerprint?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          referrer?: string | null;
           viewed_at?: string;
         };
         Update: {
@@ -154,6 +221,7 @@ export interface Database {
           viewer_fingerprint?: string | null;
           ip_address?: string | null;
           user_agent?: string | null;
+          referrer?: string | null;
           viewed_at?: string;
         };
       };
@@ -164,6 +232,11 @@ export interface Database {
           sharer_id: string;
           share_method: string;
           recipient_info: Json | null;
+          token_hash: string | null;
+          label: string | null;
+          expires_at: string | null;
+          max_uses: number | null;
+          revoked_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -172,6 +245,11 @@ export interface Database {
           sharer_id: string;
           share_method: string;
           recipient_info?: Json | null;
+          token_hash?: string | null;
+          label?: string | null;
+          expires_at?: string | null;
+          max_uses?: number | null;
+          revoked_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -180,6 +258,321 @@ export interface Database {
           sharer_id?: string;
           share_method?: string;
           recipient_info?: Json | null;
+          token_hash?: string | null;
+          label?: string | null;
+          expires_at?: string | null;
+          max_uses?: number | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+      };
+      poll_voter_allowlist: {
+        Row: {
+          poll_id: string;
+          entry: string;
+          created_at: string;
+        };
+        Insert: {
+          poll_id: string;
+          entry: string;
+          created_at?: string;
+        };
+        Update: {
+          poll_id?: string;
+          entry?: string;
+          created_at?: string;
+        };
+      };
+      poll_tags: {
+        Row: {
+          poll_id: string;
+          tag: string;
+          created_at: string;
+        };
+        Insert: {
+          poll_id: string;
+          tag: string;
+          created_at?: string;
+        };
+        Update: {
+          poll_id?: string;
+          tag?: string;
+          created_at?: string;
+        };
+      };
+      poll_invite_redemptions: {
+        Row: {
+          id: string;
+          share_id: string;
+          poll_id: string;
+          user_id: string | null;
+          voter_fingerprint: string | null;
+          redeemed_at: string;
+        };
+        Insert: {
+          id?: string;
+          share_id: string;
+          poll_id: string;
+          user_id?: string | null;
+          voter_fingerprint?: string | null;
+          redeemed_at?: string;
+        };
+        Update: {
+          id?: string;
+          share_id?: string;
+          poll_id?: string;
+          user_id?: string | null;
+          voter_fingerprint?: string | null;
+          redeemed_at?: string;
+        };
+      };
+      poll_option_suggestions: {
+        Row: {
+          id: string;
+          poll_id: string;
+          text: string;
+          suggested_by: string;
+          auto_vote: boolean;
+          status: OptionSuggestionStatus;
+          option_id: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          text: string;
+          suggested_by: string;
+          auto_vote?: boolean;
+          status?: OptionSuggestionStatus;
+          option_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          text?: string;
+          suggested_by?: string;
+          auto_vote?: boolean;
+          status?: OptionSuggestionStatus;
+          option_id?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      poll_search_documents: {
+        Row: {
+          poll_id: string;
+          search_vector: string;
+        };
+        Insert: {
+          poll_id: string;
+          search_vector: string;
+        };
+        Update: {
+          poll_id?: string;
+          search_vector?: string;
+        };
+      };
+      poll_comments: {
+        Row: {
+          id: string;
+          poll_id: string;
+          parent_id: string | null;
+          author_id: string;
+          body: string;
+          show_vote: boolean;
+          edited_at: string | null;
+          deleted_at: string | null;
+          deleted_by_creator: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          parent_id?: string | null;
+          author_id: string;
+          body: string;
+          show_vote?: boolean;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          deleted_by_creator?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          parent_id?: string | null;
+          author_id?: string;
+          body?: string;
+          show_vote?: boolean;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          deleted_by_creator?: boolean;
+          created_at?: string;
+        };
+      };
+      poll_edits: {
+        Row: {
+          id: string;
+          poll_id: string;
+          editor_id: string | null;
+          changes: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          editor_id?: string | null;
+          changes: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          editor_id?: string | null;
+          changes?: Json;
+          created_at?: string;
+        };
+      };
+      poll_status_changes: {
+        Row: {
+          id: string;
+          poll_id: string;
+          from_status: PollStatus;
+          to_status: PollStatus;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          from_status: PollStatus;
+          to_status: PollStatus;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          from_status?: PollStatus;
+          to_status?: PollStatus;
+          changed_at?: string;
+        };
+      };
+      api_keys: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: ApiKeyScope[];
+          last_used_at: string | null;
+          expires_at: string | null;
+          revoked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          key_prefix: string;
+          key_hash: string;
+          scopes: ApiKeyScope[];
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          key_prefix?: string;
+          key_hash?: string;
+          scopes?: ApiKeyScope[];
+          last_used_at?: string | null;
+          expires_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+        };
+      };
+      webhooks: {
+        Row: {
+          id: string;
+          owner_id: string;
+          poll_id: string | null;
+          url: string;
+          secret: string;
+          events: WebhookEvent[];
+          vote_threshold: number | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          poll_id?: string | null;
+          url: string;
+          secret: string;
+          events: WebhookEvent[];
+          vote_threshold?: number | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          poll_id?: string | null;
+          url?: string;
+          secret?: string;
+          events?: WebhookEvent[];
+          vote_threshold?: number | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          webhook_id: string;
+          event: WebhookEvent;
+          payload: Json;
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          next_attempt_at: string | null;
+          response_status: number | null;
+          last_error: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          webhook_id: string;
+          event: WebhookEvent;
+          payload: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          response_status?: number | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          webhook_id?: string;
+          event?: WebhookEvent;
+          payload?: Json;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          next_attempt_at?: string | null;
+          response_status?: number | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
           created_at?: string;
         };
       };
@@ -198,8 +591,157 @@ export interface Database {
           popularity_score: number;
         };
       };
+      popular_tags: {
+        Row: {
+          tag: string;
+          poll_count: number;
+          vote_count: number;
+        };
+      };
     };
     Functions: {
+      create_poll_with_options: {
+        Args: {
+          poll_data: Json;
+          option_texts: string[];
+          voter_allowlist?: string[];
+          tags?: string[];
+        };
+        Returns: Database["public"]["Tables"]["polls"]["Row"];
+      };
+      authenticate_api_key: {
+        Args: {
+          api_key_hash: string;
+        };
+        Returns: {
+          key_id: string;
+          user_id: string;
+          scopes: ApiKeyScope[];
+        }[];
+      };
+      claim_webhook_deliveries: {
+        Args: {
+          batch_size?: number;
+          lease_seconds?: number;
+        };
+        Returns: {
+          id: string;
+          webhook_id: string;
+          event: WebhookEvent;
+          payload: Json;
+          attempts: number;
+          url: string;
+          secret: string;
+        }[];
+      };
+      advance_poll_statuses: {
+        Args: {
+          batch_size?: number;
+        };
+        Returns: {
+          poll_id: string;
+          from_status: PollStatus;
+          to_status: PollStatus;
+        }[];
+      };
+      get_poll_analytics: {
+        Args: {
+          poll_uuid: string;
+          bucket_size?: string;
+          range_start?: string | null;
+          range_end?: string | null;
+        };
+        Returns: Json;
+      };
+      publish_poll: {
+        Args: {
+          poll_uuid: string;
+        };
+        Returns: Database["public"]["Tables"]["polls"]["Row"];
+      };
+      is_allowed_voter: {
+        Args: {
+          poll_uuid: string;
+          voter_uuid: string | null;
+        };
+        Returns: boolean;
+      };
+      set_poll_voter_allowlist: {
+        Args: {
+          poll_uuid: string;
+          entries: string[];
+        };
+        Returns: undefined;
+      };
+      set_poll_tags: {
+        Args: {
+          poll_uuid: string;
+          tags: string[];
+        };
+        Returns: undefined;
+      };
+      redeem_poll_invite: {
+        Args: {
+          invite_token: string;
+          fingerprint?: string | null;
+        };
+        Returns: string;
+      };
+      get_poll_invites: {
+        Args: {
+          poll_uuid: string;
+        };
+        Returns: {
+          id: string;
+          poll_id: string;
+          label: string | null;
+          expires_at: string | null;
+          max_uses: number | null;
+          revoked_at: string | null;
+          created_at: string;
+          redemption_count: number;
+        }[];
+      };
+      search_polls: {
+        Args: {
+          search_term: string;
+          public_only?: boolean | null;
+          creator_uuid?: string | null;
+          include_drafts?: boolean;
+          result_limit?: number;
+          result_offset?: number;
+          tag_filter?: string | null;
+        };
+        Returns: {
+          id: string;
+          rank: number;
+          title_highlight: string;
+          snippet: string | null;
+          total_count: number;
+        }[];
+      };
+      review_option_suggestion: {
+        Args: {
+          suggestion_uuid: string;
+          approve: boolean;
+        };
+        Returns: Database["public"]["Tables"]["poll_option_suggestions"]["Row"];
+      };
+      delete_poll_comment: {
+        Args: {
+          comment_uuid: string;
+        };
+        Returns: undefined;
+      };
+      update_poll_with_options: {
+        Args: {
+          poll_uuid: string;
+          poll_data: Json;
+          option_list: Json;
+          confirm_vote_loss?: boolean;
+        };
+        Returns: Database["public"]["Tables"]["polls"]["Row"];
+      };
       get_poll_results: {
         Args: {
           poll_uuid: string;
@@ -209,9 +751,63 @@ export interface Database {
           option_text: string;
           order_index: number;
           vote_count: number;
+          raw_vote_count: number;
+          imported_vote_count: number;
           percentage: number;
+          average_score: number | null;
+          median_score: number | null;
+          score_distribution: Record<string, number> | null;
+        }[];
+      };
+      get_ranked_ballots: {
+        Args: {
+          poll_uuid: string;
+        };
+        Returns: {
+          ballot: string[];
+        }[];
+      };
+      get_vote_fraud_signals: {
+        Args: {
+          poll_uuid: string;
+          voter_uuid: string | null;
+          voter_key: string | null;
+          voter_ip: string | null;
+          voter_agent: string | null;
+          viewer_key: string | null;
+        };
+        Returns: {
+          ip_ballots: number;
+          subnet_ballots: number;
+          agent_ballots: number;
+          ip_voter_ids: number;
+          seconds_since_view: number | null;
+          view_expected: boolean;
+        }[];
+      };
+      get_flagged_ballots: {
+        Args: {
+          poll_uuid: string;
+        };
+        Returns: {
+          vote_ids: string[];
+          option_ids: string[];
+          scores: (number | null)[];
+          is_guest: boolean;
+          fraud_score: number;
+          fraud_reasons: VoteFraudReason[];
+          review_status: VoteReviewStatus;
+          created_at: string;
         }[];
       };
+      review_quarantined_votes: {
+        Args: {
+          poll_uuid: string;
+          vote_uuids: string[];
+          accept: boolean;
+        };
+        Returns: number;
+      };
       get_user_poll_stats: {
         Args: {
           user_uuid: string;
@@ -239,6 +835,31 @@ export interface Database {
 }
 
 // Type helpers for easier usage
+export type PollType = "choice" | "ranked" | "approval" | "score" | "rating";
+
+export type PollStatus = "draft" | "scheduled" | "active" | "closed";
+
+// Votes cast in the app are "online"; ballots imported by the creator are "import"
+export type VoteSource = "online" | "import";
+
+// How guests are told apart: by their signed voter cookie only, or also by
+// their IP address and user agent ("device") or IP address alone ("network")
+export type AnonymousDedupe = "cookie" | "device" | "network";
+
+// Votes that score too high for fraud are "quarantined" until the poll's
+// creator accepts or rejects them; votes never flagged have no review status
+export type VoteReviewStatus = "quarantined" | "accepted" | "rejected";
+
+export type VoteFraudReason =
+  | "ip_burst"
+  | "subnet_burst"
+  | "agent_cluster"
+  | "voter_churn"
+  | "no_view"
+  | "fast_vote";
+
+export type OptionSuggestionStatus = "pending" | "approved" | "rejected";
+
 export type Poll = Database["public"]["Tables"]["polls"]["Row"];
 export type PollInsert = Database["public"]["Tables"]["polls"]["Insert"];
 export type PollUpdate = Database["public"]["Tables"]["polls"]["Update"];
@@ -249,7 +870,12 @@ export type PollOptionInsert =
 export type PollOptionUpdate =
   Database["public"]["Tables"]["poll_options"]["Update"];
 
-export type Vote = Database["public"]["Tables"]["votes"]["Row"];
+// Clients cannot select where a vote came from (migration 022) or why it was
+// flagged (migration 023)
+export type Vote = Omit<
+  Database["public"]["Tables"]["votes"]["Row"],
+  "ip_address" | "user_agent" | "fraud_score" | "fraud_reasons"
+>;
 export type VoteInsert = Database["public"]["Tables"]["votes"]["Insert"];
 export type VoteUpdate = Database["public"]["Tables"]["votes"]["Update"];
 
@@ -261,16 +887,60 @@ export type PollShare = Database["public"]["Tables"]["poll_shares"]["Row"];
 export type PollShareInsert =
   Database["public"]["Tables"]["poll_shares"]["Insert"];
 
+// An invite link as listed for its poll's creator; the token hash is never selected
+export type PollInvite =
+  Database["public"]["Functions"]["get_poll_invites"]["Returns"][0];
+export type PollInviteRedemption =
+  Database["public"]["Tables"]["poll_invite_redemptions"]["Row"];
+
+// Suggestions come with their suggester's public profile
+export type PollOptionSuggestion =
+  Database["public"]["Tables"]["poll_option_suggestions"]["Row"] & {
+    suggester?: Pick<Profile, "id" | "username" | "avatar_url"> | null;
+  };
+
+// Comments come with their author's public profile
+export type PollComment =
+  Database["public"]["Tables"]["poll_comments"]["Row"] & {
+    author?: Pick<Profile, "id" | "username" | "avatar_url"> | null;
+  };
+
+export type PollEdit = Database["public"]["Tables"]["poll_edits"]["Row"];
+export type PollStatusChange =
+  Database["public"]["Tables"]["poll_status_changes"]["Row"];
+
+// Listings never select the hash
+export type ApiKey = Omit<
+  Database["public"]["Tables"]["api_keys"]["Row"],
+  "key_hash"
+>;
+
+// Listings never select the signing secret
+export type Webhook = Omit<
+  Database["public"]["Tables"]["webhooks"]["Row"],
+  "secret"
+>;
+export type WebhookDelivery =
+  Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+
 export type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 export type ProfileInsert = Database["public"]["Tables"]["profiles"]["Insert"];
 export type ProfileUpdate = Database["public"]["Tables"]["profiles"]["Update"];
 
 export type PopularPoll = Database["public"]["Views"]["popular_polls"]["Row"];
+export type PopularTag = Database["public"]["Views"]["popular_tags"]["Row"];
 
 export type PollResult =
   Database["public"]["Functions"]["get_poll_results"]["Returns"][0];
 export type UserPollStats =
   Database["public"]["Functions"]["get_user_poll_stats"]["Returns"][0];
+export type RankedBallot =
+  Database["public"]["Functions"]["get_ranked_ballots"]["Returns"][0];
+export type VoteFraudSignals =
+  Database["public"]["Functions"]["get_vote_fraud_signals"]["Returns"][0];
+// A ballot held for, or already given, its poll creator's review
+export type FlaggedBallot =
+  Database["public"]["Functions"]["get_flagged_ballots"]["Returns"][0];
 
 // Extended types for application use
 export interface PollWithDetails extends Poll {
@@ -279,12 +949,26 @@ export interface PollWithDetails extends Poll {
   vote_count?: number;
   view_count?: number;
   user_vote?: Vote | null;
+  // Emails and @domains allowed to vote; only loaded for the poll's creator
+  voter_allowlist?: string[];
+  tags?: string[];
+  // How the poll matched a search, when it came from one
+  search?: PollSearchMatch;
+}
+
+// Highlights are marked with <mark> tags; split them with splitHighlights
+export interface PollSearchMatch {
+  rank: number;
+  title_highlight: string;
+  // Where the description or options matched, if they did
+  snippet: string | null;
 }
 
 export interface PollOptionWithVotes extends PollOption {
   votes?: Vote[];
   vote_count?: number;
   percentage?: number;
+  average_score?: number | null;
 }
 
 export interface PollWithResults extends Poll {
@@ -295,6 +979,13 @@ export interface PollWithResults extends Poll {
   user_has_voted?: boolean;
 }
 
+// Change to a single option's vote count pushed by the live results channel
+export interface PollResultDelta {
+  option_id: string;
+  delta: number;
+  vote_id?: string;
+}
+
 // Form types
 export interface CreatePollForm {
   title: string;
@@ -303,16 +994,178 @@ export interface CreatePollForm {
   is_public: boolean;
   allow_multiple_votes: boolean;
   allow_anonymous_votes: boolean;
+  poll_type?: PollType;
+  // Leave empty to open the poll right away
+  opens_at?: Date | null;
   expires_at?: Date | null;
+  // Saves the poll privately until it is published
+  is_draft?: boolean;
+  // Emails and @domains allowed to vote; empty lets everyone vote
+  voter_allowlist?: string[];
+  // Lets voters suggest options for the creator to approve
+  allow_suggestions?: boolean;
+  // How strictly repeat anonymous votes are caught
+  anonymous_dedupe?: AnonymousDedupe;
+  // Lowercase, hyphenated tags; at most 5
+  tags?: string[];
+}
+
+// An option in an edited poll; options without an id are added
+export interface EditPollOption {
+  id?: string;
+  text: string;
+}
+
+export interface EditPollForm extends Omit<CreatePollForm, "options"> {
+  // Complete option list in its new order
+  options: EditPollOption[];
+  // Required to remove options that already have votes
+  confirm_vote_loss?: boolean;
+}
+
+// Shape of poll_edits.changes as written by update_poll_with_options
+export interface PollEditChanges {
+  fields: Record<string, { from: Json; to: Json }>;
+  added: string[];
+  removed: { id: string; text: string; votes: number }[];
+  renamed: { id: string; from: string; to: string }[];
+  reordered: boolean;
 }
 
 export interface VoteForm {
   poll_id: string;
+  // For ranked polls, listed from most to least preferred
   option_ids: string[];
-  voter_fingerprint?: string;
+  // For score and rating polls, the score given to each option id
+  scores?: Record<string, number>;
+}
+
+// A ballot imported through POST /api/polls/batch-vote
+export interface ImportedBallot {
+  // The ballot's id where it was collected, such as a paper ballot's number
+  ballotId: string;
+  // For ranked polls, listed from most to least preferred
+  optionIds: string[];
+  scores?: Record<string, number>;
+}
+
+export interface BallotImportFailure {
+  row: number; // Index of the ballot in the request, or its line in a CSV
+  ballotId: string;
+  error: string;
+}
+
+export interface VoteImportResult {
+  processed: number;
+  failed: number;
+  failures: BallotImportFailure[];
+}
+
+// Returned by POST /api/polls/[id]/import for a preview and for a commit alike
+export interface BallotCsvImportResult extends VoteImportResult {
+  committed: boolean;
+  ballots: number; // Ballots read from the CSV
+  // Votes added per option by the ballots that were (or would be) imported
+  tally: { option_id: string; option_text: string; votes: number }[];
+}
+
+// Instant-runoff types
+export interface RankedChoiceRound {
+  round: number;
+  tallies: Record<string, number>;
+  eliminated: string[];
+  exhausted_ballots: number;
+}
+
+export interface RankedChoiceResult {
+  rounds: RankedChoiceRound[];
+  winner_id: string | null;
+  total_ballots: number;
+}
+
+// API key types
+export type ApiKeyScope =
+  | "polls:read"
+  | "polls:write"
+  | "votes:write"
+  | "votes:import"
+  | "polls:export";
+
+export interface CreateApiKeyForm {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_at?: Date | null;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  // The full key, returned only once at creation
+  key: string;
+}
+
+// Webhook types
+export type WebhookEvent =
+  | "poll.created"
+  | "poll.opened"
+  | "vote.cast"
+  | "poll.expired"
+  | "poll.vote_threshold";
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "delivering"
+  | "succeeded"
+  | "failed";
+
+export interface CreateWebhookForm {
+  url: string;
+  events: WebhookEvent[];
+  // Omitted for account-wide webhooks
+  poll_id?: string | null;
+  vote_threshold?: number | null;
+}
+
+export interface CreatedWebhook {
+  webhook: Webhook;
+  // The signing secret, returned only once at creation
+  secret: string;
+}
+
+// Invite types
+export interface CreatePollInviteForm {
+  label?: string | null;
+  expires_at?: Date | null;
+  max_uses?: number | null;
+}
+
+export interface CreatedPollInvite {
+  invite: PollInvite;
+  // The token in the invite link, returned only once at creation
+  token: string;
+}
+
+// Suggestion types
+export interface CreateOptionSuggestionForm {
+  text: string;
+  // Vote for the option once it is approved; choice and approval polls only
+  auto_vote?: boolean;
+}
+
+// Comment types
+export interface CreatePollCommentForm {
+  body: string;
+  parent_id?: string | null;
+  show_vote?: boolean;
+}
+
+export interface EditPollCommentForm {
+  body?: string;
+  show_vote?: boolean;
 }
 
 // Analytics types
+export type AnalyticsBucket = "hour" | "day" | "week";
+
 export interface PollAnalytics {
   poll: Poll;
   results: PollResult[];
@@ -330,4 +1183,29 @@ export interface PollAnalytics {
     source: string;
     count: number;
   }>;
+  total_shares: number;
+  shares_by_method: Array<{
+    method: string;
+    count: number;
+  }>;
+  bucket: AnalyticsBucket;
+  range_start: string;
+  range_end: string;
+}
+
+// Export types
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+// Which table a CSV export contains; JSON and XLSX always contain both
+export type ExportDataset = "results" | "votes";
+
+export interface VoteExportRow {
+  option_text: string;
+  created_at: string;
+  // Stable per voter within a poll, but not reversible to a user or fingerprint
+  voter_key: string;
+  rank: number | null;
+  score: number | null;
+  // Null unless the vote was flagged; only accepted flagged votes are counted
+  review_status: VoteReviewStatus | null;
 }
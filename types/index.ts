@@ -66,7 +66,17 @@ export interface RegisterData {
 
 export interface AuthResponse {
   user: User;
+  // Supabase access token; send as "Authorization: Bearer <token>"
   token: string;
+  refreshToken: string;
+  // Unix time in seconds at which token stops being accepted
+  expiresAt: number;
+}
+
+// Returned by registration when the account must confirm its email first
+export interface PendingConfirmationResponse {
+  user: User;
+  confirmationRequired: true;
 }
 
 export interface ApiResponse<T> {